@@ -0,0 +1,145 @@
+/**
+ * 本地大模型桩服务（OpenAI 兼容 /v1/chat/completions），用于联调与测试洞察报告
+ *
+ * 用法：
+ *   npm run mock:llm
+ *   INSIGHT_LLM_BASE_URL=http://localhost:8787/v1 npm run dev
+ *
+ * 环境变量：
+ *   MOCK_LLM_PORT  监听端口，默认 8787
+ *   MOCK_LLM_MODE  valid（默认，按摘要返回三段式报告）/ invalid（缺少段落）/ error（返回500）/ slow（延迟返回，用于超时）
+ *   MOCK_LLM_DELAY_MS  slow 模式的延迟，默认 60000
+ */
+
+import http from 'node:http';
+
+const PORT = Number(process.env.MOCK_LLM_PORT) || 8787;
+const MODE = process.env.MOCK_LLM_MODE || 'valid';
+const DELAY_MS = Number(process.env.MOCK_LLM_DELAY_MS) || 60000;
+
+const TREND_LABELS = { up: '上升', down: '下降', flat: '平稳' };
+
+/**
+ * 格式化变化量
+ */
+function formatChange(change, changeType) {
+  if (change === null || change === undefined) return '无上期数据';
+  const sign = change > 0 ? '+' : '';
+  return changeType === 'point' ? `${sign}${change.toFixed(2)}pp` : `${sign}${change.toFixed(1)}%`;
+}
+
+/**
+ * 按摘要生成三段式报告
+ * @param digest 洞察摘要
+ */
+function buildReport(digest) {
+  const labels = Object.fromEntries((digest.metrics || []).map(metric => [metric.field, metric.label]));
+  const trends = (digest.trends || []).map(trend =>
+    `- ${labels[trend.metric] || trend.metric}：本期 ${trend.latest}，环比 ${formatChange(trend.change, trend.changeType)}，近期整体${TREND_LABELS[trend.direction] || '平稳'}。`
+  );
+  const anomalies = [
+    ...(digest.outliers || []).map(outlier =>
+      `- ${outlier.period} ${labels[outlier.metric] || outlier.metric} 为 ${outlier.value}，超出正常范围 ${outlier.lower} ~ ${outlier.upper}。`
+    ),
+    ...(digest.flaggedUnits || []).map(unit => `- ${unit.alias}（保费占比 ${unit.premiumShare}%）：${unit.flags.join('；')}。`)
+  ];
+  const drivers = (digest.attributions || [])
+    .filter(attribution => attribution.contributors.length > 0)
+    .map(attribution => {
+      const top = attribution.contributors[0];
+      return `- ${labels[attribution.metric] || attribution.metric}变化 ${attribution.change}，主要来自 ${top.alias}（贡献 ${top.contribution}）。`;
+    });
+  const focus = digest.attributions?.[0]?.contributors?.[0]?.alias;
+
+  return [
+    `# 车险成本趋势分析报告（${digest.period?.current || '无数据'}）`,
+    '',
+    '## 一、趋势分析',
+    '',
+    ...(trends.length > 0 ? trends : ['- 暂无趋势数据。']),
+    '',
+    '## 二、异常识别',
+    '',
+    ...(anomalies.length > 0 ? anomalies : ['- 未发现明显异常。']),
+    '',
+    '## 三、业务洞察',
+    '',
+    ...drivers,
+    '',
+    `1. ${focus ? `重点复盘 ${focus} 的赔付与费用变化` : '持续按周跟踪核心成本指标'}。`,
+    '2. 对异常单元逐一核实数据并跟进整改。',
+    '3. 结合预警规则设定下周监控阈值。',
+    ''
+  ].join('\n');
+}
+
+/**
+ * 读取请求体
+ */
+function readBody(request) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    request.on('data', chunk => chunks.push(chunk));
+    request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    request.on('error', reject);
+  });
+}
+
+/**
+ * 返回JSON响应
+ */
+function sendJson(response, status, body) {
+  response.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  response.end(JSON.stringify(body));
+}
+
+const server = http.createServer(async (request, response) => {
+  if (request.method === 'GET' && request.url === '/v1/models') {
+    sendJson(response, 200, { object: 'list', data: [{ id: 'mock-insight', object: 'model' }] });
+    return;
+  }
+  if (request.method !== 'POST' || request.url !== '/v1/chat/completions') {
+    sendJson(response, 404, { error: { message: 'not found' } });
+    return;
+  }
+
+  let payload;
+  try {
+    payload = JSON.parse(await readBody(request));
+  } catch {
+    sendJson(response, 400, { error: { message: 'invalid json' } });
+    return;
+  }
+
+  if (MODE === 'error') {
+    sendJson(response, 500, { error: { message: 'mock failure' } });
+    return;
+  }
+  if (MODE === 'slow') {
+    await new Promise(resolve => setTimeout(resolve, DELAY_MS));
+  }
+
+  const userMessage = [...(payload.messages || [])].reverse().find(message => message.role === 'user');
+  let digest = {};
+  try {
+    digest = JSON.parse(userMessage?.content || '{}');
+  } catch {
+    // 非JSON输入按空摘要处理
+  }
+
+  const content = MODE === 'invalid'
+    ? '## 一、趋势分析\n\n- 指标总体平稳。\n'
+    : buildReport(digest);
+
+  sendJson(response, 200, {
+    id: `chatcmpl-mock-${Date.now()}`,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model: payload.model || 'mock-insight',
+    choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }]
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`mock LLM server (${MODE}) listening on http://localhost:${PORT}/v1`);
+});
@@ -0,0 +1,38 @@
+/**
+ * 维度聚合接口
+ * GET /api/aggregate?dimensions=third_level_organization,renewal_status&filters=&limit=
+ */
+
+import { NextRequest } from 'next/server';
+import { getServerDatabase } from '@/lib/server-database';
+import {
+  ApiRequestError,
+  jsonError,
+  jsonSuccess,
+  parseDimensionList,
+  parseFilters,
+  parsePositiveInt
+} from '@/lib/api-utils';
+
+export const runtime = 'nodejs';
+
+/**
+ * 按维度分组计算指标
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const dimensions = parseDimensionList(searchParams, 'dimensions');
+    if (dimensions.length === 0) {
+      throw new ApiRequestError('参数 dimensions 不能为空');
+    }
+    const filters = parseFilters(searchParams);
+    const limit = parsePositiveInt(searchParams, 'limit', 1000);
+
+    const results = await getServerDatabase().aggregateByDimensions(dimensions, filters, limit);
+
+    return jsonSuccess(results, { total: results.length });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * 数据文件读取接口
+ * GET /api/catalog/data?year=2025&week=33  读取指定年度（及周次）的周度CSV文件
+ */
+
+import { NextRequest } from 'next/server';
+import { loadWeekData } from '@/lib/data-scanner';
+import { ApiRequestError, jsonError, jsonSuccess, parsePositiveInt } from '@/lib/api-utils';
+
+export const runtime = 'nodejs';
+
+/**
+ * 读取周度数据文件
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    if (!searchParams.get('year')) {
+      throw new ApiRequestError('参数 year 不能为空');
+    }
+    const year = parsePositiveInt(searchParams, 'year', 0);
+    const week = searchParams.get('week') ? parsePositiveInt(searchParams, 'week', 0) : undefined;
+
+    const records = await loadWeekData(year, week);
+    return jsonSuccess(records, { total: records.length });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * 数据目录接口
+ * GET /api/catalog  扫描 data4dash/ 并刷新 metadata/ 下的元数据文件
+ */
+
+import { scanDataDirectory } from '@/lib/data-scanner';
+import { jsonError, jsonSuccess } from '@/lib/api-utils';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * 扫描数据目录
+ */
+export async function GET() {
+  try {
+    const scan = await scanDataDirectory();
+    return jsonSuccess(scan, { total: scan.catalog.totalFiles });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
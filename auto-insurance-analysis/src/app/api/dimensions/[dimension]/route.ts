@@ -0,0 +1,26 @@
+/**
+ * 维度取值接口
+ * GET /api/dimensions/{dimension}
+ */
+
+import { NextRequest } from 'next/server';
+import { getServerDatabase } from '@/lib/server-database';
+import { assertDimension, jsonError, jsonSuccess } from '@/lib/api-utils';
+
+export const runtime = 'nodejs';
+
+/**
+ * 获取维度的全部取值
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ dimension: string }> }
+) {
+  try {
+    const { dimension } = await params;
+    const values = await getServerDatabase().getDimensionValues(assertDimension(dimension));
+    return jsonSuccess(values, { total: values.length });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
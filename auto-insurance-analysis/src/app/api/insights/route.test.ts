@@ -0,0 +1,97 @@
+import { ChildProcess, spawn } from 'node:child_process';
+import path from 'node:path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/insights/route';
+import digest from '@/lib/fixtures/insight-digest.json';
+
+const MOCK_SERVER = path.resolve(__dirname, '../../../../scripts/mock-llm-server.mjs');
+
+let server: ChildProcess | null = null;
+
+/**
+ * 启动本地大模型桩服务并等待其开始监听
+ * @param mode 桩服务模式
+ * @param port 监听端口
+ * @param extraEnv 额外环境变量
+ */
+function startMockServer(mode: string, port: number, extraEnv: Record<string, string> = {}): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, [MOCK_SERVER], {
+      env: { ...process.env, MOCK_LLM_MODE: mode, MOCK_LLM_PORT: String(port), ...extraEnv },
+      stdio: ['ignore', 'pipe', 'inherit']
+    });
+    server = child;
+    child.stdout?.on('data', chunk => {
+      if (String(chunk).includes('listening')) resolve();
+    });
+    child.on('error', reject);
+    child.on('exit', code => reject(new Error(`桩服务已退出（${code}）`)));
+  });
+}
+
+/**
+ * 调用洞察接口
+ * @param body 请求体
+ */
+async function postInsight(body: unknown) {
+  const response = await POST(new NextRequest('http://localhost/api/insights', {
+    method: 'POST',
+    body: JSON.stringify(body)
+  }));
+  return { status: response.status, body: await response.json() };
+}
+
+afterEach(() => {
+  server?.kill();
+  server = null;
+  vi.unstubAllEnvs();
+});
+
+describe('POST /api/insights（本地大模型桩服务）', () => {
+  it('返回通过三段式校验的报告', async () => {
+    await startMockServer('valid', 18787);
+    vi.stubEnv('INSIGHT_LLM_BASE_URL', 'http://127.0.0.1:18787/v1');
+
+    const { status, body } = await postInsight({ digest });
+    expect(status).toBe(200);
+    expect(body.data.markdown).toContain('## 三、业务洞察');
+    expect(body.data.markdown).toContain('SEG-002');
+  });
+
+  it('输出缺少段落时返回502', async () => {
+    await startMockServer('invalid', 18788);
+    vi.stubEnv('INSIGHT_LLM_BASE_URL', 'http://127.0.0.1:18788/v1');
+
+    const { status, body } = await postInsight({ digest });
+    expect(status).toBe(502);
+    expect(body.message).toContain('三段式');
+  });
+
+  it('大模型接口报错时返回502', async () => {
+    await startMockServer('error', 18789);
+    vi.stubEnv('INSIGHT_LLM_BASE_URL', 'http://127.0.0.1:18789/v1');
+
+    const { status } = await postInsight({ digest });
+    expect(status).toBe(502);
+  });
+
+  it('大模型接口超时返回504', async () => {
+    await startMockServer('slow', 18790, { MOCK_LLM_DELAY_MS: '5000' });
+    vi.stubEnv('INSIGHT_LLM_BASE_URL', 'http://127.0.0.1:18790/v1');
+    vi.stubEnv('INSIGHT_LLM_TIMEOUT_MS', '200');
+
+    const { status } = await postInsight({ digest });
+    expect(status).toBe(504);
+  });
+
+  it('摘要含未匿名化取值时返回400且不调用大模型', async () => {
+    vi.stubEnv('INSIGHT_LLM_BASE_URL', 'http://127.0.0.1:18791/v1');
+
+    const { status, body } = await postInsight({
+      digest: { ...digest, filters: [{ dimension: '三级机构/城市', values: ['天府'] }] }
+    });
+    expect(status).toBe(400);
+    expect(body.message).toContain('filters[0].values[0]');
+  });
+});
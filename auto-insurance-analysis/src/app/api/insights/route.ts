@@ -0,0 +1,65 @@
+/**
+ * 大模型洞察接口
+ * POST /api/insights  { digest: InsightDigest }  按白名单重建匿名化摘要后发送到 INSIGHT_LLM_BASE_URL 配置的 OpenAI 兼容接口，
+ * 返回通过三段式结构校验的 Markdown；未配置或校验失败时返回错误，由前端回退到规则模板报告。
+ * 摘要格式无效返回400，大模型接口失败或输出不合格返回502，超时返回504
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiRequestError, jsonError, jsonSuccess } from '@/lib/api-utils';
+import { InsightDigest, sanitizeInsightDigest } from '@/lib/insight-digest';
+import {
+  InsightProviderError,
+  createOpenAICompatibleProvider,
+  getLLMConfigFromEnv,
+  validateInsightMarkdown
+} from '@/lib/insight-providers';
+
+export const runtime = 'nodejs';
+
+/**
+ * 生成大模型洞察报告
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let body: { digest?: unknown };
+    try {
+      body = await request.json();
+    } catch {
+      throw new ApiRequestError('请求体不是合法的JSON');
+    }
+
+    if (typeof body.digest !== 'object' || body.digest === null) {
+      throw new ApiRequestError('请求体必须包含 digest 摘要对象');
+    }
+    let digest: InsightDigest;
+    try {
+      digest = sanitizeInsightDigest(body.digest);
+    } catch (error) {
+      throw new ApiRequestError(error instanceof Error ? error.message : '摘要格式无效');
+    }
+
+    const config = getLLMConfigFromEnv();
+    if (!config) {
+      throw new ApiRequestError('未配置大模型接口（INSIGHT_LLM_BASE_URL）');
+    }
+
+    const provider = createOpenAICompatibleProvider(config);
+    let markdown: string;
+    try {
+      markdown = await provider.generate(digest, request.signal);
+    } catch (error) {
+      if (error instanceof InsightProviderError) {
+        throw new ApiRequestError(error.message, error.kind === 'timeout' ? 504 : 502);
+      }
+      throw error;
+    }
+    const errors = validateInsightMarkdown(markdown);
+    if (errors.length > 0) {
+      throw new ApiRequestError(`大模型输出不符合三段式结构：${errors.join('；')}`, 502);
+    }
+    return jsonSuccess({ markdown, provider: provider.label });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
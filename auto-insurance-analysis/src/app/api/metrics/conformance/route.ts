@@ -0,0 +1,20 @@
+/**
+ * 指标口径一致性校验接口
+ * GET /api/metrics/conformance
+ */
+
+import { jsonError, jsonSuccess } from '@/lib/api-utils';
+import { verifyMetricConformance } from '@/lib/metric-conformance';
+
+export const runtime = 'nodejs';
+
+/**
+ * 使用黄金样例校验各计算入口，返回偏差明细
+ */
+export async function GET() {
+  try {
+    return jsonSuccess(verifyMetricConformance());
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * 跨周一致性核对接口
+ * GET /api/reconciliation?regressionTolerance=&jumpTolerance=&minBaseValue=&dimensions=
+ */
+
+import { NextRequest } from 'next/server';
+import { getServerDatabase } from '@/lib/server-database';
+import { jsonError, jsonSuccess, parseDimensionList, parseNonNegativeNumber } from '@/lib/api-utils';
+import { DEFAULT_RECONCILIATION_OPTIONS } from '@/lib/week-reconciliation';
+
+export const runtime = 'nodejs';
+
+/**
+ * 比较相邻周次各切片的满期保费与已报告赔款
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const dimensions = parseDimensionList(searchParams, 'dimensions')
+      .filter(field => field !== 'week_number' && field !== 'snapshot_date');
+
+    const report = await getServerDatabase().reconcileWeeks({
+      regressionTolerance: parseNonNegativeNumber(
+        searchParams, 'regressionTolerance', DEFAULT_RECONCILIATION_OPTIONS.regressionTolerance
+      ),
+      jumpTolerance: parseNonNegativeNumber(searchParams, 'jumpTolerance', DEFAULT_RECONCILIATION_OPTIONS.jumpTolerance),
+      minBaseValue: parseNonNegativeNumber(searchParams, 'minBaseValue', DEFAULT_RECONCILIATION_OPTIONS.minBaseValue),
+      ...(dimensions.length > 0 ? { dimensions } : {})
+    });
+    return jsonSuccess(report);
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * 导入变化预览接口
+ * POST /api/records/preview  { records: InsuranceRecord[], mode? }  计算写入后新增/更新/舍弃的行数，不修改数据集
+ */
+
+import { NextRequest } from 'next/server';
+import { getServerDatabase } from '@/lib/server-database';
+import { jsonError, jsonSuccess, parseImportRequest } from '@/lib/api-utils';
+
+export const runtime = 'nodejs';
+
+/**
+ * 预览导入变化
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { records, mode } = await parseImportRequest(request);
+    return jsonSuccess(await getServerDatabase().previewImport(records, mode));
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * 记录查询与写入接口
+ * GET    /api/records?filters=&sortField=&sortOrder=&page=&pageSize=  条件查询（分页）
+ * POST   /api/records  { records, mode?, fileName?, operator? }       按导入模式批量写入共享数据集并记录版本（默认追加）
+ * DELETE /api/records                                                 清空共享数据集
+ * POST 与 DELETE 须携带写入令牌（Authorization: Bearer <INSURANCE_WRITE_TOKEN>）
+ */
+
+import { NextRequest } from 'next/server';
+import { getServerDatabase } from '@/lib/server-database';
+import { hashRecords } from '@/lib/dataset-versions';
+import {
+  assertWriteAuthorized,
+  jsonError,
+  jsonSuccess,
+  parseEnumParam,
+  parseFilters,
+  parseImportRequest,
+  parsePositiveInt,
+  parseSortField
+} from '@/lib/api-utils';
+
+export const runtime = 'nodejs';
+
+/**
+ * 条件查询记录
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const filters = parseFilters(searchParams);
+    const sortField = parseSortField(searchParams, 'sortField');
+    const sortOrder = parseEnumParam(searchParams, 'sortOrder', ['asc', 'desc'] as const, 'asc');
+    const page = parsePositiveInt(searchParams, 'page', 1);
+    const pageSize = parsePositiveInt(searchParams, 'pageSize', 1000);
+
+    const result = await getServerDatabase().findByConditions(filters, sortField, sortOrder, page, pageSize);
+
+    return jsonSuccess(result.data, {
+      total: result.total,
+      page: result.page,
+      pageSize: result.pageSize
+    });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+/**
+ * 按导入模式批量写入记录
+ */
+export async function POST(request: NextRequest) {
+  try {
+    assertWriteAuthorized(request);
+    const { records, mode, fileName, operator } = await parseImportRequest(request);
+    const source = {
+      fileName: fileName ?? 'API写入',
+      fileHash: await hashRecords(records),
+      operator: operator ?? 'API'
+    };
+
+    const result = await getServerDatabase().insertBatch(records, mode, source);
+    if (!result.success) {
+      throw new Error('批量写入失败');
+    }
+
+    return jsonSuccess(result, {
+      message: `新增 ${result.insertedCount} 条，更新 ${result.updatedCount} 条，舍弃 ${result.droppedCount} 条记录`
+    });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+/**
+ * 清空数据集
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    assertWriteAuthorized(request);
+    await getServerDatabase().truncate();
+    return jsonSuccess(null, { message: '数据已清空' });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * 业务规则自检接口
+ * GET /api/rules/verify
+ */
+
+import { jsonError, jsonSuccess } from '@/lib/api-utils';
+import { verifyBusinessRules } from '@/lib/business-rules';
+
+export const runtime = 'nodejs';
+
+/**
+ * 校验规则定义并用各规则样例确认判定结果
+ */
+export async function GET() {
+  try {
+    return jsonSuccess(verifyBusinessRules());
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * 汇总统计接口
+ * GET /api/summary?filters=
+ */
+
+import { NextRequest } from 'next/server';
+import { getServerDatabase } from '@/lib/server-database';
+import { jsonError, jsonSuccess, parseFilters } from '@/lib/api-utils';
+
+export const runtime = 'nodejs';
+
+/**
+ * 获取筛选范围内的汇总指标
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const filters = parseFilters(request.nextUrl.searchParams);
+    const result = await getServerDatabase().getSummaryStats(filters);
+    return jsonSuccess(result);
+  } catch (error) {
+    return jsonError(error);
+  }
+}
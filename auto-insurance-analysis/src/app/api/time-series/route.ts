@@ -0,0 +1,27 @@
+/**
+ * 时间序列接口
+ * GET /api/time-series?groupBy=year|week|year_week&filters=
+ */
+
+import { NextRequest } from 'next/server';
+import { getServerDatabase } from '@/lib/server-database';
+import { jsonError, jsonSuccess, parseEnumParam, parseFilters } from '@/lib/api-utils';
+
+export const runtime = 'nodejs';
+
+/**
+ * 按时间粒度聚合指标
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const groupBy = parseEnumParam(searchParams, 'groupBy', ['year', 'week', 'year_week'] as const, 'year_week');
+    const filters = parseFilters(searchParams);
+
+    const results = await getServerDatabase().getTimeSeriesData(groupBy, filters);
+
+    return jsonSuccess(results, { total: results.length });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * 版本差异接口
+ * GET /api/versions/diff?from=&to=  对比两个版本按三级机构的聚合结果
+ */
+
+import { NextRequest } from 'next/server';
+import { getServerDatabase } from '@/lib/server-database';
+import { ApiRequestError, jsonError, jsonSuccess, parsePositiveInt } from '@/lib/api-utils';
+
+export const runtime = 'nodejs';
+
+/**
+ * 对比两个版本
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    if (!searchParams.get('from') || !searchParams.get('to')) {
+      throw new ApiRequestError('缺少参数 from 或 to');
+    }
+    const from = parsePositiveInt(searchParams, 'from', 1);
+    const to = parsePositiveInt(searchParams, 'to', 1);
+
+    const versions = await getServerDatabase().listVersions();
+    const missing = [from, to].find(version => !versions.some(item => item.version === version));
+    if (missing !== undefined) {
+      throw new ApiRequestError(`版本 ${missing} 不存在`);
+    }
+
+    return jsonSuccess(await getServerDatabase().diffVersions(from, to));
+  } catch (error) {
+    return jsonError(error);
+  }
+}
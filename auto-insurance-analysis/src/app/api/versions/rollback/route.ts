@@ -0,0 +1,41 @@
+/**
+ * 版本回滚接口
+ * POST /api/versions/rollback  { version: number }  回滚到指定版本导入完成时的状态（0表示首个版本之前）
+ * 须携带写入令牌（Authorization: Bearer <INSURANCE_WRITE_TOKEN>）
+ */
+
+import { NextRequest } from 'next/server';
+import { getServerDatabase } from '@/lib/server-database';
+import { ApiRequestError, assertWriteAuthorized, jsonError, jsonSuccess } from '@/lib/api-utils';
+
+export const runtime = 'nodejs';
+
+/**
+ * 回滚数据集
+ */
+export async function POST(request: NextRequest) {
+  try {
+    assertWriteAuthorized(request);
+    let body: { version?: unknown };
+    try {
+      body = await request.json();
+    } catch {
+      throw new ApiRequestError('请求体不是合法的JSON');
+    }
+
+    const version = body.version;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+      throw new ApiRequestError('参数 version 必须是非负整数');
+    }
+
+    const versions = await getServerDatabase().listVersions();
+    if (version !== 0 && !versions.some(item => item.version === version)) {
+      throw new ApiRequestError(`版本 ${version} 不存在`);
+    }
+
+    const undone = await getServerDatabase().rollbackTo(version);
+    return jsonSuccess(undone, { message: `已回滚到版本 ${version}，撤销 ${undone.length} 个版本` });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * 数据集版本接口
+ * GET /api/versions  列出全部导入版本（按版本号升序）
+ */
+
+import { getServerDatabase } from '@/lib/server-database';
+import { jsonError, jsonSuccess } from '@/lib/api-utils';
+
+export const runtime = 'nodejs';
+
+/**
+ * 列出数据集版本
+ */
+export async function GET() {
+  try {
+    const versions = await getServerDatabase().listVersions();
+    return jsonSuccess(versions, { total: versions.length });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,228 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { db } from '@/lib/database';
+import { DIMENSION_FIELDS, DISPLAY_NAMES } from '@/lib/constants';
+import { FilterConditions, FilterDimensions } from '@/types/insurance';
+import {
+  ALERT_METRICS,
+  ALERT_OPERATOR_LABELS,
+  ALERT_SEVERITY_LABELS,
+  AlertOperator,
+  AlertRule,
+  AlertRuleSeverity,
+  getAlertMetricLabel,
+  validateAlertRule
+} from '@/lib/alert-rules';
+
+/**
+ * 表单提交的规则（新建时不含id）
+ */
+export type AlertRuleDraft = Omit<AlertRule, 'id' | 'createdAt' | 'updatedAt'> & { id?: string };
+
+interface AlertRuleFormProps {
+  initialRule?: AlertRule;
+  onSubmit: (rule: AlertRuleDraft) => void;
+  onCancel: () => void;
+}
+
+type ScopeValue = string | number | boolean;
+
+/**
+ * 可作为适用范围的维度（周序号与快照日期除外）
+ */
+const SCOPE_FIELDS = DIMENSION_FIELDS.filter(field => field !== 'week_number' && field !== 'snapshot_date');
+
+const EMPTY_RULE: AlertRuleDraft = {
+  name: '',
+  scope: {},
+  metric: 'expired_loss_ratio_percent',
+  operator: 'gt',
+  threshold: 0,
+  severity: 'warning',
+  enabled: true
+};
+
+/**
+ * 预警规则编辑表单
+ * 适用范围按维度多选取值，同一维度多个取值表示任一匹配
+ */
+export function AlertRuleForm({ initialRule, onSubmit, onCancel }: AlertRuleFormProps) {
+  const [draft, setDraft] = useState<AlertRuleDraft>(initialRule ?? EMPTY_RULE);
+  const [thresholdText, setThresholdText] = useState(String((initialRule ?? EMPTY_RULE).threshold));
+  const [scopeField, setScopeField] = useState<keyof FilterDimensions>('third_level_organization');
+  const [scopeOptions, setScopeOptions] = useState<ScopeValue[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  // 切换范围维度时加载可选取值
+  useEffect(() => {
+    let cancelled = false;
+    db.getDimensionValues(scopeField)
+      .then(values => {
+        if (!cancelled) setScopeOptions(values);
+      })
+      .catch(() => {
+        if (!cancelled) setScopeOptions([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [scopeField]);
+
+  const getScopeValues = (field: keyof FilterDimensions): ScopeValue[] => {
+    const value = draft.scope[field];
+    if (value === undefined || value === null) return [];
+    return (Array.isArray(value) ? value : [value]) as ScopeValue[];
+  };
+
+  /**
+   * 切换范围维度的某个取值
+   */
+  const toggleScopeValue = (field: keyof FilterDimensions, value: ScopeValue) => {
+    const current = getScopeValues(field);
+    const next = current.includes(value) ? current.filter(item => item !== value) : [...current, value];
+    const scope: FilterConditions = { ...draft.scope };
+    if (next.length === 0) {
+      delete scope[field];
+    } else {
+      (scope as Record<string, ScopeValue[]>)[field] = next;
+    }
+    setDraft({ ...draft, scope });
+  };
+
+  const removeScopeField = (field: keyof FilterDimensions) => {
+    const scope: FilterConditions = { ...draft.scope };
+    delete scope[field];
+    setDraft({ ...draft, scope });
+  };
+
+  const handleSubmit = () => {
+    const rule = { ...draft, name: draft.name.trim(), threshold: thresholdText.trim() === '' ? NaN : Number(thresholdText) };
+    const validationErrors = validateAlertRule(rule);
+    setErrors(validationErrors);
+    if (validationErrors.length === 0) onSubmit(rule);
+  };
+
+  const scopedFields = (Object.keys(draft.scope) as (keyof FilterDimensions)[]).filter(field => getScopeValues(field).length > 0);
+
+  return (
+    <div className="space-y-4 rounded border border-gray-200 p-4">
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-3 text-sm">
+        <label className="flex flex-col text-gray-600 md:col-span-2">
+          <span>规则名称</span>
+          <input
+            value={draft.name}
+            onChange={event => setDraft({ ...draft, name: event.target.value })}
+            placeholder="如：天府营业货车赔付率过高"
+            className="mt-1 rounded border border-gray-300 px-2 py-1"
+          />
+        </label>
+        <label className="flex flex-col text-gray-600">
+          <span>指标</span>
+          <select
+            value={draft.metric}
+            onChange={event => setDraft({ ...draft, metric: event.target.value as AlertRule['metric'] })}
+            className="mt-1 rounded border border-gray-300 px-2 py-1"
+          >
+            {ALERT_METRICS.map(metric => (
+              <option key={metric} value={metric}>{getAlertMetricLabel(metric)}</option>
+            ))}
+          </select>
+        </label>
+        <div className="flex items-end gap-2">
+          <label className="flex flex-col text-gray-600">
+            <span>条件</span>
+            <select
+              value={draft.operator}
+              onChange={event => setDraft({ ...draft, operator: event.target.value as AlertOperator })}
+              className="mt-1 rounded border border-gray-300 px-2 py-1"
+            >
+              {(Object.keys(ALERT_OPERATOR_LABELS) as AlertOperator[]).map(operator => (
+                <option key={operator} value={operator}>{ALERT_OPERATOR_LABELS[operator]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-1 flex-col text-gray-600">
+            <span>阈值</span>
+            <input
+              type="number"
+              value={thresholdText}
+              onChange={event => setThresholdText(event.target.value)}
+              className="mt-1 w-full rounded border border-gray-300 px-2 py-1"
+            />
+          </label>
+        </div>
+        <label className="flex flex-col text-gray-600">
+          <span>级别</span>
+          <select
+            value={draft.severity}
+            onChange={event => setDraft({ ...draft, severity: event.target.value as AlertRuleSeverity })}
+            className="mt-1 rounded border border-gray-300 px-2 py-1"
+          >
+            <option value="critical">{ALERT_SEVERITY_LABELS.critical}</option>
+            <option value="warning">{ALERT_SEVERITY_LABELS.warning}</option>
+          </select>
+        </label>
+      </div>
+
+      {/* 适用范围 */}
+      <div className="space-y-2 text-sm">
+        <div className="flex items-center gap-2 text-gray-600">
+          <span>适用范围</span>
+          <select
+            value={scopeField}
+            onChange={event => setScopeField(event.target.value as keyof FilterDimensions)}
+            className="rounded border border-gray-300 px-2 py-1"
+          >
+            {SCOPE_FIELDS.map(field => (
+              <option key={field} value={field}>{DISPLAY_NAMES[field]}</option>
+            ))}
+          </select>
+          {scopedFields.length === 0 && <span className="text-xs text-gray-500">未设置时适用于所有分组</span>}
+        </div>
+        <div className="flex max-h-32 flex-wrap gap-2 overflow-auto">
+          {scopeOptions.map(value => {
+            const selected = getScopeValues(scopeField).includes(value);
+            return (
+              <button
+                key={String(value)}
+                type="button"
+                onClick={() => toggleScopeValue(scopeField, value)}
+                className={`rounded border px-2 py-0.5 text-xs ${selected ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-600'}`}
+              >
+                {selected ? <X className="mr-1 inline h-3 w-3" /> : <Plus className="mr-1 inline h-3 w-3" />}
+                {String(value)}
+              </button>
+            );
+          })}
+          {scopeOptions.length === 0 && <span className="text-xs text-gray-500">暂无可选取值</span>}
+        </div>
+        {scopedFields.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {scopedFields.map(field => (
+              <span key={field} className="rounded bg-gray-100 px-2 py-0.5 text-xs text-gray-700">
+                {DISPLAY_NAMES[field]}：{getScopeValues(field).map(String).join('、')}
+                <button type="button" onClick={() => removeScopeField(field)} className="ml-1 text-gray-500 hover:text-red-600">
+                  <X className="inline h-3 w-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-sm text-red-600">
+          {errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={onCancel}>取消</Button>
+        <Button size="sm" onClick={handleSubmit}>{draft.id ? '保存修改' : '添加规则'}</Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,266 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Download, Pencil, Play, Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { db } from '@/lib/database';
+import { DISPLAY_NAMES } from '@/lib/constants';
+import { formatSlice } from '@/lib/week-reconciliation';
+import { FilterConditions } from '@/types/insurance';
+import {
+  ALERT_OPERATOR_LABELS,
+  ALERT_SEVERITY_LABELS,
+  AlertEvaluation,
+  AlertRule,
+  AlertSeverity,
+  deleteAlertRule,
+  downloadAlertReport,
+  formatAlertScope,
+  getAlertDimensionSets,
+  getAlertMetricLabel,
+  loadAlertRules,
+  resetAlertRules,
+  saveAlertRules,
+  upsertAlertRule
+} from '@/lib/alert-rules';
+import { AlertRuleDraft, AlertRuleForm } from './AlertRuleForm';
+
+interface AlertRulesPanelProps {
+  filters: FilterConditions;
+  onError?: (error: string) => void;
+}
+
+/**
+ * 列表中展示的预警条数
+ */
+const MAX_VISIBLE_ALERTS = 200;
+
+/**
+ * 预警级别标签样式
+ */
+export const ALERT_SEVERITY_STYLES: Record<AlertSeverity, string> = {
+  critical: 'bg-red-100 text-red-800',
+  warning: 'bg-yellow-100 text-yellow-800',
+  normal: 'bg-green-100 text-green-800'
+};
+
+/**
+ * 预警规则面板
+ * 维护按机构/险种/客户类型等范围配置的预警规则，并在当前筛选条件下评估、导出已触发的预警
+ */
+export function AlertRulesPanel({ filters, onError }: AlertRulesPanelProps) {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [editing, setEditing] = useState<AlertRule | 'new' | null>(null);
+  const [evaluation, setEvaluation] = useState<AlertEvaluation | null>(null);
+  const [evaluating, setEvaluating] = useState(false);
+
+  useEffect(() => {
+    setRules(loadAlertRules());
+  }, []);
+
+  /**
+   * 在当前筛选条件下评估规则
+   */
+  const evaluate = useCallback(async () => {
+    setEvaluating(true);
+    try {
+      setEvaluation(await db.evaluateAlerts(rules, filters));
+    } catch (error) {
+      onError?.(`预警评估失败: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setEvaluating(false);
+    }
+  }, [rules, filters, onError]);
+
+  // 筛选条件变化后结果失效
+  useEffect(() => {
+    setEvaluation(null);
+  }, [filters]);
+
+  const handleSubmit = (rule: AlertRuleDraft) => {
+    setRules(upsertAlertRule(rule));
+    setEditing(null);
+    setEvaluation(null);
+  };
+
+  const handleDelete = (rule: AlertRule) => {
+    if (!confirm(`确定删除规则「${rule.name}」吗？`)) return;
+    setRules(deleteAlertRule(rule.id));
+    setEvaluation(null);
+  };
+
+  const handleToggle = (rule: AlertRule) => {
+    setRules(saveAlertRules(rules.map(item => (item.id === rule.id ? { ...item, enabled: !item.enabled } : item))));
+    setEvaluation(null);
+  };
+
+  const handleReset = () => {
+    if (!confirm('恢复默认规则将删除所有自定义规则，确定继续吗？')) return;
+    setRules(resetAlertRules());
+    setEvaluation(null);
+  };
+
+  const dimensionSets = getAlertDimensionSets(rules);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>预警规则</CardTitle>
+            <div className="flex space-x-2">
+              <Button variant="outline" size="sm" onClick={handleReset}>
+                <RotateCcw className="h-4 w-4 mr-1" />
+                恢复默认
+              </Button>
+              <Button size="sm" onClick={() => setEditing('new')} disabled={editing !== null}>
+                <Plus className="h-4 w-4 mr-1" />
+                新建规则
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {editing && (
+            <AlertRuleForm
+              key={editing === 'new' ? 'new' : editing.id}
+              initialRule={editing === 'new' ? undefined : editing}
+              onSubmit={handleSubmit}
+              onCancel={() => setEditing(null)}
+            />
+          )}
+
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-gray-700">
+              <tr>
+                <th className="px-2 py-1 text-left">启用</th>
+                <th className="px-2 py-1 text-left">规则</th>
+                <th className="px-2 py-1 text-left">适用范围</th>
+                <th className="px-2 py-1 text-left">条件</th>
+                <th className="px-2 py-1 text-left">级别</th>
+                <th className="px-2 py-1 text-right">操作</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rules.map(rule => (
+                <tr key={rule.id} className={`border-t border-gray-100 ${rule.enabled ? '' : 'text-gray-400'}`}>
+                  <td className="px-2 py-1">
+                    <input type="checkbox" checked={rule.enabled} onChange={() => handleToggle(rule)} />
+                  </td>
+                  <td className="px-2 py-1">{rule.name}</td>
+                  <td className="px-2 py-1">{formatAlertScope(rule.scope)}</td>
+                  <td className="px-2 py-1">
+                    {getAlertMetricLabel(rule.metric)} {ALERT_OPERATOR_LABELS[rule.operator]} {rule.threshold}
+                  </td>
+                  <td className="px-2 py-1">
+                    <span className={`rounded px-2 py-0.5 text-xs ${ALERT_SEVERITY_STYLES[rule.severity]}`}>
+                      {ALERT_SEVERITY_LABELS[rule.severity]}
+                    </span>
+                  </td>
+                  <td className="px-2 py-1 text-right">
+                    <Button variant="ghost" size="sm" onClick={() => setEditing(rule)} disabled={editing !== null}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(rule)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+              {rules.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-2 py-4 text-center text-gray-500">暂无规则</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>预警结果</CardTitle>
+            <div className="flex space-x-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => evaluation && downloadAlertReport(evaluation.alerts)}
+                disabled={!evaluation || evaluation.alerts.length === 0}
+              >
+                <Download className="h-4 w-4 mr-1" />
+                导出预警
+              </Button>
+              <Button size="sm" onClick={evaluate} disabled={evaluating}>
+                <Play className="h-4 w-4 mr-1" />
+                {evaluating ? '评估中…' : '按当前筛选评估'}
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-600">
+            分组维度：{dimensionSets.length > 0
+              ? dimensionSets.map(fields => (fields.length > 0 ? fields.map(field => DISPLAY_NAMES[field]).join(' × ') : '整体')).join('；')
+              : '整体（无启用的规则）'}
+          </p>
+
+          {evaluation && (
+            <>
+              <div className="flex flex-wrap gap-2 text-sm">
+                {(Object.keys(ALERT_SEVERITY_LABELS) as AlertSeverity[]).map(level => (
+                  <span key={level} className={`rounded px-2 py-0.5 ${ALERT_SEVERITY_STYLES[level]}`}>
+                    {ALERT_SEVERITY_LABELS[level]} {evaluation.levelCounts[level].toLocaleString()} 个分组
+                  </span>
+                ))}
+              </div>
+
+              {evaluation.alerts.length === 0 ? (
+                <p className="text-sm text-gray-500">当前筛选条件下没有触发的预警</p>
+              ) : (
+                <div className="max-h-96 overflow-auto">
+                  <table className="w-full text-xs">
+                    <thead className="bg-gray-50 text-gray-700 sticky top-0">
+                      <tr>
+                        <th className="px-2 py-1 text-left">级别</th>
+                        <th className="px-2 py-1 text-left">规则</th>
+                        <th className="px-2 py-1 text-left">分组</th>
+                        <th className="px-2 py-1 text-left">条件</th>
+                        <th className="px-2 py-1 text-right">实际值</th>
+                        <th className="px-2 py-1 text-right">签单保费（元）</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {evaluation.alerts.slice(0, MAX_VISIBLE_ALERTS).map((alert, index) => (
+                        <tr key={`${alert.ruleId}-${index}`} className="border-t border-gray-100">
+                          <td className="px-2 py-1">
+                            <span className={`rounded px-2 py-0.5 ${ALERT_SEVERITY_STYLES[alert.severity]}`}>
+                              {ALERT_SEVERITY_LABELS[alert.severity]}
+                            </span>
+                          </td>
+                          <td className="px-2 py-1">{alert.ruleName}</td>
+                          <td className="px-2 py-1">{formatSlice(alert.dimensions) || '全部'}</td>
+                          <td className="px-2 py-1">
+                            {getAlertMetricLabel(alert.metric)} {ALERT_OPERATOR_LABELS[alert.operator]} {alert.threshold}
+                          </td>
+                          <td className="px-2 py-1 text-right">{alert.value.toFixed(2)}</td>
+                          <td className="px-2 py-1 text-right">{Math.round(alert.signedPremium).toLocaleString()}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {evaluation.alerts.length > MAX_VISIBLE_ALERTS && (
+                    <p className="px-2 py-1 text-xs text-gray-500 italic">
+                      仅显示前 {MAX_VISIBLE_ALERTS} 条，完整清单请导出
+                    </p>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { aggregationClient } from '@/lib/aggregation-client';
+import { DISPLAY_NAMES } from '@/lib/constants';
+import {
+  ATTRIBUTION_METRICS,
+  AttributionMetric,
+  MetricAttributionResult,
+  SegmentContribution,
+  attributeMetricChange,
+  getAttributionUnit
+} from '@/services/attributionService';
+import { ComparisonPeriod } from '@/services/comparisonService';
+import { FilterConditions, FilterDimensions } from '@/types/insurance';
+
+interface AttributionPanelProps {
+  filters: FilterConditions;
+  currentPeriod: ComparisonPeriod;
+  baselinePeriod: ComparisonPeriod;
+  onError?: (error: string) => void;
+}
+
+/**
+ * 展开维度时列出的取值数
+ */
+const MAX_VISIBLE_SEGMENTS = 20;
+
+/**
+ * 格式化期间
+ */
+function formatPeriod(period: ComparisonPeriod): string {
+  return `${period.year}年第${period.week}周`;
+}
+
+/**
+ * 指标变化归因面板
+ * 将当期相对基期的指标变化分解为各维度取值的结构效应与费率效应，列出主要影响因子
+ */
+export function AttributionPanel({ filters, currentPeriod, baselinePeriod, onError }: AttributionPanelProps) {
+  const [metric, setMetric] = useState<AttributionMetric>('variable_cost_ratio_percent');
+  const [result, setResult] = useState<MetricAttributionResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [expanded, setExpanded] = useState<keyof FilterDimensions | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    attributeMetricChange(metric, currentPeriod, baselinePeriod, filters, undefined, undefined, aggregationClient)
+      .then(next => {
+        if (!cancelled) setResult(next);
+      })
+      .catch(error => {
+        if (!cancelled) onError?.(`归因分析失败: ${error instanceof Error ? error.message : String(error)}`);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [metric, currentPeriod, baselinePeriod, filters, onError]);
+
+  const { unit, decimals } = getAttributionUnit(metric);
+  const formatEffect = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(decimals)}${unit}`;
+  const formatValue = (value: number | null) => (value === null ? '-' : value.toFixed(decimals));
+  const effectClass = (value: number) => (value > 0 ? 'text-red-700' : value < 0 ? 'text-green-700' : '');
+
+  const renderSegment = (segment: SegmentContribution, index: number, showDimension: boolean) => (
+    <tr key={index} className="border-t border-gray-100">
+      {showDimension && <td className="px-2 py-1">{DISPLAY_NAMES[segment.dimension]}</td>}
+      <td className="px-2 py-1">{segment.label}</td>
+      <td className="px-2 py-1 text-right">{segment.baselineShare.toFixed(1)}% → {segment.currentShare.toFixed(1)}%</td>
+      <td className="px-2 py-1 text-right">{formatValue(segment.baselineValue)} → {formatValue(segment.currentValue)}</td>
+      <td className={`px-2 py-1 text-right ${effectClass(segment.mixEffect)}`}>{formatEffect(segment.mixEffect)}</td>
+      <td className={`px-2 py-1 text-right ${effectClass(segment.rateEffect)}`}>{formatEffect(segment.rateEffect)}</td>
+      <td className={`px-2 py-1 text-right font-medium ${effectClass(segment.contribution)}`}>{formatEffect(segment.contribution)}</td>
+    </tr>
+  );
+
+  const segmentHeader = (showDimension: boolean) => (
+    <thead className="bg-gray-50 text-gray-700 sticky top-0">
+      <tr>
+        {showDimension && <th className="px-2 py-1 text-left">维度</th>}
+        <th className="px-2 py-1 text-left">取值</th>
+        <th className="px-2 py-1 text-right">占比（基期 → 当期）</th>
+        <th className="px-2 py-1 text-right">指标值（基期 → 当期）</th>
+        <th className="px-2 py-1 text-right">结构效应</th>
+        <th className="px-2 py-1 text-right">费率效应</th>
+        <th className="px-2 py-1 text-right">合计贡献</th>
+      </tr>
+    </thead>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>指标变化归因</CardTitle>
+          <select
+            value={metric}
+            onChange={event => setMetric(event.target.value as AttributionMetric)}
+            className="rounded border border-gray-300 px-2 py-1 text-sm"
+          >
+            {ATTRIBUTION_METRICS.map(field => (
+              <option key={field} value={field}>{DISPLAY_NAMES[field]}</option>
+            ))}
+          </select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading && <p className="text-sm text-gray-500">计算中...</p>}
+
+        {!loading && result && (
+          <>
+            <p className="text-sm text-gray-700">
+              {DISPLAY_NAMES[metric]}由 {formatPeriod(result.baselinePeriod)} 的 {result.baseline.toFixed(decimals)}
+              变为 {formatPeriod(result.currentPeriod)} 的 {result.current.toFixed(decimals)}，
+              变化 <span className={effectClass(result.change)}>{formatEffect(result.change)}</span>。
+              结构效应反映分母占比迁移，费率效应反映取值自身指标变化；同一维度下各取值贡献之和等于整体变化。
+            </p>
+
+            <div>
+              <h4 className="mb-2 text-sm font-medium text-gray-900">主要影响因子</h4>
+              {result.topContributors.length === 0 ? (
+                <p className="text-sm text-gray-500">两期之间无可归因的变化</p>
+              ) : (
+                <div className="overflow-auto">
+                  <table className="w-full text-xs">
+                    {segmentHeader(true)}
+                    <tbody>{result.topContributors.map((segment, index) => renderSegment(segment, index, true))}</tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+
+            <div>
+              <h4 className="mb-2 text-sm font-medium text-gray-900">各维度分解（点击展开取值明细）</h4>
+              <div className="max-h-[32rem] overflow-auto">
+                <table className="w-full text-xs">
+                  <thead className="bg-gray-50 text-gray-700 sticky top-0">
+                    <tr>
+                      <th className="px-2 py-1 text-left">维度</th>
+                      <th className="px-2 py-1 text-right">取值数</th>
+                      <th className="px-2 py-1 text-left">最大贡献取值</th>
+                      <th className="px-2 py-1 text-right">结构效应合计</th>
+                      <th className="px-2 py-1 text-right">费率效应合计</th>
+                      <th className="px-2 py-1 text-right">集中度</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.dimensions.map(attribution => (
+                      <React.Fragment key={attribution.dimension}>
+                        <tr
+                          className="border-t border-gray-100 cursor-pointer hover:bg-gray-50"
+                          onClick={() => setExpanded(expanded === attribution.dimension ? null : attribution.dimension)}
+                        >
+                          <td className="px-2 py-1">{DISPLAY_NAMES[attribution.dimension]}</td>
+                          <td className="px-2 py-1 text-right">{attribution.segments.length}</td>
+                          <td className="px-2 py-1">
+                            {attribution.segments[0]
+                              ? `${attribution.segments[0].label}（${formatEffect(attribution.segments[0].contribution)}）`
+                              : '-'}
+                          </td>
+                          <td className={`px-2 py-1 text-right ${effectClass(attribution.mixEffect)}`}>{formatEffect(attribution.mixEffect)}</td>
+                          <td className={`px-2 py-1 text-right ${effectClass(attribution.rateEffect)}`}>{formatEffect(attribution.rateEffect)}</td>
+                          <td className="px-2 py-1 text-right">{attribution.concentration.toFixed(1)}%</td>
+                        </tr>
+                        {expanded === attribution.dimension && (
+                          <tr>
+                            <td colSpan={6} className="bg-gray-50 px-4 py-2">
+                              <table className="w-full text-xs">
+                                {segmentHeader(false)}
+                                <tbody>
+                                  {attribution.segments.slice(0, MAX_VISIBLE_SEGMENTS).map((segment, index) => renderSegment(segment, index, false))}
+                                </tbody>
+                              </table>
+                              {attribution.segments.length > MAX_VISIBLE_SEGMENTS && (
+                                <p className="mt-1 text-gray-500 italic">仅显示贡献最大的 {MAX_VISIBLE_SEGMENTS} 个取值</p>
+                              )}
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {result.skippedDimensions.length > 0 && (
+                <p className="mt-2 text-xs text-gray-500">
+                  {result.skippedDimensions.map(field => DISPLAY_NAMES[field]).join('、')} 在两期内取值唯一，不参与归因
+                </p>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
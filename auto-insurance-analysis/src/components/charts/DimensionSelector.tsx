@@ -0,0 +1,117 @@
+'use client';
+
+import React from 'react';
+import { ArrowDown, ArrowUp, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { DIMENSION_FIELDS, DISPLAY_NAMES } from '@/lib/constants';
+import { FilterDimensions } from '@/types/insurance';
+
+interface DimensionSelectorProps {
+  value: (keyof FilterDimensions)[];
+  onChange: (dimensions: (keyof FilterDimensions)[]) => void;
+  max?: number;
+}
+
+/**
+ * 分组维度的最大层级数
+ */
+export const MAX_GROUP_DIMENSIONS = 3;
+
+/**
+ * 单维度分组时的结果上限（与原机构图表一致）
+ */
+const SINGLE_GROUP_LIMIT = 20;
+
+/**
+ * 多维度分组时的结果上限
+ */
+const MULTI_GROUP_LIMIT = 500;
+
+/**
+ * 分组维度对应的分组查询上限
+ * @param dimensions 分组维度
+ */
+export function getGroupLimit(dimensions: (keyof FilterDimensions)[]): number {
+  return dimensions.length > 1 ? MULTI_GROUP_LIMIT : SINGLE_GROUP_LIMIT;
+}
+
+/**
+ * 由分组维度生成图表字段：末级维度作为系列，其余维度组合为横轴
+ * @param dimensions 分组维度（按层级顺序）
+ * @returns ChartContainer 的 xField 与 seriesField
+ */
+export function toChartFields(dimensions: (keyof FilterDimensions)[]): { xField: string; seriesField?: string } {
+  const fields = dimensions.map(field => `dimensions.${field}`);
+  if (fields.length <= 1) return { xField: fields[0] ?? 'dimensions' };
+  return { xField: fields.slice(0, -1).join(','), seriesField: fields[fields.length - 1] };
+}
+
+/**
+ * 分组维度选择器
+ * 从17个维度中按顺序选择1-3个分组维度，可调整层级顺序
+ */
+export function DimensionSelector({ value, onChange, max = MAX_GROUP_DIMENSIONS }: DimensionSelectorProps) {
+  const available = DIMENSION_FIELDS.filter(field => !value.includes(field));
+
+  const move = (index: number, offset: number) => {
+    const next = [...value];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <span className="text-gray-600">分组维度</span>
+      {value.map((field, index) => (
+        <span key={field} className="flex items-center gap-1 rounded border border-blue-200 bg-blue-50 px-2 py-1 text-blue-800">
+          <span className="text-xs text-blue-500">{index + 1}</span>
+          {DISPLAY_NAMES[field]}
+          <button
+            type="button"
+            onClick={() => move(index, -1)}
+            disabled={index === 0}
+            className="disabled:opacity-30"
+            title="上移一级"
+          >
+            <ArrowUp className="h-3 w-3" />
+          </button>
+          <button
+            type="button"
+            onClick={() => move(index, 1)}
+            disabled={index === value.length - 1}
+            className="disabled:opacity-30"
+            title="下移一级"
+          >
+            <ArrowDown className="h-3 w-3" />
+          </button>
+          <button
+            type="button"
+            onClick={() => onChange(value.filter(item => item !== field))}
+            disabled={value.length <= 1}
+            className="disabled:opacity-30"
+            title="移除"
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </span>
+      ))}
+      {value.length < max && (
+        <select
+          value=""
+          onChange={event => event.target.value && onChange([...value, event.target.value as keyof FilterDimensions])}
+          className="rounded border border-gray-300 px-2 py-1"
+        >
+          <option value="">+ 添加维度</option>
+          {available.map(field => (
+            <option key={field} value={field}>{DISPLAY_NAMES[field]}</option>
+          ))}
+        </select>
+      )}
+      {value.length > 1 && (
+        <Button variant="ghost" size="sm" onClick={() => onChange(value.slice(0, 1))}>
+          仅保留第一级
+        </Button>
+      )}
+    </div>
+  );
+}
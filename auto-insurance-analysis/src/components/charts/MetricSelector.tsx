@@ -0,0 +1,119 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Star } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { DISPLAY_NAMES } from '@/lib/constants';
+import {
+  AmountUnit,
+  ChartMetric,
+  MAX_CHART_METRICS,
+  METRIC_GROUPS,
+  isRatioMetric,
+  loadFavoriteMetrics,
+  saveFavoriteMetrics
+} from '@/lib/metric-favorites';
+
+interface MetricSelectorProps {
+  value: ChartMetric[];
+  onChange: (metrics: ChartMetric[]) => void;
+  amountUnit: AmountUnit;
+  onAmountUnitChange: (unit: AmountUnit) => void;
+  max?: number;
+}
+
+/**
+ * 图表指标选择器
+ * 按指标分组从19个指标中选择至多4个同时绘制，支持收藏常用指标与金额单位（元/万元）切换
+ */
+export function MetricSelector({
+  value,
+  onChange,
+  amountUnit,
+  onAmountUnitChange,
+  max = MAX_CHART_METRICS
+}: MetricSelectorProps) {
+  const [favorites, setFavorites] = useState<ChartMetric[]>([]);
+
+  useEffect(() => {
+    setFavorites(loadFavoriteMetrics());
+  }, []);
+
+  const toggleMetric = (field: ChartMetric) => {
+    if (value.includes(field)) {
+      // 至少保留一个指标
+      if (value.length > 1) onChange(value.filter(item => item !== field));
+    } else if (value.length < max) {
+      onChange([...value, field]);
+    }
+  };
+
+  const toggleFavorite = (field: ChartMetric) => {
+    setFavorites(saveFavoriteMetrics(
+      favorites.includes(field) ? favorites.filter(item => item !== field) : [...favorites, field]
+    ));
+  };
+
+  const renderMetric = (field: ChartMetric) => {
+    const selected = value.includes(field);
+    const favorite = favorites.includes(field);
+    return (
+      <span
+        key={field}
+        className={`flex items-center gap-1 rounded border px-2 py-1 ${
+          selected ? 'border-blue-300 bg-blue-50 text-blue-800' : 'border-gray-200 text-gray-700'
+        }`}
+      >
+        <button
+          type="button"
+          onClick={() => toggleMetric(field)}
+          disabled={!selected && value.length >= max}
+          className="disabled:opacity-40"
+          title={isRatioMetric(field) ? '比率指标（次坐标轴）' : undefined}
+        >
+          {DISPLAY_NAMES[field]}
+        </button>
+        <button
+          type="button"
+          onClick={() => toggleFavorite(field)}
+          title={favorite ? '取消收藏' : '收藏'}
+        >
+          <Star className={`h-3 w-3 ${favorite ? 'fill-yellow-400 text-yellow-500' : 'text-gray-300'}`} />
+        </button>
+      </span>
+    );
+  };
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="text-gray-600">图表指标（已选 {value.length}/{max}）</span>
+        <div className="flex items-center gap-1">
+          <span className="mr-1 text-gray-600">金额单位</span>
+          {(['元', '万元'] as AmountUnit[]).map(unit => (
+            <Button
+              key={unit}
+              variant={amountUnit === unit ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => onAmountUnitChange(unit)}
+            >
+              {unit}
+            </Button>
+          ))}
+        </div>
+      </div>
+      {favorites.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="w-16 text-gray-500">收藏</span>
+          {favorites.map(renderMetric)}
+        </div>
+      )}
+      {METRIC_GROUPS.map(group => (
+        <div key={group.key} className="flex flex-wrap items-center gap-2">
+          <span className="w-16 text-gray-500">{group.label}</span>
+          {group.fields.map(renderMetric)}
+        </div>
+      ))}
+    </div>
+  );
+}
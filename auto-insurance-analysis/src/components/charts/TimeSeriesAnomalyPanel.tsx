@@ -0,0 +1,256 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartAnomalyMarker, ChartContainer } from '@/components/charts/chart-container';
+import { aggregationClient, isAbortError } from '@/lib/aggregation-client';
+import { ABSOLUTE_VALUE_FIELDS } from '@/lib/calculations';
+import { DIMENSION_FIELDS, DISPLAY_NAMES } from '@/lib/constants';
+import { METRIC_FORMULAS } from '@/lib/metric-formulas';
+import {
+  ANOMALY_METHOD_LABELS,
+  AnomalyMethod,
+  AnomalyMetric,
+  DEFAULT_ANOMALY_OPTIONS,
+  DEFAULT_SENSITIVITY,
+  detectTimeSeriesAnomalies,
+  getSliceKey
+} from '@/lib/time-series-anomaly';
+import { AnalysisResult, FilterConditions, FilterDimensions } from '@/types/insurance';
+
+interface TimeSeriesAnomalyPanelProps {
+  filters: FilterConditions;
+  onError?: (error: string) => void;
+}
+
+/**
+ * 可检测的指标（计算字段在前）
+ */
+const METRIC_OPTIONS: AnomalyMetric[] = [...METRIC_FORMULAS.map(formula => formula.field), ...ABSOLUTE_VALUE_FIELDS];
+
+/**
+ * 可选的切片维度（时间维度除外）
+ */
+const SLICE_FIELDS = DIMENSION_FIELDS.filter(
+  field => field !== 'policy_start_year' && field !== 'week_number' && field !== 'snapshot_date'
+);
+
+/**
+ * 按维度切片查询时的分组上限
+ */
+const SLICE_QUERY_LIMIT = 10000;
+
+/**
+ * 周趋势异常检测面板
+ * 对周度时间序列按稳健Z分数或IQR识别离群周次，在折线图上标记并列出明细
+ */
+export function TimeSeriesAnomalyPanel({ filters, onError }: TimeSeriesAnomalyPanelProps) {
+  const [metric, setMetric] = useState<AnomalyMetric>('expired_loss_ratio_percent');
+  const [method, setMethod] = useState<AnomalyMethod>(DEFAULT_ANOMALY_OPTIONS.method);
+  const [windowSize, setWindowSize] = useState(DEFAULT_ANOMALY_OPTIONS.window);
+  const [sensitivity, setSensitivity] = useState(DEFAULT_ANOMALY_OPTIONS.sensitivity);
+  const [sliceField, setSliceField] = useState<keyof FilterDimensions | ''>('');
+  const [selectedSlice, setSelectedSlice] = useState<string | null>(null);
+  const [series, setSeries] = useState<AnalysisResult[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // 筛选条件或切片维度变化时重新查询时间序列
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+    const request = sliceField
+      ? aggregationClient.aggregateByDimensions(['policy_start_year', 'week_number', sliceField], filters, SLICE_QUERY_LIMIT, controller.signal)
+      : aggregationClient.getTimeSeriesData('year_week', filters, controller.signal);
+
+    request
+      .then(results => {
+        setSeries(results);
+        setSelectedSlice(null);
+      })
+      .catch(error => {
+        if (!isAbortError(error)) onError?.(`时间序列加载失败: ${error instanceof Error ? error.message : String(error)}`);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+    return () => controller.abort();
+  }, [filters, sliceField, onError]);
+
+  const anomalies = useMemo(
+    () => detectTimeSeriesAnomalies(series, [metric], { method, window: windowSize, sensitivity }),
+    [series, metric, method, windowSize, sensitivity]
+  );
+
+  // 图表展示的切片：默认取离群点最多的切片
+  const sliceKeys = useMemo(
+    () => Array.from(new Set(series.map(result => getSliceKey(result)))),
+    [series]
+  );
+  const activeSlice = useMemo(() => {
+    if (selectedSlice !== null && sliceKeys.includes(selectedSlice)) return selectedSlice;
+    const counts = new Map<string, number>();
+    anomalies.forEach(anomaly => counts.set(anomaly.sliceKey, (counts.get(anomaly.sliceKey) ?? 0) + 1));
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] ?? sliceKeys[0] ?? '';
+  }, [selectedSlice, sliceKeys, anomalies]);
+
+  // 当前切片的序列（按时间排序）及其异常标记
+  const { chartData, markers } = useMemo(() => {
+    const indexes = series
+      .map((result, index) => ({ result, index }))
+      .filter(({ result }) => getSliceKey(result) === activeSlice)
+      .sort((a, b) => (a.result.dimensions.policy_start_year ?? 0) - (b.result.dimensions.policy_start_year ?? 0)
+        || (a.result.dimensions.week_number ?? 0) - (b.result.dimensions.week_number ?? 0));
+
+    const position = new Map(indexes.map(({ index }, order) => [index, order]));
+    const chartMarkers: ChartAnomalyMarker[] = anomalies
+      .filter(anomaly => position.has(anomaly.index))
+      .map(anomaly => ({
+        index: position.get(anomaly.index) as number,
+        label: `${anomaly.direction === 'high' ? '偏高' : '偏低'}，正常范围 ${anomaly.lower.toFixed(2)} ~ ${anomaly.upper.toFixed(2)}`
+      }));
+    return { chartData: indexes.map(({ result }) => result), markers: chartMarkers };
+  }, [series, anomalies, activeSlice]);
+
+  const handleMethodChange = (next: AnomalyMethod) => {
+    setMethod(next);
+    setSensitivity(DEFAULT_SENSITIVITY[next]);
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>周趋势异常检测</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap items-end gap-4 text-sm">
+            <label className="flex flex-col text-gray-600">
+              <span>指标</span>
+              <select
+                value={metric}
+                onChange={event => setMetric(event.target.value as AnomalyMetric)}
+                className="mt-1 rounded border border-gray-300 px-2 py-1"
+              >
+                {METRIC_OPTIONS.map(field => (
+                  <option key={field} value={field}>{DISPLAY_NAMES[field]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col text-gray-600">
+              <span>检测方法</span>
+              <select
+                value={method}
+                onChange={event => handleMethodChange(event.target.value as AnomalyMethod)}
+                className="mt-1 rounded border border-gray-300 px-2 py-1"
+              >
+                {(Object.keys(ANOMALY_METHOD_LABELS) as AnomalyMethod[]).map(option => (
+                  <option key={option} value={option}>{ANOMALY_METHOD_LABELS[option]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col text-gray-600">
+              <span>参照窗口（周，0为全序列）</span>
+              <input
+                type="number"
+                min={0}
+                value={windowSize}
+                onChange={event => setWindowSize(Math.max(0, Math.floor(Number(event.target.value))))}
+                className="mt-1 w-28 rounded border border-gray-300 px-2 py-1"
+              />
+            </label>
+            <label className="flex flex-col text-gray-600">
+              <span>{method === 'iqr' ? '灵敏度（IQR倍数）' : '灵敏度（Z分数阈值）'}</span>
+              <input
+                type="number"
+                min={0.1}
+                step={0.1}
+                value={sensitivity}
+                onChange={event => setSensitivity(Math.max(0.1, Number(event.target.value)))}
+                className="mt-1 w-28 rounded border border-gray-300 px-2 py-1"
+              />
+            </label>
+            <label className="flex flex-col text-gray-600">
+              <span>按维度切片</span>
+              <select
+                value={sliceField}
+                onChange={event => setSliceField(event.target.value as keyof FilterDimensions | '')}
+                className="mt-1 rounded border border-gray-300 px-2 py-1"
+              >
+                <option value="">不切片</option>
+                {SLICE_FIELDS.map(field => (
+                  <option key={field} value={field}>{DISPLAY_NAMES[field]}</option>
+                ))}
+              </select>
+            </label>
+            {sliceField && (
+              <label className="flex flex-col text-gray-600">
+                <span>图表切片</span>
+                <select
+                  value={activeSlice}
+                  onChange={event => setSelectedSlice(event.target.value)}
+                  className="mt-1 max-w-xs rounded border border-gray-300 px-2 py-1"
+                >
+                  {sliceKeys.map(key => (
+                    <option key={key} value={key}>{key || '未知'}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <ChartContainer
+        data={chartData}
+        chartType="line"
+        xField="dimensions.policy_start_year,dimensions.week_number"
+        yFields={[metric]}
+        title={`${DISPLAY_NAMES[metric]}周趋势${activeSlice ? `（${activeSlice}）` : ''}`}
+        loading={loading}
+        anomalies={markers}
+      />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>离群周次（{anomalies.length}）</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {anomalies.length === 0 ? (
+            <p className="text-sm text-gray-500">当前参数下未发现离群周次</p>
+          ) : (
+            <div className="max-h-80 overflow-auto">
+              <table className="w-full text-xs">
+                <thead className="bg-gray-50 text-gray-700 sticky top-0">
+                  <tr>
+                    <th className="px-2 py-1 text-left">切片</th>
+                    <th className="px-2 py-1 text-left">年度-周次</th>
+                    <th className="px-2 py-1 text-right">实际值</th>
+                    <th className="px-2 py-1 text-right">正常范围</th>
+                    <th className="px-2 py-1 text-right">偏离程度</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {anomalies.map((anomaly, index) => (
+                    <tr
+                      key={index}
+                      className={`border-t border-gray-100 cursor-pointer hover:bg-gray-50 ${anomaly.sliceKey === activeSlice ? 'bg-blue-50' : ''}`}
+                      onClick={() => setSelectedSlice(anomaly.sliceKey)}
+                    >
+                      <td className="px-2 py-1">{anomaly.sliceKey || '全部'}</td>
+                      <td className="px-2 py-1">{anomaly.year}-{anomaly.week}</td>
+                      <td className={`px-2 py-1 text-right ${anomaly.direction === 'high' ? 'text-red-700' : 'text-blue-700'}`}>
+                        {anomaly.value.toFixed(2)}
+                      </td>
+                      <td className="px-2 py-1 text-right">{anomaly.lower.toFixed(2)} ~ {anomaly.upper.toFixed(2)}</td>
+                      <td className="px-2 py-1 text-right">{Number.isFinite(anomaly.score) ? anomaly.score.toFixed(2) : '∞'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
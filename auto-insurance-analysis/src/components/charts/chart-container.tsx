@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import {
   BarChart,
   Bar,
@@ -22,6 +22,7 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { AnalysisResult } from '@/types/insurance';
 import { DISPLAY_NAMES } from '@/lib/constants';
+import { AmountUnit, getMetricUnitType, isAmountMetric } from '@/lib/metric-favorites';
 import { BarChart3, LineChart as LineChartIcon, PieChart as PieChartIcon, Zap as ScatterIcon, Download } from 'lucide-react';
 
 export type ChartType = 'bar' | 'line' | 'pie' | 'scatter';
@@ -30,11 +31,76 @@ interface ChartContainerProps {
   data: AnalysisResult[];
   chartType?: ChartType;
   xField?: string;
-  yField?: string;
+  yFields?: string[];                              // 指标字段（至多4个），比率与金额同时绘制时比率使用次坐标轴
   title?: string;
   loading?: boolean;
   interactive?: boolean;
   height?: number;
+  anomalies?: ChartAnomalyMarker[];
+  seriesField?: string;                            // 系列字段：柱状图/折线图按其取值拆分为多个系列
+  stacked?: boolean;                               // 多系列柱状图是否堆叠
+  amountUnit?: AmountUnit;                         // 金额类指标的显示单位
+  onChartTypeChange?: (chartType: ChartType) => void;
+}
+
+/**
+ * 默认指标
+ */
+const DEFAULT_Y_FIELDS = ['signed_premium_yuan'];
+
+/**
+ * 多系列图表最多显示的系列数（按数值合计取前N个）
+ */
+const MAX_SERIES = 10;
+
+/**
+ * 多系列图表的系列定义（dataKey 使用 s0、s1…，避免取值中的"."被解析为路径）
+ */
+interface ChartSeries {
+  key: string;
+  label: string;
+}
+
+/**
+ * 折线图异常标记（index 为 data 中的位置）
+ */
+export interface ChartAnomalyMarker {
+  index: number;
+  label: string;
+}
+
+/**
+ * 获取显示名称（多个字段以逗号分隔时用"-"连接，如 年度-周序号）
+ */
+function getDisplayName(item: AnalysisResult, field: string): string {
+  if (field.includes(',')) {
+    return field.split(',').map(part => getDisplayName(item, part.trim())).join('-');
+  }
+  if (field.startsWith('dimensions.')) {
+    const dimensionKey = field.replace('dimensions.', '');
+    const value = item.dimensions[dimensionKey as keyof typeof item.dimensions];
+    return String(value || '未知');
+  }
+  return String((item as any)[field] || '未知');
+}
+
+/**
+ * 获取指标显示名称（金额单位为万元时替换名称中的单位）
+ */
+function getMetricLabel(field: string, amountUnit: AmountUnit): string {
+  const label = DISPLAY_NAMES[field as keyof typeof DISPLAY_NAMES] || field;
+  return amountUnit === '万元' && isAmountMetric(field) ? label.replace('（元）', '（万元）') : label;
+}
+
+/**
+ * 获取字段值
+ */
+function getFieldValue(item: AnalysisResult, field: string): number {
+  if (field.startsWith('dimensions.')) {
+    const dimensionKey = field.replace('dimensions.', '');
+    return Number(item.dimensions[dimensionKey as keyof typeof item.dimensions]) || 0;
+  }
+  return Number((item as any)[field]) || 0;
 }
 
 /**
@@ -45,14 +111,47 @@ export function ChartContainer({
   data,
   chartType = 'bar',
   xField = 'dimensions',
-  yField = 'signed_premium_yuan',
+  yFields = DEFAULT_Y_FIELDS,
   title = '数据分析图表',
   loading = false,
   interactive = false,
-  height = 400
+  height = 400,
+  anomalies = [],
+  seriesField,
+  stacked = false,
+  amountUnit = '万元',
+  onChartTypeChange
 }: ChartContainerProps) {
   const [currentChartType, setCurrentChartType] = useState<ChartType>(chartType);
 
+  // 外部（如应用筛选模板）修改图表类型时同步
+  useEffect(() => {
+    setCurrentChartType(chartType);
+  }, [chartType]);
+  const [isStacked, setIsStacked] = useState(stacked);
+
+  // 主指标：饼图、散点图及按系列拆分时使用
+  const yField = yFields[0] ?? DEFAULT_Y_FIELDS[0];
+  const isCartesian = currentChartType === 'bar' || currentChartType === 'line';
+  const isMultiMetric = yFields.length > 1 && isCartesian;
+
+  // 多指标时按单位类型（金额、单均/案均金额、件数、比率、系数）分配坐标轴，首个单位在左侧，其余在右侧
+  const axes = Array.from(new Set((isMultiMetric ? yFields : [yField]).map(getMetricUnitType))).map((unit, index) => ({
+    id: unit,
+    field: (isMultiMetric ? yFields : [yField]).find(field => getMetricUnitType(field) === unit) ?? yField,
+    orientation: index === 0 ? 'left' as const : 'right' as const
+  }));
+  const getAxisId = (field: string) => (isMultiMetric ? getMetricUnitType(field) : axes[0].id);
+
+  // 单指标的柱状图与折线图按系列拆分，其余情况将系列字段并入名称
+  const isMultiSeries = !!seriesField && yFields.length === 1 && isCartesian;
+  const nameField = seriesField && !isMultiSeries ? `${xField},${seriesField}` : xField;
+
+  const anomalyMap = useMemo(
+    () => new Map(anomalies.map(marker => [marker.index, marker.label])),
+    [anomalies]
+  );
+
   /**
    * 处理数据格式化
    */
@@ -60,10 +159,14 @@ export function ChartContainer({
     if (!data || data.length === 0) return [];
 
     return data.map((item, index) => {
+      const value = getFieldValue(item, yField);
       const result: any = {
         index,
-        name: getDisplayName(item, xField),
-        value: getFieldValue(item, yField),
+        name: getDisplayName(item, nameField),
+        value,
+        // 异常点单独成列，仅在折线图上以标记显示
+        anomalyValue: anomalyMap.has(index) ? value : null,
+        anomalyLabel: anomalyMap.get(index),
         ...item
       };
 
@@ -74,38 +177,51 @@ export function ChartContainer({
 
       return result;
     });
-  }, [data, xField, yField, currentChartType]);
+  }, [data, nameField, yField, currentChartType, anomalyMap]);
 
   /**
-   * 获取显示名称
+   * 多系列数据：按 xField 分行、按 seriesField 分列
    */
-  const getDisplayName = (item: AnalysisResult, field: string): string => {
-    if (field.startsWith('dimensions.')) {
-      const dimensionKey = field.replace('dimensions.', '');
-      const value = item.dimensions[dimensionKey as keyof typeof item.dimensions];
-      return String(value || '未知');
+  const { seriesData, series, hiddenSeries } = useMemo(() => {
+    if (!isMultiSeries || !seriesField || !data || data.length === 0) {
+      return { seriesData: [], series: [] as ChartSeries[], hiddenSeries: 0 };
     }
-    return String((item as any)[field] || '未知');
-  };
 
-  /**
-   * 获取字段值
-   */
-  const getFieldValue = (item: AnalysisResult, field: string): number => {
-    if (field.startsWith('dimensions.')) {
-      const dimensionKey = field.replace('dimensions.', '');
-      return Number(item.dimensions[dimensionKey as keyof typeof item.dimensions]) || 0;
-    }
-    return Number((item as any)[field]) || 0;
-  };
+    const totals = new Map<string, number>();
+    data.forEach(item => {
+      const label = getDisplayName(item, seriesField);
+      totals.set(label, (totals.get(label) ?? 0) + Math.abs(getFieldValue(item, yField)));
+    });
+    const labels = Array.from(totals.entries()).sort((a, b) => b[1] - a[1]).map(([label]) => label);
+    const visible: ChartSeries[] = labels.slice(0, MAX_SERIES).map((label, index) => ({ key: `s${index}`, label }));
+    const keyByLabel = new Map(visible.map(item => [item.label, item.key]));
+
+    const rows = new Map<string, Record<string, string | number>>();
+    data.forEach(item => {
+      const key = keyByLabel.get(getDisplayName(item, seriesField));
+      if (!key) return;
+      const name = getDisplayName(item, xField);
+      const row = rows.get(name) ?? { name, index: rows.size };
+      row[key] = getFieldValue(item, yField);
+      rows.set(name, row);
+    });
+
+    return { seriesData: Array.from(rows.values()), series: visible, hiddenSeries: labels.length - visible.length };
+  }, [isMultiSeries, seriesField, data, xField, yField]);
 
   /**
    * 格式化数值显示
    */
   const formatValue = (value: number, field: string): string => {
-    if (field.includes('premium') || field.includes('amount')) {
+    if (field.endsWith('_percent')) {
+      return `${value.toFixed(2)}%`;
+    }
+    if (isAmountMetric(field) && amountUnit === '万元') {
       return `¥${(value / 10000).toFixed(1)}万`;
     }
+    if (field.endsWith('_yuan')) {
+      return `¥${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+    }
     if (field.includes('rate') || field.includes('ratio')) {
       return `${(value * 100).toFixed(2)}%`;
     }
@@ -120,11 +236,14 @@ export function ChartContainer({
       return (
         <div className="bg-white p-3 border rounded-lg shadow-lg">
           <p className="font-medium text-gray-900">{label}</p>
-          {payload.map((entry: any, index: number) => (
+          {payload.filter((entry: { dataKey?: string }) => entry.dataKey !== 'anomalyValue').map((entry: any, index: number) => (
             <p key={index} className="text-sm" style={{ color: entry.color }}>
-              {`${entry.name}: ${formatValue(entry.value, yField)}`}
+              {`${entry.name}: ${formatValue(entry.value, yFields.includes(entry.dataKey) ? entry.dataKey : yField)}`}
             </p>
           ))}
+          {payload[0].payload.anomalyLabel && (
+            <p className="text-sm text-red-600">{payload[0].payload.anomalyLabel}</p>
+          )}
         </div>
       );
     }
@@ -135,10 +254,12 @@ export function ChartContainer({
    * 导出图表数据
    */
   const exportChartData = () => {
-    const csvContent = [
-      ['名称', '数值'],
-      ...chartData.map(item => [item.name, item.value])
-    ].map(row => row.join(',')).join('\n');
+    const rows = isMultiSeries
+      ? [['名称', ...series.map(item => item.label)], ...seriesData.map(row => [row.name, ...series.map(item => row[item.key] ?? '')])]
+      : isMultiMetric
+        ? [['名称', ...yFields.map(field => getMetricLabel(field, '元'))], ...chartData.map(item => [item.name, ...yFields.map(field => getFieldValue(item, field))])]
+        : [['名称', '数值'], ...chartData.map(item => [item.name, item.value])];
+    const csvContent = rows.map(row => row.join(',')).join('\n');
 
     const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
     const link = document.createElement('a');
@@ -159,7 +280,7 @@ export function ChartContainer({
       );
     }
 
-    if (!chartData || chartData.length === 0) {
+    if (!chartData || chartData.length === 0 || (isMultiSeries && seriesData.length === 0)) {
       return (
         <div className="flex items-center justify-center h-full">
           <div className="text-gray-500">暂无数据</div>
@@ -168,7 +289,7 @@ export function ChartContainer({
     }
 
     const commonProps = {
-      data: chartData,
+      data: isMultiSeries ? seriesData : chartData,
       margin: { top: 20, right: 30, left: 20, bottom: 5 }
     };
 
@@ -185,14 +306,41 @@ export function ChartContainer({
                 height={80}
                 interval={0}
               />
-              <YAxis tickFormatter={(value) => formatValue(value, yField)} />
+              {axes.map(axis => (
+                <YAxis
+                  key={axis.id}
+                  yAxisId={axis.id}
+                  orientation={axis.orientation}
+                  tickFormatter={(value) => formatValue(value, axis.field)}
+                />
+              ))}
               <Tooltip content={<CustomTooltip />} />
               <Legend />
-              <Bar 
-                dataKey="value" 
-                fill="#3B82F6" 
-                name={DISPLAY_NAMES[yField as keyof typeof DISPLAY_NAMES] || yField}
-              />
+              {isMultiSeries ? series.map((item, index) => (
+                <Bar
+                  key={item.key}
+                  dataKey={item.key}
+                  name={item.label}
+                  fill={CHART_COLORS[index % CHART_COLORS.length]}
+                  stackId={isStacked ? 'stack' : undefined}
+                  yAxisId={getAxisId(yField)}
+                />
+              )) : isMultiMetric ? yFields.map((field, index) => (
+                <Bar
+                  key={field}
+                  dataKey={field}
+                  name={getMetricLabel(field, amountUnit)}
+                  fill={CHART_COLORS[index % CHART_COLORS.length]}
+                  yAxisId={getAxisId(field)}
+                />
+              )) : (
+                <Bar 
+                  yAxisId={getAxisId(yField)}
+                  dataKey="value" 
+                  fill="#3B82F6" 
+                  name={getMetricLabel(yField, amountUnit)}
+                />
+              )}
             </BarChart>
           </ResponsiveContainer>
         );
@@ -203,16 +351,59 @@ export function ChartContainer({
             <LineChart {...commonProps}>
               <CartesianGrid strokeDasharray="3 3" />
               <XAxis dataKey="name" />
-              <YAxis tickFormatter={(value) => formatValue(value, yField)} />
+              {axes.map(axis => (
+                <YAxis
+                  key={axis.id}
+                  yAxisId={axis.id}
+                  orientation={axis.orientation}
+                  tickFormatter={(value) => formatValue(value, axis.field)}
+                />
+              ))}
               <Tooltip content={<CustomTooltip />} />
               <Legend />
-              <Line 
-                type="monotone" 
-                dataKey="value" 
-                stroke="#3B82F6" 
-                strokeWidth={2}
-                name={DISPLAY_NAMES[yField as keyof typeof DISPLAY_NAMES] || yField}
-              />
+              {isMultiSeries ? series.map((item, index) => (
+                <Line
+                  key={item.key}
+                  type="monotone"
+                  dataKey={item.key}
+                  name={item.label}
+                  stroke={CHART_COLORS[index % CHART_COLORS.length]}
+                  strokeWidth={2}
+                  connectNulls
+                  yAxisId={getAxisId(yField)}
+                />
+              )) : isMultiMetric ? yFields.map((field, index) => (
+                <Line
+                  key={field}
+                  type="monotone"
+                  dataKey={field}
+                  name={getMetricLabel(field, amountUnit)}
+                  stroke={CHART_COLORS[index % CHART_COLORS.length]}
+                  strokeWidth={2}
+                  yAxisId={getAxisId(field)}
+                />
+              )) : (
+                <Line 
+                  yAxisId={getAxisId(yField)}
+                  type="monotone" 
+                  dataKey="value" 
+                  stroke="#3B82F6" 
+                  strokeWidth={2}
+                  name={getMetricLabel(yField, amountUnit)}
+                />
+              )}
+              {anomalyMap.size > 0 && (
+                <Line
+                  yAxisId={getAxisId(yField)}
+                  dataKey="anomalyValue"
+                  stroke="none"
+                  dot={{ r: 6, fill: '#EF4444', stroke: '#FFFFFF', strokeWidth: 2 }}
+                  activeDot={false}
+                  isAnimationActive={false}
+                  legendType="circle"
+                  name="异常点"
+                />
+              )}
             </LineChart>
           </ResponsiveContainer>
         );
@@ -253,7 +444,7 @@ export function ChartContainer({
               <YAxis 
                 type="number" 
                 dataKey="value"
-                name={DISPLAY_NAMES[yField as keyof typeof DISPLAY_NAMES] || yField}
+                name={getMetricLabel(yField, amountUnit)}
                 tickFormatter={(value) => formatValue(value, yField)}
               />
               <Tooltip 
@@ -261,7 +452,7 @@ export function ChartContainer({
                 content={<CustomTooltip />}
               />
               <Scatter 
-                name={DISPLAY_NAMES[yField as keyof typeof DISPLAY_NAMES] || yField}
+                name={getMetricLabel(yField, amountUnit)}
                 dataKey="value" 
                 fill="#3B82F6" 
               />
@@ -296,7 +487,10 @@ export function ChartContainer({
                     key={type}
                     variant={currentChartType === type ? "default" : "outline"}
                     size="sm"
-                    onClick={() => setCurrentChartType(type)}
+                    onClick={() => {
+                      setCurrentChartType(type);
+                      onChartTypeChange?.(type);
+                    }}
                     className="flex items-center gap-1"
                   >
                     <Icon className="h-4 w-4" />
@@ -306,6 +500,18 @@ export function ChartContainer({
               </div>
             )}
             
+            {/* 多系列柱状图：分组/堆叠切换 */}
+            {interactive && isMultiSeries && currentChartType === 'bar' && (
+              <div className="flex items-center gap-1 mr-4">
+                <Button variant={isStacked ? 'outline' : 'default'} size="sm" onClick={() => setIsStacked(false)}>
+                  分组
+                </Button>
+                <Button variant={isStacked ? 'default' : 'outline'} size="sm" onClick={() => setIsStacked(true)}>
+                  堆叠
+                </Button>
+              </div>
+            )}
+
             {/* 导出按钮 */}
             <Button
               variant="outline"
@@ -328,6 +534,16 @@ export function ChartContainer({
         {/* 数据统计信息 */}
         {!loading && chartData.length > 0 && (
           <div className="mt-4 pt-4 border-t text-sm text-gray-600">
+            {yFields.length > 1 && !isCartesian && (
+              <p className="mb-2 text-xs text-gray-500 italic">
+                饼图与散点图仅显示第一个指标：{getMetricLabel(yField, amountUnit)}
+              </p>
+            )}
+            {isMultiSeries && hiddenSeries > 0 && (
+              <p className="mb-2 text-xs text-gray-500 italic">
+                系列过多，仅显示合计最大的 {MAX_SERIES} 个，其余 {hiddenSeries} 个未显示
+              </p>
+            )}
             <div className="flex justify-between">
               <span>数据点数: {chartData.length}</span>
               <span>
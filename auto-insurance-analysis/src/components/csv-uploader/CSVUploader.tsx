@@ -1,13 +1,29 @@
 'use client';
 
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { Upload, FileText, AlertCircle, CheckCircle, X, Download } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { DataService } from '@/services/dataService';
-import { InsuranceRecord } from '@/types/insurance';
+import { downloadImportErrorReport } from '@/lib/data-processor';
+import { db } from '@/lib/database';
+import { IMPORT_MODES, IMPORT_MODE_DESCRIPTIONS, IMPORT_MODE_LABELS } from '@/lib/import-modes';
+import { hashRecords } from '@/lib/dataset-versions';
+import { applyValueMapping, filterUnmappedValues, saveValueMapping } from '@/lib/enum-validation';
+import { DISPLAY_NAMES } from '@/lib/constants';
+import { ValueMappingDialog } from '@/components/csv-uploader/ValueMappingDialog';
+import {
+  DatasetVersion,
+  ImportMode,
+  ImportPreview,
+  ImportProgress,
+  ImportResult,
+  InsuranceRecord,
+  UnknownEnumValue,
+  ValueMapping
+} from '@/types/insurance';
 
 interface CSVUploaderProps {
-  onDataUpload?: (data: InsuranceRecord[], filename: string) => void;
+  onDataUpload?: (data: InsuranceRecord[], filename: string) => void;  // 确认导入并写入本地数据集后回调
   onError?: (error: string) => void;
   className?: string;
   maxFileSize?: number; // MB
@@ -21,8 +37,25 @@ interface UploadResult {
   recordCount: number;
   errors: string[];
   warnings: string[];
+  importResult?: ImportResult;  // 行级校验结果（错误行已跳过）
+  committed?: {                 // 确认导入后的实际变化
+    insertedCount: number;
+    updatedCount: number;
+    droppedCount: number;
+    version?: DatasetVersion;
+  };
 }
 
+/**
+ * 未填写操作人时记录的名称
+ */
+const DEFAULT_OPERATOR = '本地用户';
+
+/**
+ * 结果面板中直接展示的错误行数，完整内容通过错误报告下载
+ */
+const MAX_VISIBLE_ISSUES = 10;
+
 /**
  * CSV文件上传组件
  * 支持拖拽上传、格式验证、数据预览和错误处理
@@ -38,6 +71,12 @@ export function CSVUploader({
   const [isDragOver, setIsDragOver] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadResult, setUploadResult] = useState<UploadResult | null>(null);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const [importMode, setImportMode] = useState<ImportMode>('merge');
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [isCommitting, setIsCommitting] = useState(false);
+  const [operator, setOperator] = useState('');
+  const [isMappingOpen, setIsMappingOpen] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   /**
@@ -71,6 +110,7 @@ export function CSVUploader({
   const handleFileUpload = useCallback(async (file: File) => {
     setIsUploading(true);
     setUploadResult(null);
+    setProgress(null);
 
     try {
       // 验证文件
@@ -88,18 +128,27 @@ export function CSVUploader({
         return;
       }
 
-      // 读取和解析文件
-      const data = await dataService.parseCSVFile(file);
+      // 流式读取和解析文件，错误行跳过
+      const { records: data, result: importResult } = await dataService.parseCSVFile(file, setProgress);
       
       const result: UploadResult = {
-        success: true,
+        success: data.length > 0 || importResult.errors.length === 0,
         data,
         filename: file.name,
         recordCount: data.length,
         errors: [],
-        warnings: []
+        warnings: [],
+        importResult
       };
 
+      if (!result.success) {
+        const message = `全部 ${importResult.totalRows.toLocaleString()} 行数据均未通过校验，请下载错误报告修正后重新上传`;
+        result.errors.push(message);
+        setUploadResult(result);
+        onError?.(message);
+        return;
+      }
+
       // 数据质量检查
       if (data.length === 0) {
         result.warnings.push('文件中没有有效的数据记录');
@@ -124,8 +173,8 @@ export function CSVUploader({
         result.warnings.push(`数据包含 ${years.length} 个年份 (${Math.min(...years)}-${Math.max(...years)})，${weeks.length} 个周次 (第${Math.min(...weeks)}-${Math.max(...weeks)}周)`);
       }
 
+      // 等待用户确认导入方式后再写入
       setUploadResult(result);
-      onDataUpload?.(data, file.name);
 
     } catch (error: any) {
       const result: UploadResult = {
@@ -139,8 +188,54 @@ export function CSVUploader({
       onError?.(error.message);
     } finally {
       setIsUploading(false);
+      setProgress(null);
+    }
+  }, [dataService, validateFile, onError]);
+
+  // 解析完成或导入模式变化时重新计算导入变化预览
+  const pendingData = uploadResult?.success && !uploadResult.committed ? uploadResult.data : undefined;
+  useEffect(() => {
+    setPreview(null);
+    if (!pendingData || pendingData.length === 0) return;
+
+    let cancelled = false;
+    db.previewImport(pendingData, importMode)
+      .then(result => {
+        if (!cancelled) setPreview(result);
+      })
+      .catch(error => console.error('导入预览失败:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [pendingData, importMode]);
+
+  /**
+   * 按所选导入模式写入本地数据集
+   */
+  const commitImport = useCallback(async () => {
+    if (!uploadResult?.data) return;
+
+    setIsCommitting(true);
+    try {
+      const source = {
+        fileName: uploadResult.filename,
+        fileHash: await hashRecords(uploadResult.data),
+        operator: operator.trim() || DEFAULT_OPERATOR
+      };
+      const result = await db.insertBatch(uploadResult.data, importMode, source);
+      if (!result.success) {
+        throw new Error('写入本地数据集失败');
+      }
+      setUploadResult({ ...uploadResult, committed: result });
+      onDataUpload?.(uploadResult.data, uploadResult.filename);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      setUploadResult({ ...uploadResult, errors: [...uploadResult.errors, `导入失败: ${message}`] });
+      onError?.(message);
+    } finally {
+      setIsCommitting(false);
     }
-  }, [dataService, validateFile, onDataUpload, onError]);
+  }, [uploadResult, importMode, operator, onDataUpload, onError]);
 
   /**
    * 拖拽事件处理
@@ -180,11 +275,44 @@ export function CSVUploader({
    */
   const clearResult = useCallback(() => {
     setUploadResult(null);
+    setPreview(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
   }, []);
 
+  /**
+   * 保存枚举值映射并套用到待导入的记录
+   * @param mapping 本次选择的映射
+   */
+  const applyMapping = useCallback((mapping: ValueMapping) => {
+    setIsMappingOpen(false);
+    if (!uploadResult?.data || !uploadResult.importResult) return;
+
+    saveValueMapping(mapping);
+    const importResult = uploadResult.importResult;
+    setUploadResult({
+      ...uploadResult,
+      data: uploadResult.data.map(record => applyValueMapping({ ...record }, mapping)),
+      importResult: {
+        ...importResult,
+        unknownValues: filterUnmappedValues(importResult.unknownValues ?? [], mapping),
+        warnings: importResult.warnings.filter(issue =>
+          issue.rule !== 'enum' || !issue.field || mapping[issue.field as keyof ValueMapping]?.[issue.rawValue] === undefined
+        )
+      }
+    });
+  }, [uploadResult]);
+
+  /**
+   * 下载完整的行级错误报告
+   */
+  const downloadErrorReport = useCallback(() => {
+    if (uploadResult?.importResult) {
+      downloadImportErrorReport(uploadResult.importResult, uploadResult.filename);
+    }
+  }, [uploadResult]);
+
   /**
    * 下载示例文件
    */
@@ -280,6 +408,24 @@ export function CSVUploader({
         </div>
       </div>
 
+      {/* 解析进度 */}
+      {isUploading && progress && (
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs text-gray-600">
+            <span>正在解析… 已处理 {progress.processedRows.toLocaleString()} 行</span>
+            <span>
+              {(progress.processedBytes / (1024 * 1024)).toFixed(1)} / {(progress.totalBytes / (1024 * 1024)).toFixed(1)}MB（{progress.percent}%）
+            </span>
+          </div>
+          <div className="h-2 w-full rounded-full bg-gray-200 overflow-hidden">
+            <div
+              className="h-full bg-blue-500 transition-all"
+              style={{ width: `${progress.percent}%` }}
+            />
+          </div>
+        </div>
+      )}
+
       {/* 上传结果 */}
       {uploadResult && (
         <div className={`
@@ -303,9 +449,16 @@ export function CSVUploader({
                   <span className="font-medium text-gray-900">{uploadResult.filename}</span>
                 </div>
                 
-                {uploadResult.success ? (
+                {uploadResult.success && uploadResult.committed ? (
                   <p className="text-sm text-green-700 mt-1">
-                    上传成功！共 {uploadResult.recordCount.toLocaleString()} 条记录
+                    导入成功！新增 {uploadResult.committed.insertedCount.toLocaleString()} 条，
+                    更新 {uploadResult.committed.updatedCount.toLocaleString()} 条，
+                    舍弃 {uploadResult.committed.droppedCount.toLocaleString()} 条
+                    {uploadResult.committed.version && `（已记录为版本 ${uploadResult.committed.version.version}）`}
+                  </p>
+                ) : uploadResult.success ? (
+                  <p className="text-sm text-green-700 mt-1">
+                    解析完成，共 {uploadResult.recordCount.toLocaleString()} 条有效记录，请选择导入方式并确认
                   </p>
                 ) : (
                   <p className="text-sm text-red-700 mt-1">上传失败</p>
@@ -329,6 +482,36 @@ export function CSVUploader({
                   </div>
                 )}
 
+                {/* 行级校验结果 */}
+                {uploadResult.importResult && (
+                  <ImportIssueSummary
+                    importResult={uploadResult.importResult}
+                    onDownloadReport={downloadErrorReport}
+                  />
+                )}
+
+                {/* 未知枚举值 */}
+                {pendingData && uploadResult.importResult?.unknownValues && (
+                  <UnknownValuesSummary
+                    unknownValues={uploadResult.importResult.unknownValues}
+                    onOpenMapping={() => setIsMappingOpen(true)}
+                  />
+                )}
+
+                {/* 导入方式与变化预览 */}
+                {pendingData && pendingData.length > 0 && (
+                  <ImportPreviewPanel
+                    mode={importMode}
+                    preview={preview}
+                    isCommitting={isCommitting}
+                    operator={operator}
+                    onOperatorChange={setOperator}
+                    onModeChange={setImportMode}
+                    onConfirm={commitImport}
+                    onCancel={clearResult}
+                  />
+                )}
+
                 {/* 数据预览 */}
                 {uploadResult.success && uploadResult.data && uploadResult.data.length > 0 && (
                   <div className="mt-3 text-xs text-gray-600 space-y-1">
@@ -353,6 +536,14 @@ export function CSVUploader({
         </div>
       )}
 
+      {isMappingOpen && uploadResult?.importResult?.unknownValues && (
+        <ValueMappingDialog
+          unknownValues={uploadResult.importResult.unknownValues}
+          onApply={applyMapping}
+          onClose={() => setIsMappingOpen(false)}
+        />
+      )}
+
       {/* 使用说明 */}
       <div className="text-xs text-gray-500 space-y-1 border-t pt-4">
         <p><strong>支持功能:</strong> 拖拽上传、格式验证、数据预览、错误提示</p>
@@ -362,4 +553,216 @@ export function CSVUploader({
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+interface ImportIssueSummaryProps {
+  importResult: ImportResult;
+  onDownloadReport: () => void;
+}
+
+/**
+ * 行级校验结果：跳过行数、前若干条错误明细与错误报告下载
+ */
+function ImportIssueSummary({ importResult, onDownloadReport }: ImportIssueSummaryProps) {
+  const { errors, warnings, errorRows, totalRows } = importResult;
+  if (errors.length === 0 && warnings.length === 0) return null;
+
+  return (
+    <div className="mt-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-700">
+          共 {totalRows.toLocaleString()} 行，
+          <span className="text-red-600">跳过错误行 {errorRows.toLocaleString()} 行</span>
+          （{errors.length.toLocaleString()} 个错误，{warnings.length.toLocaleString()} 个警告）
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onDownloadReport}
+          className="flex items-center space-x-1"
+        >
+          <Download className="w-4 h-4" />
+          <span>下载错误报告</span>
+        </Button>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="max-h-48 overflow-auto rounded border border-red-100 bg-white">
+          <table className="w-full text-xs">
+            <thead className="bg-red-50 text-red-800">
+              <tr>
+                <th className="px-2 py-1 text-left">行号</th>
+                <th className="px-2 py-1 text-left">字段</th>
+                <th className="px-2 py-1 text-left">原始值</th>
+                <th className="px-2 py-1 text-left">问题</th>
+                <th className="px-2 py-1 text-left">修复建议</th>
+              </tr>
+            </thead>
+            <tbody>
+              {errors.slice(0, MAX_VISIBLE_ISSUES).map((issue, index) => (
+                <tr key={index} className="border-t border-red-50">
+                  <td className="px-2 py-1">{issue.row > 0 ? issue.row : '-'}</td>
+                  <td className="px-2 py-1">{issue.field ?? '-'}</td>
+                  <td className="px-2 py-1 font-mono">{issue.rawValue || '（空）'}</td>
+                  <td className="px-2 py-1 text-red-700">{issue.message}</td>
+                  <td className="px-2 py-1 text-gray-600">{issue.suggestion}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {errors.length > MAX_VISIBLE_ISSUES && (
+            <p className="px-2 py-1 text-xs text-red-600 italic">
+              还有 {(errors.length - MAX_VISIBLE_ISSUES).toLocaleString()} 个错误，请下载错误报告查看
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface UnknownValuesSummaryProps {
+  unknownValues: UnknownEnumValue[];
+  onOpenMapping: () => void;
+}
+
+/**
+ * 未知枚举值汇总：按字段列出不在允许范围内的取值及出现次数
+ */
+function UnknownValuesSummary({ unknownValues, onOpenMapping }: UnknownValuesSummaryProps) {
+  if (unknownValues.length === 0) return null;
+  const affectedRows = unknownValues.reduce((sum, unknown) => sum + unknown.count, 0);
+
+  return (
+    <div className="mt-3 space-y-2 rounded border border-yellow-200 bg-yellow-50 p-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-yellow-800">
+          发现 {unknownValues.length} 个不在允许范围内的取值（共 {affectedRows.toLocaleString()} 处）
+        </p>
+        <Button variant="outline" size="sm" onClick={onOpenMapping}>
+          映射为标准值
+        </Button>
+      </div>
+      <ul className="space-y-1 text-xs text-yellow-900">
+        {unknownValues.slice(0, MAX_VISIBLE_ISSUES).map(unknown => (
+          <li key={`${unknown.field}:${unknown.value}`}>
+            • {DISPLAY_NAMES[unknown.field]}：<span className="font-mono">{unknown.value}</span>
+            （{unknown.count.toLocaleString()} 行）
+          </li>
+        ))}
+      </ul>
+      {unknownValues.length > MAX_VISIBLE_ISSUES && (
+        <p className="text-xs text-yellow-700 italic">
+          还有 {(unknownValues.length - MAX_VISIBLE_ISSUES).toLocaleString()} 个未知取值
+        </p>
+      )}
+    </div>
+  );
+}
+
+interface ImportPreviewPanelProps {
+  mode: ImportMode;
+  preview: ImportPreview | null;
+  isCommitting: boolean;
+  operator: string;
+  onOperatorChange: (operator: string) => void;
+  onModeChange: (mode: ImportMode) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * 导入方式选择与变化预览：写入前展示各年度/周次将新增、更新、舍弃的行数
+ */
+function ImportPreviewPanel({
+  mode,
+  preview,
+  isCommitting,
+  operator,
+  onOperatorChange,
+  onModeChange,
+  onConfirm,
+  onCancel
+}: ImportPreviewPanelProps) {
+  return (
+    <div className="mt-3 space-y-3 rounded border border-gray-200 bg-white p-3">
+      <div>
+        <p className="text-sm font-medium text-gray-800 mb-2">导入方式</p>
+        <div className="flex flex-wrap gap-2">
+          {IMPORT_MODES.map(option => (
+            <Button
+              key={option}
+              variant={option === mode ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => onModeChange(option)}
+              disabled={isCommitting}
+            >
+              {IMPORT_MODE_LABELS[option]}
+            </Button>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500 mt-1">{IMPORT_MODE_DESCRIPTIONS[mode]}</p>
+      </div>
+
+      {preview ? (
+        <>
+          <div className="flex space-x-4 text-sm">
+            <span className="text-green-700">新增 <strong>{preview.inserted.toLocaleString()}</strong></span>
+            <span className="text-blue-700">更新 <strong>{preview.updated.toLocaleString()}</strong></span>
+            <span className="text-red-700">舍弃 <strong>{preview.dropped.toLocaleString()}</strong></span>
+          </div>
+          <div className="max-h-40 overflow-auto">
+            <table className="w-full text-xs">
+              <thead className="bg-gray-50 text-gray-700">
+                <tr>
+                  <th className="px-2 py-1 text-left">年度/周次</th>
+                  <th className="px-2 py-1 text-right">现有</th>
+                  <th className="px-2 py-1 text-right">导入</th>
+                  <th className="px-2 py-1 text-right">新增</th>
+                  <th className="px-2 py-1 text-right">更新</th>
+                  <th className="px-2 py-1 text-right">舍弃</th>
+                  <th className="px-2 py-1 text-right">导入后</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.partitions.map(partition => (
+                  <tr key={partition.key} className="border-t border-gray-100">
+                    <td className="px-2 py-1">{partition.policy_start_year}年第{partition.week_number}周</td>
+                    <td className="px-2 py-1 text-right">{partition.existingRows.toLocaleString()}</td>
+                    <td className="px-2 py-1 text-right">{partition.incomingRows.toLocaleString()}</td>
+                    <td className="px-2 py-1 text-right">{partition.inserted.toLocaleString()}</td>
+                    <td className="px-2 py-1 text-right">{partition.updated.toLocaleString()}</td>
+                    <td className="px-2 py-1 text-right">{partition.dropped.toLocaleString()}</td>
+                    <td className="px-2 py-1 text-right">{partition.resultRows.toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      ) : (
+        <p className="text-xs text-gray-500">正在计算导入变化…</p>
+      )}
+
+      <div className="flex items-center justify-end space-x-2">
+        <label className="flex items-center space-x-1 text-xs text-gray-600 mr-auto">
+          <span>操作人</span>
+          <input
+            type="text"
+            value={operator}
+            onChange={event => onOperatorChange(event.target.value)}
+            placeholder={DEFAULT_OPERATOR}
+            className="w-28 rounded border border-gray-300 px-2 py-1 text-xs"
+            disabled={isCommitting}
+          />
+        </label>
+        <Button variant="ghost" size="sm" onClick={onCancel} disabled={isCommitting}>
+          取消
+        </Button>
+        <Button size="sm" onClick={onConfirm} disabled={!preview || isCommitting}>
+          {isCommitting ? '正在导入…' : '确认导入'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+'use client';
+
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { DISPLAY_NAMES } from '@/lib/constants';
+import { ENUM_SCHEMA, suggestCanonicalValue } from '@/lib/enum-validation';
+import { UnknownEnumValue, ValueMapping } from '@/types/insurance';
+
+interface ValueMappingDialogProps {
+  unknownValues: UnknownEnumValue[];
+  onApply: (mapping: ValueMapping) => void;  // 保存并套用所选映射
+  onClose: () => void;
+}
+
+/**
+ * 未知取值在选择表中的键
+ * @param unknown 未知取值
+ */
+function getUnknownKey(unknown: UnknownEnumValue): string {
+  return `${unknown.field}\u0001${unknown.value}`;
+}
+
+/**
+ * 枚举值映射对话框
+ * 为每个未知取值选择对应的标准值，未选择的保留原值
+ */
+export function ValueMappingDialog({ unknownValues, onApply, onClose }: ValueMappingDialogProps) {
+  const [selections, setSelections] = useState<Record<string, string>>(() =>
+    Object.fromEntries(unknownValues.map(unknown => [
+      getUnknownKey(unknown),
+      suggestCanonicalValue(unknown.field, unknown.value) ?? ''
+    ]))
+  );
+
+  const selectedCount = Object.values(selections).filter(Boolean).length;
+
+  /**
+   * 收集已选择的映射
+   */
+  const handleApply = () => {
+    const mapping: ValueMapping = {};
+    unknownValues.forEach(unknown => {
+      const canonical = selections[getUnknownKey(unknown)];
+      if (!canonical) return;
+      mapping[unknown.field] = { ...mapping[unknown.field], [unknown.value]: canonical };
+    });
+    onApply(mapping);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40">
+      <div className="w-full max-w-3xl rounded-lg bg-white shadow-lg">
+        <div className="flex items-center justify-between border-b px-4 py-3">
+          <h3 className="font-medium text-gray-900">映射未知取值</h3>
+          <Button variant="ghost" size="sm" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <div className="max-h-[60vh] overflow-auto px-4 py-3">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-gray-700">
+              <tr>
+                <th className="px-2 py-1 text-left">字段</th>
+                <th className="px-2 py-1 text-left">原始值</th>
+                <th className="px-2 py-1 text-right">出现行数</th>
+                <th className="px-2 py-1 text-left">示例行号</th>
+                <th className="px-2 py-1 text-left">映射为</th>
+              </tr>
+            </thead>
+            <tbody>
+              {unknownValues.map(unknown => {
+                const key = getUnknownKey(unknown);
+                return (
+                  <tr key={key} className="border-t border-gray-100">
+                    <td className="px-2 py-1">{DISPLAY_NAMES[unknown.field]}</td>
+                    <td className="px-2 py-1 font-mono">{unknown.value}</td>
+                    <td className="px-2 py-1 text-right">{unknown.count.toLocaleString()}</td>
+                    <td className="px-2 py-1 text-gray-500">{unknown.rows.join(', ')}</td>
+                    <td className="px-2 py-1">
+                      <select
+                        value={selections[key] ?? ''}
+                        onChange={event => setSelections(prev => ({ ...prev, [key]: event.target.value }))}
+                        className="w-full rounded border border-gray-300 px-2 py-1 text-sm"
+                      >
+                        <option value="">保留原值</option>
+                        {ENUM_SCHEMA[unknown.field].map(option => (
+                          <option key={option} value={option}>{option}</option>
+                        ))}
+                      </select>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex items-center justify-between border-t px-4 py-3">
+          <p className="text-xs text-gray-500">映射将保存在本机，后续导入自动套用</p>
+          <div className="flex space-x-2">
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              取消
+            </Button>
+            <Button size="sm" onClick={handleApply} disabled={selectedCount === 0}>
+              保存并应用（{selectedCount}）
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
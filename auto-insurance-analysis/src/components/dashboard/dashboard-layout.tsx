@@ -1,20 +1,66 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { FilterPanel } from '@/components/filters/filter-panel';
-import { ChartContainer } from '@/components/charts/chart-container';
+import { FilterTemplatePanel } from '@/components/filters/FilterTemplatePanel';
+import { ChartContainer, ChartType } from '@/components/charts/chart-container';
+import { TimeSeriesAnomalyPanel } from '@/components/charts/TimeSeriesAnomalyPanel';
+import { DimensionSelector, getGroupLimit, toChartFields } from '@/components/charts/DimensionSelector';
+import { MetricSelector } from '@/components/charts/MetricSelector';
 import { DataTable } from '@/components/data-table/data-table';
 import { CSVUploader } from '@/components/csv-uploader/CSVUploader';
 import { DataDiscovery } from '@/components/data-discovery/DataDiscovery';
+import { VersionHistory } from '@/components/data-versions/VersionHistory';
+import { DataQualityPanel } from '@/components/data-quality/DataQualityPanel';
+import { WeekReconciliationPanel } from '@/components/data-quality/WeekReconciliationPanel';
+import { AlertRulesPanel } from '@/components/alerts/AlertRulesPanel';
+import { RiskMonitorPanel } from '@/components/risk/RiskMonitorPanel';
+import { AttributionPanel } from '@/components/attribution/AttributionPanel';
+import { InsightReportPanel } from '@/components/insights/InsightReportPanel';
 import { StatsOverview } from '@/components/dashboard/stats-overview';
 import { EnhancedStatsOverview } from '@/components/dashboard/enhanced-stats-overview';
 import { ExportButton } from '@/components/export/export-button';
-import { FilterConditions, InsuranceRecord, AnalysisResult } from '@/types/insurance';
+import { FilterConditions, InsuranceRecord, AnalysisResult, DashboardConfig } from '@/types/insurance';
 import { db } from '@/lib/database';
+import { DISPLAY_NAMES } from '@/lib/constants';
+import { AmountUnit } from '@/lib/metric-favorites';
+import {
+  DashboardSnapshot,
+  RecentSnapshot,
+  getDefaultFilterTemplate,
+  isSameSnapshot,
+  loadRecentSnapshots,
+  recordRecentSnapshot
+} from '@/lib/filter-templates';
+import {
+  DashboardTab,
+  DashboardUrlState,
+  DEFAULT_URL_STATE,
+  copyToClipboard,
+  decodeDashboardState,
+  encodeDashboardState
+} from '@/lib/url-state';
+import { aggregationClient, isAbortError } from '@/lib/aggregation-client';
 import { MetricCalculationResult } from '@/services/metricCalculator';
-import { Upload, BarChart3, Table, Download, Settings, RefreshCw } from 'lucide-react';
+import {
+  compareMetrics,
+  ComparisonMode,
+  ComparisonPeriod,
+  MetricComparisonResult
+} from '@/services/comparisonService';
+import { Upload, BarChart3, Table, Download, Settings, RefreshCw, ShieldCheck, BellRing, AlertTriangle, Lightbulb, Link2 } from 'lucide-react';
+
+/**
+ * 概览页业绩图表的指标
+ */
+const OVERVIEW_METRICS = ['signed_premium_yuan'];
+
+/**
+ * 筛选与图表组合保持不变多久后记入最近使用（毫秒）
+ */
+const RECENT_SNAPSHOT_DELAY = 2000;
 
 /**
  * 仪表盘主布局组件
@@ -22,35 +68,57 @@ import { Upload, BarChart3, Table, Download, Settings, RefreshCw } from 'lucide-
  */
 export function DashboardLayout() {
   // 状态管理
-  const [activeTab, setActiveTab] = useState<'overview' | 'charts' | 'table' | 'import' | 'export'>('overview');
+  const [activeTab, setActiveTab] = useState<DashboardTab>(DEFAULT_URL_STATE.tab);
   const [filters, setFilters] = useState<FilterConditions>({});
   const [data, setData] = useState<InsuranceRecord[]>([]);
   const [analysisResults, setAnalysisResults] = useState<AnalysisResult[]>([]);
+  const [selectedDimensions, setSelectedDimensions] = useState<DashboardConfig['selectedDimensions']>(DEFAULT_URL_STATE.selectedDimensions);
+  const [analysisLoading, setAnalysisLoading] = useState(false);
+  const [selectedMetrics, setSelectedMetrics] = useState<DashboardConfig['selectedMetrics']>(DEFAULT_URL_STATE.selectedMetrics);
+  const [amountUnit, setAmountUnit] = useState<AmountUnit>(DEFAULT_URL_STATE.amountUnit);
+  const [chartType, setChartType] = useState<ChartType>(DEFAULT_URL_STATE.chartType);
+  const [recentSnapshots, setRecentSnapshots] = useState<RecentSnapshot[]>([]);
+  const [urlReady, setUrlReady] = useState(false);
+  const initialUrlSyncRef = useRef(true);
+  const [linkCopied, setLinkCopied] = useState(false);
   const [summaryStats, setSummaryStats] = useState<AnalysisResult | null>(null);
   const [metricResults, setMetricResults] = useState<MetricCalculationResult | null>(null);
+  const [comparisonMode, setComparisonMode] = useState<ComparisonMode>('previous_week');
+  const [customBaseline, setCustomBaseline] = useState<ComparisonPeriod | undefined>();
+  const [comparison, setComparison] = useState<MetricComparisonResult | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   // 页面配置
   const [currentPage, setCurrentPage] = useState(1);
-  const [pageSize, setPageSize] = useState(50);
+  const [pageSize, setPageSize] = useState(DEFAULT_URL_STATE.pageSize);
   const [totalRecords, setTotalRecords] = useState(0);
 
+  // 进行中的查询，筛选条件变化时取消
+  const loadControllerRef = useRef<AbortController | null>(null);
+  const analysisControllerRef = useRef<AbortController | null>(null);
+
   /**
    * 加载数据并计算指标
    */
-  const loadData = async () => {
+  const loadData = useCallback(async () => {
+    loadControllerRef.current?.abort();
+    const controller = new AbortController();
+    loadControllerRef.current = controller;
+    const { signal } = controller;
+
     try {
       setLoading(true);
       setError(null);
 
-      // 加载原始数据
-      const result = await db.findByConditions(
+      // 加载原始数据（筛选、排序、聚合均在Worker中执行）
+      const result = await aggregationClient.findByConditions(
         filters,
         undefined,
         'asc',
         currentPage,
-        pageSize
+        pageSize,
+        signal
       );
 
       if (result.data) {
@@ -58,7 +126,7 @@ export function DashboardLayout() {
         setTotalRecords(result.total || 0);
 
         // 计算全局指标 - 使用现有方法
-        const stats = await db.getSummaryStats(filters);
+        const stats = await aggregationClient.getSummaryStats(filters, signal);
         setSummaryStats(stats);
         
         // 尝试使用新的指标计算引擎（如果可用）
@@ -72,27 +140,79 @@ export function DashboardLayout() {
         } catch (importErr) {
           console.log('新指标计算引擎暂不可用，使用现有统计方法');
         }
-
-        // 计算按维度分组的指标（用于图表）
-        const analysisResults = await db.aggregateByDimensions(['third_level_organization'], filters, 20);
-        setAnalysisResults(analysisResults);
       } else {
         setError('数据加载失败');
       }
     } catch (err) {
+      // 被新的查询取代，不视为错误
+      if (isAbortError(err)) return;
       console.error('数据加载错误:', err);
       setError(err instanceof Error ? err.message : '数据加载失败');
     } finally {
-      setLoading(false);
+      if (loadControllerRef.current === controller) {
+        setLoading(false);
+      }
+    }
+  }, [filters, currentPage, pageSize]);
+
+  /**
+   * 按选定的分组维度计算指标（用于图表）
+   */
+  const loadAnalysisResults = useCallback(async () => {
+    analysisControllerRef.current?.abort();
+    const controller = new AbortController();
+    analysisControllerRef.current = controller;
+
+    try {
+      setAnalysisLoading(true);
+      setAnalysisResults(await aggregationClient.aggregateByDimensions(
+        selectedDimensions, filters, getGroupLimit(selectedDimensions), controller.signal
+      ));
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error('分组指标计算错误:', err);
+      setError(err instanceof Error ? err.message : '分组指标计算失败');
+    } finally {
+      if (analysisControllerRef.current === controller) {
+        setAnalysisLoading(false);
+      }
+    }
+  }, [filters, selectedDimensions]);
+
+  /**
+   * 加载指标对比（当期 vs 对比基期）
+   */
+  const loadComparison = useCallback(async () => {
+    try {
+      setComparison(await compareMetrics(filters, comparisonMode, customBaseline, aggregationClient));
+    } catch (err) {
+      console.error('指标对比计算错误:', err);
+      setComparison(null);
     }
+  }, [filters, comparisonMode, customBaseline]);
+
+  /**
+   * 处理对比基期变化
+   */
+  const handleComparisonChange = (mode: ComparisonMode, baseline?: ComparisonPeriod) => {
+    setComparisonMode(mode);
+    setCustomBaseline(baseline);
   };
 
   /**
    * 处理筛选条件变化
    */
-  const handleFiltersChange = (newFilters: FilterConditions) => {
+  const handleFiltersChange = useCallback((newFilters: FilterConditions) => {
     setFilters(newFilters);
     setCurrentPage(1); // 重置到第一页
+  }, []);
+
+  /**
+   * 从风险单元进入对应筛选条件的数据概览
+   */
+  const handleRiskDrillDown = (unitFilters: FilterConditions) => {
+    handleFiltersChange(unitFilters);
+    setActiveTab('overview');
   };
 
   /**
@@ -100,6 +220,8 @@ export function DashboardLayout() {
    */
   const handleDataImported = () => {
     loadData();
+    loadAnalysisResults();
+    loadComparison();
     setActiveTab('overview');
   };
 
@@ -108,19 +230,137 @@ export function DashboardLayout() {
    */
   const refreshData = () => {
     db.clearCache();
+    aggregationClient.clearCache();
     loadData();
+    loadAnalysisResults();
+    loadComparison();
   };
 
   // 初始化加载数据
   useEffect(() => {
     loadData();
-  }, [filters, currentPage, pageSize]);
+  }, [loadData]);
+
+  useEffect(() => {
+    loadAnalysisResults();
+  }, [loadAnalysisResults]);
+
+  useEffect(() => {
+    loadComparison();
+  }, [loadComparison]);
+
+  // 当前的筛选与图表组合
+  const snapshot = useMemo<DashboardSnapshot>(
+    () => ({ filters, selectedDimensions, selectedMetrics, chartType }),
+    [filters, selectedDimensions, selectedMetrics, chartType]
+  );
+
+  /**
+   * 应用筛选模板或最近使用的组合
+   */
+  const applySnapshot = useCallback((next: DashboardSnapshot) => {
+    handleFiltersChange(next.filters);
+    setSelectedDimensions(next.selectedDimensions);
+    setSelectedMetrics(next.selectedMetrics);
+    setChartType(next.chartType);
+  }, [handleFiltersChange]);
+
+  // 写入URL的仪表盘状态
+  const urlState = useMemo<DashboardUrlState>(
+    () => ({ ...snapshot, tab: activeTab, page: currentPage, pageSize, amountUnit }),
+    [snapshot, activeTab, currentPage, pageSize, amountUnit]
+  );
+
+  /**
+   * 应用从URL还原的仪表盘状态
+   */
+  const applyUrlState = useCallback((state: DashboardUrlState) => {
+    setFilters(state.filters);
+    setSelectedDimensions(state.selectedDimensions);
+    setSelectedMetrics(state.selectedMetrics);
+    setChartType(state.chartType);
+    setActiveTab(state.tab);
+    setCurrentPage(state.page);
+    setPageSize(state.pageSize);
+    setAmountUnit(state.amountUnit);
+  }, []);
+
+  /**
+   * 复制当前视图的分享链接
+   */
+  const copyShareLink = async () => {
+    try {
+      await copyToClipboard(window.location.href);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '复制链接失败');
+    }
+  };
+
+  // 加载时优先还原URL中的状态，URL未携带状态时应用默认模板
+  useEffect(() => {
+    if (window.location.search) {
+      applyUrlState(decodeDashboardState(window.location.search));
+    } else {
+      const template = getDefaultFilterTemplate();
+      if (template) applySnapshot(template.snapshot);
+    }
+    setRecentSnapshots(loadRecentSnapshots());
+    setUrlReady(true);
+  }, [applySnapshot, applyUrlState]);
+
+  // 状态变化时同步URL：筛选与图表组合变化时新增历史记录，其余（标签页、分页等）替换当前记录
+  useEffect(() => {
+    if (!urlReady) return;
+    // 加载时（还原URL或应用默认模板）不新增历史记录
+    const isInitialSync = initialUrlSyncRef.current;
+    initialUrlSyncRef.current = false;
+
+    const query = encodeDashboardState(urlState);
+    const current = window.location.search.replace(/^\?/, '');
+    if (query === current) return;
+
+    const url = `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`;
+    if (isInitialSync || isSameSnapshot(decodeDashboardState(current), snapshot)) {
+      window.history.replaceState(null, '', url);
+    } else {
+      window.history.pushState(null, '', url);
+    }
+  }, [urlReady, urlState, snapshot]);
+
+  // 浏览器前进/后退时还原对应的状态
+  useEffect(() => {
+    const handlePopState = () => applyUrlState(decodeDashboardState(window.location.search));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [applyUrlState]);
+
+  // 组合保持一段时间不变后记入最近使用
+  useEffect(() => {
+    const timer = setTimeout(() => setRecentSnapshots(recordRecentSnapshot(snapshot)), RECENT_SNAPSHOT_DELAY);
+    return () => clearTimeout(timer);
+  }, [snapshot]);
+
+  // 卸载时取消进行中的查询
+  useEffect(() => () => {
+    loadControllerRef.current?.abort();
+    analysisControllerRef.current?.abort();
+  }, []);
+
+  // 分组维度对应的图表字段与名称
+  const chartFields = toChartFields(selectedDimensions);
+  const groupLabel = selectedDimensions.map(field => DISPLAY_NAMES[field]).join(' × ');
 
   // 标签页配置
   const tabs = [
     { id: 'overview', label: '数据概览', icon: BarChart3 },
     { id: 'charts', label: '图表分析', icon: BarChart3 },
     { id: 'table', label: '数据表格', icon: Table },
+    { id: 'insights', label: '智能洞察', icon: Lightbulb },
+    { id: 'risk', label: '风险监控', icon: AlertTriangle },
+    { id: 'quality', label: '数据质量', icon: ShieldCheck },
+    { id: 'alerts', label: '预警规则', icon: BellRing },
     { id: 'import', label: '数据导入', icon: Upload },
     { id: 'export', label: '数据导出', icon: Download },
   ] as const;
@@ -145,6 +385,16 @@ export function DashboardLayout() {
                 <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
                 刷新数据
               </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={copyShareLink}
+                className="flex items-center gap-2"
+                title="复制包含当前筛选条件与视图的链接"
+              >
+                <Link2 className="h-4 w-4" />
+                {linkCopied ? '已复制' : '复制链接'}
+              </Button>
               <Button variant="outline" size="sm">
                 <Settings className="h-4 w-4" />
               </Button>
@@ -167,6 +417,9 @@ export function DashboardLayout() {
                   onFiltersChange={handleFiltersChange}
                   loading={loading}
                 />
+                <div className="mt-4 pt-4 border-t">
+                  <FilterTemplatePanel snapshot={snapshot} onApply={applySnapshot} recent={recentSnapshots} />
+                </div>
               </CardContent>
             </Card>
           </div>
@@ -214,22 +467,35 @@ export function DashboardLayout() {
                       metricResults={metricResults}
                       totalRecords={totalRecords}
                       loading={loading}
+                      comparison={comparison}
+                      onComparisonChange={handleComparisonChange}
+                    />
+                  )}
+
+                  {/* 指标变化归因 */}
+                  {comparison?.currentPeriod && comparison.baselinePeriod && (
+                    <AttributionPanel
+                      filters={filters}
+                      currentPeriod={comparison.currentPeriod}
+                      baselinePeriod={comparison.baselinePeriod}
+                      onError={setError}
                     />
                   )}
                   
                   {/* 快速图表 */}
                   <Card>
                     <CardHeader>
-                      <CardTitle>机构业绩分析</CardTitle>
+                      <CardTitle>{groupLabel}业绩分析</CardTitle>
                     </CardHeader>
                     <CardContent>
                       <ChartContainer
                         data={analysisResults}
                         chartType="bar"
-                        xField="dimensions.third_level_organization"
-                        yField="signed_premium_yuan"
-                        title="各机构签单保费"
-                        loading={loading}
+                        xField={chartFields.xField}
+                        seriesField={chartFields.seriesField}
+                        yFields={OVERVIEW_METRICS}
+                        title={`各${groupLabel}签单保费`}
+                        loading={analysisLoading}
                       />
                     </CardContent>
                   </Card>
@@ -237,15 +503,32 @@ export function DashboardLayout() {
               )}
 
               {activeTab === 'charts' && (
-                <ChartContainer
-                  data={analysisResults}
-                  chartType="bar"
-                  xField="dimensions.third_level_organization"
-                  yField="signed_premium_yuan"
-                  title="多维度图表分析"
-                  loading={loading}
-                  interactive={true}
-                />
+                <div className="space-y-6">
+                  <Card>
+                    <CardContent className="pt-6 space-y-4">
+                      <DimensionSelector value={selectedDimensions} onChange={setSelectedDimensions} />
+                      <MetricSelector
+                        value={selectedMetrics}
+                        onChange={setSelectedMetrics}
+                        amountUnit={amountUnit}
+                        onAmountUnitChange={setAmountUnit}
+                      />
+                    </CardContent>
+                  </Card>
+                  <ChartContainer
+                    data={analysisResults}
+                    chartType={chartType}
+                    onChartTypeChange={setChartType}
+                    xField={chartFields.xField}
+                    seriesField={chartFields.seriesField}
+                    yFields={selectedMetrics}
+                    amountUnit={amountUnit}
+                    title={`多维度图表分析（${groupLabel}）`}
+                    loading={analysisLoading}
+                    interactive={true}
+                  />
+                  <TimeSeriesAnomalyPanel filters={filters} onError={setError} />
+                </div>
               )}
 
               {activeTab === 'table' && (
@@ -267,6 +550,25 @@ export function DashboardLayout() {
                 </Card>
               )}
 
+              {activeTab === 'insights' && (
+                <InsightReportPanel filters={filters} onError={setError} />
+              )}
+
+              {activeTab === 'risk' && (
+                <RiskMonitorPanel filters={filters} onDrillDown={handleRiskDrillDown} onError={setError} />
+              )}
+
+              {activeTab === 'quality' && (
+                <div className="space-y-6">
+                  <DataQualityPanel onError={setError} />
+                  <WeekReconciliationPanel onError={setError} />
+                </div>
+              )}
+
+              {activeTab === 'alerts' && (
+                <AlertRulesPanel filters={filters} onError={setError} />
+              )}
+
               {activeTab === 'import' && (
                 <div className="space-y-6">
                   {/* 数据发现 */}
@@ -293,12 +595,7 @@ export function DashboardLayout() {
                     </CardHeader>
                     <CardContent>
                       <CSVUploader 
-                        onDataUpload={(data, filename) => {
-                          console.log('文件上传完成:', { filename, recordCount: data.length });
-                          setData(data);
-                          setTotalRecords(data.length);
-                          setActiveTab('overview');
-                        }}
+                        onDataUpload={() => handleDataImported()}
                         onError={(error) => {
                           console.error('上传错误:', error);
                           setError(error);
@@ -306,6 +603,19 @@ export function DashboardLayout() {
                       />
                     </CardContent>
                   </Card>
+
+                  {/* 导入版本 */}
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>导入版本历史</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <VersionHistory
+                        onRollback={() => refreshData()}
+                        onError={setError}
+                      />
+                    </CardContent>
+                  </Card>
                 </div>
               )}
 
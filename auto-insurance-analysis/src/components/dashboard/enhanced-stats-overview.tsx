@@ -4,6 +4,13 @@ import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { AnalysisResult } from '@/types/insurance';
 import { MetricCalculationResult } from '@/services/metricCalculator';
+import {
+  COMPARISON_MODE_LABELS,
+  ComparableField,
+  ComparisonMode,
+  ComparisonPeriod,
+  MetricComparisonResult
+} from '@/services/comparisonService';
 import { 
   TrendingUp, 
   TrendingDown, 
@@ -23,6 +30,8 @@ interface EnhancedStatsOverviewProps {
   metricResults?: MetricCalculationResult | null;
   totalRecords: number;
   loading?: boolean;
+  comparison?: MetricComparisonResult | null;
+  onComparisonChange?: (mode: ComparisonMode, customBaseline?: ComparisonPeriod) => void;
 }
 
 /**
@@ -33,7 +42,9 @@ export function EnhancedStatsOverview({
   stats, 
   metricResults, 
   totalRecords, 
-  loading = false 
+  loading = false,
+  comparison,
+  onComparisonChange
 }: EnhancedStatsOverviewProps) {
   
   /**
@@ -57,12 +68,38 @@ export function EnhancedStatsOverview({
   };
 
   /**
-   * 计算同比增长率（模拟数据）
+   * 格式化期间
    */
-  const calculateGrowthRate = (current: number): number => {
-    return Math.random() * 0.2 - 0.1; // -10% 到 +10% 的随机增长率
+  const formatPeriod = (period: ComparisonPeriod): string => `${period.year}年第${period.week}周`;
+
+  /**
+   * 格式化指标变化（率值指标为百分点，其余为增长率）
+   */
+  const formatChange = (field: ComparableField): string => {
+    const item = comparison?.metrics[field];
+    if (!item || item.change === null) return '无对比数据';
+    const sign = item.change > 0 ? '+' : '';
+    return item.changeType === 'point'
+      ? `${sign}${item.change.toFixed(1)}pp`
+      : `${sign}${item.change.toFixed(1)}%`;
+  };
+
+  /**
+   * 格式化变化对应的当期值
+   * 变化按当期与基期计算，卡片主值为筛选范围内的汇总，二者口径不同，需并列标明当期值
+   */
+  const formatCurrentValue = (field: ComparableField, type: 'currency' | 'percentage' | 'count' | 'decimal'): string => {
+    const item = comparison?.metrics[field];
+    return item && comparison?.currentPeriod
+      ? `${formatPeriod(comparison.currentPeriod)} ${formatNumber(item.current, type)}`
+      : '';
   };
 
+  /**
+   * 获取指标变化值
+   */
+  const getChange = (field: ComparableField): number => comparison?.metrics[field]?.change ?? 0;
+
   /**
    * 获取趋势图标
    */
@@ -87,7 +124,7 @@ export function EnhancedStatsOverview({
   /**
    * 获取指标状态颜色
    */
-  const getMetricStatusColor = (value: number, type: 'loss_ratio' | 'expense_ratio' | 'cost_ratio' | 'margin_ratio'): string => {
+  const getMetricStatusColor = (value: number, type: 'loss_ratio' | 'expense_ratio' | 'cost_ratio' | 'margin_ratio' | 'progress_rate'): string => {
     switch (type) {
       case 'loss_ratio':
         if (value > 100) return 'text-red-600';
@@ -105,6 +142,10 @@ export function EnhancedStatsOverview({
         if (value < 0) return 'text-red-600';
         if (value < 10) return 'text-yellow-600';
         return 'text-green-600';
+      case 'progress_rate':
+        if (value < 80) return 'text-red-600';
+        if (value < 100) return 'text-yellow-600';
+        return 'text-green-600';
       default:
         return 'text-gray-600';
     }
@@ -128,8 +169,14 @@ export function EnhancedStatsOverview({
     );
   }
 
-  // 使用新指标计算结果或回退到原有统计
-  const displayStats = metricResults || stats;
+  // 卡片主值统一使用筛选范围内的汇总（metricResults 仅覆盖当前页记录，用于异常与计算提醒）
+  const displayStats = stats;
+
+  // 对比基期
+  const comparisonMode = comparison?.mode ?? 'previous_week';
+  const baselineLabel = comparison?.baselinePeriod
+    ? `${COMPARISON_MODE_LABELS[comparisonMode]}（${formatPeriod(comparison.baselinePeriod)}）`
+    : COMPARISON_MODE_LABELS[comparisonMode];
 
   // 核心绝对值指标（9个）
   const absoluteMetrics = [
@@ -139,7 +186,7 @@ export function EnhancedStatsOverview({
       type: 'currency' as const,
       icon: DollarSign,
       description: '总签单保费金额',
-      growth: calculateGrowthRate(displayStats.signed_premium_yuan || 0)
+      field: 'signed_premium_yuan' as const
     },
     {
       title: '满期保费',
@@ -147,7 +194,7 @@ export function EnhancedStatsOverview({
       type: 'currency' as const,
       icon: Target,
       description: '总满期保费金额',
-      growth: calculateGrowthRate(displayStats.matured_premium_yuan || 0)
+      field: 'matured_premium_yuan' as const
     },
     {
       title: '保单件数',
@@ -155,7 +202,7 @@ export function EnhancedStatsOverview({
       type: 'count' as const,
       icon: FileText,
       description: '保单总数',
-      growth: calculateGrowthRate(displayStats.policy_count || 0)
+      field: 'policy_count' as const
     },
     {
       title: '出险案件',
@@ -163,7 +210,7 @@ export function EnhancedStatsOverview({
       type: 'count' as const,
       icon: AlertCircle,
       description: '出险案件总数',
-      growth: calculateGrowthRate(displayStats.claim_case_count || 0)
+      field: 'claim_case_count' as const
     }
   ];
 
@@ -171,39 +218,55 @@ export function EnhancedStatsOverview({
   const ratioMetrics = [
     {
       title: '满期赔付率',
-      value: metricResults?.expired_loss_ratio_percent || displayStats.expired_loss_ratio_percent || 0,
+      field: 'expired_loss_ratio_percent' as const,
+      value: displayStats.expired_loss_ratio_percent || 0,
       type: 'percentage' as const,
       icon: AlertCircle,
       description: '已报告赔款/满期保费',
-      statusColor: getMetricStatusColor(metricResults?.expired_loss_ratio_percent || 0, 'loss_ratio')
+      statusColor: getMetricStatusColor(displayStats.expired_loss_ratio_percent || 0, 'loss_ratio')
     },
     {
       title: '费用率',
-      value: metricResults?.expense_ratio_percent || displayStats.expense_ratio_percent || 0,
+      field: 'expense_ratio_percent' as const,
+      value: displayStats.expense_ratio_percent || 0,
       type: 'percentage' as const,
       icon: Calculator,
       description: '费用金额/签单保费',
-      statusColor: getMetricStatusColor(metricResults?.expense_ratio_percent || 0, 'expense_ratio')
+      statusColor: getMetricStatusColor(displayStats.expense_ratio_percent || 0, 'expense_ratio')
     },
     {
       title: '变动成本率',
-      value: metricResults?.variable_cost_ratio_percent || displayStats.variable_cost_ratio_percent || 0,
+      field: 'variable_cost_ratio_percent' as const,
+      value: displayStats.variable_cost_ratio_percent || 0,
       type: 'percentage' as const,
       icon: BarChart3,
       description: '费用率+满期赔付率',
-      statusColor: getMetricStatusColor(metricResults?.variable_cost_ratio_percent || 0, 'cost_ratio')
+      statusColor: getMetricStatusColor(displayStats.variable_cost_ratio_percent || 0, 'cost_ratio')
     },
     {
       title: '边际贡献率',
-      value: metricResults?.matured_margin_contribution_rate_percent || 0,
+      field: 'matured_margin_contribution_rate_percent' as const,
+      value: displayStats.matured_margin_contribution_rate_percent || 0,
       type: 'percentage' as const,
       icon: PieChart,
       description: '满期边际贡献额/满期保费',
-      statusColor: getMetricStatusColor(metricResults?.matured_margin_contribution_rate_percent || 0, 'margin_ratio')
+      statusColor: getMetricStatusColor(displayStats.matured_margin_contribution_rate_percent || 0, 'margin_ratio')
+    },
+    {
+      title: '保费时间进度达成率',
+      field: 'premium_time_progress_achievement_rate_percent' as const,
+      value: displayStats.premium_time_progress_achievement_rate_percent || 0,
+      type: 'percentage' as const,
+      icon: Target,
+      description: '签单保费/保费时间进度计划',
+      statusColor: (displayStats.premium_time_progress_plan_yuan || 0) > 0
+        ? getMetricStatusColor(displayStats.premium_time_progress_achievement_rate_percent || 0, 'progress_rate')
+        : 'text-gray-600'
     },
     {
       title: '出险频度',
-      value: metricResults?.claim_frequency_percent || displayStats.claim_frequency_percent || 0,
+      field: 'claim_frequency_percent' as const,
+      value: displayStats.claim_frequency_percent || 0,
       type: 'percentage' as const,
       icon: AlertCircle,
       description: '出险案件数/保单件数×满期率',
@@ -211,7 +274,8 @@ export function EnhancedStatsOverview({
     },
     {
       title: '综合成本率',
-      value: metricResults?.combined_ratio_percent || 0,
+      field: 'combined_ratio_percent' as const,
+      value: displayStats.combined_ratio_percent || 0,
       type: 'percentage' as const,
       icon: BarChart3,
       description: '变动成本率的综合指标',
@@ -219,7 +283,8 @@ export function EnhancedStatsOverview({
     },
     {
       title: '利润率',
-      value: metricResults?.profit_margin_percent || 0,
+      field: 'profit_margin_percent' as const,
+      value: displayStats.profit_margin_percent || 0,
       type: 'percentage' as const,
       icon: Target,
       description: '盈利能力指标',
@@ -231,14 +296,16 @@ export function EnhancedStatsOverview({
   const averageMetrics = [
     {
       title: '单均保费',
-      value: metricResults?.average_premium_per_policy_yuan || displayStats.average_premium_per_policy_yuan || 0,
+      field: 'average_premium_per_policy_yuan' as const,
+      value: displayStats.average_premium_per_policy_yuan || 0,
       type: 'currency' as const,
       icon: DollarSign,
       description: '签单保费/保单件数'
     },
     {
       title: '案均赔款',
-      value: metricResults?.average_claim_payment_yuan || displayStats.average_claim_payment_yuan || 0,
+      field: 'average_claim_payment_yuan' as const,
+      value: displayStats.average_claim_payment_yuan || 0,
       type: 'currency' as const,
       icon: AlertCircle,
       description: '已报告赔款/赔案件数'
@@ -266,6 +333,54 @@ export function EnhancedStatsOverview({
         </Card>
       )}
 
+      {/* 对比基期选择 */}
+      {onComparisonChange && (
+        <Card>
+          <CardContent className="p-4">
+            <div className="flex flex-wrap items-center gap-3">
+              <span className="text-sm font-medium text-gray-700">
+                对比基期
+                {comparison?.currentPeriod && (
+                  <span className="ml-1 text-gray-500">（当期：{formatPeriod(comparison.currentPeriod)}）</span>
+                )}
+              </span>
+              {(Object.keys(COMPARISON_MODE_LABELS) as ComparisonMode[]).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => onComparisonChange(
+                    mode,
+                    mode === 'custom' ? comparison?.baselinePeriod ?? comparison?.availablePeriods[0] : undefined
+                  )}
+                  className={`px-3 py-1 rounded-md text-sm transition-colors ${
+                    comparisonMode === mode
+                      ? 'bg-blue-100 text-blue-700'
+                      : 'text-gray-600 hover:bg-gray-100'
+                  }`}
+                >
+                  {COMPARISON_MODE_LABELS[mode]}
+                </button>
+              ))}
+              {comparisonMode === 'custom' && comparison && (
+                <select
+                  value={comparison.baselinePeriod ? formatPeriod(comparison.baselinePeriod) : ''}
+                  onChange={(e) => {
+                    const period = comparison.availablePeriods.find(p => formatPeriod(p) === e.target.value);
+                    if (period) onComparisonChange('custom', period);
+                  }}
+                  className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                >
+                  {comparison.availablePeriods.map((period) => (
+                    <option key={formatPeriod(period)} value={formatPeriod(period)}>
+                      {formatPeriod(period)}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* 核心绝对值指标 */}
       <div>
         <h3 className="text-lg font-semibold text-gray-900 mb-4">核心绝对值指标（9个）</h3>
@@ -282,7 +397,7 @@ export function EnhancedStatsOverview({
                         {metric.title}
                       </span>
                     </div>
-                    {getTrendIcon(metric.growth)}
+                    {getTrendIcon(getChange(metric.field))}
                   </div>
                   
                   <div className="mt-2">
@@ -290,10 +405,10 @@ export function EnhancedStatsOverview({
                       {formatNumber(metric.value, metric.type)}
                     </div>
                     <div className="flex items-center gap-1 mt-1">
-                      <span className={`text-sm ${getTrendColor(metric.growth)}`}>
-                        {metric.growth > 0 ? '+' : ''}{formatNumber(Math.abs(metric.growth), 'percentage')}
+                      <span className={`text-sm ${getTrendColor(getChange(metric.field))}`}>
+                        {formatChange(metric.field)}
                       </span>
-                      <span className="text-xs text-gray-500">vs 上期</span>
+                      <span className="text-xs text-gray-500">{formatCurrentValue(metric.field, metric.type)} vs {baselineLabel}</span>
                     </div>
                   </div>
                   
@@ -326,6 +441,11 @@ export function EnhancedStatsOverview({
                   <div className={`text-2xl font-bold ${metric.statusColor}`}>
                     {formatNumber(metric.value, metric.type)}
                   </div>
+                  <div className="flex items-center gap-1 mt-1">
+                    {getTrendIcon(getChange(metric.field))}
+                    <span className="text-sm text-gray-600">{formatChange(metric.field)}</span>
+                    <span className="text-xs text-gray-500">{formatCurrentValue(metric.field, metric.type)} vs {baselineLabel}</span>
+                  </div>
                   
                   <p className="text-xs text-gray-500 mt-2">
                     {metric.description}
@@ -356,6 +476,13 @@ export function EnhancedStatsOverview({
                   <div className="text-2xl font-bold text-gray-900">
                     {formatNumber(metric.value, metric.type)}
                   </div>
+                  <div className="flex items-center gap-1 mt-1">
+                    {getTrendIcon(getChange(metric.field))}
+                    <span className={`text-sm ${getTrendColor(getChange(metric.field))}`}>
+                      {formatChange(metric.field)}
+                    </span>
+                    <span className="text-xs text-gray-500">{formatCurrentValue(metric.field, metric.type)} vs {baselineLabel}</span>
+                  </div>
                   
                   <p className="text-xs text-gray-500 mt-2">
                     {metric.description}
@@ -368,7 +495,7 @@ export function EnhancedStatsOverview({
       </div>
 
       {/* 系数指标 */}
-      {metricResults?.commercial_auto_underwriting_factor && (
+      {displayStats.commercial_auto_underwriting_factor > 0 && (
         <div>
           <h3 className="text-lg font-semibold text-gray-900 mb-4">系数指标（1个）</h3>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -382,11 +509,11 @@ export function EnhancedStatsOverview({
                 </div>
                 
                 <div className="text-2xl font-bold text-gray-900">
-                  {formatNumber(metricResults.commercial_auto_underwriting_factor, 'decimal')}
+                  {formatNumber(displayStats.commercial_auto_underwriting_factor, 'decimal')}
                 </div>
                 
                 <p className="text-xs text-gray-500 mt-2">
-                  签单保费/商业险折前保费
+                  商业险签单保费/商业险折前保费
                 </p>
               </CardContent>
             </Card>
@@ -286,7 +286,7 @@ export function DataDiscovery({ onDataLoad, className = '' }: DataDiscoveryProps
 
       {/* 使用说明 */}
       <div className="text-xs text-gray-500 space-y-1 border-t pt-4">
-        <p><strong>数据发现功能:</strong> 自动扫描data目录中的CSV文件</p>
+        <p><strong>数据发现功能:</strong> 自动扫描data4dash/data-YYYY目录中的CSV文件</p>
         <p><strong>支持格式:</strong> {'{年份}保单第{周次}周变动成本明细表.csv'}</p>
         <p><strong>加载策略:</strong> 支持单周数据或整年数据加载</p>
         <p><strong>缓存机制:</strong> 已加载的数据会被缓存以提高性能</p>
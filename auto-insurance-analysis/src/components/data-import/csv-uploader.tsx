@@ -3,7 +3,7 @@
 import React, { useState, useCallback } from 'react';
 import { Upload, FileText, AlertCircle, CheckCircle, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { importCSVData } from '@/lib/data-processor';
+import { importCSVData, formatImportIssue } from '@/lib/data-processor';
 import { ImportResult } from '@/types/insurance';
 
 interface CSVUploaderProps {
@@ -43,7 +43,15 @@ export function CSVUploader({ onImportComplete, className = '' }: CSVUploaderPro
         totalRows: 0,
         validRows: 0,
         errorRows: 0,
-        errors: [`文件上传失败: ${error}`],
+        errors: [{
+          severity: 'error',
+          row: 0,
+          field: null,
+          rawValue: '',
+          rule: 'parse',
+          message: `文件上传失败: ${error}`,
+          suggestion: '确认文件为UTF-8编码的CSV后重试'
+        }],
         warnings: []
       });
     } finally {
@@ -189,7 +197,7 @@ export function CSVUploader({ onImportComplete, className = '' }: CSVUploaderPro
                     <div className="max-h-32 overflow-y-auto">
                       {importResult.errors.slice(0, 10).map((error, index) => (
                         <p key={index} className="text-xs text-red-700 mb-1">
-                          • {error}
+                          • {formatImportIssue(error)}
                         </p>
                       ))}
                       {importResult.errors.length > 10 && (
@@ -208,7 +216,7 @@ export function CSVUploader({ onImportComplete, className = '' }: CSVUploaderPro
                     <div className="max-h-32 overflow-y-auto">
                       {importResult.warnings.slice(0, 5).map((warning, index) => (
                         <p key={index} className="text-xs text-yellow-700 mb-1">
-                          • {warning}
+                          • {formatImportIssue(warning)}
                         </p>
                       ))}
                       {importResult.warnings.length > 5 && (
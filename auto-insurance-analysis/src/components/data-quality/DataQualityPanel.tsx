@@ -0,0 +1,333 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { RefreshCw, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { db } from '@/lib/database';
+import { RuleViolationSummary } from '@/lib/business-rules';
+import {
+  DataQualityScoreReport,
+  QUALITY_DIMENSIONS,
+  QUALITY_DIMENSION_DESCRIPTIONS,
+  QUALITY_DIMENSION_LABELS,
+  QUALITY_GROUP_LABELS,
+  QualityDimension,
+  QualityGroupBy,
+  QualityIssueRow
+} from '@/lib/data-quality';
+
+interface DataQualityPanelProps {
+  onError?: (error: string) => void;
+}
+
+/**
+ * 下钻查询：质量维度与可选分组
+ */
+interface DrillDown {
+  dimension: QualityDimension;
+  groupBy?: QualityGroupBy;
+  groupKey?: string;
+  groupLabel?: string;
+}
+
+/**
+ * 下钻列表最多展示的问题行数
+ */
+const DRILL_DOWN_LIMIT = 200;
+
+const SEVERITY_LABELS: Record<RuleViolationSummary['severity'], string> = {
+  error: '错误',
+  warning: '警告',
+  info: '提示'
+};
+
+/**
+ * 得分对应的文字颜色
+ * @param score 得分（0-100）
+ */
+function getScoreColor(score: number): string {
+  if (score >= 95) return 'text-green-700';
+  if (score >= 80) return 'text-yellow-700';
+  return 'text-red-700';
+}
+
+/**
+ * 数据质量面板
+ * 展示四维度质量得分、按文件/周次/机构的分组得分、重复主键与业务规则统计，点击得分下钻到问题行
+ */
+export function DataQualityPanel({ onError }: DataQualityPanelProps) {
+  const [report, setReport] = useState<DataQualityScoreReport | null>(null);
+  const [ruleViolations, setRuleViolations] = useState<RuleViolationSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [groupBy, setGroupBy] = useState<QualityGroupBy>('week');
+  const [drillDown, setDrillDown] = useState<DrillDown | null>(null);
+  const [issueRows, setIssueRows] = useState<{ rows: QualityIssueRow[]; total: number } | null>(null);
+
+  /**
+   * 计算质量报告
+   */
+  const loadReport = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [scoreReport, qualityReport] = await Promise.all([
+        db.getQualityScoreReport(),
+        db.getDataQualityReport()
+      ]);
+      setReport(scoreReport);
+      setRuleViolations(qualityReport.ruleViolations);
+    } catch (error) {
+      onError?.(`数据质量计算失败: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [onError]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  // 下钻条件变化时查询问题行
+  useEffect(() => {
+    setIssueRows(null);
+    if (!drillDown) return;
+
+    let cancelled = false;
+    db.getQualityIssues({ ...drillDown, limit: DRILL_DOWN_LIMIT })
+      .then(result => {
+        if (!cancelled) setIssueRows(result);
+      })
+      .catch(error => onError?.(error instanceof Error ? error.message : String(error)));
+    return () => {
+      cancelled = true;
+    };
+  }, [drillDown, onError]);
+
+  if (!report) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-gray-500">
+          {loading ? '正在计算数据质量…' : '暂无数据'}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* 总体得分 */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>数据质量评分</CardTitle>
+            <Button variant="outline" size="sm" onClick={loadReport} disabled={loading}>
+              <RefreshCw className={`h-4 w-4 mr-1 ${loading ? 'animate-spin' : ''}`} />
+              重新计算
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            <div className="rounded border border-gray-200 p-4">
+              <p className="text-sm text-gray-600">综合得分</p>
+              <p className={`text-3xl font-bold ${getScoreColor(report.scores.overall)}`}>
+                {report.scores.overall.toFixed(1)}
+              </p>
+              <p className="text-xs text-gray-500">共 {report.totalRecords.toLocaleString()} 行</p>
+            </div>
+            {QUALITY_DIMENSIONS.map(dimension => (
+              <button
+                key={dimension}
+                type="button"
+                onClick={() => setDrillDown({ dimension })}
+                className="rounded border border-gray-200 p-4 text-left hover:border-blue-400"
+                title={QUALITY_DIMENSION_DESCRIPTIONS[dimension]}
+              >
+                <p className="text-sm text-gray-600">{QUALITY_DIMENSION_LABELS[dimension]}</p>
+                <p className={`text-2xl font-bold ${getScoreColor(report.scores[dimension])}`}>
+                  {report.scores[dimension].toFixed(1)}
+                </p>
+                <p className="text-xs text-gray-500">问题行 {report.issueCounts[dimension].toLocaleString()}</p>
+              </button>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* 分组得分 */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>分组得分</CardTitle>
+            <div className="flex space-x-2">
+              {(Object.keys(QUALITY_GROUP_LABELS) as QualityGroupBy[]).map(option => (
+                <Button
+                  key={option}
+                  variant={groupBy === option ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setGroupBy(option)}
+                >
+                  {QUALITY_GROUP_LABELS[option]}
+                </Button>
+              ))}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="max-h-96 overflow-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-gray-700 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left">分组</th>
+                  <th className="px-3 py-2 text-right">行数</th>
+                  <th className="px-3 py-2 text-right">综合</th>
+                  {QUALITY_DIMENSIONS.map(dimension => (
+                    <th key={dimension} className="px-3 py-2 text-right">{QUALITY_DIMENSION_LABELS[dimension]}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {report.groups[groupBy].map(group => (
+                  <tr key={group.key} className="border-t border-gray-100">
+                    <td className="px-3 py-2">{group.label}</td>
+                    <td className="px-3 py-2 text-right">{group.recordCount.toLocaleString()}</td>
+                    <td className={`px-3 py-2 text-right font-medium ${getScoreColor(group.scores.overall)}`}>
+                      {group.scores.overall.toFixed(1)}
+                    </td>
+                    {QUALITY_DIMENSIONS.map(dimension => (
+                      <td key={dimension} className="px-3 py-2 text-right">
+                        {group.issueCounts[dimension] > 0 ? (
+                          <button
+                            type="button"
+                            className={`underline decoration-dotted ${getScoreColor(group.scores[dimension])}`}
+                            onClick={() => setDrillDown({ dimension, groupBy, groupKey: group.key, groupLabel: group.label })}
+                          >
+                            {group.scores[dimension].toFixed(1)}
+                          </button>
+                        ) : (
+                          <span className={getScoreColor(group.scores[dimension])}>{group.scores[dimension].toFixed(1)}</span>
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* 问题行下钻 */}
+      {drillDown && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>
+                {QUALITY_DIMENSION_LABELS[drillDown.dimension]}问题行
+                {drillDown.groupLabel && <span className="ml-2 text-sm font-normal text-gray-500">{drillDown.groupLabel}</span>}
+              </CardTitle>
+              <Button variant="ghost" size="sm" onClick={() => setDrillDown(null)}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {!issueRows ? (
+              <p className="text-sm text-gray-500">正在查询…</p>
+            ) : issueRows.total === 0 ? (
+              <p className="text-sm text-gray-500">没有问题行</p>
+            ) : (
+              <>
+                <p className="mb-2 text-sm text-gray-600">
+                  共 {issueRows.total.toLocaleString()} 行
+                  {issueRows.total > issueRows.rows.length && `，仅显示前 ${issueRows.rows.length} 行`}
+                </p>
+                <div className="max-h-96 overflow-auto">
+                  <table className="w-full text-xs">
+                    <thead className="bg-gray-50 text-gray-700 sticky top-0">
+                      <tr>
+                        <th className="px-2 py-1 text-left">行序号</th>
+                        <th className="px-2 py-1 text-left">年度/周次</th>
+                        <th className="px-2 py-1 text-left">三级机构</th>
+                        <th className="px-2 py-1 text-left">业务类型</th>
+                        <th className="px-2 py-1 text-left">快照日期</th>
+                        <th className="px-2 py-1 text-left">问题</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {issueRows.rows.map(issue => (
+                        <tr key={issue.row} className="border-t border-gray-100">
+                          <td className="px-2 py-1">{issue.row + 1}</td>
+                          <td className="px-2 py-1">{issue.record.policy_start_year}年第{issue.record.week_number}周</td>
+                          <td className="px-2 py-1">{issue.record.third_level_organization}</td>
+                          <td className="px-2 py-1">{issue.record.business_type_category}</td>
+                          <td className="px-2 py-1">{issue.record.snapshot_date || '-'}</td>
+                          <td className="px-2 py-1 text-red-700">{issue.messages.join('；')}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* 重复主键与业务规则 */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>重复维度主键</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {report.duplicates.groupCount === 0 ? (
+              <p className="text-sm text-gray-500">未发现17个维度完全相同的重复行</p>
+            ) : (
+              <div className="space-y-2">
+                <p className="text-sm text-gray-700">
+                  {report.duplicates.groupCount.toLocaleString()} 个主键重复，多出 {report.duplicates.recordCount.toLocaleString()} 行
+                </p>
+                <ul className="max-h-64 overflow-auto space-y-1 text-xs">
+                  {report.duplicates.samples.map(group => (
+                    <li key={group.key} className="font-mono text-gray-600">
+                      ×{group.count} {group.key}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>业务规则</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-gray-700">
+                <tr>
+                  <th className="px-2 py-1 text-left">规则</th>
+                  <th className="px-2 py-1 text-left">级别</th>
+                  <th className="px-2 py-1 text-right">违反行数</th>
+                  <th className="px-2 py-1 text-right">占比</th>
+                </tr>
+              </thead>
+              <tbody>
+                {ruleViolations.map(rule => (
+                  <tr key={rule.ruleId} className="border-t border-gray-100">
+                    <td className="px-2 py-1">{rule.name}</td>
+                    <td className="px-2 py-1">{SEVERITY_LABELS[rule.severity]}</td>
+                    <td className="px-2 py-1 text-right">{rule.count.toLocaleString()}</td>
+                    <td className="px-2 py-1 text-right">{rule.rate.toFixed(2)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Play } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { db } from '@/lib/database';
+import { DISPLAY_NAMES } from '@/lib/constants';
+import { FilterDimensions } from '@/types/insurance';
+import {
+  DEFAULT_RECONCILIATION_OPTIONS,
+  RECONCILIATION_ISSUE_LABELS,
+  ReconciliationIssueType,
+  ReconciliationReport,
+  formatSlice
+} from '@/lib/week-reconciliation';
+
+interface WeekReconciliationPanelProps {
+  onError?: (error: string) => void;
+}
+
+/**
+ * 切片粒度预设
+ */
+const SLICE_PRESETS: { id: string; label: string; dimensions: (keyof FilterDimensions)[] }[] = [
+  { id: 'all', label: '全部维度组合', dimensions: DEFAULT_RECONCILIATION_OPTIONS.dimensions },
+  { id: 'organization', label: '起保年度 × 三级机构', dimensions: ['policy_start_year', 'third_level_organization'] },
+  { id: 'year', label: '起保年度', dimensions: ['policy_start_year'] }
+];
+
+/**
+ * 列表中展示的问题条数
+ */
+const MAX_VISIBLE_ISSUES = 100;
+
+const ISSUE_COLORS: Record<ReconciliationIssueType, string> = {
+  regression: 'text-red-700',
+  jump: 'text-yellow-700',
+  missing: 'text-gray-700'
+};
+
+/**
+ * 跨周一致性核对面板
+ * 按可调的容忍度比较相邻周次，列出累计字段回退、跳变及缺失周次
+ */
+export function WeekReconciliationPanel({ onError }: WeekReconciliationPanelProps) {
+  const [regressionPercent, setRegressionPercent] = useState(DEFAULT_RECONCILIATION_OPTIONS.regressionTolerance * 100);
+  const [jumpPercent, setJumpPercent] = useState(DEFAULT_RECONCILIATION_OPTIONS.jumpTolerance * 100);
+  const [minBaseValue, setMinBaseValue] = useState(DEFAULT_RECONCILIATION_OPTIONS.minBaseValue);
+  const [presetId, setPresetId] = useState(SLICE_PRESETS[0].id);
+  const [report, setReport] = useState<ReconciliationReport | null>(null);
+  const [running, setRunning] = useState(false);
+  const initialRunRef = useRef(false);
+
+  /**
+   * 执行核对
+   */
+  const runReconciliation = useCallback(async () => {
+    setRunning(true);
+    try {
+      const preset = SLICE_PRESETS.find(item => item.id === presetId) ?? SLICE_PRESETS[0];
+      setReport(await db.reconcileWeeks({
+        regressionTolerance: regressionPercent / 100,
+        jumpTolerance: jumpPercent / 100,
+        minBaseValue,
+        dimensions: preset.dimensions
+      }));
+    } catch (error) {
+      onError?.(`跨周核对失败: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setRunning(false);
+    }
+  }, [regressionPercent, jumpPercent, minBaseValue, presetId, onError]);
+
+  // 首次打开时按默认容忍度执行一次，之后调整参数需手动执行
+  useEffect(() => {
+    if (initialRunRef.current) return;
+    initialRunRef.current = true;
+    runReconciliation();
+  }, [runReconciliation]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>跨周一致性核对</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-4 text-sm">
+          <label className="flex flex-col text-gray-600">
+            <span>切片粒度</span>
+            <select
+              value={presetId}
+              onChange={event => setPresetId(event.target.value)}
+              className="mt-1 rounded border border-gray-300 px-2 py-1"
+            >
+              {SLICE_PRESETS.map(preset => (
+                <option key={preset.id} value={preset.id}>{preset.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col text-gray-600">
+            <span>回退容忍度（%）</span>
+            <input
+              type="number"
+              min={0}
+              step={0.1}
+              value={regressionPercent}
+              onChange={event => setRegressionPercent(Math.max(0, Number(event.target.value)))}
+              className="mt-1 w-28 rounded border border-gray-300 px-2 py-1"
+            />
+          </label>
+          <label className="flex flex-col text-gray-600">
+            <span>跳变阈值（%）</span>
+            <input
+              type="number"
+              min={0}
+              step={10}
+              value={jumpPercent}
+              onChange={event => setJumpPercent(Math.max(0, Number(event.target.value)))}
+              className="mt-1 w-28 rounded border border-gray-300 px-2 py-1"
+            />
+          </label>
+          <label className="flex flex-col text-gray-600">
+            <span>跳变最小基数（元）</span>
+            <input
+              type="number"
+              min={0}
+              step={1000}
+              value={minBaseValue}
+              onChange={event => setMinBaseValue(Math.max(0, Number(event.target.value)))}
+              className="mt-1 w-32 rounded border border-gray-300 px-2 py-1"
+            />
+          </label>
+          <Button size="sm" onClick={runReconciliation} disabled={running}>
+            <Play className="h-4 w-4 mr-1" />
+            {running ? '核对中…' : '执行核对'}
+          </Button>
+        </div>
+
+        {report && (
+          <>
+            <div className="flex flex-wrap gap-4 text-sm">
+              <span className="text-gray-700">
+                周次 {report.weeks.length > 0 ? `${report.weeks[0]}-${report.weeks[report.weeks.length - 1]}` : '-'}，
+                {report.sliceCount.toLocaleString()} 个切片
+              </span>
+              {report.missingWeeks.length > 0 && (
+                <span className="rounded bg-yellow-100 px-2 text-yellow-800">
+                  缺失周次：{report.missingWeeks.map(week => `第${week}周`).join('、')}
+                </span>
+              )}
+              {(Object.keys(RECONCILIATION_ISSUE_LABELS) as ReconciliationIssueType[]).map(type => (
+                <span key={type} className={ISSUE_COLORS[type]}>
+                  {RECONCILIATION_ISSUE_LABELS[type]} {report.issueCounts[type].toLocaleString()}
+                </span>
+              ))}
+            </div>
+
+            {report.issues.length === 0 ? (
+              <p className="text-sm text-gray-500">相邻周次之间未发现超出容忍度的变化</p>
+            ) : (
+              <div className="max-h-96 overflow-auto">
+                <table className="w-full text-xs">
+                  <thead className="bg-gray-50 text-gray-700 sticky top-0">
+                    <tr>
+                      <th className="px-2 py-1 text-left">类型</th>
+                      <th className="px-2 py-1 text-left">字段</th>
+                      <th className="px-2 py-1 text-left">周次</th>
+                      <th className="px-2 py-1 text-left">切片</th>
+                      <th className="px-2 py-1 text-right">上周</th>
+                      <th className="px-2 py-1 text-right">本周</th>
+                      <th className="px-2 py-1 text-right">变化</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.issues.slice(0, MAX_VISIBLE_ISSUES).map((issue, index) => (
+                      <tr key={index} className="border-t border-gray-100">
+                        <td className={`px-2 py-1 ${ISSUE_COLORS[issue.type]}`}>{RECONCILIATION_ISSUE_LABELS[issue.type]}</td>
+                        <td className="px-2 py-1">{DISPLAY_NAMES[issue.field]}</td>
+                        <td className="px-2 py-1">
+                          {issue.fromWeek}→{issue.toWeek}
+                          {issue.toWeek - issue.fromWeek > 1 && <span className="ml-1 text-yellow-700">(跨缺失周)</span>}
+                        </td>
+                        <td className="px-2 py-1">{formatSlice(issue.slice)}</td>
+                        <td className="px-2 py-1 text-right">{Math.round(issue.previous).toLocaleString()}</td>
+                        <td className="px-2 py-1 text-right">{Math.round(issue.current).toLocaleString()}</td>
+                        <td className="px-2 py-1 text-right">
+                          {issue.changeRate !== null ? `${(issue.changeRate * 100).toFixed(1)}%` : Math.round(issue.change).toLocaleString()}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {report.issues.length > MAX_VISIBLE_ISSUES && (
+                  <p className="px-2 py-1 text-xs text-gray-500 italic">
+                    仅显示变化最大的 {MAX_VISIBLE_ISSUES} 条
+                  </p>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
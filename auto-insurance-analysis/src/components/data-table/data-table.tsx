@@ -4,7 +4,7 @@ import React, { useState, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { InsuranceRecord } from '@/types/insurance';
-import { DISPLAY_NAMES } from '@/lib/constants';
+import { DISPLAY_NAMES, TABLE_PAGE_SIZES } from '@/lib/constants';
 import { 
   ChevronLeft, 
   ChevronRight, 
@@ -217,9 +217,6 @@ export function DataTable({
   const startRecord = (currentPage - 1) * pageSize + 1;
   const endRecord = Math.min(currentPage * pageSize, totalRecords);
 
-  // 页码选项
-  const pageSizeOptions = [10, 25, 50, 100];
-
   return (
     <div className="space-y-4">
       {/* 工具栏 */}
@@ -354,7 +351,7 @@ export function DataTable({
               onChange={(e) => onPageSizeChange(Number(e.target.value))}
               className="border rounded px-2 py-1 text-sm"
             >
-              {pageSizeOptions.map(size => (
+              {TABLE_PAGE_SIZES.map(size => (
                 <option key={size} value={size}>{size}</option>
               ))}
             </select>
@@ -0,0 +1,276 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { History, RotateCcw, GitCompare, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { db } from '@/lib/database';
+import { DISPLAY_NAMES } from '@/lib/constants';
+import { IMPORT_MODE_LABELS } from '@/lib/import-modes';
+import { DatasetVersion, DatasetVersionDiff, OrganizationVersionDiff } from '@/types/insurance';
+
+interface VersionHistoryProps {
+  onRollback?: (undone: DatasetVersion[]) => void;  // 回滚完成后回调（参数为被撤销的版本）
+  onError?: (error: string) => void;
+  className?: string;
+}
+
+/**
+ * 版本对比中展示的字段
+ */
+const DIFF_FIELDS: (keyof OrganizationVersionDiff['deltas'])[] = [
+  'record_count',
+  'signed_premium_yuan',
+  'matured_premium_yuan',
+  'reported_claim_payment_yuan',
+  'expired_loss_ratio_percent',
+  'variable_cost_ratio_percent'
+];
+
+/**
+ * 字段显示名称
+ * @param field 字段
+ */
+function getFieldLabel(field: keyof OrganizationVersionDiff['deltas']): string {
+  return field === 'record_count' ? '记录数' : DISPLAY_NAMES[field];
+}
+
+/**
+ * 格式化差值（率值字段以百分点展示）
+ * @param field 字段
+ * @param value 差值
+ */
+function formatDelta(field: keyof OrganizationVersionDiff['deltas'], value: number | undefined): string {
+  if (value === undefined || value === 0) return '-';
+  const sign = value > 0 ? '+' : '';
+  if (field.endsWith('_percent')) return `${sign}${value.toFixed(2)}pp`;
+  return `${sign}${Math.round(value).toLocaleString()}`;
+}
+
+/**
+ * 数据集版本历史组件
+ * 列出每次导入产生的版本，支持两个版本按三级机构对比以及回滚
+ */
+export function VersionHistory({ onRollback, onError, className = '' }: VersionHistoryProps) {
+  const [versions, setVersions] = useState<DatasetVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [rollingBack, setRollingBack] = useState<number | null>(null);
+  const [compareFrom, setCompareFrom] = useState<number | null>(null);
+  const [compareTo, setCompareTo] = useState<number | null>(null);
+  const [diff, setDiff] = useState<DatasetVersionDiff | null>(null);
+
+  /**
+   * 加载版本列表（最新版本在前）
+   */
+  const loadVersions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const list = await db.listVersions();
+      setVersions([...list].reverse());
+    } catch (error) {
+      onError?.(error instanceof Error ? error.message : String(error));
+    } finally {
+      setLoading(false);
+    }
+  }, [onError]);
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions]);
+
+  // 选择了两个版本时计算差异
+  useEffect(() => {
+    setDiff(null);
+    if (compareFrom === null || compareTo === null || compareFrom === compareTo) return;
+
+    let cancelled = false;
+    db.diffVersions(compareFrom, compareTo)
+      .then(result => {
+        if (!cancelled) setDiff(result);
+      })
+      .catch(error => onError?.(error instanceof Error ? error.message : String(error)));
+    return () => {
+      cancelled = true;
+    };
+  }, [compareFrom, compareTo, onError]);
+
+  /**
+   * 回滚到指定版本
+   * @param version 目标版本号
+   */
+  const handleRollback = async (version: number) => {
+    const message = version === 0
+      ? '确定撤销全部导入版本吗？'
+      : `确定回滚到版本 ${version} 吗？之后的导入将被撤销。`;
+    if (!window.confirm(message)) return;
+
+    setRollingBack(version);
+    try {
+      const undone = await db.rollbackTo(version);
+      setCompareFrom(null);
+      setCompareTo(null);
+      await loadVersions();
+      onRollback?.(undone);
+    } catch (error) {
+      onError?.(`回滚失败: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setRollingBack(null);
+    }
+  };
+
+  /**
+   * 切换版本的对比选择：依次选择基准版本与对比版本
+   * @param version 版本号
+   */
+  const toggleCompare = (version: number) => {
+    if (compareFrom === version) {
+      setCompareFrom(compareTo);
+      setCompareTo(null);
+    } else if (compareTo === version) {
+      setCompareTo(null);
+    } else if (compareFrom === null) {
+      setCompareFrom(version);
+    } else {
+      // 较早的版本作为基准
+      setCompareFrom(Math.min(compareFrom, version));
+      setCompareTo(Math.max(compareFrom, version));
+    }
+  };
+
+  const latestVersion = versions[0]?.version;
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2 text-sm text-gray-600">
+          <History className="h-4 w-4" />
+          <span>共 {versions.length} 个版本，勾选两个版本可对比各机构变化</span>
+        </div>
+        <div className="flex space-x-2">
+          <Button variant="outline" size="sm" onClick={loadVersions} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-1 ${loading ? 'animate-spin' : ''}`} />
+            刷新
+          </Button>
+          {versions.length > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleRollback(0)}
+              disabled={rollingBack !== null}
+            >
+              <RotateCcw className="h-4 w-4 mr-1" />
+              撤销全部
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {versions.length === 0 ? (
+        <p className="text-sm text-gray-500">暂无导入版本</p>
+      ) : (
+        <div className="max-h-80 overflow-auto border border-gray-200 rounded">
+          <table className="w-full text-xs">
+            <thead className="bg-gray-50 text-gray-700 sticky top-0">
+              <tr>
+                <th className="px-2 py-1 text-left">对比</th>
+                <th className="px-2 py-1 text-left">版本</th>
+                <th className="px-2 py-1 text-left">文件</th>
+                <th className="px-2 py-1 text-left">哈希</th>
+                <th className="px-2 py-1 text-left">模式</th>
+                <th className="px-2 py-1 text-right">导入/新增/更新/舍弃</th>
+                <th className="px-2 py-1 text-right">总行数</th>
+                <th className="px-2 py-1 text-left">快照范围</th>
+                <th className="px-2 py-1 text-left">操作人</th>
+                <th className="px-2 py-1 text-left">时间</th>
+                <th className="px-2 py-1"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {versions.map(version => (
+                <tr key={version.id} className="border-t border-gray-100">
+                  <td className="px-2 py-1">
+                    <input
+                      type="checkbox"
+                      checked={compareFrom === version.version || compareTo === version.version}
+                      onChange={() => toggleCompare(version.version)}
+                    />
+                  </td>
+                  <td className="px-2 py-1 font-medium">v{version.version}</td>
+                  <td className="px-2 py-1 max-w-[12rem] truncate" title={version.fileName}>{version.fileName}</td>
+                  <td className="px-2 py-1 font-mono" title={version.fileHash}>{version.fileHash.slice(0, 8) || '-'}</td>
+                  <td className="px-2 py-1">{IMPORT_MODE_LABELS[version.mode]}</td>
+                  <td className="px-2 py-1 text-right">
+                    {version.rowCounts.incoming.toLocaleString()}/{version.rowCounts.inserted.toLocaleString()}/
+                    {version.rowCounts.updated.toLocaleString()}/{version.rowCounts.dropped.toLocaleString()}
+                  </td>
+                  <td className="px-2 py-1 text-right">{version.rowCounts.total.toLocaleString()}</td>
+                  <td className="px-2 py-1">
+                    {version.snapshotRange
+                      ? version.snapshotRange.start === version.snapshotRange.end
+                        ? version.snapshotRange.start
+                        : `${version.snapshotRange.start} ~ ${version.snapshotRange.end}`
+                      : '-'}
+                  </td>
+                  <td className="px-2 py-1">{version.operator}</td>
+                  <td className="px-2 py-1">{new Date(version.createdAt).toLocaleString('zh-CN')}</td>
+                  <td className="px-2 py-1 text-right">
+                    {version.version !== latestVersion && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRollback(version.version)}
+                        disabled={rollingBack !== null}
+                      >
+                        {rollingBack === version.version ? '回滚中…' : '回滚至此'}
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {diff && (
+        <div className="space-y-2">
+          <div className="flex items-center space-x-2 text-sm font-medium text-gray-900">
+            <GitCompare className="h-4 w-4" />
+            <span>v{diff.from.version} → v{diff.to.version} 三级机构变化</span>
+          </div>
+          <div className="max-h-80 overflow-auto border border-gray-200 rounded">
+            <table className="w-full text-xs">
+              <thead className="bg-gray-50 text-gray-700 sticky top-0">
+                <tr>
+                  <th className="px-2 py-1 text-left">{DISPLAY_NAMES.third_level_organization}</th>
+                  {DIFF_FIELDS.map(field => (
+                    <th key={field} className="px-2 py-1 text-right">{getFieldLabel(field)}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {diff.organizations.map(item => (
+                  <tr key={item.organization} className="border-t border-gray-100">
+                    <td className="px-2 py-1">
+                      {item.organization || '(空)'}
+                      {!item.from && <span className="ml-1 text-green-700">新增</span>}
+                      {!item.to && <span className="ml-1 text-red-700">移除</span>}
+                    </td>
+                    {DIFF_FIELDS.map(field => {
+                      const value = item.deltas[field];
+                      const color = !value ? 'text-gray-400' : value > 0 ? 'text-green-700' : 'text-red-700';
+                      return (
+                        <td key={field} className={`px-2 py-1 text-right ${color}`}>
+                          {formatDelta(field, value)}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
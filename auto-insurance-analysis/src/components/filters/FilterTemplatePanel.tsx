@@ -0,0 +1,168 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, Star, Trash2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DashboardSnapshot,
+  FilterTemplate,
+  RecentSnapshot,
+  deleteFilterTemplate,
+  describeSnapshot,
+  downloadFilterTemplates,
+  importFilterTemplates,
+  loadDefaultTemplateId,
+  loadFilterTemplates,
+  saveFilterTemplate,
+  setDefaultTemplateId
+} from '@/lib/filter-templates';
+
+interface FilterTemplatePanelProps {
+  snapshot: DashboardSnapshot;
+  onApply: (snapshot: DashboardSnapshot) => void;
+  recent: RecentSnapshot[];                        // 最近使用的组合（最新在前），由仪表盘记录
+}
+
+/**
+ * 最近使用列表显示的条数
+ */
+const VISIBLE_RECENT = 5;
+
+/**
+ * 筛选模板面板
+ * 保存当前筛选与图表组合为命名模板，设置默认模板，查看最近使用的组合，并以JSON导入导出
+ */
+export function FilterTemplatePanel({ snapshot, onApply, recent }: FilterTemplatePanelProps) {
+  const [templates, setTemplates] = useState<FilterTemplate[]>([]);
+  const [defaultId, setDefaultId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setTemplates(loadFilterTemplates());
+    setDefaultId(loadDefaultTemplateId());
+  }, []);
+
+  const recentSnapshots = recent.slice(0, VISIBLE_RECENT);
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    setTemplates(saveFilterTemplate(trimmed, snapshot));
+    setName('');
+    setMessage(`已保存模板“${trimmed}”`);
+  };
+
+  const handleDelete = (id: string) => {
+    setTemplates(deleteFilterTemplate(id));
+    setDefaultId(loadDefaultTemplateId());
+  };
+
+  const toggleDefault = (id: string) => {
+    const next = defaultId === id ? null : id;
+    setDefaultTemplateId(next);
+    setDefaultId(next);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const result = importFilterTemplates(await file.text());
+    setTemplates(result.templates);
+    setMessage([`已导入 ${result.imported} 个模板`, ...result.errors].join('；'));
+  };
+
+  return (
+    <div className="space-y-3 text-sm">
+      <h4 className="font-medium text-gray-700">筛选模板</h4>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={event => setName(event.target.value)}
+          onKeyDown={event => event.key === 'Enter' && handleSave()}
+          placeholder="模板名称"
+          className="min-w-0 flex-1 rounded border border-gray-300 px-2 py-1 text-xs"
+        />
+        <Button size="sm" onClick={handleSave} disabled={!name.trim()} className="text-xs">
+          保存当前
+        </Button>
+      </div>
+
+      {templates.length === 0 ? (
+        <p className="text-xs text-gray-500">暂无模板，保存当前筛选与图表组合以便复用</p>
+      ) : (
+        <ul className="space-y-1">
+          {templates.map(template => (
+            <li key={template.id} className="flex items-center gap-1 rounded border border-gray-200 px-2 py-1">
+              <button
+                type="button"
+                onClick={() => onApply(template.snapshot)}
+                className="min-w-0 flex-1 truncate text-left text-gray-800 hover:text-blue-600"
+                title={describeSnapshot(template.snapshot)}
+              >
+                {template.name}
+              </button>
+              <button
+                type="button"
+                onClick={() => toggleDefault(template.id)}
+                title={defaultId === template.id ? '取消默认（加载时不再自动应用）' : '设为默认（加载时自动应用）'}
+              >
+                <Star className={`h-3 w-3 ${defaultId === template.id ? 'fill-yellow-400 text-yellow-500' : 'text-gray-300'}`} />
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDelete(template.id)}
+                className="text-gray-400 hover:text-red-600"
+                title="删除模板"
+              >
+                <Trash2 className="h-3 w-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => downloadFilterTemplates(templates)}
+          disabled={templates.length === 0}
+          className="flex-1 text-xs"
+        >
+          <Download className="h-3 w-3 mr-1" />
+          导出JSON
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} className="flex-1 text-xs">
+          <Upload className="h-3 w-3 mr-1" />
+          导入JSON
+        </Button>
+        <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+      </div>
+
+      {message && <p className="text-xs text-gray-600">{message}</p>}
+
+      {recentSnapshots.length > 0 && (
+        <div className="space-y-1">
+          <h4 className="font-medium text-gray-700">最近使用</h4>
+          {recentSnapshots.map(item => (
+            <button
+              key={item.usedAt}
+              type="button"
+              onClick={() => onApply(item.snapshot)}
+              className="block w-full truncate rounded px-2 py-1 text-left text-xs text-gray-600 hover:bg-gray-50"
+              title={`${describeSnapshot(item.snapshot)}（${new Date(item.usedAt).toLocaleString()}）`}
+            >
+              {describeSnapshot(item.snapshot)}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
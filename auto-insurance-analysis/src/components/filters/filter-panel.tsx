@@ -1,10 +1,11 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
-import { FilterConditions, InsuranceRecord } from '@/types/insurance';
+import { FilterConditions, FilterDimensions } from '@/types/insurance';
 import { FILTER_DIMENSIONS, DISPLAY_NAMES } from '@/lib/constants';
 import { db } from '@/lib/database';
+import { FacetCounts } from '@/lib/facets';
 import { ChevronDown, ChevronUp, X, Search } from 'lucide-react';
 
 interface FilterPanelProps {
@@ -17,46 +18,55 @@ interface FilterOption {
   value: any;
   label: string;
   count?: number;
+  premium?: number;
 }
 
 /**
  * 筛选面板组件
- * 实现17个维度的动态筛选功能
+ * 实现17个维度的动态筛选功能，各维度选项及计数随其余维度的筛选条件级联更新
  */
 export function FilterPanel({ filters, onFiltersChange, loading = false }: FilterPanelProps) {
   const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set(['policy_start_year']));
-  const [dimensionOptions, setDimensionOptions] = useState<{ [key: string]: FilterOption[] }>({});
+  const [facets, setFacets] = useState<FacetCounts | null>(null);
   const [searchTerms, setSearchTerms] = useState<{ [key: string]: string }>({});
-  const [loadingOptions, setLoadingOptions] = useState<Set<string>>(new Set());
+  const [loadingFacets, setLoadingFacets] = useState(false);
+  const facetRequestRef = useRef(0);
 
   /**
-   * 加载维度选项值
+   * 按当前筛选条件加载全部维度的分面统计（仅保留最新一次请求的结果）
    */
-  const loadDimensionOptions = async (dimension: keyof InsuranceRecord) => {
-    if (loadingOptions.has(dimension)) return;
-    
-    setLoadingOptions(prev => new Set(prev).add(dimension));
-    
+  const loadFacets = useCallback(async () => {
+    const requestId = ++facetRequestRef.current;
+    setLoadingFacets(true);
+
     try {
-      const values = await db.getDimensionValues(dimension);
-      const options: FilterOption[] = values.map(value => ({
-        value,
-        label: String(value),
-      }));
-      
-      setDimensionOptions(prev => ({
-        ...prev,
-        [dimension]: options
-      }));
+      const result = await db.getFacetCounts(filters);
+      if (requestId === facetRequestRef.current) {
+        setFacets(result);
+      }
     } catch (error) {
-      console.error(`加载维度选项失败 ${dimension}:`, error);
+      console.error('加载维度选项失败:', error);
     } finally {
-      setLoadingOptions(prev => {
-        const newSet = new Set(prev);
-        newSet.delete(dimension);
-        return newSet;
-      });
+      if (requestId === facetRequestRef.current) {
+        setLoadingFacets(false);
+      }
     }
+  }, [filters]);
+
+  /**
+   * 获取维度选项：分面统计中的取值，以及在其余筛选条件下已无记录的已选值（计数为0，便于取消）
+   */
+  const getDimensionOptions = (dimension: string): FilterOption[] => {
+    const options: FilterOption[] = (facets?.[dimension as keyof FilterDimensions] ?? []).map(facet => ({
+      value: facet.value,
+      label: String(facet.value),
+      count: facet.count,
+      premium: facet.premium
+    }));
+    const missing = getSelectedValues(dimension)
+      .filter(value => !options.some(option => option.value === value))
+      .map(value => ({ value, label: String(value), count: 0, premium: 0 }));
+    return [...missing, ...options];
   };
 
   /**
@@ -68,10 +78,6 @@ export function FilterPanel({ filters, onFiltersChange, loading = false }: Filte
       newExpanded.delete(dimension);
     } else {
       newExpanded.add(dimension);
-      // 首次展开时加载选项
-      if (!dimensionOptions[dimension]) {
-        loadDimensionOptions(dimension as keyof InsuranceRecord);
-      }
     }
     setExpandedSections(newExpanded);
   };
@@ -104,10 +110,12 @@ export function FilterPanel({ filters, onFiltersChange, loading = false }: Filte
   };
 
   /**
-   * 获取已选择的值
+   * 获取已选择的值（单个取值按单元素数组处理）
    */
   const getSelectedValues = (dimension: string): any[] => {
-    return (filters as any)[dimension] || [];
+    const value = (filters as any)[dimension];
+    if (value === undefined || value === null) return [];
+    return Array.isArray(value) ? value : [value];
   };
 
   /**
@@ -130,7 +138,7 @@ export function FilterPanel({ filters, onFiltersChange, loading = false }: Filte
    * 过滤选项（基于搜索词）
    */
   const getFilteredOptions = (dimension: string): FilterOption[] => {
-    const options = dimensionOptions[dimension] || [];
+    const options = getDimensionOptions(dimension);
     const searchTerm = searchTerms[dimension]?.toLowerCase() || '';
     
     if (!searchTerm) return options;
@@ -147,15 +155,10 @@ export function FilterPanel({ filters, onFiltersChange, loading = false }: Filte
     return Object.keys(filters).length;
   };
 
-  // 初始化时加载常用维度的选项
+  // 筛选条件变化时重新计算各维度的选项与计数
   useEffect(() => {
-    const commonDimensions = ['policy_start_year', 'chengdu_branch', 'business_type_category'];
-    commonDimensions.forEach(dimension => {
-      if (!dimensionOptions[dimension]) {
-        loadDimensionOptions(dimension as keyof InsuranceRecord);
-      }
-    });
-  }, []);
+    loadFacets();
+  }, [loadFacets]);
 
   return (
     <div className="space-y-4">
@@ -186,7 +189,8 @@ export function FilterPanel({ filters, onFiltersChange, loading = false }: Filte
           const isExpanded = expandedSections.has(dimension);
           const selectedValues = getSelectedValues(dimension);
           const options = getFilteredOptions(dimension);
-          const isLoading = loadingOptions.has(dimension);
+          // 刷新期间保留上一次的选项，仅首次加载时显示加载中
+          const isLoading = loadingFacets && !facets;
 
           return (
             <div key={dimension} className="border rounded-lg">
@@ -275,12 +279,12 @@ export function FilterPanel({ filters, onFiltersChange, loading = false }: Filte
                               )}
                               className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
                             />
-                            <span className="text-sm text-gray-700 flex-1">
+                            <span className={`text-sm flex-1 ${option.count === 0 ? 'text-gray-400' : 'text-gray-700'}`}>
                               {option.label}
                             </span>
-                            {option.count && (
-                              <span className="text-xs text-gray-500">
-                                ({option.count})
+                            {option.count !== undefined && (
+                              <span className="text-xs text-gray-500" title="记录数 / 签单保费">
+                                ({option.count.toLocaleString()} / ¥{((option.premium ?? 0) / 10000).toFixed(1)}万)
                               </span>
                             )}
                           </label>
@@ -299,43 +303,6 @@ export function FilterPanel({ filters, onFiltersChange, loading = false }: Filte
           );
         })}
       </div>
-
-      {/* 快速筛选预设 */}
-      <div className="pt-4 border-t">
-        <h4 className="text-sm font-medium text-gray-700 mb-2">快速筛选</h4>
-        <div className="space-y-2">
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={() => onFiltersChange({ policy_start_year: [2024] })}
-            className="w-full justify-start text-xs"
-          >
-            2024年数据
-          </Button>
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={() => onFiltersChange({ 
-              policy_start_year: [2024],
-              business_type_category: ['车险']
-            })}
-            className="w-full justify-start text-xs"
-          >
-            2024年车险
-          </Button>
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={() => onFiltersChange({
-              policy_start_year: [2024],
-              chengdu_branch: ['成都分公司']
-            })}
-            className="w-full justify-start text-xs"
-          >
-            成都分公司2024年
-          </Button>
-        </div>
-      </div>
     </div>
   );
 }
\ No newline at end of file
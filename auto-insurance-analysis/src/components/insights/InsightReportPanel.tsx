@@ -0,0 +1,234 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Download, Sparkles, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { DIMENSION_FIELDS, DISPLAY_NAMES } from '@/lib/constants';
+import { METRIC_FORMULAS } from '@/lib/metric-formulas';
+import {
+  DEFAULT_INSIGHT_METRICS,
+  InsightMetric,
+  InsightReport,
+  InsightSource,
+  deleteInsightReport,
+  downloadInsightReport,
+  loadInsightReports,
+  saveInsightReport
+} from '@/lib/insight-report';
+import { generateCostTrendReport, generateLLMInsightReport } from '@/services/insightService';
+import { FilterConditions, FilterDimensions } from '@/types/insurance';
+
+interface InsightReportPanelProps {
+  filters: FilterConditions;
+  onError?: (error: string) => void;
+}
+
+/**
+ * 可选的分组维度（时间维度除外）
+ */
+const UNIT_FIELDS = DIMENSION_FIELDS.filter(
+  field => field !== 'policy_start_year' && field !== 'week_number' && field !== 'snapshot_date'
+);
+
+/**
+ * 渲染行内加粗
+ */
+function renderInline(text: string): React.ReactNode[] {
+  return text.split(/(\*\*[^*]+\*\*)/).map((part, index) =>
+    part.startsWith('**') && part.endsWith('**')
+      ? <strong key={index}>{part.slice(2, -2)}</strong>
+      : <React.Fragment key={index}>{part}</React.Fragment>
+  );
+}
+
+/**
+ * 渲染报告 Markdown（仅支持报告模板用到的标题、引用、列表与加粗）
+ */
+function renderMarkdown(markdown: string): React.ReactNode[] {
+  return markdown.split('\n').map((line, index) => {
+    if (line.startsWith('### ')) return <h4 key={index} className="mt-3 font-medium text-gray-900">{line.slice(4)}</h4>;
+    if (line.startsWith('## ')) return <h3 key={index} className="mt-4 text-base font-semibold text-gray-900">{line.slice(3)}</h3>;
+    if (line.startsWith('# ')) return <h2 key={index} className="text-lg font-bold text-gray-900">{line.slice(2)}</h2>;
+    if (line.startsWith('> ')) return <p key={index} className="text-xs text-gray-500">{line.slice(2)}</p>;
+    if (line.startsWith('- ')) return <p key={index} className="pl-4 -indent-3">• {renderInline(line.slice(2))}</p>;
+    if (/^\d+\. /.test(line)) return <p key={index} className="pl-4">{renderInline(line)}</p>;
+    return line ? <p key={index}>{renderInline(line)}</p> : null;
+  });
+}
+
+/**
+ * 洞察报告面板
+ * 点击“分析成本趋势”按当前筛选条件生成三段式报告，并保存到历史供回看
+ */
+export function InsightReportPanel({ filters, onError }: InsightReportPanelProps) {
+  const [metrics, setMetrics] = useState<InsightMetric[]>(DEFAULT_INSIGHT_METRICS);
+  const [dimension, setDimension] = useState<keyof FilterDimensions>('third_level_organization');
+  const [history, setHistory] = useState<InsightReport[]>([]);
+  const [activeReport, setActiveReport] = useState<InsightReport | null>(null);
+  const [generating, setGenerating] = useState(false);
+  const [source, setSource] = useState<InsightSource>('template');
+
+  useEffect(() => {
+    const reports = loadInsightReports();
+    setHistory(reports);
+    setActiveReport(reports[0] ?? null);
+  }, []);
+
+  const toggleMetric = (metric: InsightMetric) => {
+    setMetrics(prev => (prev.includes(metric) ? prev.filter(item => item !== metric) : [...prev, metric]));
+  };
+
+  /**
+   * 生成报告并保存到历史
+   */
+  const handleGenerate = async () => {
+    setGenerating(true);
+    try {
+      const report = source === 'llm'
+        ? await generateLLMInsightReport(filters, metrics, dimension)
+        : await generateCostTrendReport(filters, metrics, dimension);
+      setHistory(saveInsightReport(report));
+      setActiveReport(report);
+    } catch (error) {
+      onError?.(`洞察报告生成失败: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleDelete = (id: string) => {
+    const reports = deleteInsightReport(id);
+    setHistory(reports);
+    if (activeReport?.id === id) setActiveReport(reports[0] ?? null);
+  };
+
+  return (
+    <div className="grid grid-cols-1 gap-6 lg:grid-cols-4">
+      <div className="space-y-6 lg:col-span-3">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>智能洞察</CardTitle>
+              <Button onClick={handleGenerate} disabled={generating || metrics.length === 0}>
+                <Sparkles className={`h-4 w-4 mr-1 ${generating ? 'animate-pulse' : ''}`} />
+                {generating ? '分析中...' : '分析成本趋势'}
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            <div>
+              <p className="mb-2 text-gray-600">分析指标</p>
+              <div className="flex flex-wrap gap-2">
+                {METRIC_FORMULAS.map(formula => (
+                  <Button
+                    key={formula.field}
+                    variant={metrics.includes(formula.field) ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => toggleMetric(formula.field)}
+                  >
+                    {formula.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-gray-600">
+              <span>生成方式</span>
+              <select
+                value={source}
+                onChange={event => setSource(event.target.value as InsightSource)}
+                className="rounded border border-gray-300 px-2 py-1"
+              >
+                <option value="template">规则模板（离线）</option>
+                <option value="llm">大模型（失败时回退规则模板）</option>
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-gray-600">
+              <span>异常单元分组维度</span>
+              <select
+                value={dimension}
+                onChange={event => setDimension(event.target.value as keyof FilterDimensions)}
+                className="rounded border border-gray-300 px-2 py-1"
+              >
+                {UNIT_FIELDS.map(field => (
+                  <option key={field} value={field}>{DISPLAY_NAMES[field]}</option>
+                ))}
+              </select>
+            </label>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>分析报告</CardTitle>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => activeReport && downloadInsightReport(activeReport)}
+                disabled={!activeReport}
+              >
+                <Download className="h-4 w-4 mr-1" />
+                下载Markdown
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {activeReport ? (
+              <div className="space-y-3">
+                {activeReport.source === 'llm' && (
+                  <p className="rounded bg-blue-50 px-3 py-2 text-xs text-blue-800">
+                    由 {activeReport.provider ?? '大模型'} 基于匿名化聚合摘要生成
+                  </p>
+                )}
+                {activeReport.fallbackReason && (
+                  <p className="rounded bg-yellow-50 px-3 py-2 text-xs text-yellow-800">
+                    大模型不可用，已回退为规则模板报告：{activeReport.fallbackReason}
+                  </p>
+                )}
+                <div className="space-y-1 text-sm leading-6 text-gray-800">{renderMarkdown(activeReport.markdown)}</div>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">选择指标后点击“分析成本趋势”生成报告</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>历史报告（{history.length}）</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {history.length === 0 ? (
+            <p className="text-sm text-gray-500">暂无历史报告</p>
+          ) : (
+            <ul className="space-y-2 text-sm">
+              {history.map(report => (
+                <li
+                  key={report.id}
+                  className={`flex items-start justify-between rounded border px-2 py-1 ${
+                    report.id === activeReport?.id ? 'border-blue-300 bg-blue-50' : 'border-gray-200'
+                  }`}
+                >
+                  <button type="button" onClick={() => setActiveReport(report)} className="text-left">
+                    <p className="text-gray-900">{report.title}</p>
+                    <p className="text-xs text-gray-500">{new Date(report.createdAt).toLocaleString()}</p>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(report.id)}
+                    className="ml-2 text-gray-400 hover:text-red-600"
+                    title="删除报告"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Download, ExternalLink, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ALERT_SEVERITY_STYLES } from '@/components/alerts/AlertRulesPanel';
+import { db } from '@/lib/database';
+import { DIMENSION_FIELDS, DISPLAY_NAMES } from '@/lib/constants';
+import { formatSlice } from '@/lib/week-reconciliation';
+import { ALERT_SEVERITY_LABELS, AlertSeverity, loadAlertRules } from '@/lib/alert-rules';
+import {
+  DEFAULT_RISK_DIMENSIONS,
+  RiskMonitorReport,
+  RiskUnit,
+  downloadRiskReport,
+  toUnitFilters
+} from '@/lib/risk-monitoring';
+import { FilterConditions, FilterDimensions } from '@/types/insurance';
+
+interface RiskMonitorPanelProps {
+  filters: FilterConditions;
+  onDrillDown: (filters: FilterConditions) => void;
+  onError?: (error: string) => void;
+}
+
+/**
+ * 可选的监控维度（周序号与快照日期除外）
+ */
+const MONITOR_FIELDS = DIMENSION_FIELDS.filter(field => field !== 'week_number' && field !== 'snapshot_date');
+
+/**
+ * 列表中展示的单元数
+ */
+const MAX_VISIBLE_UNITS = 200;
+
+/**
+ * 风险监控面板
+ * 按选定维度组合列出高风险业务单元，按级别与保费敞口排序，点击单元进入对应筛选的仪表盘
+ */
+export function RiskMonitorPanel({ filters, onDrillDown, onError }: RiskMonitorPanelProps) {
+  const [dimensions, setDimensions] = useState<(keyof FilterDimensions)[]>(DEFAULT_RISK_DIMENSIONS);
+  const [report, setReport] = useState<RiskMonitorReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [riskOnly, setRiskOnly] = useState(true);
+
+  /**
+   * 计算风险单元
+   */
+  const loadReport = useCallback(async () => {
+    setLoading(true);
+    try {
+      setReport(await db.getRiskReport(dimensions, loadAlertRules(), filters));
+    } catch (error) {
+      onError?.(`风险监控计算失败: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [dimensions, filters, onError]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const toggleDimension = (field: keyof FilterDimensions) => {
+    setDimensions(prev => (prev.includes(field) ? prev.filter(item => item !== field) : [...prev, field]));
+  };
+
+  const units = report ? report.units.filter(unit => !riskOnly || unit.level !== 'normal') : [];
+
+  const renderUnit = (unit: RiskUnit, index: number) => (
+    <tr key={index} className="border-t border-gray-100 align-top">
+      <td className="px-2 py-1">
+        <span className={`rounded px-2 py-0.5 ${ALERT_SEVERITY_STYLES[unit.level]}`}>
+          {ALERT_SEVERITY_LABELS[unit.level]}
+        </span>
+      </td>
+      <td className="px-2 py-1">
+        <button
+          type="button"
+          onClick={() => onDrillDown(toUnitFilters(unit, filters))}
+          className="text-left text-blue-700 hover:underline"
+          title="在仪表盘中查看该单元"
+        >
+          {formatSlice(unit.dimensions) || '全部'}
+          <ExternalLink className="ml-1 inline h-3 w-3" />
+        </button>
+      </td>
+      <td className="px-2 py-1 text-right">{Math.round(unit.signedPremium).toLocaleString()}</td>
+      <td className="px-2 py-1 text-right">{unit.exposureShare.toFixed(1)}%</td>
+      <td className="px-2 py-1 text-right">{unit.expiredLossRatio.toFixed(1)}%</td>
+      <td className="px-2 py-1 text-right">{unit.variableCostRatio.toFixed(1)}%</td>
+      <td className="px-2 py-1">
+        {[...unit.alerts.map(alert => alert.ruleName), ...unit.anomalyFlags].join('；') || '-'}
+      </td>
+      <td className="px-2 py-1 text-gray-600">{unit.recommendations.join('；') || '-'}</td>
+    </tr>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>风险监控</CardTitle>
+          <div className="flex space-x-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => downloadRiskReport(units)}
+              disabled={units.length === 0}
+            >
+              <Download className="h-4 w-4 mr-1" />
+              导出清单
+            </Button>
+            <Button variant="outline" size="sm" onClick={loadReport} disabled={loading}>
+              <RefreshCw className={`h-4 w-4 mr-1 ${loading ? 'animate-spin' : ''}`} />
+              重新计算
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2 text-sm">
+          <p className="text-gray-600">监控维度组合（预警规则的适用范围维度须包含在内才会生效）</p>
+          <div className="flex flex-wrap gap-2">
+            {MONITOR_FIELDS.map(field => (
+              <Button
+                key={field}
+                variant={dimensions.includes(field) ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => toggleDimension(field)}
+              >
+                {DISPLAY_NAMES[field]}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {report && (
+          <>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              {(Object.keys(ALERT_SEVERITY_LABELS) as AlertSeverity[]).map(level => (
+                <span key={level} className={`rounded px-2 py-0.5 ${ALERT_SEVERITY_STYLES[level]}`}>
+                  {ALERT_SEVERITY_LABELS[level]} {report.levelCounts[level].toLocaleString()} 个单元
+                </span>
+              ))}
+              <span className="text-gray-700">
+                风险单元保费 {Math.round(report.atRiskPremium).toLocaleString()} 元，
+                占 {report.totalSignedPremium !== 0 ? ((report.atRiskPremium / report.totalSignedPremium) * 100).toFixed(1) : '0.0'}%
+              </span>
+              <label className="ml-auto flex items-center gap-1 text-gray-600">
+                <input type="checkbox" checked={riskOnly} onChange={event => setRiskOnly(event.target.checked)} />
+                仅显示风险单元
+              </label>
+            </div>
+
+            {units.length === 0 ? (
+              <p className="text-sm text-gray-500">{riskOnly ? '当前维度组合下没有风险单元' : '暂无数据'}</p>
+            ) : (
+              <div className="max-h-[32rem] overflow-auto">
+                <table className="w-full text-xs">
+                  <thead className="bg-gray-50 text-gray-700 sticky top-0">
+                    <tr>
+                      <th className="px-2 py-1 text-left">级别</th>
+                      <th className="px-2 py-1 text-left">业务单元</th>
+                      <th className="px-2 py-1 text-right">签单保费（元）</th>
+                      <th className="px-2 py-1 text-right">保费占比</th>
+                      <th className="px-2 py-1 text-right">满期赔付率</th>
+                      <th className="px-2 py-1 text-right">变动成本率</th>
+                      <th className="px-2 py-1 text-left">预警与异常</th>
+                      <th className="px-2 py-1 text-left">建议措施</th>
+                    </tr>
+                  </thead>
+                  <tbody>{units.slice(0, MAX_VISIBLE_UNITS).map(renderUnit)}</tbody>
+                </table>
+                {units.length > MAX_VISIBLE_UNITS && (
+                  <p className="px-2 py-1 text-xs text-gray-500 italic">
+                    仅显示前 {MAX_VISIBLE_UNITS} 个单元，完整清单请导出
+                  </p>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AggregationClient, MAX_CACHED_RESULTS } from '@/lib/aggregation-client';
+import { getColumnarStore } from '@/lib/columnar-store';
+import { InsuranceDatabase } from '@/lib/database';
+import { InsuranceRecord } from '@/types/insurance';
+
+/**
+ * 创建以主线程回退执行的客户端（测试环境无Worker）
+ */
+function createClient() {
+  const getSummaryStats = vi.fn(async (filters: object) => ({ filters }));
+  const client = new AggregationClient({ getSummaryStats } as unknown as InsuranceDatabase);
+  return { client, getSummaryStats };
+}
+
+describe('AggregationClient 结果缓存', () => {
+  it('超出上限时淘汰最久未使用的结果', async () => {
+    const { client, getSummaryStats } = createClient();
+    for (let week = 0; week <= MAX_CACHED_RESULTS; week++) {
+      await client.getSummaryStats({ week_number: [week] });
+      // 持续访问第1项，使其保持为最近使用
+      await client.getSummaryStats({ week_number: [1] });
+    }
+    expect(getSummaryStats).toHaveBeenCalledTimes(MAX_CACHED_RESULTS + 1);
+
+    await client.getSummaryStats({ week_number: [1] });
+    expect(getSummaryStats).toHaveBeenCalledTimes(MAX_CACHED_RESULTS + 1);
+    await client.getSummaryStats({ week_number: [0] });
+    expect(getSummaryStats).toHaveBeenCalledTimes(MAX_CACHED_RESULTS + 2);
+  });
+
+  it('数据写入后不再使用旧结果', async () => {
+    const { client, getSummaryStats } = createClient();
+    await client.getSummaryStats({});
+    await client.getSummaryStats({});
+    expect(getSummaryStats).toHaveBeenCalledTimes(1);
+
+    await getColumnarStore().append([{ policy_start_year: 2025, week_number: 28 } as InsuranceRecord]);
+    await client.getSummaryStats({});
+    expect(getSummaryStats).toHaveBeenCalledTimes(2);
+  });
+});
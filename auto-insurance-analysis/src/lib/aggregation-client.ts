@@ -0,0 +1,279 @@
+/**
+ * 车险多维分析系统 - 聚合Worker客户端
+ * 将筛选、排序、分组聚合交给 workers/aggregation.worker.ts 在后台线程执行，
+ * 以Promise形式返回结果并支持通过 AbortSignal 取消；
+ * 运行环境不支持Worker或IndexedDB时回退到主线程的 InsuranceDatabase
+ */
+
+import { AnalysisResult, FilterConditions, FilterDimensions, InsuranceRecord } from '@/types/insurance';
+import { TimeSeriesGroupBy } from '@/lib/calculations';
+import { PagedRecords } from '@/lib/columnar-query';
+import { getColumnarStore } from '@/lib/columnar-store';
+import { db, InsuranceDatabase } from '@/lib/database';
+
+/**
+ * Worker请求（方法名与 InsuranceDatabase 保持一致）
+ */
+export type AggregationRequest =
+  | {
+      method: 'findByConditions';
+      filters: FilterConditions;
+      sortField?: keyof InsuranceRecord;
+      sortOrder: 'asc' | 'desc';
+      page: number;
+      pageSize: number;
+    }
+  | { method: 'aggregateByDimensions'; dimensions: (keyof FilterDimensions)[]; filters: FilterConditions; limit: number }
+  | { method: 'getSummaryStats'; filters: FilterConditions }
+  | { method: 'getTimeSeriesData'; groupBy: TimeSeriesGroupBy; filters: FilterConditions };
+
+/**
+ * 发往Worker的消息
+ */
+export type AggregationWorkerMessage = AggregationRequest & { id: number };
+
+/**
+ * Worker返回的消息
+ */
+export type AggregationWorkerResponse =
+  | { id: number; success: true; result: unknown }
+  | { id: number; success: false; message: string };
+
+/**
+ * 进行中的请求
+ */
+interface PendingRequest {
+  message: AggregationWorkerMessage;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+}
+
+/**
+ * 结果缓存的最大条目数，超出时淘汰最久未使用的结果
+ */
+export const MAX_CACHED_RESULTS = 100;
+
+/**
+ * 判断异常是否由取消查询引起
+ * @param error 捕获的异常
+ * @returns 是否为取消
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * 构造取消异常
+ */
+function createAbortError(): Error {
+  const error = new Error('查询已取消');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * 聚合Worker客户端
+ */
+export class AggregationClient {
+  private worker: Worker | null = null;
+  private nextId = 1;
+  private pending = new Map<number, PendingRequest>();
+  private cache = new Map<string, unknown>();
+  private cacheRevision = 0;
+
+  constructor(private readonly fallback: InsuranceDatabase = db) {}
+
+  /**
+   * 是否可以使用Worker（Worker需要通过IndexedDB读取与主线程相同的数据）
+   */
+  private get workerSupported(): boolean {
+    return typeof Worker !== 'undefined' && typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * 获取或创建Worker
+   */
+  private getWorker(): Worker {
+    if (!this.worker) {
+      const worker = new Worker(new URL('../workers/aggregation.worker.ts', import.meta.url));
+      worker.onmessage = (event: MessageEvent<AggregationWorkerResponse>) => this.handleResponse(event.data);
+      worker.onerror = (event) => this.failAll(new Error(event.message || '聚合Worker运行失败'));
+      this.worker = worker;
+    }
+    return this.worker;
+  }
+
+  /**
+   * 处理Worker返回的结果
+   * @param response Worker消息
+   */
+  private handleResponse(response: AggregationWorkerResponse): void {
+    const request = this.pending.get(response.id);
+    if (!request) return;
+    this.pending.delete(response.id);
+
+    if (response.success) {
+      request.resolve(response.result);
+    } else {
+      request.reject(new Error(response.message));
+    }
+  }
+
+  /**
+   * 以同一异常结束全部进行中的请求
+   * @param error 异常
+   */
+  private failAll(error: Error): void {
+    this.pending.forEach(request => request.reject(error));
+    this.pending.clear();
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  /**
+   * 取消单个请求
+   * Worker中的同步计算无法中断，因此终止Worker并将其余请求重新投递到新Worker
+   * @param id 请求ID
+   */
+  private cancel(id: number): void {
+    const request = this.pending.get(id);
+    if (!request) return;
+    this.pending.delete(id);
+    request.reject(createAbortError());
+
+    this.worker?.terminate();
+    this.worker = null;
+    if (this.pending.size > 0) {
+      const worker = this.getWorker();
+      this.pending.forEach(({ message }) => worker.postMessage(message));
+    }
+  }
+
+  /**
+   * 执行请求（LRU结果缓存，数据写入后整体清空）
+   * @param request 请求
+   * @param signal 取消信号
+   * @returns 结果
+   */
+  private async execute<T>(request: AggregationRequest, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) throw createAbortError();
+
+    const revision = getColumnarStore().revision;
+    if (revision !== this.cacheRevision) {
+      this.cache.clear();
+      this.cacheRevision = revision;
+    }
+
+    const cacheKey = JSON.stringify(request);
+    if (this.cache.has(cacheKey)) {
+      // 重新插入以标记为最近使用
+      const cached = this.cache.get(cacheKey);
+      this.cache.delete(cacheKey);
+      this.cache.set(cacheKey, cached);
+      return cached as T;
+    }
+
+    const result = this.workerSupported
+      ? await this.post<T>(request, signal)
+      : await this.runOnMainThread<T>(request);
+
+    // 计算期间发生写入时结果已过期，不写入缓存
+    if (getColumnarStore().revision === revision) {
+      this.cache.set(cacheKey, result);
+      if (this.cache.size > MAX_CACHED_RESULTS) {
+        this.cache.delete(this.cache.keys().next().value as string);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * 投递请求到Worker
+   * @param request 请求
+   * @param signal 取消信号
+   * @returns 结果
+   */
+  private post<T>(request: AggregationRequest, signal?: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const id = this.nextId++;
+      const message: AggregationWorkerMessage = { ...request, id };
+      this.pending.set(id, { message, resolve: resolve as (value: unknown) => void, reject });
+
+      signal?.addEventListener('abort', () => this.cancel(id), { once: true });
+      this.getWorker().postMessage(message);
+    });
+  }
+
+  /**
+   * 回退：在主线程通过 InsuranceDatabase 执行
+   * @param request 请求
+   * @returns 结果
+   */
+  private async runOnMainThread<T>(request: AggregationRequest): Promise<T> {
+    switch (request.method) {
+      case 'findByConditions':
+        return await this.fallback.findByConditions(
+          request.filters, request.sortField, request.sortOrder, request.page, request.pageSize
+        ) as T;
+      case 'aggregateByDimensions':
+        return await this.fallback.aggregateByDimensions(request.dimensions, request.filters, request.limit) as T;
+      case 'getSummaryStats':
+        return await this.fallback.getSummaryStats(request.filters) as T;
+      case 'getTimeSeriesData':
+        return await this.fallback.getTimeSeriesData(request.groupBy, request.filters) as T;
+    }
+  }
+
+  /**
+   * 清除结果缓存
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * 根据条件分页查询记录
+   */
+  findByConditions(
+    filters: FilterConditions,
+    sortField?: keyof InsuranceRecord,
+    sortOrder: 'asc' | 'desc' = 'asc',
+    page: number = 1,
+    pageSize: number = 1000,
+    signal?: AbortSignal
+  ): Promise<PagedRecords> {
+    return this.execute({ method: 'findByConditions', filters, sortField, sortOrder, page, pageSize }, signal);
+  }
+
+  /**
+   * 按维度分组计算指标
+   */
+  aggregateByDimensions(
+    dimensions: (keyof FilterDimensions)[],
+    filters: FilterConditions = {},
+    limit: number = 1000,
+    signal?: AbortSignal
+  ): Promise<AnalysisResult[]> {
+    return this.execute({ method: 'aggregateByDimensions', dimensions, filters, limit }, signal);
+  }
+
+  /**
+   * 获取汇总统计
+   */
+  getSummaryStats(filters: FilterConditions = {}, signal?: AbortSignal): Promise<AnalysisResult> {
+    return this.execute({ method: 'getSummaryStats', filters }, signal);
+  }
+
+  /**
+   * 时间序列分析
+   */
+  getTimeSeriesData(
+    groupBy: TimeSeriesGroupBy,
+    filters: FilterConditions = {},
+    signal?: AbortSignal
+  ): Promise<AnalysisResult[]> {
+    return this.execute({ method: 'getTimeSeriesData', groupBy, filters }, signal);
+  }
+}
+
+export const aggregationClient = new AggregationClient();
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { AlertRule, evaluateAlertsOnRecords, getAlertDimensionSets } from '@/lib/alert-rules';
+import { InsuranceRecord } from '@/types/insurance';
+
+const TIMESTAMP = '2025-01-01T00:00:00.000Z';
+
+function rule(id: string, scope: AlertRule['scope']): AlertRule {
+  return {
+    id,
+    name: id,
+    scope,
+    metric: 'expired_loss_ratio_percent',
+    operator: 'gt',
+    threshold: 50,
+    severity: 'warning',
+    enabled: true,
+    createdAt: TIMESTAMP,
+    updatedAt: TIMESTAMP
+  };
+}
+
+function record(organization: string, insuranceType: string, claim: number): InsuranceRecord {
+  return {
+    policy_start_year: 2025,
+    week_number: 28,
+    third_level_organization: organization,
+    insurance_type: insuranceType,
+    policy_count: 1,
+    signed_premium_yuan: 100,
+    matured_premium_yuan: 100,
+    reported_claim_payment_yuan: claim
+  } as InsuranceRecord;
+}
+
+// 天府赔付率 80%、高新赔付率 20%，整体 50%（不超过阈值）
+const RECORDS = [
+  record('天府', '商业保险', 60),
+  record('天府', '交强险', 100),
+  record('高新', '商业保险', 20),
+  record('高新', '交强险', 20)
+];
+
+describe('预警规则分组', () => {
+  it('按各规则的范围维度组合分组', () => {
+    const rules = [rule('global', {}), rule('org', { third_level_organization: ['天府'] }), rule('type', { insurance_type: ['交强险'] })];
+    expect(getAlertDimensionSets(rules)).toEqual([[], ['third_level_organization'], ['insurance_type']]);
+  });
+
+  it('设置范围的规则不改变全局规则的评估粒度', () => {
+    const evaluation = evaluateAlertsOnRecords(RECORDS, [rule('global', {}), rule('org', { third_level_organization: ['天府'] })]);
+    expect(evaluation.alerts.map(alert => [alert.ruleId, alert.dimensions])).toEqual([
+      ['org', { third_level_organization: '天府' }]
+    ]);
+  });
+
+  it('机构范围的规则不因其他规则设置险种而按机构×险种触发', () => {
+    const evaluation = evaluateAlertsOnRecords(RECORDS, [
+      rule('org', { third_level_organization: ['天府'] }),
+      rule('type', { insurance_type: ['商业保险'] })
+    ]);
+    const orgAlerts = evaluation.alerts.filter(alert => alert.ruleId === 'org');
+    expect(orgAlerts).toHaveLength(1);
+    expect(orgAlerts[0].dimensions).toEqual({ third_level_organization: '天府' });
+  });
+
+  it('无启用规则时返回整体分组', () => {
+    const evaluation = evaluateAlertsOnRecords(RECORDS, []);
+    expect(evaluation.groups).toHaveLength(1);
+    expect(evaluation.levelCounts.normal).toBe(1);
+  });
+});
@@ -0,0 +1,506 @@
+/**
+ * 车险多维分析系统 - 预警规则
+ * 按机构/险种/客户类型等任意维度子集配置指标阈值与预警级别（严重/警告），
+ * 每条规则在按自身范围维度分组的 calculateMetricsByDimensions 结果上评估，规则保存在本地（localStorage）
+ */
+
+import Papa from 'papaparse';
+import { AbsoluteValueFields, CalculatedFields, FilterConditions, FilterDimensions, InsuranceRecord } from '@/types/insurance';
+import { DIMENSION_FIELDS, DISPLAY_NAMES } from '@/lib/constants';
+import { METRIC_FORMULA_MAP } from '@/lib/metric-formulas';
+import { formatSlice } from '@/lib/week-reconciliation';
+import {
+  ANOMALY_THRESHOLDS,
+  MetricCalculationResult,
+  calculateMetricsByDimensions
+} from '@/services/metricCalculator';
+import { downloadBlob } from '@/lib/download';
+
+/**
+ * 预警级别：严重 / 警告 / 正常
+ */
+export type AlertSeverity = 'critical' | 'warning' | 'normal';
+
+/**
+ * 规则可设置的预警级别
+ */
+export type AlertRuleSeverity = Exclude<AlertSeverity, 'normal'>;
+
+/**
+ * 阈值比较运算符
+ */
+export type AlertOperator = 'gt' | 'gte' | 'lt' | 'lte' | 'eq' | 'ne';
+
+/**
+ * 可配置预警的指标
+ */
+export type AlertMetric = keyof CalculatedFields | keyof AbsoluteValueFields;
+
+/**
+ * 预警规则
+ */
+export interface AlertRule {
+  id: string;
+  name: string;
+  scope: FilterConditions;                         // 适用范围，为空时适用于所有分组
+  metric: AlertMetric;
+  operator: AlertOperator;
+  threshold: number;
+  severity: AlertRuleSeverity;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * 已触发的预警
+ */
+export interface TriggeredAlert {
+  ruleId: string;
+  ruleName: string;
+  severity: AlertRuleSeverity;
+  metric: AlertMetric;
+  operator: AlertOperator;
+  threshold: number;
+  value: number;
+  dimensions: Partial<FilterDimensions>;
+  signedPremium: number;                           // 分组签单保费，用于衡量风险敞口
+}
+
+/**
+ * 单个分组的预警结果
+ */
+export interface AlertGroupResult {
+  dimensions: Partial<FilterDimensions>;
+  level: AlertSeverity;
+  signedPremium: number;
+  alerts: TriggeredAlert[];
+}
+
+/**
+ * 预警评估结果
+ */
+export interface AlertEvaluation {
+  dimensionSets: (keyof FilterDimensions)[][];     // 评估时使用的分组维度组合（每种规则范围维度一组）
+  groups: AlertGroupResult[];                      // 按级别、签单保费降序
+  alerts: TriggeredAlert[];                        // 按级别、签单保费降序
+  levelCounts: Record<AlertSeverity, number>;      // 各级别的分组数
+}
+
+/**
+ * 规则在localStorage中的键
+ */
+export const ALERT_RULES_STORAGE_KEY = 'insurance_alert_rules';
+
+export const ALERT_SEVERITY_LABELS: Record<AlertSeverity, string> = {
+  critical: '严重',
+  warning: '警告',
+  normal: '正常'
+};
+
+export const ALERT_OPERATOR_LABELS: Record<AlertOperator, string> = {
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤',
+  eq: '=',
+  ne: '≠'
+};
+
+/**
+ * 可选的预警指标（计算字段在前）
+ */
+export const ALERT_METRICS: AlertMetric[] = [
+  ...(Object.keys(METRIC_FORMULA_MAP) as (keyof CalculatedFields)[]),
+  'signed_premium_yuan',
+  'matured_premium_yuan',
+  'reported_claim_payment_yuan',
+  'expense_amount_yuan',
+  'matured_margin_contribution_yuan',
+  'policy_count',
+  'claim_case_count'
+];
+
+/**
+ * 级别排序权重
+ */
+export const ALERT_SEVERITY_RANK: Record<AlertSeverity, number> = { critical: 2, warning: 1, normal: 0 };
+
+/**
+ * 默认规则创建时间（由 ANOMALY_THRESHOLDS 迁移而来）
+ */
+const DEFAULT_RULE_TIMESTAMP = '2025-01-01T00:00:00.000Z';
+
+/**
+ * 默认规则：与 MetricCalculator 的全局异常阈值一致
+ */
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  {
+    id: 'default_variable_cost_ratio',
+    name: '变动成本率过高',
+    scope: {},
+    metric: 'variable_cost_ratio_percent',
+    operator: 'gt',
+    threshold: ANOMALY_THRESHOLDS.variable_cost_ratio.max,
+    severity: 'critical',
+    enabled: true,
+    createdAt: DEFAULT_RULE_TIMESTAMP,
+    updatedAt: DEFAULT_RULE_TIMESTAMP
+  },
+  {
+    id: 'default_expired_loss_ratio',
+    name: '满期赔付率过高',
+    scope: {},
+    metric: 'expired_loss_ratio_percent',
+    operator: 'gt',
+    threshold: ANOMALY_THRESHOLDS.expired_loss_ratio.max,
+    severity: 'critical',
+    enabled: true,
+    createdAt: DEFAULT_RULE_TIMESTAMP,
+    updatedAt: DEFAULT_RULE_TIMESTAMP
+  },
+  {
+    id: 'default_expense_ratio',
+    name: '费用率过高',
+    scope: {},
+    metric: 'expense_ratio_percent',
+    operator: 'gt',
+    threshold: ANOMALY_THRESHOLDS.expense_ratio.max,
+    severity: 'warning',
+    enabled: true,
+    createdAt: DEFAULT_RULE_TIMESTAMP,
+    updatedAt: DEFAULT_RULE_TIMESTAMP
+  },
+  {
+    id: 'default_margin_contribution_ratio',
+    name: '边际贡献率过低',
+    scope: {},
+    metric: 'matured_margin_contribution_rate_percent',
+    operator: 'lt',
+    threshold: ANOMALY_THRESHOLDS.margin_contribution_ratio.min,
+    severity: 'critical',
+    enabled: true,
+    createdAt: DEFAULT_RULE_TIMESTAMP,
+    updatedAt: DEFAULT_RULE_TIMESTAMP
+  },
+  {
+    id: 'default_premium_time_progress',
+    name: '保费时间进度落后',
+    scope: {},
+    metric: 'premium_time_progress_achievement_rate_percent',
+    operator: 'lt',
+    threshold: ANOMALY_THRESHOLDS.premium_time_progress_achievement_rate.min,
+    severity: 'warning',
+    enabled: true,
+    createdAt: DEFAULT_RULE_TIMESTAMP,
+    updatedAt: DEFAULT_RULE_TIMESTAMP
+  }
+];
+
+/**
+ * 指标显示名称
+ * @param metric 指标字段
+ */
+export function getAlertMetricLabel(metric: AlertMetric): string {
+  return DISPLAY_NAMES[metric] ?? metric;
+}
+
+/**
+ * 比较指标值与阈值
+ * @param value 指标值
+ * @param operator 运算符
+ * @param threshold 阈值
+ * @returns 是否触发
+ */
+function compareThreshold(value: number, operator: AlertOperator, threshold: number): boolean {
+  switch (operator) {
+    case 'gt':
+      return value > threshold;
+    case 'gte':
+      return value >= threshold;
+    case 'lt':
+      return value < threshold;
+    case 'lte':
+      return value <= threshold;
+    case 'eq':
+      return value === threshold;
+    case 'ne':
+      return value !== threshold;
+  }
+}
+
+/**
+ * 获取规则范围中设置了取值的维度（按维度定义顺序）
+ * @param scope 适用范围
+ */
+function getScopeFields(scope: FilterConditions): (keyof FilterDimensions)[] {
+  return DIMENSION_FIELDS.filter(field => {
+    const value = scope[field];
+    return value !== undefined && value !== null && !(Array.isArray(value) && value.length === 0);
+  });
+}
+
+/**
+ * 判断分组是否在规则范围内
+ * 范围中的每个维度都必须出现在分组维度中且取值匹配（数组表示任一取值）
+ * @param scope 适用范围
+ * @param dimensions 分组维度取值
+ * @returns 是否匹配
+ */
+export function matchesAlertScope(scope: FilterConditions, dimensions: Partial<FilterDimensions>): boolean {
+  return getScopeFields(scope).every(field => {
+    const actual = dimensions[field];
+    if (actual === undefined) return false;
+    const expected = scope[field];
+    return Array.isArray(expected) ? (expected as unknown[]).includes(actual) : expected === actual;
+  });
+}
+
+/**
+ * 规则集评估所需的分组维度组合
+ * 每条规则只在按自身范围维度分组的结果上评估，范围维度相同的规则共用一组分组
+ * @param rules 规则集
+ * @returns 各启用规则范围维度的不同组合（未设置范围的规则对应空组合，即筛选后的整体）
+ */
+export function getAlertDimensionSets(rules: AlertRule[]): (keyof FilterDimensions)[][] {
+  const sets = new Map<string, (keyof FilterDimensions)[]>();
+  rules.filter(rule => rule.enabled).forEach(rule => {
+    const fields = getScopeFields(rule.scope);
+    sets.set(fields.join(','), fields);
+  });
+  return Array.from(sets.values()).sort((a, b) => a.length - b.length);
+}
+
+/**
+ * 判断计算字段的分母是否为0（此时指标值无意义，不参与预警）
+ * @param result 分组计算结果
+ * @param metric 指标字段
+ */
+function hasZeroDenominator(result: MetricCalculationResult, metric: AlertMetric): boolean {
+  const formula = METRIC_FORMULA_MAP[metric as keyof CalculatedFields];
+  return formula ? formula.denominators.some(field => !result[field]) : false;
+}
+
+/**
+ * 在分组指标结果上逐组评估预警规则
+ * @param results 分组指标结果
+ * @param rules 启用的规则
+ * @returns 各分组的预警结果
+ */
+function evaluateGroups(results: MetricCalculationResult[], rules: AlertRule[]): AlertGroupResult[] {
+  return results.map<AlertGroupResult>(result => {
+    const alerts = rules
+      .filter(rule => matchesAlertScope(rule.scope, result.dimensions))
+      .filter(rule => !hasZeroDenominator(result, rule.metric))
+      .filter(rule => compareThreshold(result[rule.metric], rule.operator, rule.threshold))
+      .map<TriggeredAlert>(rule => ({
+        ruleId: rule.id,
+        ruleName: rule.name,
+        severity: rule.severity,
+        metric: rule.metric,
+        operator: rule.operator,
+        threshold: rule.threshold,
+        value: result[rule.metric],
+        dimensions: result.dimensions,
+        signedPremium: result.signed_premium_yuan
+      }));
+
+    const level = alerts.reduce<AlertSeverity>(
+      (highest, alert) => (ALERT_SEVERITY_RANK[alert.severity] > ALERT_SEVERITY_RANK[highest] ? alert.severity : highest),
+      'normal'
+    );
+    return { dimensions: result.dimensions, level, signedPremium: result.signed_premium_yuan, alerts };
+  });
+}
+
+/**
+ * 汇总各分组的预警结果（按级别、签单保费降序）
+ * @param groups 分组预警结果
+ * @param dimensionSets 分组维度组合（仅用于报告）
+ * @returns 评估结果
+ */
+function summarizeAlertGroups(
+  groups: AlertGroupResult[],
+  dimensionSets: (keyof FilterDimensions)[][]
+): AlertEvaluation {
+  const byRisk = <T extends { signedPremium: number }>(levelOf: (item: T) => AlertSeverity) =>
+    (a: T, b: T) => ALERT_SEVERITY_RANK[levelOf(b)] - ALERT_SEVERITY_RANK[levelOf(a)] || b.signedPremium - a.signedPremium;
+
+  const levelCounts: Record<AlertSeverity, number> = { critical: 0, warning: 0, normal: 0 };
+  groups.forEach(group => levelCounts[group.level]++);
+
+  return {
+    dimensionSets,
+    groups: [...groups].sort(byRisk<AlertGroupResult>(group => group.level)),
+    alerts: groups.flatMap(group => group.alerts).sort(byRisk<TriggeredAlert>(alert => alert.severity)),
+    levelCounts
+  };
+}
+
+/**
+ * 在分组指标结果上评估预警规则
+ * 范围维度均出现在分组维度中的规则都参与评估（用于风险监控等固定分组的场景）
+ * @param results calculateMetricsByDimensions 的输出
+ * @param rules 规则集（停用的规则跳过）
+ * @param dimensions 分组维度（仅用于报告）
+ * @returns 评估结果
+ */
+export function evaluateAlertRules(
+  results: MetricCalculationResult[],
+  rules: AlertRule[],
+  dimensions: (keyof FilterDimensions)[] = []
+): AlertEvaluation {
+  return summarizeAlertGroups(evaluateGroups(results, rules.filter(rule => rule.enabled)), [dimensions]);
+}
+
+/**
+ * 在原始记录上评估预警规则
+ * 每条规则只在按自身范围维度分组的结果上评估：未设置范围的规则针对筛选后的整体，
+ * 不会因其他规则设置了范围而改为逐组评估
+ * @param records 已按当前筛选条件过滤的记录
+ * @param rules 规则集
+ * @returns 评估结果
+ */
+export function evaluateAlertsOnRecords(records: InsuranceRecord[], rules: AlertRule[]): AlertEvaluation {
+  const activeRules = rules.filter(rule => rule.enabled);
+  const dimensionSets = getAlertDimensionSets(activeRules);
+  const sets = dimensionSets.length > 0 ? dimensionSets : [[]];
+
+  const groups = sets.flatMap(dimensions => {
+    const key = dimensions.join(',');
+    const setRules = activeRules.filter(rule => getScopeFields(rule.scope).join(',') === key);
+    return evaluateGroups(calculateMetricsByDimensions(records, dimensions), setRules);
+  });
+  return summarizeAlertGroups(groups, sets);
+}
+
+/**
+ * 校验规则定义
+ * @param rule 规则
+ * @returns 问题列表，为空表示有效
+ */
+export function validateAlertRule(rule: Partial<AlertRule>): string[] {
+  const errors: string[] = [];
+  if (!rule.name?.trim()) errors.push('请填写规则名称');
+  if (!rule.metric || !ALERT_METRICS.includes(rule.metric)) errors.push('请选择有效的指标');
+  if (!rule.operator || !(rule.operator in ALERT_OPERATOR_LABELS)) errors.push('请选择比较方式');
+  if (typeof rule.threshold !== 'number' || !Number.isFinite(rule.threshold)) errors.push('阈值必须为数字');
+  if (rule.severity !== 'critical' && rule.severity !== 'warning') errors.push('请选择预警级别');
+  return errors;
+}
+
+/**
+ * 读取已保存的预警规则
+ * @returns 规则集，从未保存过时返回默认规则
+ */
+export function loadAlertRules(): AlertRule[] {
+  if (typeof localStorage === 'undefined') return DEFAULT_ALERT_RULES;
+  try {
+    const stored = localStorage.getItem(ALERT_RULES_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as AlertRule[]) : DEFAULT_ALERT_RULES;
+  } catch (error) {
+    console.error('读取预警规则失败:', error);
+    return DEFAULT_ALERT_RULES;
+  }
+}
+
+/**
+ * 保存预警规则
+ * @param rules 完整规则集
+ * @returns 保存的规则集
+ */
+export function saveAlertRules(rules: AlertRule[]): AlertRule[] {
+  if (typeof localStorage !== 'undefined') {
+    localStorage.setItem(ALERT_RULES_STORAGE_KEY, JSON.stringify(rules));
+  }
+  return rules;
+}
+
+/**
+ * 新增或更新规则（按id）并保存
+ * @param rule 规则，不含id时新建
+ * @returns 保存后的规则集
+ */
+export function upsertAlertRule(
+  rule: Omit<AlertRule, 'id' | 'createdAt' | 'updatedAt'> & { id?: string }
+): AlertRule[] {
+  const rules = loadAlertRules();
+  const now = new Date().toISOString();
+  const existing = rule.id ? rules.find(item => item.id === rule.id) : undefined;
+
+  if (existing) {
+    return saveAlertRules(rules.map(item => (item.id === existing.id ? { ...existing, ...rule, updatedAt: now } : item)));
+  }
+  const created: AlertRule = {
+    ...rule,
+    id: `rule_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`,
+    createdAt: now,
+    updatedAt: now
+  };
+  return saveAlertRules([...rules, created]);
+}
+
+/**
+ * 删除规则并保存
+ * @param id 规则ID
+ * @returns 保存后的规则集
+ */
+export function deleteAlertRule(id: string): AlertRule[] {
+  return saveAlertRules(loadAlertRules().filter(rule => rule.id !== id));
+}
+
+/**
+ * 恢复默认规则
+ * @returns 默认规则集
+ */
+export function resetAlertRules(): AlertRule[] {
+  return saveAlertRules(DEFAULT_ALERT_RULES);
+}
+
+/**
+ * 格式化规则范围
+ * @param scope 适用范围
+ * @returns 如 "三级机构/城市=天府,高新"，为空时返回"全部"
+ */
+export function formatAlertScope(scope: FilterConditions): string {
+  const fields = getScopeFields(scope);
+  if (fields.length === 0) return '全部';
+  return fields
+    .map(field => {
+      const value = scope[field];
+      return `${DISPLAY_NAMES[field]}=${Array.isArray(value) ? value.join(',') : value}`;
+    })
+    .join(' / ');
+}
+
+/**
+ * 生成已触发预警的CSV（带BOM便于Excel识别中文）
+ * @param alerts 已触发的预警
+ * @returns CSV文本
+ */
+export function buildAlertReport(alerts: TriggeredAlert[]): string {
+  const csv = Papa.unparse({
+    fields: ['级别', '规则', '分组', '指标', '条件', '实际值', '签单保费（元）'],
+    data: alerts.map(alert => [
+      ALERT_SEVERITY_LABELS[alert.severity],
+      alert.ruleName,
+      formatSlice(alert.dimensions) || '全部',
+      getAlertMetricLabel(alert.metric),
+      `${ALERT_OPERATOR_LABELS[alert.operator]} ${alert.threshold}`,
+      Number(alert.value.toFixed(4)),
+      Math.round(alert.signedPremium)
+    ])
+  }, {
+    escapeFormulae: true
+  });
+  return '\ufeff' + csv;
+}
+
+/**
+ * 下载已触发预警
+ * @param alerts 已触发的预警
+ * @param filename 文件名
+ */
+export function downloadAlertReport(alerts: TriggeredAlert[], filename: string = '预警清单.csv'): void {
+  downloadBlob(buildAlertReport(alerts), filename, 'text/csv;charset=utf-8;');
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { ApiRequestError, WRITE_TOKEN_ENV, assertWriteAuthorized, parseImportRequest, parseSortField } from '@/lib/api-utils';
+
+const VALID_RECORD = { policy_start_year: 2025, week_number: 28, policy_count: 1, signed_premium_yuan: 1000 };
+
+function jsonRequest(body: unknown, headers: Record<string, string> = {}): Request {
+  return new Request('http://localhost/api/records', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...headers },
+    body: JSON.stringify(body)
+  });
+}
+
+describe('assertWriteAuthorized', () => {
+  const env = { [WRITE_TOKEN_ENV]: 'secret-token' };
+
+  it('令牌一致时放行', () => {
+    expect(() => assertWriteAuthorized(jsonRequest({}, { authorization: 'Bearer secret-token' }), env)).not.toThrow();
+  });
+
+  it('缺少或错误的令牌返回401', () => {
+    const cases: Record<string, string>[] = [{}, { authorization: 'Bearer wrong' }, { authorization: 'secret-token' }];
+    for (const headers of cases) {
+      expect(() => assertWriteAuthorized(jsonRequest({}, headers), env)).toThrow(
+        expect.objectContaining({ status: 401 })
+      );
+    }
+  });
+
+  it('未配置令牌时拒绝所有写入', () => {
+    expect(() => assertWriteAuthorized(jsonRequest({}, { authorization: 'Bearer ' }), {})).toThrow(
+      expect.objectContaining({ status: 403 })
+    );
+  });
+});
+
+describe('parseImportRequest', () => {
+  it('解析通过校验的记录', async () => {
+    const result = await parseImportRequest(jsonRequest({ records: [VALID_RECORD], mode: 'merge' }));
+    expect(result.records).toHaveLength(1);
+    expect(result.mode).toBe('merge');
+  });
+
+  it('存在无效记录时整批拒绝', async () => {
+    const request = jsonRequest({ records: [VALID_RECORD, { ...VALID_RECORD, week_number: 60 }, 'x'] });
+    const error = await parseImportRequest(request).catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(ApiRequestError);
+    expect((error as ApiRequestError).status).toBe(400);
+    expect((error as ApiRequestError).message).toContain('2 条记录未通过校验');
+  });
+});
+
+describe('parseSortField', () => {
+  it('接受记录字段，缺失时不排序', () => {
+    expect(parseSortField(new URLSearchParams('sortField=signed_premium_yuan'), 'sortField')).toBe('signed_premium_yuan');
+    expect(parseSortField(new URLSearchParams(''), 'sortField')).toBeUndefined();
+  });
+
+  it('未知字段返回400', () => {
+    expect(() => parseSortField(new URLSearchParams('sortField=__proto__'), 'sortField')).toThrow(
+      expect.objectContaining({ status: 400 })
+    );
+  });
+});
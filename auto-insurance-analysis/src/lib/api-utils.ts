@@ -0,0 +1,275 @@
+/**
+ * 车险多维分析系统 - API工具函数
+ * 统一请求参数解析与 ApiResponse<T> 响应封装
+ */
+
+import { timingSafeEqual } from 'node:crypto';
+import { NextResponse } from 'next/server';
+import { ApiResponse, FilterConditions, FilterDimensions, ImportMode, InsuranceRecord } from '@/types/insurance';
+import { CSV_FIELD_MAPPING, DIMENSION_FIELDS } from '@/lib/constants';
+import { IMPORT_MODES } from '@/lib/import-modes';
+import { validateRecord } from '@/lib/calculations';
+
+/**
+ * 请求错误，默认对应HTTP 400（资源不存在等可指定状态码）
+ */
+export class ApiRequestError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'ApiRequestError';
+    this.status = status;
+  }
+}
+
+/**
+ * 写入令牌的环境变量名
+ */
+export const WRITE_TOKEN_ENV = 'INSURANCE_WRITE_TOKEN';
+
+/**
+ * 批量写入校验失败时在错误信息中列出的记录数
+ */
+const MAX_REPORTED_INVALID_RECORDS = 5;
+
+/**
+ * 校验修改共享数据集（写入、清空、回滚）的请求携带的写入令牌
+ * 令牌通过 Authorization: Bearer <令牌> 传递；服务端未配置令牌时拒绝所有修改
+ * @param request 请求
+ * @param env 环境变量
+ */
+export function assertWriteAuthorized(request: Request, env: Record<string, string | undefined> = process.env): void {
+  const expected = env[WRITE_TOKEN_ENV];
+  if (!expected) {
+    throw new ApiRequestError(`服务端未配置 ${WRITE_TOKEN_ENV}，不允许修改共享数据集`, 403);
+  }
+
+  const header = request.headers.get('authorization') ?? '';
+  const provided = Buffer.from(header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '');
+  const token = Buffer.from(expected);
+  if (provided.length !== token.length || !timingSafeEqual(provided, token)) {
+    throw new ApiRequestError('写入令牌缺失或无效', 401);
+  }
+}
+
+/**
+ * 构造成功响应
+ * @param data 响应数据
+ * @param extra 分页等附加信息
+ * @returns JSON响应
+ */
+export function jsonSuccess<T>(
+  data: T,
+  extra: Omit<ApiResponse<T>, 'success' | 'data'> = {}
+): NextResponse<ApiResponse<T>> {
+  return NextResponse.json({ success: true, data, ...extra });
+}
+
+/**
+ * 将异常转换为失败响应
+ * @param error 捕获的异常
+ * @returns JSON响应（参数错误返回400，其余返回500）
+ */
+export function jsonError(error: unknown): NextResponse<ApiResponse<null>> {
+  const isRequestError = error instanceof ApiRequestError;
+  if (!isRequestError) {
+    console.error('API请求处理失败:', error);
+  }
+  return NextResponse.json(
+    {
+      success: false,
+      data: null,
+      message: error instanceof Error ? error.message : '服务器内部错误'
+    },
+    { status: isRequestError ? error.status : 500 }
+  );
+}
+
+/**
+ * 解析JSON格式的查询参数
+ * @param searchParams URL查询参数
+ * @param name 参数名
+ * @returns 解析结果，参数缺失时返回undefined
+ */
+function parseJsonParam(searchParams: URLSearchParams, name: string): unknown {
+  const raw = searchParams.get(name);
+  if (raw === null || raw === '') return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new ApiRequestError(`参数 ${name} 不是合法的JSON`);
+  }
+}
+
+/**
+ * 解析筛选条件参数 filters（JSON对象）
+ * @param searchParams URL查询参数
+ * @returns 筛选条件
+ */
+export function parseFilters(searchParams: URLSearchParams): FilterConditions {
+  const filters = parseJsonParam(searchParams, 'filters');
+  if (filters === undefined) return {};
+  if (typeof filters !== 'object' || filters === null || Array.isArray(filters)) {
+    throw new ApiRequestError('参数 filters 必须是对象');
+  }
+  return filters as FilterConditions;
+}
+
+/**
+ * 解析正整数参数
+ * @param searchParams URL查询参数
+ * @param name 参数名
+ * @param defaultValue 默认值
+ * @returns 参数值
+ */
+export function parsePositiveInt(searchParams: URLSearchParams, name: string, defaultValue: number): number {
+  const raw = searchParams.get(name);
+  if (raw === null || raw === '') return defaultValue;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new ApiRequestError(`参数 ${name} 必须是正整数`);
+  }
+  return value;
+}
+
+/**
+ * 解析非负数参数
+ * @param searchParams URL查询参数
+ * @param name 参数名
+ * @param defaultValue 默认值
+ * @returns 参数值
+ */
+export function parseNonNegativeNumber(searchParams: URLSearchParams, name: string, defaultValue: number): number {
+  const raw = searchParams.get(name);
+  if (raw === null || raw === '') return defaultValue;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new ApiRequestError(`参数 ${name} 必须是非负数`);
+  }
+  return value;
+}
+
+/**
+ * 校验维度字段名
+ * @param field 字段名
+ * @returns 维度字段
+ */
+export function assertDimension(field: string): keyof FilterDimensions {
+  if (!DIMENSION_FIELDS.includes(field as keyof FilterDimensions)) {
+    throw new ApiRequestError(`未知的筛选维度: ${field}`);
+  }
+  return field as keyof FilterDimensions;
+}
+
+/**
+ * 解析逗号分隔的维度列表参数
+ * @param searchParams URL查询参数
+ * @param name 参数名
+ * @returns 维度字段数组
+ */
+export function parseDimensionList(searchParams: URLSearchParams, name: string): (keyof FilterDimensions)[] {
+  const raw = searchParams.get(name);
+  if (!raw) return [];
+  return raw
+    .split(',')
+    .map(field => field.trim())
+    .filter(Boolean)
+    .map(assertDimension);
+}
+
+/**
+ * 可用于排序的记录字段
+ */
+const SORTABLE_FIELDS: readonly string[] = Object.values(CSV_FIELD_MAPPING);
+
+/**
+ * 解析排序字段参数
+ * @param searchParams URL查询参数
+ * @param name 参数名
+ * @returns 记录字段，参数缺失时返回undefined
+ */
+export function parseSortField(searchParams: URLSearchParams, name: string): keyof InsuranceRecord | undefined {
+  const raw = searchParams.get(name);
+  if (raw === null || raw === '') return undefined;
+  if (!SORTABLE_FIELDS.includes(raw)) {
+    throw new ApiRequestError(`未知的排序字段: ${raw}`);
+  }
+  return raw as keyof InsuranceRecord;
+}
+
+/**
+ * 解析枚举参数
+ * @param searchParams URL查询参数
+ * @param name 参数名
+ * @param allowed 允许的取值
+ * @param defaultValue 默认值
+ * @returns 参数值
+ */
+export function parseEnumParam<T extends string>(
+  searchParams: URLSearchParams,
+  name: string,
+  allowed: readonly T[],
+  defaultValue: T
+): T {
+  const raw = searchParams.get(name);
+  if (raw === null || raw === '') return defaultValue;
+  if (!allowed.includes(raw as T)) {
+    throw new ApiRequestError(`参数 ${name} 取值必须为 ${allowed.join('/')}`);
+  }
+  return raw as T;
+}
+
+/**
+ * 解析批量写入请求体 { records: InsuranceRecord[], mode?: ImportMode, fileName?: string, operator?: string }
+ * 每条记录须通过 validateRecord 校验，存在错误级问题时整批拒绝
+ * @param request 请求
+ * @param defaultMode 未指定 mode 时的导入模式
+ * @returns 记录、导入模式与来源信息
+ */
+export async function parseImportRequest(
+  request: Request,
+  defaultMode: ImportMode = 'append'
+): Promise<{ records: InsuranceRecord[]; mode: ImportMode; fileName?: string; operator?: string }> {
+  let body: { records?: unknown; mode?: unknown; fileName?: unknown; operator?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    throw new ApiRequestError('请求体不是合法的JSON');
+  }
+
+  if (!Array.isArray(body.records)) {
+    throw new ApiRequestError('请求体必须包含 records 数组');
+  }
+
+  const invalidRecords = body.records.flatMap((record: unknown, index) => {
+    if (!record || typeof record !== 'object' || Array.isArray(record)) {
+      return [`第${index + 1}条：记录必须是对象`];
+    }
+    const { errors } = validateRecord(record as Partial<InsuranceRecord>);
+    return errors.length > 0 ? [`第${index + 1}条：${errors.join('；')}`] : [];
+  });
+  if (invalidRecords.length > 0) {
+    throw new ApiRequestError(
+      `${invalidRecords.length} 条记录未通过校验：${invalidRecords.slice(0, MAX_REPORTED_INVALID_RECORDS).join('，')}`
+    );
+  }
+
+  const mode = body.mode ?? defaultMode;
+  if (!IMPORT_MODES.includes(mode as ImportMode)) {
+    throw new ApiRequestError(`参数 mode 取值必须为 ${IMPORT_MODES.join('/')}`);
+  }
+
+  const optionalString = (value: unknown, name: string): string | undefined => {
+    if (value === undefined || value === null || value === '') return undefined;
+    if (typeof value !== 'string') throw new ApiRequestError(`参数 ${name} 必须是字符串`);
+    return value;
+  };
+
+  return {
+    records: body.records as InsuranceRecord[],
+    mode: mode as ImportMode,
+    fileName: optionalString(body.fileName, 'fileName'),
+    operator: optionalString(body.operator, 'operator')
+  };
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_BUSINESS_RULES, verifyBusinessRules } from '@/lib/business-rules';
+
+describe('业务规则自检', () => {
+  it('规则定义有效且样例判定正确', () => {
+    const report = verifyBusinessRules();
+    expect(report.definitionErrors).toEqual([]);
+    expect(report.failures).toEqual([]);
+    expect(report.passed).toBe(true);
+    expect(report.checkedExamples).toBeGreaterThan(0);
+  });
+
+  it('样例与规则不符时自检失败', () => {
+    const [rule] = DEFAULT_BUSINESS_RULES;
+    const swapped = { ...rule, examples: { pass: rule.examples?.fail ?? [], fail: rule.examples?.pass ?? [] } };
+    const report = verifyBusinessRules([swapped]);
+    expect(report.passed).toBe(false);
+    expect(report.failures.length).toBe(report.checkedExamples);
+  });
+});
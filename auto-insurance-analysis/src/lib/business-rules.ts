@@ -0,0 +1,300 @@
+/**
+ * 车险多维分析系统 - 业务规则引擎
+ * 以声明式JSON（rules/business-rules.json）定义记录级业务规则：when 条件成立时 assert 必须成立，
+ * 不成立时按规则的 severity 报告问题；导入校验与数据质量报告共用同一套规则
+ */
+
+import { InsuranceRecord, IssueSeverity, RecordIssue } from '@/types/insurance';
+import { CSV_FIELD_MAPPING } from '@/lib/constants';
+import ruleConfig from '@/lib/rules/business-rules.json';
+
+/**
+ * 比较运算符
+ * exists/missing 判断字段是否有值；其余运算符在字段缺失时不成立
+ */
+export type RuleOperator = 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'notIn' | 'exists' | 'missing';
+
+/**
+ * 规则条件：字段比较（与常量 value 或另一字段 ref × factor 比较）或 all/any/not 组合
+ */
+export type RuleCondition =
+  | {
+      field: keyof InsuranceRecord;
+      op: RuleOperator;
+      value?: string | number | boolean | (string | number | boolean)[];
+      ref?: keyof InsuranceRecord;
+      factor?: number;
+    }
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] }
+  | { not: RuleCondition };
+
+/**
+ * 业务规则定义
+ */
+export interface BusinessRule {
+  id: string;
+  name: string;
+  severity: IssueSeverity;
+  field: keyof InsuranceRecord;                  // 问题定位的字段
+  when?: RuleCondition;                          // 适用条件，缺省时对所有记录适用
+  assert: RuleCondition;                         // 必须成立的条件
+  message: string;
+  suggestion: string;
+  enabled?: boolean;                             // 为false时跳过，默认启用
+  examples?: {                                   // 规则自检样例
+    pass: Partial<InsuranceRecord>[];
+    fail: Partial<InsuranceRecord>[];
+  };
+}
+
+/**
+ * 规则集配置（JSON文件格式）
+ */
+export interface BusinessRuleSet {
+  description?: string;
+  rules: BusinessRule[];
+}
+
+/**
+ * 单条规则的违反统计
+ */
+export interface RuleViolationSummary {
+  ruleId: string;
+  name: string;
+  severity: IssueSeverity;
+  count: number;
+  rate: number;                                  // 违反记录占比（%）
+}
+
+/**
+ * 规则自检失败项
+ */
+export interface RuleExampleFailure {
+  ruleId: string;
+  expected: 'pass' | 'fail';
+  record: Partial<InsuranceRecord>;
+}
+
+/**
+ * 规则自检报告
+ */
+export interface RuleVerificationReport {
+  passed: boolean;
+  ruleCount: number;
+  checkedExamples: number;
+  definitionErrors: string[];                    // 规则定义本身的问题（未知字段、运算符等）
+  failures: RuleExampleFailure[];
+}
+
+const OPERATORS: RuleOperator[] = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'notIn', 'exists', 'missing'];
+const SEVERITIES: IssueSeverity[] = ['error', 'warning', 'info'];
+const KNOWN_FIELDS = new Set<string>(Object.values(CSV_FIELD_MAPPING));
+
+/**
+ * 默认规则集
+ */
+export const DEFAULT_BUSINESS_RULES = (ruleConfig as BusinessRuleSet).rules;
+
+/**
+ * 判断取值是否为空
+ * @param value 取值
+ */
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (typeof value === 'number' && Number.isNaN(value));
+}
+
+/**
+ * 计算字段比较
+ * @param actual 字段取值
+ * @param op 运算符
+ * @param expected 比较值
+ * @returns 是否成立
+ */
+function compare(actual: unknown, op: RuleOperator, expected: unknown): boolean {
+  if (op === 'exists') return !isMissing(actual);
+  if (op === 'missing') return isMissing(actual);
+  if (isMissing(actual) || isMissing(expected)) return false;
+
+  switch (op) {
+    case 'eq':
+      return actual === expected;
+    case 'ne':
+      return actual !== expected;
+    case 'in':
+      return Array.isArray(expected) && expected.includes(actual);
+    case 'notIn':
+      return Array.isArray(expected) && !expected.includes(actual);
+    case 'gt':
+      return Number(actual) > Number(expected);
+    case 'gte':
+      return Number(actual) >= Number(expected);
+    case 'lt':
+      return Number(actual) < Number(expected);
+    case 'lte':
+      return Number(actual) <= Number(expected);
+  }
+}
+
+/**
+ * 计算条件是否成立
+ * @param condition 规则条件
+ * @param record 记录
+ * @returns 是否成立
+ */
+export function evaluateCondition(condition: RuleCondition, record: Partial<InsuranceRecord>): boolean {
+  if ('all' in condition) return condition.all.every(item => evaluateCondition(item, record));
+  if ('any' in condition) return condition.any.some(item => evaluateCondition(item, record));
+  if ('not' in condition) return !evaluateCondition(condition.not, record);
+
+  const actual = record[condition.field];
+  let expected: unknown = condition.value;
+  if (condition.ref) {
+    const reference = record[condition.ref];
+    expected = isMissing(reference) ? undefined : Number(reference) * (condition.factor ?? 1);
+  }
+  return compare(actual, condition.op, expected);
+}
+
+/**
+ * 判断记录是否违反规则
+ * @param rule 业务规则
+ * @param record 记录
+ * @returns 是否违反
+ */
+export function violatesRule(rule: BusinessRule, record: Partial<InsuranceRecord>): boolean {
+  if (rule.enabled === false) return false;
+  if (rule.when && !evaluateCondition(rule.when, record)) return false;
+  return !evaluateCondition(rule.assert, record);
+}
+
+/**
+ * 按规则集检查单条记录
+ * @param record 记录
+ * @param rules 规则集，默认使用 business-rules.json
+ * @returns 违反规则产生的问题
+ */
+export function evaluateBusinessRules(
+  record: Partial<InsuranceRecord>,
+  rules: BusinessRule[] = DEFAULT_BUSINESS_RULES
+): RecordIssue[] {
+  return rules
+    .filter(rule => violatesRule(rule, record))
+    .map(rule => ({
+      severity: rule.severity,
+      field: rule.field,
+      rule: 'business',
+      ruleId: rule.id,
+      message: rule.message,
+      suggestion: rule.suggestion
+    }));
+}
+
+/**
+ * 统计数据集中各规则的违反情况
+ * @param records 记录
+ * @param rules 规则集
+ * @returns 各启用规则的违反统计（按规则定义顺序）
+ */
+export function summarizeRuleViolations(
+  records: InsuranceRecord[],
+  rules: BusinessRule[] = DEFAULT_BUSINESS_RULES
+): RuleViolationSummary[] {
+  return rules
+    .filter(rule => rule.enabled !== false)
+    .map(rule => {
+      const count = records.reduce((sum, record) => sum + (violatesRule(rule, record) ? 1 : 0), 0);
+      return {
+        ruleId: rule.id,
+        name: rule.name,
+        severity: rule.severity,
+        count,
+        rate: records.length > 0 ? (count / records.length) * 100 : 0
+      };
+    });
+}
+
+/**
+ * 检查条件中引用的字段与运算符
+ * @param condition 规则条件
+ * @param path 条件在规则中的位置（用于提示）
+ * @param errors 问题收集数组
+ */
+function checkCondition(condition: RuleCondition, path: string, errors: string[]): void {
+  if ('all' in condition || 'any' in condition) {
+    const items = 'all' in condition ? condition.all : condition.any;
+    if (!Array.isArray(items) || items.length === 0) {
+      errors.push(`${path}: 组合条件不能为空`);
+      return;
+    }
+    items.forEach((item, index) => checkCondition(item, `${path}[${index}]`, errors));
+    return;
+  }
+  if ('not' in condition) {
+    checkCondition(condition.not, `${path}.not`, errors);
+    return;
+  }
+
+  if (!KNOWN_FIELDS.has(condition.field)) errors.push(`${path}: 未知字段 ${condition.field}`);
+  if (condition.ref && !KNOWN_FIELDS.has(condition.ref)) errors.push(`${path}: 未知引用字段 ${condition.ref}`);
+  if (!OPERATORS.includes(condition.op)) errors.push(`${path}: 未知运算符 ${condition.op}`);
+}
+
+/**
+ * 检查规则集定义
+ * @param rules 规则集
+ * @returns 问题列表，为空表示定义有效
+ */
+export function checkRuleDefinitions(rules: BusinessRule[]): string[] {
+  const errors: string[] = [];
+  const ids = new Set<string>();
+
+  rules.forEach((rule, index) => {
+    const name = rule.id || `#${index + 1}`;
+    if (!rule.id) errors.push(`${name}: 缺少规则ID`);
+    if (ids.has(rule.id)) errors.push(`${name}: 规则ID重复`);
+    ids.add(rule.id);
+    if (!SEVERITIES.includes(rule.severity)) errors.push(`${name}: 未知级别 ${rule.severity}`);
+    if (!KNOWN_FIELDS.has(rule.field)) errors.push(`${name}: 未知定位字段 ${rule.field}`);
+    if (rule.when) checkCondition(rule.when, `${name}.when`, errors);
+    if (!rule.assert) {
+      errors.push(`${name}: 缺少assert条件`);
+    } else {
+      checkCondition(rule.assert, `${name}.assert`, errors);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * 规则自检：校验规则定义，并用每条规则的样例确认其判定结果
+ * @param rules 规则集，默认使用 business-rules.json
+ * @returns 自检报告
+ */
+export function verifyBusinessRules(rules: BusinessRule[] = DEFAULT_BUSINESS_RULES): RuleVerificationReport {
+  const definitionErrors = checkRuleDefinitions(rules);
+  const failures: RuleExampleFailure[] = [];
+  let checkedExamples = 0;
+
+  if (definitionErrors.length === 0) {
+    rules.forEach(rule => {
+      const check = (record: Partial<InsuranceRecord>, expected: 'pass' | 'fail') => {
+        checkedExamples++;
+        // 停用的规则同样自检
+        const violated = violatesRule({ ...rule, enabled: true }, record);
+        if (violated !== (expected === 'fail')) failures.push({ ruleId: rule.id, expected, record });
+      };
+      rule.examples?.pass.forEach(record => check(record, 'pass'));
+      rule.examples?.fail.forEach(record => check(record, 'fail'));
+    });
+  }
+
+  return {
+    passed: definitionErrors.length === 0 && failures.length === 0,
+    ruleCount: rules.length,
+    checkedExamples,
+    definitionErrors,
+    failures
+  };
+}
@@ -1,123 +1,71 @@
 /**
  * 车险多维分析系统 - 指标计算引擎
- * 实现所有计算字段的公式和聚合逻辑
+ * 实现绝对值字段的聚合与分组计算逻辑，计算字段公式见 metric-formulas
  */
 
-import { AbsoluteValueFields, CalculatedFields, AnalysisResult, InsuranceRecord } from '@/types/insurance';
+import { AbsoluteValueFields, AggregatedValueFields, CalculatedFields, AnalysisResult, InsuranceRecord, FilterDimensions, RecordIssue } from '@/types/insurance';
+import { computeMetrics } from '@/lib/metric-formulas';
+import { evaluateBusinessRules } from '@/lib/business-rules';
 
 /**
  * 计算单条记录的所有计算字段
- * @param record 包含绝对值字段的记录
+ * 公式统一由 metric-formulas 注册表提供
+ * @param record 聚合后的绝对值字段
  * @returns 计算后的字段值
  */
-export function calculateFields(record: AbsoluteValueFields): CalculatedFields {
-  const {
-    signed_premium_yuan,
-    matured_premium_yuan,
-    commercial_premium_before_discount_yuan,
-    policy_count,
-    claim_case_count,
-    reported_claim_payment_yuan,
-    expense_amount_yuan,
-    matured_margin_contribution_yuan,
-    variable_cost_amount_yuan
-  } = record;
-
-  // 平均值类计算
-  const average_premium_per_policy_yuan = policy_count > 0 
-    ? signed_premium_yuan / policy_count 
-    : 0;
-
-  const average_claim_payment_yuan = claim_case_count > 0 
-    ? reported_claim_payment_yuan / claim_case_count 
-    : 0;
-
-  // 比率类计算（百分比）
-  const claim_frequency_percent = policy_count > 0 
-    ? (claim_case_count / policy_count) * 100 
-    : 0;
-
-  const expired_loss_ratio_percent = matured_premium_yuan > 0 
-    ? (reported_claim_payment_yuan / matured_premium_yuan) * 100 
-    : 0;
-
-  const expense_ratio_percent = signed_premium_yuan > 0 
-    ? (expense_amount_yuan / signed_premium_yuan) * 100 
-    : 0;
-
-  const variable_cost_ratio_percent = signed_premium_yuan > 0 
-    ? (variable_cost_amount_yuan / signed_premium_yuan) * 100 
-    : 0;
-
-  const matured_margin_contribution_rate_percent = matured_premium_yuan > 0 
-    ? (matured_margin_contribution_yuan / matured_premium_yuan) * 100 
-    : 0;
-
-  // 系数类计算
-  const commercial_auto_underwriting_factor = commercial_premium_before_discount_yuan > 0 
-    ? signed_premium_yuan / commercial_premium_before_discount_yuan 
-    : 0;
+export function calculateFields(record: AggregatedValueFields): CalculatedFields {
+  return computeMetrics(record);
+}
 
-  // 综合指标计算
-  const combined_ratio_percent = expired_loss_ratio_percent + expense_ratio_percent;
-  
-  const profit_margin_percent = 100 - combined_ratio_percent;
+/**
+ * 全部绝对值字段
+ */
+export const ABSOLUTE_VALUE_FIELDS: (keyof AbsoluteValueFields)[] = [
+  'signed_premium_yuan',
+  'matured_premium_yuan',
+  'commercial_premium_before_discount_yuan',
+  'policy_count',
+  'claim_case_count',
+  'reported_claim_payment_yuan',
+  'expense_amount_yuan',
+  'matured_margin_contribution_yuan',
+  'variable_cost_amount_yuan',
+  'premium_time_progress_plan_yuan'
+];
 
-  return {
-    average_premium_per_policy_yuan,
-    average_claim_payment_yuan,
-    claim_frequency_percent,
-    expired_loss_ratio_percent,
-    expense_ratio_percent,
-    variable_cost_ratio_percent,
-    matured_margin_contribution_rate_percent,
-    commercial_auto_underwriting_factor,
-    combined_ratio_percent,
-    profit_margin_percent
-  };
-}
+/**
+ * 商业险的险种类型取值（商业险签单保费按此拆分）
+ */
+export const COMMERCIAL_INSURANCE_TYPE = '商业保险';
 
 /**
  * 聚合多条记录的绝对值字段
+ * 缺失或非数值的字段按0处理，险种类型为商业保险的签单保费另计为商业险签单保费
  * @param records 记录数组
  * @returns 聚合后的绝对值字段
  */
-export function aggregateAbsoluteFields(records: AbsoluteValueFields[]): AbsoluteValueFields {
-  if (records.length === 0) {
-    return {
-      signed_premium_yuan: 0,
-      matured_premium_yuan: 0,
-      commercial_premium_before_discount_yuan: 0,
-      policy_count: 0,
-      claim_case_count: 0,
-      reported_claim_payment_yuan: 0,
-      expense_amount_yuan: 0,
-      matured_margin_contribution_yuan: 0,
-      variable_cost_amount_yuan: 0
-    };
-  }
+export function aggregateAbsoluteFields(
+  records: (AbsoluteValueFields & Partial<Pick<FilterDimensions, 'insurance_type'>>)[]
+): AggregatedValueFields {
+  const totals = { commercial_signed_premium_yuan: 0 } as AggregatedValueFields;
+  ABSOLUTE_VALUE_FIELDS.forEach(field => {
+    totals[field] = 0;
+  });
 
-  return records.reduce((acc, record) => ({
-    signed_premium_yuan: acc.signed_premium_yuan + record.signed_premium_yuan,
-    matured_premium_yuan: acc.matured_premium_yuan + record.matured_premium_yuan,
-    commercial_premium_before_discount_yuan: acc.commercial_premium_before_discount_yuan + record.commercial_premium_before_discount_yuan,
-    policy_count: acc.policy_count + record.policy_count,
-    claim_case_count: acc.claim_case_count + record.claim_case_count,
-    reported_claim_payment_yuan: acc.reported_claim_payment_yuan + record.reported_claim_payment_yuan,
-    expense_amount_yuan: acc.expense_amount_yuan + record.expense_amount_yuan,
-    matured_margin_contribution_yuan: acc.matured_margin_contribution_yuan + record.matured_margin_contribution_yuan,
-    variable_cost_amount_yuan: acc.variable_cost_amount_yuan + record.variable_cost_amount_yuan
-  }), {
-    signed_premium_yuan: 0,
-    matured_premium_yuan: 0,
-    commercial_premium_before_discount_yuan: 0,
-    policy_count: 0,
-    claim_case_count: 0,
-    reported_claim_payment_yuan: 0,
-    expense_amount_yuan: 0,
-    matured_margin_contribution_yuan: 0,
-    variable_cost_amount_yuan: 0
+  records.forEach(record => {
+    ABSOLUTE_VALUE_FIELDS.forEach(field => {
+      const value = record[field];
+      if (typeof value === 'number' && !isNaN(value)) {
+        totals[field] += value;
+      }
+    });
+    const premium = record.signed_premium_yuan;
+    if (record.insurance_type === COMMERCIAL_INSURANCE_TYPE && typeof premium === 'number' && !isNaN(premium)) {
+      totals.commercial_signed_premium_yuan += premium;
+    }
   });
+
+  return totals;
 }
 
 /**
@@ -192,58 +140,106 @@ export function groupByAndCalculate(
 }
 
 /**
- * 数据质量检查
+ * 时间序列粒度
+ */
+export type TimeSeriesGroupBy = 'year' | 'week' | 'year_week';
+
+/**
+ * 获取时间序列粒度对应的分组维度
+ * @param groupBy 时间粒度
+ * @returns 分组维度
+ */
+export function getTimeSeriesDimensions(groupBy: TimeSeriesGroupBy): (keyof FilterDimensions)[] {
+  switch (groupBy) {
+    case 'year':
+      return ['policy_start_year'];
+    case 'week':
+      return ['week_number'];
+    case 'year_week':
+      return ['policy_start_year', 'week_number'];
+  }
+}
+
+/**
+ * 按时间顺序排列时间序列结果
+ * @param results 分组分析结果
+ * @param groupBy 时间粒度
+ * @returns 排序后的结果
+ */
+export function sortTimeSeries(results: AnalysisResult[], groupBy: TimeSeriesGroupBy): AnalysisResult[] {
+  return results.sort((a, b) => {
+    if (groupBy === 'year') {
+      return (a.dimensions.policy_start_year || 0) - (b.dimensions.policy_start_year || 0);
+    } else if (groupBy === 'week') {
+      return (a.dimensions.week_number || 0) - (b.dimensions.week_number || 0);
+    } else {
+      const yearDiff = (a.dimensions.policy_start_year || 0) - (b.dimensions.policy_start_year || 0);
+      if (yearDiff !== 0) return yearDiff;
+      return (a.dimensions.week_number || 0) - (b.dimensions.week_number || 0);
+    }
+  });
+}
+
+/**
+ * 逐字段检查记录，返回带字段、规则与修复建议的问题列表
+ * 必填与范围为内置校验，业务规则由规则引擎按配置检查
  * @param record 待检查的记录
- * @returns 检查结果
+ * @returns 问题列表
  */
-export function validateRecord(record: Partial<InsuranceRecord>): {
-  isValid: boolean;
-  errors: string[];
-  warnings: string[];
-} {
-  const errors: string[] = [];
-  const warnings: string[] = [];
+export function inspectRecord(record: Partial<InsuranceRecord>): RecordIssue[] {
+  const issues: RecordIssue[] = [];
+  const error = (field: keyof InsuranceRecord, rule: RecordIssue['rule'], message: string, suggestion: string) =>
+    issues.push({ severity: 'error', field, rule, message, suggestion });
 
   // 必填字段检查
   if (!record.policy_start_year) {
-    errors.push('起保年度不能为空');
+    error('policy_start_year', 'required', '起保年度不能为空', '填写四位数年份，如2025');
   }
   if (!record.week_number) {
-    errors.push('周序号不能为空');
+    error('week_number', 'required', '周序号不能为空', '填写1-53之间的整数周序号');
   }
   if (!record.policy_count || record.policy_count <= 0) {
-    errors.push('保单件数必须大于0');
+    error('policy_count', 'required', '保单件数必须大于0', '填写大于0的整数件数，无保单的行请删除');
   }
 
   // 数值范围检查
   if (record.policy_start_year && (record.policy_start_year < 2020 || record.policy_start_year > 2030)) {
-    errors.push('起保年度超出合理范围(2020-2030)');
+    error('policy_start_year', 'range', '起保年度超出合理范围(2020-2030)', '检查是否误填了其他列的数值');
   }
   if (record.week_number && (record.week_number < 1 || record.week_number > 53)) {
-    errors.push('周序号超出合理范围(1-53)');
+    error('week_number', 'range', '周序号超出合理范围(1-53)', '周序号应与文件名中的周次一致');
   }
 
   // 逻辑一致性检查
   if (record.signed_premium_yuan && record.signed_premium_yuan < 0) {
-    errors.push('签单保费不能为负数');
+    error('signed_premium_yuan', 'range', '签单保费不能为负数', '批退等负向保费请先与原保单冲抵后再导入');
   }
   if (record.matured_premium_yuan && record.matured_premium_yuan < 0) {
-    errors.push('满期保费不能为负数');
+    error('matured_premium_yuan', 'range', '满期保费不能为负数', '检查满期保费的计算口径');
   }
   if (record.reported_claim_payment_yuan && record.reported_claim_payment_yuan < 0) {
-    errors.push('已报告赔款不能为负数');
+    error('reported_claim_payment_yuan', 'range', '已报告赔款不能为负数', '追偿等负向赔款请先与原赔案冲抵后再导入');
   }
 
-  // 业务逻辑警告
-  if (record.claim_case_count && record.policy_count && 
-      record.claim_case_count > record.policy_count) {
-    warnings.push('赔案件数超过保单件数，请检查数据准确性');
-  }
+  // 业务规则（rules/business-rules.json）
+  issues.push(...evaluateBusinessRules(record));
 
-  if (record.matured_premium_yuan && record.signed_premium_yuan &&
-      Math.abs(record.matured_premium_yuan - record.signed_premium_yuan) / record.signed_premium_yuan > 0.5) {
-    warnings.push('满期保费与签单保费差异较大，请检查数据准确性');
-  }
+  return issues;
+}
+
+/**
+ * 数据质量检查
+ * @param record 待检查的记录
+ * @returns 检查结果
+ */
+export function validateRecord(record: Partial<InsuranceRecord>): {
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+} {
+  const issues = inspectRecord(record);
+  const errors = issues.filter(issue => issue.severity === 'error').map(issue => issue.message);
+  const warnings = issues.filter(issue => issue.severity !== 'error').map(issue => issue.message);
 
   return {
     isValid: errors.length === 0,
@@ -0,0 +1,349 @@
+/**
+ * 车险多维分析系统 - 列式查询引擎
+ * 直接在分区列数组上完成筛选、流式分组求和、排序与分页，
+ * 避免将整个分区解码为对象数组，供聚合Web Worker使用
+ */
+
+import {
+  AggregatedValueFields,
+  AnalysisResult,
+  FilterConditions,
+  FilterDimensions,
+  InsuranceRecord
+} from '@/types/insurance';
+import { ColumnData, ColumnarPartition } from '@/lib/columnar-store';
+import {
+  ABSOLUTE_VALUE_FIELDS,
+  COMMERCIAL_INSURANCE_TYPE,
+  TimeSeriesGroupBy,
+  getTimeSeriesDimensions,
+  sortTimeSeries
+} from '@/lib/calculations';
+import { computeMetrics } from '@/lib/metric-formulas';
+
+/**
+ * 分页查询结果（与 InsuranceDatabase.findByConditions 一致）
+ */
+export interface PagedRecords {
+  data: InsuranceRecord[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+/**
+ * 读取列中单行的原始值
+ * @param column 列数据
+ * @param row 行号
+ * @returns 原始值，缺失时为undefined
+ */
+function readCell(column: ColumnData | undefined, row: number): string | number | boolean | undefined {
+  if (!column) return undefined;
+  if (column.type === 'number') {
+    const value = column.values[row];
+    return Number.isNaN(value) ? undefined : value;
+  }
+  if (column.type === 'boolean') {
+    const value = column.values[row];
+    return value === 2 ? undefined : value === 1;
+  }
+  const code = column.codes[row];
+  return code === 0 ? undefined : column.dictionary[code - 1];
+}
+
+/**
+ * 将列数据解码为单条记录
+ * @param partition 分区数据
+ * @param row 行号
+ * @returns 记录
+ */
+function decodeRow(partition: ColumnarPartition, row: number): InsuranceRecord {
+  const record: Record<string, unknown> = {};
+  Object.entries(partition.columns).forEach(([field, column]) => {
+    const value = readCell(column, row);
+    if (value !== undefined) record[field] = value;
+  });
+  return record as unknown as InsuranceRecord;
+}
+
+/**
+ * 构造单列筛选谓词（语义与 filterData 的严格相等一致）
+ * @param column 列数据
+ * @param allowed 允许的取值
+ * @returns 行谓词
+ */
+function buildColumnPredicate(column: ColumnData | undefined, allowed: unknown[]): (row: number) => boolean {
+  if (!column) return () => false;
+
+  if (column.type === 'number') {
+    const values = new Set(allowed.filter((value): value is number => typeof value === 'number'));
+    return row => values.has(column.values[row]);
+  }
+
+  if (column.type === 'boolean') {
+    const acceptTrue = allowed.includes(true);
+    const acceptFalse = allowed.includes(false);
+    return row => {
+      const value = column.values[row];
+      return (value === 1 && acceptTrue) || (value === 0 && acceptFalse);
+    };
+  }
+
+  // 字符串列按字典预先计算可接受的编码
+  const acceptedCodes = new Uint8Array(column.dictionary.length + 1);
+  column.dictionary.forEach((text, index) => {
+    if (allowed.includes(text)) acceptedCodes[index + 1] = 1;
+  });
+  return row => acceptedCodes[column.codes[row]] === 1;
+}
+
+/**
+ * 计算分区内满足筛选条件的行号
+ * @param partition 分区数据
+ * @param filters 筛选条件
+ * @returns 行号数组
+ */
+function selectRows(partition: ColumnarPartition, filters: FilterConditions): Uint32Array {
+  const predicates = Object.entries(filters)
+    .filter(([, condition]) => condition !== undefined && condition !== null)
+    .filter(([, condition]) => !(Array.isArray(condition) && condition.length === 0))
+    .map(([field, condition]) => buildColumnPredicate(
+      partition.columns[field],
+      Array.isArray(condition) ? condition : [condition]
+    ));
+
+  const rows = new Uint32Array(partition.rowCount);
+  let count = 0;
+  for (let row = 0; row < partition.rowCount; row++) {
+    if (predicates.every(predicate => predicate(row))) {
+      rows[count++] = row;
+    }
+  }
+  return rows.subarray(0, count);
+}
+
+/**
+ * 分组累加器
+ */
+interface GroupAccumulator {
+  dimensions: Partial<FilterDimensions>;
+  sums: Float64Array;
+  commercialPremium: number;                       // 商业险签单保费
+  count: number;
+}
+
+/**
+ * 将累加器转换为分析结果
+ * @param group 分组累加器
+ * @returns 分析结果
+ */
+function toAnalysisResult(group: GroupAccumulator): AnalysisResult {
+  const totals = { commercial_signed_premium_yuan: group.commercialPremium } as AggregatedValueFields;
+  ABSOLUTE_VALUE_FIELDS.forEach((field, index) => {
+    totals[field] = group.sums[index];
+  });
+  return {
+    ...totals,
+    ...computeMetrics(totals),
+    dimensions: group.dimensions,
+    record_count: group.count
+  };
+}
+
+/**
+ * 按维度流式分组求和，不构造分组记录数组
+ * @param partitions 分区数据
+ * @param dimensions 分组维度
+ * @param filters 筛选条件
+ * @returns 各分组的分析结果（无维度时返回单个汇总结果）
+ */
+export function groupPartitions(
+  partitions: ColumnarPartition[],
+  dimensions: (keyof FilterDimensions)[],
+  filters: FilterConditions = {}
+): AnalysisResult[] {
+  const groups = new Map<string, GroupAccumulator>();
+
+  partitions.forEach(partition => {
+    const rows = selectRows(partition, filters);
+    const measureColumns = ABSOLUTE_VALUE_FIELDS.map(field => {
+      const column = partition.columns[field];
+      return column && column.type === 'number' ? column.values : null;
+    });
+    const dimensionColumns = dimensions.map(field => partition.columns[field]);
+    const premiumColumn = measureColumns[ABSOLUTE_VALUE_FIELDS.indexOf('signed_premium_yuan')];
+    const insuranceTypeColumn = partition.columns.insurance_type;
+
+    rows.forEach(row => {
+      const values = dimensionColumns.map(column => readCell(column, row));
+      const groupKey = values.map(value => String(value ?? 'null')).join('|');
+
+      let group = groups.get(groupKey);
+      if (!group) {
+        const groupDimensions: Record<string, unknown> = {};
+        dimensions.forEach((field, index) => {
+          groupDimensions[field] = values[index] ?? null;
+        });
+        group = {
+          dimensions: groupDimensions as Partial<FilterDimensions>,
+          sums: new Float64Array(ABSOLUTE_VALUE_FIELDS.length),
+          commercialPremium: 0,
+          count: 0
+        };
+        groups.set(groupKey, group);
+      }
+
+      group.count++;
+      measureColumns.forEach((column, index) => {
+        if (!column) return;
+        const value = column[row];
+        if (!Number.isNaN(value)) group.sums[index] += value;
+      });
+      if (premiumColumn && !Number.isNaN(premiumColumn[row])
+        && readCell(insuranceTypeColumn, row) === COMMERCIAL_INSURANCE_TYPE) {
+        group.commercialPremium += premiumColumn[row];
+      }
+    });
+  });
+
+  if (dimensions.length === 0 && groups.size === 0) {
+    return [toAnalysisResult({ dimensions: {}, sums: new Float64Array(ABSOLUTE_VALUE_FIELDS.length), commercialPremium: 0, count: 0 })];
+  }
+
+  return Array.from(groups.values()).map(toAnalysisResult);
+}
+
+/**
+ * 按维度聚合（与 InsuranceDatabase.aggregateByDimensions 一致：按记录数降序并截断）
+ * @param partitions 分区数据
+ * @param dimensions 分组维度
+ * @param filters 筛选条件
+ * @param limit 最大分组数
+ * @returns 分析结果
+ */
+export function aggregatePartitions(
+  partitions: ColumnarPartition[],
+  dimensions: (keyof FilterDimensions)[],
+  filters: FilterConditions = {},
+  limit: number = 1000
+): AnalysisResult[] {
+  return groupPartitions(partitions, dimensions, filters)
+    .sort((a, b) => b.record_count - a.record_count)
+    .slice(0, limit);
+}
+
+/**
+ * 汇总统计
+ * @param partitions 分区数据
+ * @param filters 筛选条件
+ * @returns 汇总结果
+ */
+export function summarizePartitions(partitions: ColumnarPartition[], filters: FilterConditions = {}): AnalysisResult {
+  return groupPartitions(partitions, [], filters)[0];
+}
+
+/**
+ * 时间序列分析
+ * @param partitions 分区数据
+ * @param groupBy 时间粒度
+ * @param filters 筛选条件
+ * @returns 按时间排序的分析结果
+ */
+export function timeSeriesFromPartitions(
+  partitions: ColumnarPartition[],
+  groupBy: TimeSeriesGroupBy,
+  filters: FilterConditions = {}
+): AnalysisResult[] {
+  return sortTimeSeries(groupPartitions(partitions, getTimeSeriesDimensions(groupBy), filters), groupBy);
+}
+
+/**
+ * 构造排序键读取函数
+ * 字符串列映射为全局字典序名次，使不同分区的字典可以直接按数值比较
+ * @param partitions 分区数据
+ * @param sortField 排序字段
+ * @returns 排序键读取函数，缺失值返回NaN
+ */
+function buildSortKeyReader(
+  partitions: ColumnarPartition[],
+  sortField: keyof InsuranceRecord
+): (partitionIndex: number, row: number) => number {
+  const texts = new Set<string>();
+  partitions.forEach(partition => {
+    const column = partition.columns[sortField];
+    if (column?.type === 'string') column.dictionary.forEach(text => texts.add(text));
+  });
+  const ranks = new Map(Array.from(texts).sort((a, b) => a.localeCompare(b)).map((text, index) => [text, index]));
+
+  const readers = partitions.map(partition => {
+    const column = partition.columns[sortField];
+    if (!column) return () => NaN;
+    if (column.type === 'number') return (row: number) => column.values[row];
+    if (column.type === 'boolean') return (row: number) => (column.values[row] === 2 ? NaN : column.values[row]);
+    const codeRanks = Float64Array.from([NaN, ...column.dictionary.map(text => ranks.get(text) as number)]);
+    return (row: number) => codeRanks[column.codes[row]];
+  });
+
+  return (partitionIndex, row) => readers[partitionIndex](row);
+}
+
+/**
+ * 条件查询（与 InsuranceDatabase.findByConditions 一致），只解码当前页的记录
+ * @param partitions 分区数据
+ * @param filters 筛选条件
+ * @param sortField 排序字段
+ * @param sortOrder 排序方向
+ * @param page 页码（从1开始）
+ * @param pageSize 每页大小
+ * @returns 分页结果
+ */
+export function findInPartitions(
+  partitions: ColumnarPartition[],
+  filters: FilterConditions,
+  sortField?: keyof InsuranceRecord,
+  sortOrder: 'asc' | 'desc' = 'asc',
+  page: number = 1,
+  pageSize: number = 1000
+): PagedRecords {
+  const selections = partitions.map(partition => selectRows(partition, filters));
+  const total = selections.reduce((sum, rows) => sum + rows.length, 0);
+
+  // 以 (分区序号, 行号) 两个平行数组表示命中行
+  const partitionIndexes = new Uint32Array(total);
+  const rowIndexes = new Uint32Array(total);
+  let offset = 0;
+  selections.forEach((rows, partitionIndex) => {
+    partitionIndexes.fill(partitionIndex, offset, offset + rows.length);
+    rowIndexes.set(rows, offset);
+    offset += rows.length;
+  });
+
+  let order = Uint32Array.from({ length: total }, (_, index) => index);
+  if (sortField) {
+    const readKey = buildSortKeyReader(partitions, sortField);
+    const keys = Float64Array.from(order, index => readKey(partitionIndexes[index], rowIndexes[index]));
+    const direction = sortOrder === 'asc' ? 1 : -1;
+    order = order.sort((a, b) => {
+      const ka = keys[a];
+      const kb = keys[b];
+      if (Number.isNaN(ka) || Number.isNaN(kb)) {
+        return Number.isNaN(ka) === Number.isNaN(kb) ? 0 : Number.isNaN(ka) ? 1 : -1;
+      }
+      return (ka - kb) * direction;
+    });
+  }
+
+  const start = (page - 1) * pageSize;
+  const data = Array.from(order.subarray(start, start + pageSize), index =>
+    decodeRow(partitions[partitionIndexes[index]], rowIndexes[index])
+  );
+
+  return {
+    data,
+    total,
+    page,
+    pageSize,
+    totalPages: Math.ceil(total / pageSize)
+  };
+}
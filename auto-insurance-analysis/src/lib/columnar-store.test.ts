@@ -0,0 +1,39 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MemoryColumnarStore, getPartitionKey } from '@/lib/columnar-store';
+import { InsuranceRecord } from '@/types/insurance';
+
+function record(week: number, premium: number): InsuranceRecord {
+  return {
+    policy_start_year: 2025,
+    week_number: week,
+    third_level_organization: '天府',
+    signed_premium_yuan: premium
+  } as InsuranceRecord;
+}
+
+describe('列式存储元信息', () => {
+  it('按写入维护的分区摘要统计，无需读取分区数据', async () => {
+    const store = new MemoryColumnarStore();
+    await store.append([record(28, 100), record(28, 200), record(29, 300)]);
+    await store.writePartitions(new Map([[getPartitionKey(2025, 30), [record(30, 400)]]]));
+    await store.deletePartitions([getPartitionKey(2025, 29)]);
+
+    const readPartitions = vi.spyOn(store, 'readPartitions');
+    const meta = await store.getMeta();
+    expect(meta.recordCount).toBe(3);
+    expect(meta.partitionCount).toBe(2);
+    expect(meta.byteSize).toBeGreaterThan(0);
+    expect(readPartitions).not.toHaveBeenCalled();
+  });
+
+  it('清空后重新写入从零统计', async () => {
+    const store = new MemoryColumnarStore();
+    await store.append([record(28, 100)]);
+    await store.clear();
+    await store.append([record(29, 200), record(29, 300)]);
+
+    const meta = await store.getMeta();
+    expect(meta.recordCount).toBe(2);
+    expect(meta.partitionCount).toBe(1);
+  });
+});
@@ -0,0 +1,666 @@
+/**
+ * 车险多维分析系统 - 列式存储层
+ * 基于IndexedDB按 policy_start_year / week_number 分区存储列数组，
+ * 替代单个localStorage键，支撑PRD要求的约45万行数据量
+ */
+
+import { FilterConditions, InsuranceRecord } from '@/types/insurance';
+
+/**
+ * 列数据编码
+ * - number: Float64Array，缺失值存为NaN
+ * - boolean: Uint8Array，0=false，1=true，2=缺失
+ * - string: 字典编码，codes中0表示缺失，其余为 dictionary 下标+1
+ */
+export type ColumnData =
+  | { type: 'number'; values: Float64Array }
+  | { type: 'boolean'; values: Uint8Array }
+  | { type: 'string'; dictionary: string[]; codes: Uint32Array };
+
+/**
+ * 分区数据结构（一个起保年度 + 周序号对应一个分区）
+ */
+export interface ColumnarPartition {
+  key: string;
+  policy_start_year: number;
+  week_number: number;
+  rowCount: number;
+  columns: { [field: string]: ColumnData };
+  updatedAt: string;
+}
+
+/**
+ * 分区摘要（随分区写入维护，统计元信息时无需读取分区数据）
+ */
+export interface PartitionSummary {
+  rowCount: number;
+  byteSize: number;
+}
+
+/**
+ * 分区键到分区摘要的映射
+ */
+export type PartitionSummaries = Record<string, PartitionSummary>;
+
+/**
+ * 分区裁剪条件，未指定的维度不做限制
+ */
+export interface PartitionFilter {
+  years?: number[];
+  weeks?: number[];
+}
+
+/**
+ * 存储元信息
+ */
+export interface ColumnarStoreMeta {
+  recordCount: number;
+  partitionCount: number;
+  lastUpdated: Date | null;
+  byteSize: number;
+}
+
+/**
+ * 列式存储接口
+ * InsuranceDatabase 仅依赖该接口，便于在浏览器与服务端之间切换实现
+ */
+export interface ColumnarStore {
+  /** 每次写入后递增，用于上层缓存失效判断 */
+  readonly revision: number;
+  listPartitionKeys(): Promise<string[]>;
+  readPartitions(filter?: PartitionFilter): Promise<ColumnarPartition[]>;
+  readRecords(filter?: PartitionFilter): Promise<InsuranceRecord[]>;
+  append(records: InsuranceRecord[]): Promise<number>;
+  /** 以给定记录整体覆盖分区，记录为空的分区被删除 */
+  writePartitions(groups: Map<string, InsuranceRecord[]>): Promise<void>;
+  deletePartitions(keys: string[]): Promise<void>;
+  clear(): Promise<void>;
+  getMeta(): Promise<ColumnarStoreMeta>;
+}
+
+const PARTITION_KEY_SEPARATOR = '-';
+
+/**
+ * 生成分区键
+ * @param year 起保年度
+ * @param week 周序号
+ * @returns 分区键，如 2025-33
+ */
+export function getPartitionKey(year: number, week: number): string {
+  return `${year}${PARTITION_KEY_SEPARATOR}${week}`;
+}
+
+/**
+ * 解析分区键
+ * @param key 分区键
+ * @returns 起保年度与周序号
+ */
+export function parsePartitionKey(key: string): { year: number; week: number } {
+  const [year, week] = key.split(PARTITION_KEY_SEPARATOR).map(Number);
+  return { year, week };
+}
+
+/**
+ * 判断分区键是否满足裁剪条件
+ * @param key 分区键
+ * @param filter 裁剪条件
+ * @returns 是否保留该分区
+ */
+export function matchesPartitionFilter(key: string, filter: PartitionFilter = {}): boolean {
+  const { year, week } = parsePartitionKey(key);
+  if (filter.years && filter.years.length > 0 && !filter.years.includes(year)) return false;
+  if (filter.weeks && filter.weeks.length > 0 && !filter.weeks.includes(week)) return false;
+  return true;
+}
+
+/**
+ * 从筛选条件中提取分区裁剪条件
+ * @param filters 筛选条件
+ * @returns 分区裁剪条件
+ */
+export function toPartitionFilter(filters: FilterConditions): PartitionFilter {
+  const toArray = (value: number | number[] | undefined): number[] | undefined => {
+    if (value === undefined || value === null) return undefined;
+    return Array.isArray(value) ? value : [value];
+  };
+
+  return {
+    years: toArray(filters.policy_start_year),
+    weeks: toArray(filters.week_number)
+  };
+}
+
+/**
+ * 将记录数组编码为列数组
+ * 列类型按首个非空值推断，类型混杂的列按字符串处理
+ * @param records 记录数组
+ * @returns 列数据映射
+ */
+export function encodeColumns(records: InsuranceRecord[]): { [field: string]: ColumnData } {
+  const fieldTypes = new Map<string, 'number' | 'boolean' | 'string'>();
+
+  records.forEach(record => {
+    Object.entries(record).forEach(([field, value]) => {
+      if (value === undefined || value === null) return;
+      const valueType = typeof value === 'number' ? 'number' : typeof value === 'boolean' ? 'boolean' : 'string';
+      const known = fieldTypes.get(field);
+      if (!known) {
+        fieldTypes.set(field, valueType);
+      } else if (known !== valueType) {
+        fieldTypes.set(field, 'string');
+      }
+    });
+  });
+
+  const columns: { [field: string]: ColumnData } = {};
+  const rowCount = records.length;
+
+  fieldTypes.forEach((type, field) => {
+    if (type === 'number') {
+      const values = new Float64Array(rowCount);
+      records.forEach((record, index) => {
+        const value = record[field as keyof InsuranceRecord];
+        values[index] = typeof value === 'number' ? value : NaN;
+      });
+      columns[field] = { type, values };
+    } else if (type === 'boolean') {
+      const values = new Uint8Array(rowCount);
+      records.forEach((record, index) => {
+        const value = record[field as keyof InsuranceRecord];
+        values[index] = value === true ? 1 : value === false ? 0 : 2;
+      });
+      columns[field] = { type, values };
+    } else {
+      const dictionary: string[] = [];
+      const lookup = new Map<string, number>();
+      const codes = new Uint32Array(rowCount);
+      records.forEach((record, index) => {
+        const value = record[field as keyof InsuranceRecord];
+        if (value === undefined || value === null) return;
+        const text = String(value);
+        let code = lookup.get(text);
+        if (code === undefined) {
+          dictionary.push(text);
+          code = dictionary.length;
+          lookup.set(text, code);
+        }
+        codes[index] = code;
+      });
+      columns[field] = { type, dictionary, codes };
+    }
+  });
+
+  return columns;
+}
+
+/**
+ * 将分区列数组还原为记录数组
+ * @param partition 分区数据
+ * @returns 记录数组
+ */
+export function decodePartition(partition: ColumnarPartition): InsuranceRecord[] {
+  const records: Record<string, unknown>[] = Array.from({ length: partition.rowCount }, () => ({}));
+
+  Object.entries(partition.columns).forEach(([field, column]) => {
+    if (column.type === 'number') {
+      column.values.forEach((value, index) => {
+        if (!Number.isNaN(value)) records[index][field] = value;
+      });
+    } else if (column.type === 'boolean') {
+      column.values.forEach((value, index) => {
+        if (value !== 2) records[index][field] = value === 1;
+      });
+    } else {
+      column.codes.forEach((code, index) => {
+        if (code !== 0) records[index][field] = column.dictionary[code - 1];
+      });
+    }
+  });
+
+  return records as unknown as InsuranceRecord[];
+}
+
+/**
+ * 估算分区占用字节数
+ * @param partition 分区数据
+ * @returns 字节数
+ */
+function estimatePartitionSize(partition: ColumnarPartition): number {
+  return Object.values(partition.columns).reduce((size, column) => {
+    if (column.type === 'string') {
+      return size + column.codes.byteLength +
+        column.dictionary.reduce((sum, text) => sum + text.length * 2, 0);
+    }
+    return size + column.values.byteLength;
+  }, 0);
+}
+
+/**
+ * 生成分区摘要
+ * @param partition 分区数据
+ * @returns 行数与估算字节数
+ */
+function summarizePartition(partition: ColumnarPartition): PartitionSummary {
+  return { rowCount: partition.rowCount, byteSize: estimatePartitionSize(partition) };
+}
+
+/**
+ * 按分区键对记录分组
+ * @param records 记录数组
+ * @returns 分区键到记录数组的映射
+ */
+export function groupRecordsByPartition(records: InsuranceRecord[]): Map<string, InsuranceRecord[]> {
+  const groups = new Map<string, InsuranceRecord[]>();
+  records.forEach(record => {
+    const key = getPartitionKey(record.policy_start_year, record.week_number);
+    const group = groups.get(key);
+    if (group) {
+      group.push(record);
+    } else {
+      groups.set(key, [record]);
+    }
+  });
+  return groups;
+}
+
+/**
+ * 由记录数组构建分区
+ * @param key 分区键
+ * @param records 分区内全部记录
+ * @returns 分区数据
+ */
+export function buildPartition(key: string, records: InsuranceRecord[]): ColumnarPartition {
+  const { year, week } = parsePartitionKey(key);
+  return {
+    key,
+    policy_start_year: year,
+    week_number: week,
+    rowCount: records.length,
+    columns: encodeColumns(records),
+    updatedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * 列式存储公共逻辑
+ * 子类只需实现分区的读写删除原语
+ */
+export abstract class BaseColumnarStore implements ColumnarStore {
+  public revision = 0;
+
+  protected abstract getPartitionKeys(): Promise<string[]>;
+  protected abstract getPartition(key: string): Promise<ColumnarPartition | undefined>;
+  protected abstract putPartitions(partitions: ColumnarPartition[]): Promise<void>;
+  protected abstract removePartitions(keys: string[]): Promise<void>;
+  protected abstract removeAll(): Promise<void>;
+  protected abstract readLastUpdated(): Promise<Date | null>;
+  protected abstract writeLastUpdated(date: Date): Promise<void>;
+  /** 读取分区摘要，尚未记录（如旧版数据）时返回null */
+  protected abstract readPartitionSummaries(): Promise<PartitionSummaries | null>;
+  protected abstract writePartitionSummaries(summaries: PartitionSummaries): Promise<void>;
+
+  async listPartitionKeys(): Promise<string[]> {
+    const keys = await this.getPartitionKeys();
+    return keys.sort((a, b) => {
+      const pa = parsePartitionKey(a);
+      const pb = parsePartitionKey(b);
+      return pa.year - pb.year || pa.week - pb.week;
+    });
+  }
+
+  async readPartitions(filter: PartitionFilter = {}): Promise<ColumnarPartition[]> {
+    const keys = (await this.listPartitionKeys()).filter(key => matchesPartitionFilter(key, filter));
+    const partitions = await Promise.all(keys.map(key => this.getPartition(key)));
+    return partitions.filter((partition): partition is ColumnarPartition => partition !== undefined);
+  }
+
+  async readRecords(filter: PartitionFilter = {}): Promise<InsuranceRecord[]> {
+    const partitions = await this.readPartitions(filter);
+    const records: InsuranceRecord[] = [];
+    partitions.forEach(partition => {
+      decodePartition(partition).forEach(record => records.push(record));
+    });
+    return records;
+  }
+
+  async append(records: InsuranceRecord[]): Promise<number> {
+    if (records.length === 0) return 0;
+
+    const groups = groupRecordsByPartition(records);
+    const partitions: ColumnarPartition[] = [];
+
+    for (const [key, groupRecords] of groups) {
+      const existing = await this.getPartition(key);
+      const merged = existing ? decodePartition(existing).concat(groupRecords) : groupRecords;
+      partitions.push(buildPartition(key, merged));
+    }
+
+    await this.putPartitions(partitions);
+    await this.updateSummaries(partitions, []);
+    await this.touch();
+    return records.length;
+  }
+
+  async writePartitions(groups: Map<string, InsuranceRecord[]>): Promise<void> {
+    if (groups.size === 0) return;
+
+    const partitions: ColumnarPartition[] = [];
+    const emptyKeys: string[] = [];
+    groups.forEach((records, key) => {
+      if (records.length > 0) {
+        partitions.push(buildPartition(key, records));
+      } else {
+        emptyKeys.push(key);
+      }
+    });
+
+    if (partitions.length > 0) await this.putPartitions(partitions);
+    if (emptyKeys.length > 0) await this.removePartitions(emptyKeys);
+    await this.updateSummaries(partitions, emptyKeys);
+    await this.touch();
+  }
+
+  async deletePartitions(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    await this.removePartitions(keys);
+    await this.updateSummaries([], keys);
+    await this.touch();
+  }
+
+  async clear(): Promise<void> {
+    await this.removeAll();
+    this.revision++;
+  }
+
+  async getMeta(): Promise<ColumnarStoreMeta> {
+    const summaries = Object.values(await this.getSummaries());
+    return {
+      recordCount: summaries.reduce((sum, summary) => sum + summary.rowCount, 0),
+      partitionCount: summaries.length,
+      lastUpdated: await this.readLastUpdated(),
+      byteSize: summaries.reduce((sum, summary) => sum + summary.byteSize, 0)
+    };
+  }
+
+  /**
+   * 获取分区摘要，缺失时读取全部分区补建一次
+   */
+  private async getSummaries(): Promise<PartitionSummaries> {
+    const stored = await this.readPartitionSummaries();
+    if (stored) return stored;
+
+    const summaries: PartitionSummaries = {};
+    (await this.readPartitions()).forEach(partition => {
+      summaries[partition.key] = summarizePartition(partition);
+    });
+    await this.writePartitionSummaries(summaries);
+    return summaries;
+  }
+
+  /**
+   * 按写入与删除的分区更新摘要
+   * 摘要尚未建立且存储中还有其他分区时保持缺失，留待 getMeta 补建
+   * @param written 写入的分区
+   * @param removedKeys 删除的分区键
+   */
+  private async updateSummaries(written: ColumnarPartition[], removedKeys: string[]): Promise<void> {
+    let summaries = await this.readPartitionSummaries();
+    if (!summaries) {
+      const writtenKeys = new Set(written.map(partition => partition.key));
+      const keys = await this.getPartitionKeys();
+      if (keys.some(key => !writtenKeys.has(key))) return;
+      summaries = {};
+    }
+
+    removedKeys.forEach(key => delete summaries[key]);
+    written.forEach(partition => {
+      summaries[partition.key] = summarizePartition(partition);
+    });
+    await this.writePartitionSummaries(summaries);
+  }
+
+  /**
+   * 记录写入时间并递增版本号
+   */
+  protected async touch(): Promise<void> {
+    await this.writeLastUpdated(new Date());
+    this.revision++;
+  }
+}
+
+/**
+ * 内存列式存储
+ * 用于不支持IndexedDB的运行环境（如服务端渲染）
+ */
+export class MemoryColumnarStore extends BaseColumnarStore {
+  private partitions = new Map<string, ColumnarPartition>();
+  private lastUpdated: Date | null = null;
+  private summaries: PartitionSummaries | null = null;
+
+  protected async getPartitionKeys(): Promise<string[]> {
+    return Array.from(this.partitions.keys());
+  }
+
+  protected async getPartition(key: string): Promise<ColumnarPartition | undefined> {
+    return this.partitions.get(key);
+  }
+
+  protected async putPartitions(partitions: ColumnarPartition[]): Promise<void> {
+    partitions.forEach(partition => this.partitions.set(partition.key, partition));
+  }
+
+  protected async removePartitions(keys: string[]): Promise<void> {
+    keys.forEach(key => this.partitions.delete(key));
+  }
+
+  protected async removeAll(): Promise<void> {
+    this.partitions.clear();
+    this.lastUpdated = null;
+    this.summaries = null;
+  }
+
+  protected async readLastUpdated(): Promise<Date | null> {
+    return this.lastUpdated;
+  }
+
+  protected async writeLastUpdated(date: Date): Promise<void> {
+    this.lastUpdated = date;
+  }
+
+  protected async readPartitionSummaries(): Promise<PartitionSummaries | null> {
+    return this.summaries;
+  }
+
+  protected async writePartitionSummaries(summaries: PartitionSummaries): Promise<void> {
+    this.summaries = summaries;
+  }
+}
+
+export const IDB_NAME = 'auto_insurance_analysis';
+const IDB_VERSION = 1;
+const PARTITION_STORE = 'partitions';
+const META_STORE = 'meta';
+const LAST_UPDATED_KEY = 'data_last_updated';
+const PARTITION_SUMMARIES_KEY = 'partition_summaries';
+const LEGACY_DATA_KEY = 'insurance_data';
+
+/**
+ * 将IDBRequest包装为Promise
+ * @param request IndexedDB请求
+ * @returns 请求结果
+ */
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * 等待事务完成
+ * @param transaction IndexedDB事务
+ */
+export function waitForTransaction(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * IndexedDB列式存储
+ * 每个分区对应 partitions 对象仓库中的一条记录，列数组以TypedArray形式结构化克隆存储
+ */
+export class IndexedDBColumnarStore extends BaseColumnarStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly dbName: string = IDB_NAME) {
+    super();
+  }
+
+  /**
+   * 打开数据库并完成旧版localStorage数据迁移
+   */
+  private getDB(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, IDB_VERSION);
+        request.onupgradeneeded = () => {
+          const database = request.result;
+          if (!database.objectStoreNames.contains(PARTITION_STORE)) {
+            database.createObjectStore(PARTITION_STORE, { keyPath: 'key' });
+          }
+          if (!database.objectStoreNames.contains(META_STORE)) {
+            database.createObjectStore(META_STORE);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      }).then(async database => {
+        await this.migrateLegacyData(database);
+        return database;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * 将旧版localStorage中的 insurance_data 迁移到IndexedDB分区
+   * @param database 已打开的数据库
+   */
+  private async migrateLegacyData(database: IDBDatabase): Promise<void> {
+    // 仅主数据集需要迁移，版本快照等其他实例跳过
+    if (this.dbName !== IDB_NAME || typeof localStorage === 'undefined') return;
+
+    const legacy = localStorage.getItem(LEGACY_DATA_KEY);
+    if (!legacy) return;
+
+    try {
+      const records: InsuranceRecord[] = JSON.parse(legacy);
+      const partitions = Array.from(groupRecordsByPartition(records))
+        .map(([key, groupRecords]) => buildPartition(key, groupRecords));
+
+      const transaction = database.transaction([PARTITION_STORE, META_STORE], 'readwrite');
+      partitions.forEach(partition => transaction.objectStore(PARTITION_STORE).put(partition));
+      transaction.objectStore(META_STORE).put(
+        localStorage.getItem(LAST_UPDATED_KEY) || new Date().toISOString(),
+        LAST_UPDATED_KEY
+      );
+      // 迁移的分区未计入摘要，删除后由 getMeta 补建
+      transaction.objectStore(META_STORE).delete(PARTITION_SUMMARIES_KEY);
+      await waitForTransaction(transaction);
+
+      localStorage.removeItem(LEGACY_DATA_KEY);
+      localStorage.removeItem(LAST_UPDATED_KEY);
+    } catch (error) {
+      console.error('localStorage数据迁移失败:', error);
+    }
+  }
+
+  protected async getPartitionKeys(): Promise<string[]> {
+    const database = await this.getDB();
+    const keys = await promisifyRequest(
+      database.transaction(PARTITION_STORE, 'readonly').objectStore(PARTITION_STORE).getAllKeys()
+    );
+    return keys.map(String);
+  }
+
+  protected async getPartition(key: string): Promise<ColumnarPartition | undefined> {
+    const database = await this.getDB();
+    return promisifyRequest<ColumnarPartition | undefined>(
+      database.transaction(PARTITION_STORE, 'readonly').objectStore(PARTITION_STORE).get(key)
+    );
+  }
+
+  protected async putPartitions(partitions: ColumnarPartition[]): Promise<void> {
+    const database = await this.getDB();
+    const transaction = database.transaction(PARTITION_STORE, 'readwrite');
+    const store = transaction.objectStore(PARTITION_STORE);
+    partitions.forEach(partition => store.put(partition));
+    await waitForTransaction(transaction);
+  }
+
+  protected async removePartitions(keys: string[]): Promise<void> {
+    const database = await this.getDB();
+    const transaction = database.transaction(PARTITION_STORE, 'readwrite');
+    const store = transaction.objectStore(PARTITION_STORE);
+    keys.forEach(key => store.delete(key));
+    await waitForTransaction(transaction);
+  }
+
+  protected async removeAll(): Promise<void> {
+    const database = await this.getDB();
+    const transaction = database.transaction([PARTITION_STORE, META_STORE], 'readwrite');
+    transaction.objectStore(PARTITION_STORE).clear();
+    transaction.objectStore(META_STORE).delete(LAST_UPDATED_KEY);
+    transaction.objectStore(META_STORE).delete(PARTITION_SUMMARIES_KEY);
+    await waitForTransaction(transaction);
+  }
+
+  protected async readLastUpdated(): Promise<Date | null> {
+    const database = await this.getDB();
+    const value = await promisifyRequest<string | undefined>(
+      database.transaction(META_STORE, 'readonly').objectStore(META_STORE).get(LAST_UPDATED_KEY)
+    );
+    return value ? new Date(value) : null;
+  }
+
+  protected async writeLastUpdated(date: Date): Promise<void> {
+    const database = await this.getDB();
+    const transaction = database.transaction(META_STORE, 'readwrite');
+    transaction.objectStore(META_STORE).put(date.toISOString(), LAST_UPDATED_KEY);
+    await waitForTransaction(transaction);
+  }
+
+  protected async readPartitionSummaries(): Promise<PartitionSummaries | null> {
+    const database = await this.getDB();
+    const value = await promisifyRequest<PartitionSummaries | undefined>(
+      database.transaction(META_STORE, 'readonly').objectStore(META_STORE).get(PARTITION_SUMMARIES_KEY)
+    );
+    return value ?? null;
+  }
+
+  protected async writePartitionSummaries(summaries: PartitionSummaries): Promise<void> {
+    const database = await this.getDB();
+    const transaction = database.transaction(META_STORE, 'readwrite');
+    transaction.objectStore(META_STORE).put(summaries, PARTITION_SUMMARIES_KEY);
+    await waitForTransaction(transaction);
+  }
+}
+
+let sharedStore: ColumnarStore | null = null;
+
+/**
+ * 获取共享的列式存储实例
+ * 浏览器环境使用IndexedDB，其余环境回退到内存存储
+ * @returns 列式存储实例
+ */
+export function getColumnarStore(): ColumnarStore {
+  if (!sharedStore) {
+    sharedStore = typeof indexedDB !== 'undefined'
+      ? new IndexedDBColumnarStore()
+      : new MemoryColumnarStore();
+  }
+  return sharedStore;
+}
@@ -3,7 +3,7 @@
  * 基于字段选项明细文档的枚举值和配置
  */
 
-import { FieldOptions } from '@/types/insurance';
+import { FieldOptions, FilterDimensions } from '@/types/insurance';
 
 // 字段选项常量
 export const FIELD_OPTIONS = {
@@ -133,6 +133,7 @@ export const DISPLAY_NAMES = {
   expense_amount_yuan: '费用金额（元）',
   matured_margin_contribution_yuan: '满期边际贡献额（元）',
   variable_cost_amount_yuan: '变动成本金额（元）',
+  premium_time_progress_plan_yuan: '保费时间进度计划（元）',
   
   // 计算字段
   average_premium_per_policy_yuan: '单均保费（元/件）',
@@ -142,6 +143,7 @@ export const DISPLAY_NAMES = {
   expense_ratio_percent: '费用率（%）',
   variable_cost_ratio_percent: '变动成本率（%）',
   matured_margin_contribution_rate_percent: '满期边际贡献率（%）',
+  premium_time_progress_achievement_rate_percent: '保费时间进度达成率（%）',
   commercial_auto_underwriting_factor: '商业险自主定价系数',
   combined_ratio_percent: '综合成本率（%）',
   profit_margin_percent: '利润率（%）'
@@ -174,7 +176,8 @@ export const FIELD_GROUPS = {
   premium: {
     label: '保费指标',
     fields: ['signed_premium_yuan', 'matured_premium_yuan', 
-             'commercial_premium_before_discount_yuan', 'average_premium_per_policy_yuan']
+             'commercial_premium_before_discount_yuan', 'average_premium_per_policy_yuan',
+             'premium_time_progress_plan_yuan', 'premium_time_progress_achievement_rate_percent']
   },
   claims: {
     label: '赔付指标',
@@ -193,6 +196,19 @@ export const FIELD_GROUPS = {
   }
 } as const;
 
+// 17个筛选维度字段（按维度分组展开，与数据记录字段一致）
+export const DIMENSION_FIELDS: (keyof FilterDimensions)[] = [
+  ...FIELD_GROUPS.time.fields,
+  ...FIELD_GROUPS.organization.fields,
+  ...FIELD_GROUPS.business.fields,
+  ...FIELD_GROUPS.vehicle.fields,
+  ...FIELD_GROUPS.risk.fields
+];
+
+// 取值为数值、布尔值的筛选维度（其余维度取值为字符串）
+export const NUMERIC_DIMENSIONS: (keyof FilterDimensions)[] = ['policy_start_year', 'week_number'];
+export const BOOLEAN_DIMENSIONS: (keyof FilterDimensions)[] = ['is_new_energy_vehicle', 'is_transferred_vehicle'];
+
 // 图表类型配置
 export const CHART_TYPES = {
   bar: { label: '柱状图', icon: 'BarChart3' },
@@ -202,6 +218,9 @@ export const CHART_TYPES = {
   scatter: { label: '散点图', icon: 'Scatter' }
 } as const;
 
+// 数据表格可选的每页条数
+export const TABLE_PAGE_SIZES: readonly number[] = [10, 25, 50, 100];
+
 // 默认配置
 export const DEFAULT_CONFIG = {
   pageSize: 1000,
@@ -243,7 +262,8 @@ export const CSV_FIELD_MAPPING = {
   '已报告赔款': 'reported_claim_payment_yuan',
   '费用金额': 'expense_amount_yuan',
   '满期边际贡献额': 'matured_margin_contribution_yuan',
-  '变动成本金额': 'variable_cost_amount_yuan'
+  '变动成本金额': 'variable_cost_amount_yuan',
+  '保费时间进度计划': 'premium_time_progress_plan_yuan'
 } as const;
 
 // 数据验证规则
@@ -253,7 +273,8 @@ export const VALIDATION_RULES = {
     'policy_start_year', 'week_number', 'signed_premium_yuan', 
     'matured_premium_yuan', 'commercial_premium_before_discount_yuan',
     'policy_count', 'claim_case_count', 'reported_claim_payment_yuan',
-    'expense_amount_yuan', 'matured_margin_contribution_yuan', 'variable_cost_amount_yuan'
+    'expense_amount_yuan', 'matured_margin_contribution_yuan', 'variable_cost_amount_yuan',
+    'premium_time_progress_plan_yuan'
   ],
   boolean: ['is_new_energy_vehicle', 'is_transferred_vehicle'],
   ranges: {
@@ -4,142 +4,413 @@
  */
 
 import Papa from 'papaparse';
-import { InsuranceRecord, ImportResult, FilterConditions } from '@/types/insurance';
+import {
+  InsuranceRecord,
+  ImportResult,
+  ImportIssue,
+  DatasetVersion,
+  ImportMode,
+  ImportPreview,
+  ImportProgress,
+  ImportSource,
+  ImportRule,
+  IssueSeverity,
+  RecordIssue,
+  ValueMapping,
+  FilterConditions
+} from '@/types/insurance';
 import { CSV_FIELD_MAPPING, VALIDATION_RULES, FIELD_OPTIONS } from '@/lib/constants';
-import { validateRecord } from '@/lib/calculations';
+import { inspectRecord } from '@/lib/calculations';
+import { getColumnarStore } from '@/lib/columnar-store';
+import { getVersionArchive, hashRecords, importWithVersion } from '@/lib/dataset-versions';
+import {
+  UnknownValueCollector,
+  applyValueMapping,
+  loadValueMapping,
+  toUnknownValueIssue
+} from '@/lib/enum-validation';
+import { downloadBlob } from '@/lib/download';
 
 /**
- * CSV文件解析和导入
+ * 流式导入时每次读取的文件块大小（字节）
+ */
+export const IMPORT_CHUNK_SIZE = 1024 * 1024;
+
+/**
+ * 布尔字段可识别的取值（不区分大小写）
+ */
+const TRUE_VALUES = ['true', '是', '1'];
+const FALSE_VALUES = ['false', '否', '0'];
+
+/**
+ * 字段名 → CSV中文表头
+ */
+const FIELD_LABELS = Object.fromEntries(
+  Object.entries(CSV_FIELD_MAPPING).map(([csvField, recordField]) => [recordField, csvField])
+) as Partial<Record<keyof InsuranceRecord, string>>;
+
+/**
+ * 校验规则显示名称
+ */
+const IMPORT_RULE_LABELS: Record<ImportRule, string> = {
+  parse: '格式解析',
+  required: '必填校验',
+  type: '类型校验',
+  range: '范围校验',
+  enum: '枚举校验',
+  business: '业务规则'
+};
+
+/**
+ * 问题级别显示名称
+ */
+const SEVERITY_LABELS: Record<IssueSeverity, string> = {
+  error: '错误',
+  warning: '警告',
+  info: '提示'
+};
+
+/**
+ * CSV流式解析选项
+ */
+export interface CSVStreamOptions {
+  chunkSize?: number;                                  // 每块字节数，默认 IMPORT_CHUNK_SIZE
+  onProgress?: (progress: ImportProgress) => void;     // 每解析完一块回调一次
+  valueMapping?: ValueMapping;                         // 枚举值映射，默认读取已保存的映射
+}
+
+/**
+ * CSV流式解析结果
+ */
+export interface CSVStreamResult {
+  records: InsuranceRecord[];                          // 通过校验的记录（错误行已跳过）
+  result: ImportResult;
+}
+
+/**
+ * CSV导入选项
+ */
+export interface CSVImportOptions extends CSVStreamOptions {
+  mode?: ImportMode;                                   // 写入方式，默认增量追加
+  operator?: string;                                   // 操作人，记录到数据集版本
+}
+
+/**
+ * 单行转换结果
+ */
+interface ConvertedRow {
+  record: Partial<InsuranceRecord>;
+  rawValues: Partial<Record<keyof InsuranceRecord, string>>;
+  issues: RecordIssue[];                               // 类型转换失败的字段
+}
+
+/**
+ * 构造文件级导入问题（不对应具体数据行）
+ * @param message 问题说明
+ * @param suggestion 修复建议
+ * @returns 导入问题
+ */
+function fileIssue(message: string, suggestion: string): ImportIssue {
+  return { severity: 'error', row: 0, field: null, rawValue: '', rule: 'parse', message, suggestion };
+}
+
+/**
+ * 获取字段的中文名称
+ * @param field 字段名
+ * @returns 中文名称，未映射时返回字段名
+ */
+function getFieldLabel(field: keyof InsuranceRecord): string {
+  return FIELD_LABELS[field] ?? field;
+}
+
+/**
+ * CSV文件流式解析：按块读取、逐行转换校验并跳过错误行，避免一次性读入整个文件；
+ * 有效记录套用枚举值映射后统计仍不在允许范围内的取值
  * @param file CSV文件
- * @returns Promise<ImportResult>
+ * @param options 解析选项
+ * @returns 有效记录与导入结果
  */
-export async function importCSVData(file: File): Promise<ImportResult> {
-  return new Promise((resolve) => {
-    const result: ImportResult = {
-      success: false,
-      totalRows: 0,
-      validRows: 0,
-      errorRows: 0,
-      errors: [],
-      warnings: []
-    };
+export function streamCSVFile(file: File, options: CSVStreamOptions = {}): Promise<CSVStreamResult> {
+  const { chunkSize = IMPORT_CHUNK_SIZE, onProgress, valueMapping = loadValueMapping() } = options;
+  const records: InsuranceRecord[] = [];
+  const unknownValues = new UnknownValueCollector();
+  const result: ImportResult = {
+    success: false,
+    totalRows: 0,
+    validRows: 0,
+    errorRows: 0,
+    errors: [],
+    warnings: []
+  };
+  let chunkCount = 0;
 
-    Papa.parse(file, {
+  return new Promise((resolve) => {
+    Papa.parse<Record<string, string>>(file, {
       header: true,
       encoding: 'UTF-8',
       skipEmptyLines: true,
-      complete: (parseResult) => {
-        try {
-          result.totalRows = parseResult.data.length;
-          
-          if (parseResult.errors.length > 0) {
-            result.errors.push(...parseResult.errors.map(err => `解析错误: ${err.message}`));
+      chunkSize,
+      transformHeader: (header: string) => header.trim(),
+      chunk: (chunkResult, parser) => {
+        parser.pause();
+        const rowOffset = result.totalRows;
+
+        // 列数不符的错误行号为全文件累计的数据行序号，其余解析错误按块内行号定位
+        const mismatchedRows = new Map<number, string>();
+        chunkResult.errors.forEach(error => {
+          if (error.type === 'FieldMismatch' && error.row !== undefined) {
+            mismatchedRows.set(error.row - rowOffset, error.code === 'TooFewFields' ? '字段数少于表头' : '字段数多于表头');
+          } else {
+            result.errors.push({
+              ...fileIssue(`解析错误: ${error.message}`, '检查引号是否成对出现、分隔符是否为英文逗号'),
+              row: rowOffset + (error.row ?? 0) + 2
+            });
+          }
+        });
+
+        chunkResult.data.forEach((row, index) => {
+          const rowNumber = rowOffset + index + 2;
+          const mismatch = mismatchedRows.get(index);
+          if (mismatch) {
+            result.errorRows++;
+            result.errors.push({
+              ...fileIssue(`列数与表头不一致（${mismatch}）`, '检查该行是否含未加引号的逗号或缺少字段'),
+              row: rowNumber
+            });
+            return;
           }
 
-          const processedData: InsuranceRecord[] = [];
-          
-          parseResult.data.forEach((row: any, index: number) => {
-            try {
-              const record = transformRowToRecord(row);
-              const validation = validateRecord(record);
-              
-              if (validation.isValid) {
-                processedData.push(record as InsuranceRecord);
-                result.validRows++;
-              } else {
-                result.errorRows++;
-                result.errors.push(`第${index + 2}行: ${validation.errors.join(', ')}`);
-              }
-              
-              if (validation.warnings.length > 0) {
-                result.warnings.push(`第${index + 2}行: ${validation.warnings.join(', ')}`);
-              }
-            } catch (error) {
-              result.errorRows++;
-              result.errors.push(`第${index + 2}行: 数据转换失败 - ${error}`);
-            }
-          });
-
-          // 存储处理后的数据到本地存储
-          if (processedData.length > 0) {
-            storeDataLocally(processedData);
-            result.success = true;
+          const validation = validateCSVRow(row, rowNumber);
+          result.warnings.push(...validation.warnings);
+          if (validation.errors.length > 0) {
+            result.errorRows++;
+            result.errors.push(...validation.errors);
+          } else {
+            const record = applyValueMapping(validation.record, valueMapping);
+            unknownValues.add(record, rowNumber);
+            records.push(record as InsuranceRecord);
+            result.validRows++;
           }
+        });
 
-        } catch (error) {
-          result.errors.push(`处理失败: ${error}`);
-        }
+        result.totalRows += chunkResult.data.length;
+        chunkCount++;
+        const processedBytes = Math.min(file.size, chunkCount * chunkSize);
+        onProgress?.({
+          processedBytes,
+          totalBytes: file.size,
+          processedRows: result.totalRows,
+          percent: file.size > 0 ? Math.round((processedBytes / file.size) * 100) : 100
+        });
 
-        resolve(result);
+        // 让出主线程，使进度条等界面更新得以渲染
+        setTimeout(() => parser.resume(), 0);
+      },
+      complete: () => {
+        result.unknownValues = unknownValues.toList();
+        result.warnings.push(...result.unknownValues.map(toUnknownValueIssue));
+        result.success = result.validRows > 0;
+        resolve({ records, result });
       },
-      error: (error) => {
-        result.errors.push(`文件读取失败: ${error.message}`);
-        resolve(result);
+      error: (error: Error) => {
+        result.errors.push(fileIssue(`文件读取失败: ${error.message}`, '确认文件为UTF-8编码的CSV且未被其他程序占用'));
+        resolve({ records, result });
       }
     });
   });
 }
 
 /**
- * 将CSV行数据转换为InsuranceRecord
- * @param row CSV行数据
- * @returns InsuranceRecord
+ * CSV文件流式导入，通过校验的记录按导入模式写入本地列式存储
+ * @param file CSV文件
+ * @param options 导入选项（导入模式、进度回调等）
+ * @returns Promise<ImportResult>
  */
-function transformRowToRecord(row: any): Partial<InsuranceRecord> {
+export async function importCSVData(file: File, options: CSVImportOptions = {}): Promise<ImportResult> {
+  const { mode = 'append', operator = '本地用户', ...streamOptions } = options;
+  const { records, result } = await streamCSVFile(file, streamOptions);
+
+  // 存储处理后的数据到IndexedDB列式存储
+  if (records.length > 0) {
+    try {
+      const source: ImportSource = {
+        fileName: file.name,
+        fileHash: await hashRecords(records),
+        operator
+      };
+      const { changes, version } = await storeDataLocally(records, mode, source);
+      result.changes = changes;
+      result.version = version;
+    } catch (error) {
+      result.success = false;
+      result.errors.push(fileIssue(`处理失败: ${error}`, '刷新页面后重试，或清理浏览器存储空间'));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 转换单行数据并记录类型转换失败的字段
+ * @param row CSV行数据（表头为中文名称或英文字段名）
+ * @returns 转换结果
+ */
+function convertRow(row: Record<string, unknown>): ConvertedRow {
   const record: Partial<InsuranceRecord> = {};
+  const target = record as Record<string, unknown>;
+  const rawValues: ConvertedRow['rawValues'] = {};
+  const issues: RecordIssue[] = [];
 
-  // 字段映射和类型转换
   Object.entries(CSV_FIELD_MAPPING).forEach(([csvField, recordField]) => {
-    const value = row[csvField];
-    
+    const field = recordField as keyof InsuranceRecord;
+    const value = row[csvField] ?? row[recordField];
+
     if (value === undefined || value === null || value === '') {
       return;
     }
+    rawValues[field] = String(value);
+    const text = String(value).trim();
 
-    try {
-      // 根据字段类型进行转换
-      if (VALIDATION_RULES.numeric.includes(recordField as any)) {
-        // 数值类型转换
-        const numValue = typeof value === 'string' ? 
-          parseFloat(value.replace(/[,，]/g, '')) : Number(value);
-        
-        if (!isNaN(numValue)) {
-          (record as any)[recordField] = numValue;
-        }
-      } else if (VALIDATION_RULES.boolean.includes(recordField as any)) {
-        // 布尔类型转换
-        const boolValue = value === true || value === 'true' || 
-                         value === '是' || value === 'True' || value === 1;
-        (record as any)[recordField] = boolValue;
+    if ((VALIDATION_RULES.numeric as readonly string[]).includes(recordField)) {
+      // 数值类型转换（允许千分位逗号）
+      const numValue = typeof value === 'number' ? value : Number(text.replace(/[,，]/g, ''));
+      if (text !== '' && Number.isFinite(numValue)) {
+        target[field] = numValue;
       } else {
-        // 字符串类型
-        (record as any)[recordField] = String(value).trim();
+        issues.push({
+          severity: 'error',
+          field,
+          rule: 'type',
+          message: `${csvField}不是有效数字`,
+          suggestion: '删除单位、空格等非数字字符，只保留数字、小数点和千分位逗号'
+        });
       }
-    } catch (error) {
-      throw new Error(`字段 ${csvField} 转换失败: ${error}`);
+    } else if ((VALIDATION_RULES.boolean as readonly string[]).includes(recordField)) {
+      // 布尔类型转换
+      const normalized = text.toLowerCase();
+      if (value === true || TRUE_VALUES.includes(normalized)) {
+        target[field] = true;
+      } else if (value === false || FALSE_VALUES.includes(normalized)) {
+        target[field] = false;
+      } else {
+        issues.push({
+          severity: 'error',
+          field,
+          rule: 'type',
+          message: `${csvField}的取值无法识别`,
+          suggestion: '填写 True 或 False'
+        });
+      }
+    } else {
+      // 字符串类型
+      target[field] = text;
     }
   });
 
-  return record;
+  return { record, rawValues, issues };
 }
 
 /**
- * 本地数据存储
+ * 转换并校验单行CSV数据
+ * 类型转换失败的字段不再重复报告必填/范围问题
+ * @param row CSV行数据
+ * @param rowNumber CSV行号（表头为第1行）
+ * @returns 转换后的记录与该行的错误、警告
+ */
+export function validateCSVRow(row: Record<string, unknown>, rowNumber: number): {
+  record: Partial<InsuranceRecord>;
+  errors: ImportIssue[];
+  warnings: ImportIssue[];
+} {
+  const { record, rawValues, issues } = convertRow(row);
+  const typeErrorFields = new Set(issues.map(issue => issue.field));
+  const allIssues = [
+    ...issues,
+    ...inspectRecord(record).filter(issue => !typeErrorFields.has(issue.field))
+  ].map<ImportIssue>(issue => ({
+    ...issue,
+    row: rowNumber,
+    rawValue: issue.field ? rawValues[issue.field] ?? '' : ''
+  }));
+
+  return {
+    record,
+    errors: allIssues.filter(issue => issue.severity === 'error'),
+    warnings: allIssues.filter(issue => issue.severity !== 'error')
+  };
+}
+
+/**
+ * 将CSV行数据转换为InsuranceRecord
+ * 表头既可使用中文名称，也可直接使用英文字段名；无法转换的值被忽略
+ * @param row CSV行数据
+ * @returns InsuranceRecord
+ */
+export function transformRowToRecord(row: any): Partial<InsuranceRecord> {
+  return convertRow(row).record;
+}
+
+/**
+ * 格式化导入问题为单行文本
+ * @param issue 导入问题
+ * @returns 如“第12行 保单件数: 保单件数必须大于0”
+ */
+export function formatImportIssue(issue: ImportIssue): string {
+  const location = issue.row > 0 ? `第${issue.row}行` : '文件';
+  const field = issue.field ? ` ${getFieldLabel(issue.field)}` : '';
+  return `${location}${field}: ${issue.message}`;
+}
+
+/**
+ * 生成完整的导入错误报告CSV（含警告，按行号排序，带BOM便于Excel识别中文）
+ * @param result 导入结果
+ * @returns CSV文本
+ */
+export function buildImportErrorReport(result: ImportResult): string {
+  const issues = [...result.errors, ...result.warnings].sort((a, b) => a.row - b.row);
+  const csv = Papa.unparse({
+    fields: ['行号', '级别', '字段', '字段名称', '原始值', '校验规则', '问题说明', '修复建议'],
+    data: issues.map(issue => [
+      issue.row > 0 ? issue.row : '',
+      SEVERITY_LABELS[issue.severity],
+      issue.field ?? '',
+      issue.field ? getFieldLabel(issue.field) : '',
+      issue.rawValue,
+      IMPORT_RULE_LABELS[issue.rule],
+      issue.message,
+      issue.suggestion
+    ])
+  }, {
+    escapeFormulae: true
+  });
+  return '\ufeff' + csv;
+}
+
+/**
+ * 下载导入错误报告
+ * @param result 导入结果
+ * @param sourceFilename 导入的文件名
+ */
+export function downloadImportErrorReport(result: ImportResult, sourceFilename: string): void {
+  downloadBlob(buildImportErrorReport(result), `${sourceFilename.replace(/\.csv$/i, '')}_错误报告.csv`, 'text/csv;charset=utf-8;');
+}
+
+/**
+ * 本地数据存储，写入记录为一个数据集版本
  * @param data 保险记录数组
+ * @param mode 导入模式
+ * @param source 导入来源
+ * @returns 实际变化与新版本
  */
-function storeDataLocally(data: InsuranceRecord[]): void {
+async function storeDataLocally(
+  data: InsuranceRecord[],
+  mode: ImportMode,
+  source: ImportSource
+): Promise<{ changes: ImportPreview; version: DatasetVersion }> {
   try {
-    // 获取现有数据
-    const existingData = getStoredData();
-    
-    // 合并新数据（简单追加，实际应用中可能需要去重逻辑）
-    const mergedData = [...existingData, ...data];
-    
-    // 存储到localStorage（实际应用中应使用数据库）
-    localStorage.setItem('insurance_data', JSON.stringify(mergedData));
-    localStorage.setItem('data_last_updated', new Date().toISOString());
-    
-    console.log(`成功存储 ${data.length} 条记录，总计 ${mergedData.length} 条记录`);
+    // 按年度/周次分区写入
+    const store = getColumnarStore();
+    return await importWithVersion(store, getVersionArchive(), data, mode, source);
   } catch (error) {
     console.error('数据存储失败:', error);
     throw new Error('数据存储失败');
@@ -150,10 +421,9 @@ function storeDataLocally(data: InsuranceRecord[]): void {
  * 获取本地存储的数据
  * @returns InsuranceRecord[]
  */
-export function getStoredData(): InsuranceRecord[] {
+export async function getStoredData(): Promise<InsuranceRecord[]> {
   try {
-    const data = localStorage.getItem('insurance_data');
-    return data ? JSON.parse(data) : [];
+    return await getColumnarStore().readRecords();
   } catch (error) {
     console.error('数据读取失败:', error);
     return [];
@@ -161,20 +431,42 @@ export function getStoredData(): InsuranceRecord[] {
 }
 
 /**
- * 清空本地数据
+ * 清空本地数据及版本存档
  */
-export function clearStoredData(): void {
-  localStorage.removeItem('insurance_data');
-  localStorage.removeItem('data_last_updated');
+export async function clearStoredData(): Promise<void> {
+  await getColumnarStore().clear();
+  const archive = getVersionArchive();
+  const versions = await archive.listVersions();
+  await archive.removeVersions(versions.map(version => version.id));
 }
 
 /**
  * 获取数据最后更新时间
  * @returns Date | null
  */
-export function getDataLastUpdated(): Date | null {
-  const timestamp = localStorage.getItem('data_last_updated');
-  return timestamp ? new Date(timestamp) : null;
+export async function getDataLastUpdated(): Promise<Date | null> {
+  const meta = await getColumnarStore().getMeta();
+  return meta.lastUpdated;
+}
+
+/**
+ * 判断字段值是否满足单个筛选条件
+ * @param recordValue 记录的字段值
+ * @param condition 筛选条件（单值或多选数组）
+ * @returns 是否满足
+ */
+export function matchesFilterCondition(recordValue: unknown, condition: unknown): boolean {
+  if (condition === undefined || condition === null) {
+    return true;
+  }
+  
+  // 数组条件（多选）
+  if (Array.isArray(condition)) {
+    return condition.length === 0 || (condition as unknown[]).includes(recordValue);
+  }
+  
+  // 单值条件
+  return recordValue === condition;
 }
 
 /**
@@ -185,21 +477,9 @@ export function getDataLastUpdated(): Date | null {
  */
 export function filterData(data: InsuranceRecord[], filters: FilterConditions): InsuranceRecord[] {
   return data.filter(record => {
-    return Object.entries(filters).every(([field, condition]) => {
-      const recordValue = (record as any)[field];
-      
-      if (condition === undefined || condition === null) {
-        return true;
-      }
-      
-      // 数组条件（多选）
-      if (Array.isArray(condition)) {
-        return condition.length === 0 || condition.includes(recordValue);
-      }
-      
-      // 单值条件
-      return recordValue === condition;
-    });
+    return Object.entries(filters).every(([field, condition]) =>
+      matchesFilterCondition((record as any)[field], condition)
+    );
   });
 }
 
@@ -338,16 +618,5 @@ export function exportToCSV(data: InsuranceRecord[], filename: string = 'insuran
     header: true
   });
   
-  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
-  const link = document.createElement('a');
-  
-  if (link.download !== undefined) {
-    const url = URL.createObjectURL(blob);
-    link.setAttribute('href', url);
-    link.setAttribute('download', filename);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-  }
+  downloadBlob(csv, filename, 'text/csv;charset=utf-8;');
 }
\ No newline at end of file
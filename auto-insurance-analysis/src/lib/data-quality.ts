@@ -0,0 +1,452 @@
+/**
+ * 车险多维分析系统 - 数据质量评分
+ * 按PRD要求从完整性、准确性、一致性、及时性四个维度为数据集打分，
+ * 支持按来源文件、周次、三级机构分组评分，并定位各维度的问题行
+ */
+
+import { InsuranceRecord } from '@/types/insurance';
+import { CSV_FIELD_MAPPING, DIMENSION_FIELDS, DISPLAY_NAMES } from '@/lib/constants';
+import { inspectRecord } from '@/lib/calculations';
+import { evaluateBusinessRules } from '@/lib/business-rules';
+import { ENUM_FIELDS, isAllowedValue } from '@/lib/enum-validation';
+import { getPartitionKey } from '@/lib/columnar-store';
+
+/**
+ * 质量维度
+ */
+export type QualityDimension = 'completeness' | 'accuracy' | 'consistency' | 'timeliness';
+
+/**
+ * 分组方式
+ */
+export type QualityGroupBy = 'file' | 'week' | 'organization';
+
+/**
+ * 各维度得分（0-100），overall为四个维度的平均分
+ */
+export type QualityScores = Record<QualityDimension | 'overall', number>;
+
+/**
+ * 分组评分
+ */
+export interface QualityGroupScore {
+  key: string;
+  label: string;
+  recordCount: number;
+  scores: QualityScores;
+  issueCounts: Record<QualityDimension, number>;   // 各维度问题行数
+}
+
+/**
+ * 重复的维度主键
+ */
+export interface DuplicateKeyGroup {
+  key: string;
+  count: number;
+  rows: number[];                                  // 数据集中的行序号
+}
+
+/**
+ * 数据质量评分报告
+ */
+export interface DataQualityScoreReport {
+  totalRecords: number;
+  scores: QualityScores;
+  issueCounts: Record<QualityDimension, number>;
+  groups: Record<QualityGroupBy, QualityGroupScore[]>;
+  duplicates: {
+    groupCount: number;                            // 重复主键个数
+    recordCount: number;                           // 多出的重复行数
+    samples: DuplicateKeyGroup[];
+  };
+}
+
+/**
+ * 问题行
+ */
+export interface QualityIssueRow {
+  row: number;                                     // 数据集中的行序号
+  dimension: QualityDimension;
+  messages: string[];
+  record: InsuranceRecord;
+}
+
+/**
+ * 问题行查询条件
+ */
+export interface QualityIssueQuery {
+  dimension: QualityDimension;
+  groupBy?: QualityGroupBy;
+  groupKey?: string;
+  limit?: number;
+}
+
+/**
+ * 质量维度显示名称
+ */
+export const QUALITY_DIMENSION_LABELS: Record<QualityDimension, string> = {
+  completeness: '完整性',
+  accuracy: '准确性',
+  consistency: '一致性',
+  timeliness: '及时性'
+};
+
+/**
+ * 质量维度说明
+ */
+export const QUALITY_DIMENSION_DESCRIPTIONS: Record<QualityDimension, string> = {
+  completeness: '全部规范字段的填充率',
+  accuracy: '无必填、范围、枚举错误的记录占比',
+  consistency: '不违反业务规则且维度主键不重复的记录占比',
+  timeliness: '快照日期与周序号对应周末相差不超过容忍天数的记录占比'
+};
+
+/**
+ * 分组方式显示名称
+ */
+export const QUALITY_GROUP_LABELS: Record<QualityGroupBy, string> = {
+  file: '按文件',
+  week: '按周次',
+  organization: '按机构'
+};
+
+export const QUALITY_DIMENSIONS = Object.keys(QUALITY_DIMENSION_LABELS) as QualityDimension[];
+
+/**
+ * 及时性容忍天数：快照日期与周序号对应周日相差超过该天数视为不及时
+ */
+export const TIMELINESS_TOLERANCE_DAYS = 7;
+
+/**
+ * 未记录来源文件的分组名称
+ */
+export const UNKNOWN_SOURCE_FILE = '未记录来源';
+
+/**
+ * 报告中保留的重复主键示例数量
+ */
+const DUPLICATE_SAMPLE_LIMIT = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 完整性检查的字段：CSV规范中的全部字段
+ */
+const COMPLETENESS_FIELDS = Object.values(CSV_FIELD_MAPPING) as (keyof InsuranceRecord)[];
+
+/**
+ * 单条记录的质量检查结果
+ */
+interface RecordAssessment {
+  missingCells: number;
+  issues: Partial<Record<QualityDimension, string[]>>;
+}
+
+/**
+ * 生成记录的维度主键（17个维度，含快照日期）
+ * @param record 记录
+ * @returns 主键
+ */
+function getDimensionKey(record: InsuranceRecord): string {
+  return DIMENSION_FIELDS.map(field => String(record[field] ?? '')).join('|');
+}
+
+/**
+ * 计算ISO周的周日（UTC零点）
+ * @param year ISO周所属年份
+ * @param week 周序号
+ * @returns 时间戳
+ */
+function getIsoWeekEnd(year: number, week: number): number {
+  const jan4 = Date.UTC(year, 0, 4);
+  const weekday = (new Date(jan4).getUTCDay() + 6) % 7;
+  return jan4 - weekday * DAY_MS + ((week - 1) * 7 + 6) * DAY_MS;
+}
+
+/**
+ * 计算快照日期相对周序号对应周日的偏差天数（在快照前后一年中取最接近的周）
+ * @param snapshotDate 快照日期（YYYY-MM-DD 或 YYYY/MM/DD）
+ * @param week 周序号
+ * @returns 偏差天数，日期无法解析时返回null
+ */
+export function getSnapshotLagDays(snapshotDate: string, week: number): number | null {
+  const match = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})/.exec(snapshotDate);
+  if (!match) return null;
+  const year = Number(match[1]);
+  const snapshot = Date.UTC(year, Number(match[2]) - 1, Number(match[3]));
+
+  return [year - 1, year, year + 1]
+    .map(candidate => Math.round((snapshot - getIsoWeekEnd(candidate, week)) / DAY_MS))
+    .reduce((best, lag) => (Math.abs(lag) < Math.abs(best) ? lag : best));
+}
+
+/**
+ * 检查单条记录（重复主键单独统计）
+ * @param record 记录
+ * @returns 缺失单元格数与各维度问题
+ */
+function assessRecord(record: InsuranceRecord): RecordAssessment {
+  const issues: RecordAssessment['issues'] = {};
+  const add = (dimension: QualityDimension, message: string) => {
+    (issues[dimension] ??= []).push(message);
+  };
+
+  // 完整性
+  const missing = COMPLETENESS_FIELDS.filter(field => {
+    const value = record[field];
+    return value === undefined || value === null || value === '';
+  });
+  if (missing.length > 0) {
+    add('completeness', `缺少${missing.map(field => DISPLAY_NAMES[field as keyof typeof DISPLAY_NAMES] ?? field).join('、')}`);
+  }
+
+  // 准确性：必填/范围错误与枚举值
+  inspectRecord(record)
+    .filter(issue => issue.severity === 'error' && issue.rule !== 'business')
+    .forEach(issue => add('accuracy', issue.message));
+  ENUM_FIELDS.forEach(field => {
+    const value = record[field];
+    if (value !== undefined && value !== '' && !isAllowedValue(field, value)) {
+      add('accuracy', `${DISPLAY_NAMES[field]}取值"${value}"不在允许范围内`);
+    }
+  });
+
+  // 一致性：错误与警告级业务规则
+  evaluateBusinessRules(record)
+    .filter(issue => issue.severity !== 'info')
+    .forEach(issue => add('consistency', issue.message));
+
+  // 及时性
+  if (!record.snapshot_date) {
+    add('timeliness', '缺少数据快照日期');
+  } else if (record.week_number) {
+    const lag = getSnapshotLagDays(record.snapshot_date, record.week_number);
+    if (lag === null) {
+      add('timeliness', `数据快照日期"${record.snapshot_date}"无法识别`);
+    } else if (Math.abs(lag) > TIMELINESS_TOLERANCE_DAYS) {
+      add('timeliness', `快照日期与第${record.week_number}周周末相差${lag}天`);
+    }
+  }
+
+  return { missingCells: missing.length, issues };
+}
+
+/**
+ * 查找重复的维度主键
+ * @param records 记录
+ * @returns 重复主键（按重复次数降序）与每行是否为重复行（首次出现不计）
+ */
+export function findDuplicateKeys(records: InsuranceRecord[]): { groups: DuplicateKeyGroup[]; duplicateRows: Set<number> } {
+  const firstRows = new Map<string, number>();
+  const groups = new Map<string, DuplicateKeyGroup>();
+  const duplicateRows = new Set<number>();
+
+  records.forEach((record, row) => {
+    const key = getDimensionKey(record);
+    const first = firstRows.get(key);
+    if (first === undefined) {
+      firstRows.set(key, row);
+      return;
+    }
+    duplicateRows.add(row);
+    const group = groups.get(key) ?? { key, count: 1, rows: [first] };
+    group.count++;
+    group.rows.push(row);
+    groups.set(key, group);
+  });
+
+  return {
+    groups: Array.from(groups.values()).sort((a, b) => b.count - a.count),
+    duplicateRows
+  };
+}
+
+/**
+ * 检查数据集中的全部记录
+ * @param records 记录
+ * @returns 每行的检查结果（一致性问题含重复主键）与重复主键
+ */
+function assessRecords(records: InsuranceRecord[]): {
+  assessments: RecordAssessment[];
+  duplicates: DuplicateKeyGroup[];
+} {
+  const { groups, duplicateRows } = findDuplicateKeys(records);
+  const assessments = records.map((record, row) => {
+    const assessment = assessRecord(record);
+    if (duplicateRows.has(row)) {
+      (assessment.issues.consistency ??= []).push('维度主键与其他行重复');
+    }
+    return assessment;
+  });
+  return { assessments, duplicates: groups };
+}
+
+/**
+ * 计算记录所属分组
+ * @param record 记录
+ * @param groupBy 分组方式
+ * @param sources 分区键 → 来源文件名
+ * @returns 分组键与名称
+ */
+function getGroup(
+  record: InsuranceRecord,
+  groupBy: QualityGroupBy,
+  sources: Map<string, string>
+): { key: string; label: string } {
+  switch (groupBy) {
+    case 'file': {
+      const file = sources.get(getPartitionKey(record.policy_start_year, record.week_number)) ?? UNKNOWN_SOURCE_FILE;
+      return { key: file, label: file };
+    }
+    case 'week':
+      return { key: String(record.week_number ?? ''), label: record.week_number ? `第${record.week_number}周` : '未知周次' };
+    case 'organization': {
+      const organization = record.third_level_organization || '未知机构';
+      return { key: organization, label: organization };
+    }
+  }
+}
+
+/**
+ * 评分累加器
+ */
+interface ScoreAccumulator {
+  key: string;
+  label: string;
+  recordCount: number;
+  missingCells: number;
+  issueCounts: Record<QualityDimension, number>;
+}
+
+/**
+ * 创建评分累加器
+ */
+function createAccumulator(key: string, label: string): ScoreAccumulator {
+  return {
+    key,
+    label,
+    recordCount: 0,
+    missingCells: 0,
+    issueCounts: { completeness: 0, accuracy: 0, consistency: 0, timeliness: 0 }
+  };
+}
+
+/**
+ * 累加单条记录的检查结果
+ * @param accumulator 累加器
+ * @param assessment 检查结果
+ */
+function accumulate(accumulator: ScoreAccumulator, assessment: RecordAssessment): void {
+  accumulator.recordCount++;
+  accumulator.missingCells += assessment.missingCells;
+  QUALITY_DIMENSIONS.forEach(dimension => {
+    if (assessment.issues[dimension]) accumulator.issueCounts[dimension]++;
+  });
+}
+
+/**
+ * 由累加器计算得分：完整性按单元格填充率，其余维度按无问题记录占比
+ * @param accumulator 累加器
+ * @returns 各维度得分
+ */
+function toScores(accumulator: ScoreAccumulator): QualityScores {
+  const { recordCount, missingCells, issueCounts } = accumulator;
+  const ratio = (bad: number, total: number) => (total > 0 ? ((total - bad) / total) * 100 : 100);
+  const scores = {
+    completeness: ratio(missingCells, recordCount * COMPLETENESS_FIELDS.length),
+    accuracy: ratio(issueCounts.accuracy, recordCount),
+    consistency: ratio(issueCounts.consistency, recordCount),
+    timeliness: ratio(issueCounts.timeliness, recordCount)
+  };
+  const overall = QUALITY_DIMENSIONS.reduce((sum, dimension) => sum + scores[dimension], 0) / QUALITY_DIMENSIONS.length;
+  return { ...scores, overall };
+}
+
+/**
+ * 计算数据质量评分报告
+ * @param records 全部记录
+ * @param sources 分区键 → 来源文件名（由数据集版本得出），缺省时全部计入"未记录来源"
+ * @returns 评分报告
+ */
+export function computeQualityReport(
+  records: InsuranceRecord[],
+  sources: Map<string, string> = new Map()
+): DataQualityScoreReport {
+  const { assessments, duplicates } = assessRecords(records);
+  const total = createAccumulator('', '全部');
+  const groupAccumulators: Record<QualityGroupBy, Map<string, ScoreAccumulator>> = {
+    file: new Map(),
+    week: new Map(),
+    organization: new Map()
+  };
+
+  records.forEach((record, row) => {
+    const assessment = assessments[row];
+    accumulate(total, assessment);
+    (Object.keys(groupAccumulators) as QualityGroupBy[]).forEach(groupBy => {
+      const { key, label } = getGroup(record, groupBy, sources);
+      const accumulators = groupAccumulators[groupBy];
+      let accumulator = accumulators.get(key);
+      if (!accumulator) {
+        accumulator = createAccumulator(key, label);
+        accumulators.set(key, accumulator);
+      }
+      accumulate(accumulator, assessment);
+    });
+  });
+
+  const toGroupScores = (accumulators: Map<string, ScoreAccumulator>): QualityGroupScore[] =>
+    Array.from(accumulators.values())
+      .map(accumulator => ({
+        key: accumulator.key,
+        label: accumulator.label,
+        recordCount: accumulator.recordCount,
+        scores: toScores(accumulator),
+        issueCounts: accumulator.issueCounts
+      }))
+      .sort((a, b) => a.scores.overall - b.scores.overall);
+
+  return {
+    totalRecords: records.length,
+    scores: toScores(total),
+    issueCounts: total.issueCounts,
+    groups: {
+      file: toGroupScores(groupAccumulators.file),
+      week: toGroupScores(groupAccumulators.week),
+      organization: toGroupScores(groupAccumulators.organization)
+    },
+    duplicates: {
+      groupCount: duplicates.length,
+      recordCount: duplicates.reduce((sum, group) => sum + group.count - 1, 0),
+      samples: duplicates.slice(0, DUPLICATE_SAMPLE_LIMIT)
+    }
+  };
+}
+
+/**
+ * 查找某质量维度下的问题行（可限定分组），用于下钻
+ * @param records 全部记录
+ * @param query 查询条件
+ * @param sources 分区键 → 来源文件名
+ * @returns 问题行（按数据集顺序，最多 limit 条）与问题行总数
+ */
+export function findQualityIssues(
+  records: InsuranceRecord[],
+  query: QualityIssueQuery,
+  sources: Map<string, string> = new Map()
+): { rows: QualityIssueRow[]; total: number } {
+  const { dimension, groupBy, groupKey, limit = 200 } = query;
+  const { assessments } = assessRecords(records);
+  const rows: QualityIssueRow[] = [];
+  let total = 0;
+
+  records.forEach((record, row) => {
+    const messages = assessments[row].issues[dimension];
+    if (!messages) return;
+    if (groupBy && groupKey !== undefined && getGroup(record, groupBy, sources).key !== groupKey) return;
+    total++;
+    if (rows.length < limit) rows.push({ row, dimension, messages, record });
+  });
+
+  return { rows, total };
+}
@@ -0,0 +1,217 @@
+/**
+ * 车险多维分析系统 - 数据目录扫描器
+ * 扫描 data4dash/data-{YYYY}/ 下的周度CSV文件，生成元数据并按年度/周次读取记录
+ * 仅可在Node.js运行时中引用
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import Papa from 'papaparse';
+import {
+  AvailableWeeks,
+  AvailableYears,
+  DataCatalog,
+  DataDirectoryScan,
+  InsuranceRecord
+} from '@/types/insurance';
+import { transformRowToRecord } from '@/lib/data-processor';
+import { ApiRequestError } from '@/lib/api-utils';
+
+/**
+ * 数据根目录，可通过 DATA4DASH_DIR 环境变量覆盖
+ */
+export const DATA4DASH_ROOT = process.env.DATA4DASH_DIR || path.join(process.cwd(), 'data4dash');
+
+const YEAR_DIR_PATTERN = /^data-(\d{4})$/;
+const WEEK_FILE_PATTERN = /^(\d{4})保单第(\d{1,2})周变动成本明细表\.csv$/;
+const METADATA_DIR = 'metadata';
+
+/**
+ * 扫描得到的单个周度文件
+ */
+interface WeekFile {
+  year: number;
+  week: number;
+  relativePath: string;
+}
+
+/**
+ * 列出年度目录下符合命名规范的周度文件
+ * @param rootDir 数据根目录
+ * @returns 周度文件列表（按年度、周次排序）
+ */
+async function listWeekFiles(rootDir: string): Promise<WeekFile[]> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(rootDir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const files: WeekFile[] = [];
+
+  for (const entry of entries) {
+    const yearMatch = entry.match(YEAR_DIR_PATTERN);
+    if (!yearMatch) continue;
+
+    const dirYear = Number(yearMatch[1]);
+    const yearDir = path.join(rootDir, entry);
+    if (!(await fs.stat(yearDir)).isDirectory()) continue;
+
+    for (const fileName of await fs.readdir(yearDir)) {
+      const fileMatch = fileName.match(WEEK_FILE_PATTERN);
+      // 文件名中的年度必须与所在年度目录一致
+      if (!fileMatch || Number(fileMatch[1]) !== dirYear) continue;
+
+      files.push({
+        year: dirYear,
+        week: Number(fileMatch[2]),
+        relativePath: path.posix.join(entry, fileName)
+      });
+    }
+  }
+
+  return files.sort((a, b) => a.year - b.year || a.week - b.week);
+}
+
+/**
+ * 计算缺失周次（各年度最小周与最大周之间未出现的周次）
+ * @param availableWeeks 各年度可用周次
+ * @returns 各年度缺失周次，无缺失的年度不出现
+ */
+export function findMissingWeeks(availableWeeks: AvailableWeeks): DataCatalog['missingWeeks'] {
+  const missingWeeks: DataCatalog['missingWeeks'] = {};
+
+  Object.entries(availableWeeks).forEach(([year, weeks]) => {
+    if (weeks.length === 0) return;
+    const present = new Set(weeks);
+    const missing: number[] = [];
+    for (let week = Math.min(...weeks); week <= Math.max(...weeks); week++) {
+      if (!present.has(week)) missing.push(week);
+    }
+    if (missing.length > 0) {
+      missingWeeks[year] = missing;
+    }
+  });
+
+  return missingWeeks;
+}
+
+/**
+ * 写入元数据文件 available_years.json / available_weeks.json / data_catalog.json
+ * @param rootDir 数据根目录
+ * @param scan 扫描结果
+ */
+async function writeMetadata(rootDir: string, scan: DataDirectoryScan): Promise<void> {
+  const metadataDir = path.join(rootDir, METADATA_DIR);
+  await fs.mkdir(metadataDir, { recursive: true });
+
+  const write = (fileName: string, content: unknown) =>
+    fs.writeFile(path.join(metadataDir, fileName), JSON.stringify(content, null, 2), 'utf-8');
+
+  await Promise.all([
+    write('available_years.json', scan.availableYears),
+    write('available_weeks.json', scan.availableWeeks),
+    write('data_catalog.json', scan.catalog)
+  ]);
+}
+
+/**
+ * 扫描数据目录并刷新元数据
+ * @param rootDir 数据根目录
+ * @returns 数据目录、可用年度与可用周次
+ */
+export async function scanDataDirectory(rootDir: string = DATA4DASH_ROOT): Promise<DataDirectoryScan> {
+  const files = await listWeekFiles(rootDir);
+  const scanTime = new Date().toISOString();
+
+  const availableWeeks: AvailableWeeks = {};
+  files.forEach(file => {
+    const key = String(file.year);
+    availableWeeks[key] = [...(availableWeeks[key] || []), file.week];
+  });
+
+  const years = Object.keys(availableWeeks).map(Number).sort((a, b) => a - b);
+
+  const availableYears: AvailableYears = {
+    years,
+    lastUpdated: scanTime
+  };
+
+  const catalog: DataCatalog = {
+    totalYears: years.length,
+    totalFiles: files.length,
+    filePaths: files.map(file => file.relativePath),
+    missingWeeks: findMissingWeeks(availableWeeks),
+    lastScanTime: scanTime
+  };
+
+  const scan: DataDirectoryScan = { catalog, availableYears, availableWeeks };
+  await writeMetadata(rootDir, scan);
+  return scan;
+}
+
+/**
+ * 解析单个周度CSV文件
+ * 文件缺少年度/周次列时以文件名中的年度与周次补齐
+ * @param filePath 文件绝对路径
+ * @param file 周度文件信息
+ * @returns 记录数组
+ */
+async function parseWeekFile(filePath: string, file: WeekFile): Promise<InsuranceRecord[]> {
+  let content: string;
+  try {
+    content = (await fs.readFile(filePath, 'utf-8')).replace(/^\uFEFF/, '');
+  } catch (error) {
+    // 扫描后文件被移除
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new ApiRequestError(`${path.basename(filePath)} 不存在`, 404);
+    }
+    throw error;
+  }
+
+  const parseResult = Papa.parse<Record<string, string>>(content, {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: (header: string) => header.trim()
+  });
+
+  if (parseResult.errors.length > 0) {
+    const first = parseResult.errors[0];
+    throw new ApiRequestError(`${path.basename(filePath)} 解析失败（第${(first.row ?? 0) + 2}行）: ${first.message}`, 422);
+  }
+
+  return parseResult.data.map(row => ({
+    policy_start_year: file.year,
+    week_number: file.week,
+    ...transformRowToRecord(row)
+  }) as InsuranceRecord);
+}
+
+/**
+ * 按年度与周次读取数据文件
+ * @param year 起保年度
+ * @param week 周序号，缺省时读取该年度全部周次
+ * @param rootDir 数据根目录
+ * @returns 记录数组
+ */
+export async function loadWeekData(
+  year: number,
+  week?: number,
+  rootDir: string = DATA4DASH_ROOT
+): Promise<InsuranceRecord[]> {
+  const files = (await listWeekFiles(rootDir))
+    .filter(file => file.year === year && (week === undefined || file.week === week));
+
+  if (files.length === 0) {
+    throw new ApiRequestError(week === undefined ? `${year}年度没有可用数据文件` : `${year}年第${week}周数据文件不存在`, 404);
+  }
+
+  const records: InsuranceRecord[] = [];
+  for (const file of files) {
+    const fileRecords = await parseWeekFile(path.join(rootDir, file.relativePath), file);
+    fileRecords.forEach(record => records.push(record));
+  }
+  return records;
+}
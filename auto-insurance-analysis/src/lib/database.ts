@@ -3,9 +3,49 @@
  * 基于PRD文档的17个筛选维度和19个核心指标字段
  */
 
-import { InsuranceRecord, FilterConditions, AnalysisResult } from '@/types/insurance';
-import { getStoredData, filterData, sortData, paginateData } from '@/lib/data-processor';
-import { groupByAndCalculate, calculateAnalysisResult } from '@/lib/calculations';
+import {
+  InsuranceRecord,
+  FilterConditions,
+  FilterDimensions,
+  AnalysisResult,
+  DatasetVersion,
+  DatasetVersionDiff,
+  ImportMode,
+  ImportPreview,
+  ImportSource
+} from '@/types/insurance';
+import { filterData, sortData, paginateData } from '@/lib/data-processor';
+import {
+  groupByAndCalculate,
+  calculateAnalysisResult,
+  getTimeSeriesDimensions,
+  sortTimeSeries,
+  TimeSeriesGroupBy
+} from '@/lib/calculations';
+import { ColumnarStore, getColumnarStore, toPartitionFilter } from '@/lib/columnar-store';
+import { planStoreImport } from '@/lib/import-modes';
+import {
+  VersionArchive,
+  diffVersions,
+  getVersionArchive,
+  hashRecords,
+  importWithVersion,
+  rollbackToVersion
+} from '@/lib/dataset-versions';
+import { RuleViolationSummary, summarizeRuleViolations } from '@/lib/business-rules';
+import {
+  DataQualityScoreReport,
+  QualityIssueQuery,
+  QualityIssueRow,
+  computeQualityReport,
+  findDuplicateKeys,
+  findQualityIssues
+} from '@/lib/data-quality';
+import { ReconciliationOptions, ReconciliationReport, reconcileWeeks } from '@/lib/week-reconciliation';
+import { AlertEvaluation, AlertRule, evaluateAlertsOnRecords } from '@/lib/alert-rules';
+import { RiskMonitorReport, buildRiskReport } from '@/lib/risk-monitoring';
+import { MetricCalculationResult, calculateMetricsByDimensions } from '@/services/metricCalculator';
+import { FacetCounts, computeFacetCounts } from '@/lib/facets';
 
 /**
  * 数据库架构设计
@@ -21,7 +61,8 @@ import { groupByAndCalculate, calculateAnalysisResult } from '@/lib/calculations
  * 5. 复合索引: (policy_start_year, week_number, third_level_organization)
  * 
  * 分区策略:
- * 按年度分区，提高查询性能
+ * 按 (policy_start_year, week_number) 分区，分区内以列数组存储于IndexedDB，
+ * 查询时根据年度/周次筛选条件裁剪分区
  */
 
 export interface DatabaseConfig {
@@ -33,23 +74,55 @@ export interface DatabaseConfig {
   password?: string;
   
   // 本地存储配置
-  useLocalStorage: boolean;
+  store?: ColumnarStore;               // 列式存储实现，缺省时使用共享实例
+  versions?: VersionArchive;           // 版本存档实现，缺省时使用共享实例
   maxRecords: number;
   cacheTimeout: number;
 }
 
 export class InsuranceDatabase {
   private config: DatabaseConfig;
-  private cache: Map<string, { data: any; timestamp: number }> = new Map();
+  private cache: Map<string, { data: any; timestamp: number; revision: number }> = new Map();
+  private writeQueue: Promise<void> = Promise.resolve();
 
   constructor(config: DatabaseConfig = {
-    useLocalStorage: true,
     maxRecords: 100000,
     cacheTimeout: 300000 // 5分钟
   }) {
     this.config = config;
   }
 
+  /**
+   * 获取列式存储（延迟解析，避免服务端渲染时提前选定实现）
+   */
+  private get store(): ColumnarStore {
+    if (!this.config.store) {
+      this.config.store = getColumnarStore();
+    }
+    return this.config.store;
+  }
+
+  /**
+   * 获取版本存档（延迟解析，与列式存储一致）
+   */
+  private get versionArchive(): VersionArchive {
+    if (!this.config.versions) {
+      this.config.versions = getVersionArchive();
+    }
+    return this.config.versions;
+  }
+
+  /**
+   * 串行执行写入操作（导入、回滚、清空），避免多个请求同时读-改-写分区与版本索引
+   * @param task 写入操作
+   * @returns 操作结果
+   */
+  private runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(task);
+    this.writeQueue = result.then(() => undefined, () => undefined);
+    return result;
+  }
+
   /**
    * 获取缓存键
    */
@@ -58,10 +131,10 @@ export class InsuranceDatabase {
   }
 
   /**
-   * 检查缓存是否有效
+   * 检查缓存是否有效（未过期且存储未发生写入）
    */
-  private isCacheValid(timestamp: number): boolean {
-    return Date.now() - timestamp < this.config.cacheTimeout;
+  private isCacheValid(timestamp: number, revision: number): boolean {
+    return Date.now() - timestamp < this.config.cacheTimeout && revision === this.store.revision;
   }
 
   /**
@@ -70,7 +143,8 @@ export class InsuranceDatabase {
   private setCache(key: string, data: any): void {
     this.cache.set(key, {
       data,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      revision: this.store.revision
     });
   }
 
@@ -79,7 +153,7 @@ export class InsuranceDatabase {
    */
   private getCache(key: string): any | null {
     const cached = this.cache.get(key);
-    if (cached && this.isCacheValid(cached.timestamp)) {
+    if (cached && this.isCacheValid(cached.timestamp, cached.revision)) {
       return cached.data;
     }
     return null;
@@ -96,11 +170,21 @@ export class InsuranceDatabase {
    * 查询所有记录
    */
   async findAll(): Promise<InsuranceRecord[]> {
-    const cacheKey = this.getCacheKey('findAll', {});
+    return this.loadPartitions({});
+  }
+
+  /**
+   * 按筛选条件裁剪分区后加载记录（未做维度筛选）
+   * @param filters 筛选条件
+   * @returns 命中分区内的全部记录
+   */
+  private async loadPartitions(filters: FilterConditions): Promise<InsuranceRecord[]> {
+    const partitionFilter = toPartitionFilter(filters);
+    const cacheKey = this.getCacheKey('loadPartitions', partitionFilter);
     const cached = this.getCache(cacheKey);
     if (cached) return cached;
 
-    const data = getStoredData();
+    const data = await this.store.readRecords(partitionFilter);
     this.setCache(cacheKey, data);
     return data;
   }
@@ -127,8 +211,8 @@ export class InsuranceDatabase {
     const cached = this.getCache(cacheKey);
     if (cached) return cached;
 
-    // 获取所有数据
-    const allData = await this.findAll();
+    // 获取命中分区的数据
+    const allData = await this.loadPartitions(filters);
     
     // 应用筛选条件
     let filteredData = filterData(allData, filters);
@@ -160,7 +244,7 @@ export class InsuranceDatabase {
     if (cached) return cached;
 
     // 获取筛选后的数据
-    const allData = await this.findAll();
+    const allData = await this.loadPartitions(filters);
     const filteredData = filterData(allData, filters);
     
     // 按维度分组并计算
@@ -183,7 +267,7 @@ export class InsuranceDatabase {
     const cached = this.getCache(cacheKey);
     if (cached) return cached;
 
-    const allData = await this.findAll();
+    const allData = await this.loadPartitions(filters);
     const filteredData = filterData(allData, filters);
     
     const result = calculateAnalysisResult(filteredData);
@@ -196,41 +280,17 @@ export class InsuranceDatabase {
    * 时间序列分析
    */
   async getTimeSeriesData(
-    groupBy: 'year' | 'week' | 'year_week',
+    groupBy: TimeSeriesGroupBy,
     filters: FilterConditions = {}
   ): Promise<AnalysisResult[]> {
     const cacheKey = this.getCacheKey('getTimeSeriesData', { groupBy, filters });
     const cached = this.getCache(cacheKey);
     if (cached) return cached;
 
-    let dimensions: (keyof InsuranceRecord)[];
-    
-    switch (groupBy) {
-      case 'year':
-        dimensions = ['policy_start_year'];
-        break;
-      case 'week':
-        dimensions = ['week_number'];
-        break;
-      case 'year_week':
-        dimensions = ['policy_start_year', 'week_number'];
-        break;
-    }
-
-    const result = await this.aggregateByDimensions(dimensions, filters);
+    const result = await this.aggregateByDimensions(getTimeSeriesDimensions(groupBy), filters);
     
     // 按时间排序
-    const sortedResult = result.sort((a, b) => {
-      if (groupBy === 'year') {
-        return (a.dimensions.policy_start_year || 0) - (b.dimensions.policy_start_year || 0);
-      } else if (groupBy === 'week') {
-        return (a.dimensions.week_number || 0) - (b.dimensions.week_number || 0);
-      } else {
-        const yearDiff = (a.dimensions.policy_start_year || 0) - (b.dimensions.policy_start_year || 0);
-        if (yearDiff !== 0) return yearDiff;
-        return (a.dimensions.week_number || 0) - (b.dimensions.week_number || 0);
-      }
-    });
+    const sortedResult = sortTimeSeries(result, groupBy);
 
     this.setCache(cacheKey, sortedResult);
     return sortedResult;
@@ -254,13 +314,14 @@ export class InsuranceDatabase {
   }
 
   /**
-   * 获取数据质量报告
+   * 获取数据质量报告（含各业务规则的违反统计）
    */
   async getDataQualityReport(): Promise<{
     totalRecords: number;
     completenessReport: { [field: string]: { total: number; missing: number; rate: number } };
     duplicateRecords: number;
     dataRanges: { [field: string]: { min: any; max: any } };
+    ruleViolations: RuleViolationSummary[];
   }> {
     const cacheKey = this.getCacheKey('getDataQualityReport', {});
     const cached = this.getCache(cacheKey);
@@ -305,14 +366,15 @@ export class InsuranceDatabase {
       }
     });
 
-    // 重复记录检查（简化版本）
-    const duplicateRecords = 0; // 实际应用中需要更复杂的逻辑
+    // 重复记录检查：17个维度完全相同的行（首次出现不计）
+    const duplicateRecords = findDuplicateKeys(allData).duplicateRows.size;
 
     const result = {
       totalRecords,
       completenessReport,
       duplicateRecords,
-      dataRanges
+      dataRanges,
+      ruleViolations: summarizeRuleViolations(allData)
     };
 
     this.setCache(cacheKey, result);
@@ -320,41 +382,228 @@ export class InsuranceDatabase {
   }
 
   /**
-   * 批量插入记录
+   * 分区键 → 最近一次写入该分区的导入文件
    */
-  async insertBatch(records: InsuranceRecord[]): Promise<{ success: boolean; insertedCount: number }> {
+  private async getPartitionSources(): Promise<Map<string, string>> {
+    const sources = new Map<string, string>();
+    const versions = await this.versionArchive.listVersions();
+    versions.forEach(version => {
+      version.partitionKeys.forEach(key => sources.set(key, version.fileName));
+    });
+    return sources;
+  }
+
+  /**
+   * 获取完整性、准确性、一致性、及时性四维度的数据质量评分
+   */
+  async getQualityScoreReport(): Promise<DataQualityScoreReport> {
+    const cacheKey = this.getCacheKey('getQualityScoreReport', {});
+    const cached = this.getCache(cacheKey);
+    if (cached) return cached;
+
+    const result = computeQualityReport(await this.findAll(), await this.getPartitionSources());
+    this.setCache(cacheKey, result);
+    return result;
+  }
+
+  /**
+   * 查询某质量维度下的问题行
+   * @param query 质量维度、分组与条数限制
+   */
+  async getQualityIssues(query: QualityIssueQuery): Promise<{ rows: QualityIssueRow[]; total: number }> {
+    return findQualityIssues(await this.findAll(), query, await this.getPartitionSources());
+  }
+
+  /**
+   * 跨周一致性核对：相邻周次同一切片的累计字段回退、跳变与缺失周次
+   * @param options 覆盖默认值的核对选项（容忍度、字段、切片维度）
+   */
+  async reconcileWeeks(options: Partial<ReconciliationOptions> = {}): Promise<ReconciliationReport> {
+    const cacheKey = this.getCacheKey('reconcileWeeks', options);
+    const cached = this.getCache(cacheKey);
+    if (cached) return cached;
+
+    const result = reconcileWeeks(await this.store.readPartitions(), options);
+    this.setCache(cacheKey, result);
+    return result;
+  }
+
+  /**
+   * 在筛选后的数据上评估预警规则（每条规则按自身范围维度分组）
+   * @param rules 预警规则
+   * @param filters 筛选条件
+   */
+  async evaluateAlerts(rules: AlertRule[], filters: FilterConditions = {}): Promise<AlertEvaluation> {
+    const cacheKey = this.getCacheKey('evaluateAlerts', { rules, filters });
+    const cached = this.getCache(cacheKey);
+    if (cached) return cached;
+
+    const allData = await this.loadPartitions(filters);
+    const result = evaluateAlertsOnRecords(filterData(allData, filters), rules);
+    this.setCache(cacheKey, result);
+    return result;
+  }
+
+  /**
+   * 风险监控：按维度组合计算各业务单元的风险级别与保费敞口
+   * @param dimensions 监控维度组合
+   * @param rules 预警规则
+   * @param filters 筛选条件
+   */
+  async getRiskReport(
+    dimensions: (keyof FilterDimensions)[],
+    rules: AlertRule[],
+    filters: FilterConditions = {}
+  ): Promise<RiskMonitorReport> {
+    const cacheKey = this.getCacheKey('getRiskReport', { dimensions, rules, filters });
+    const cached = this.getCache(cacheKey);
+    if (cached) return cached;
+
+    const allData = await this.loadPartitions(filters);
+    const result = buildRiskReport(filterData(allData, filters), dimensions, rules);
+    this.setCache(cacheKey, result);
+    return result;
+  }
+
+  /**
+   * 按维度分组计算指标（含异常标识与数据质量评分）
+   * @param dimensions 分组维度
+   * @param filters 筛选条件
+   */
+  async getMetricsByDimensions(
+    dimensions: (keyof FilterDimensions)[],
+    filters: FilterConditions = {}
+  ): Promise<MetricCalculationResult[]> {
+    const cacheKey = this.getCacheKey('getMetricsByDimensions', { dimensions, filters });
+    const cached = this.getCache(cacheKey);
+    if (cached) return cached;
+
+    const allData = await this.loadPartitions(filters);
+    const result = calculateMetricsByDimensions(filterData(allData, filters), dimensions);
+    this.setCache(cacheKey, result);
+    return result;
+  }
+
+  /**
+   * 分面统计：各维度取值在其余维度筛选条件下的记录数与签单保费（一次遍历）
+   * 年度/周次本身也是分面维度，因此不做分区裁剪
+   * @param filters 筛选条件
+   * @param dimensions 统计的维度，缺省为全部17个维度
+   */
+  async getFacetCounts(
+    filters: FilterConditions = {},
+    dimensions?: (keyof FilterDimensions)[]
+  ): Promise<FacetCounts> {
+    const cacheKey = this.getCacheKey('getFacetCounts', { filters, dimensions });
+    const cached = this.getCache(cacheKey);
+    if (cached) return cached;
+
+    const allData = await this.findAll();
+    const result = computeFacetCounts(allData, filters, dimensions);
+    this.setCache(cacheKey, result);
+    return result;
+  }
+
+  /**
+   * 预览批量写入的变化（不写入存储）
+   * @param records 待写入记录
+   * @param mode 导入模式
+   */
+  async previewImport(records: InsuranceRecord[], mode: ImportMode): Promise<ImportPreview> {
+    const plan = await planStoreImport(this.store, records, mode);
+    return plan.preview;
+  }
+
+  /**
+   * 批量写入记录，每次写入记录为一个数据集版本
+   * @param records 待写入记录
+   * @param mode 导入模式，默认增量追加
+   * @param source 导入来源，缺省时以记录内容计算哈希
+   */
+  async insertBatch(records: InsuranceRecord[], mode: ImportMode = 'append', source?: ImportSource): Promise<{
+    success: boolean;
+    insertedCount: number;
+    updatedCount: number;
+    droppedCount: number;
+    version?: DatasetVersion;
+  }> {
     try {
-      // 在实际应用中，这里应该是数据库插入操作
-      // 目前使用本地存储模拟
-      const existingData = getStoredData();
-      const newData = [...existingData, ...records];
-      
-      localStorage.setItem('insurance_data', JSON.stringify(newData));
-      localStorage.setItem('data_last_updated', new Date().toISOString());
-      
-      // 清除缓存
-      this.clearCache();
+      const importSource = source ?? {
+        fileName: '批量写入',
+        fileHash: await hashRecords(records),
+        operator: '系统'
+      };
+
+      // 按年度/周次分区写入列式存储
+      const { changes, version } = await this.runExclusive(async () => {
+        const imported = await importWithVersion(this.store, this.versionArchive, records, mode, importSource);
+        this.clearCache();
+        return imported;
+      });
       
       return {
         success: true,
-        insertedCount: records.length
+        insertedCount: changes.inserted,
+        updatedCount: changes.updated,
+        droppedCount: changes.dropped,
+        version
       };
     } catch (error) {
-      console.error('批量插入失败:', error);
+      console.error('批量写入失败:', error);
       return {
         success: false,
-        insertedCount: 0
+        insertedCount: 0,
+        updatedCount: 0,
+        droppedCount: 0
       };
     }
   }
 
   /**
-   * 删除所有数据
+   * 列出数据集版本（按版本号升序）
+   */
+  async listVersions(): Promise<DatasetVersion[]> {
+    return this.versionArchive.listVersions();
+  }
+
+  /**
+   * 对比两个版本按三级机构的聚合结果
+   * @param fromVersion 基准版本号
+   * @param toVersion 对比版本号
+   */
+  async diffVersions(fromVersion: number, toVersion: number): Promise<DatasetVersionDiff> {
+    const versions = await this.versionArchive.listVersions();
+    const find = (version: number) => {
+      const found = versions.find(item => item.version === version);
+      if (!found) throw new Error(`版本 ${version} 不存在`);
+      return found;
+    };
+    return diffVersions(find(fromVersion), find(toVersion));
+  }
+
+  /**
+   * 回滚到指定版本导入完成时的状态
+   * @param version 目标版本号，0表示回滚到首个版本导入之前
+   * @returns 被撤销的版本
+   */
+  async rollbackTo(version: number): Promise<DatasetVersion[]> {
+    return this.runExclusive(async () => {
+      const undone = await rollbackToVersion(this.store, this.versionArchive, version);
+      this.clearCache();
+      return undone;
+    });
+  }
+
+  /**
+   * 删除所有数据及版本存档（清空后的数据集不再对应任何历史版本）
    */
   async truncate(): Promise<void> {
-    localStorage.removeItem('insurance_data');
-    localStorage.removeItem('data_last_updated');
-    this.clearCache();
+    await this.runExclusive(async () => {
+      await this.store.clear();
+      const versions = await this.versionArchive.listVersions();
+      await this.versionArchive.removeVersions(versions.map(version => version.id));
+      this.clearCache();
+    });
   }
 
   /**
@@ -365,15 +614,17 @@ export class InsuranceDatabase {
     cacheSize: number;
     lastUpdated: Date | null;
     memoryUsage: number;
+    currentVersion: DatasetVersion | null;
   }> {
-    const data = getStoredData();
-    const lastUpdated = localStorage.getItem('data_last_updated');
+    const meta = await this.store.getMeta();
+    const versions = await this.versionArchive.listVersions();
     
     return {
-      recordCount: data.length,
+      recordCount: meta.recordCount,
       cacheSize: this.cache.size,
-      lastUpdated: lastUpdated ? new Date(lastUpdated) : null,
-      memoryUsage: JSON.stringify(data).length // 粗略估算
+      lastUpdated: meta.lastUpdated,
+      memoryUsage: meta.byteSize, // 列数组字节数估算
+      currentVersion: versions[versions.length - 1] ?? null
     };
   }
 }
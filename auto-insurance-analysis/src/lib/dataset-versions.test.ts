@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { MemoryVersionArchive, hashRecords, importWithVersion } from '@/lib/dataset-versions';
+import { MemoryColumnarStore } from '@/lib/columnar-store';
+import { groupPartitions } from '@/lib/columnar-query';
+import { ImportMode, ImportSource, InsuranceRecord } from '@/types/insurance';
+
+const SOURCE: ImportSource = { fileName: 'test.csv', fileHash: '', operator: '测试' };
+
+const RECORDS = [
+  { policy_start_year: 2025, week_number: 28, signed_premium_yuan: 100 },
+  { policy_start_year: 2025, week_number: 29, signed_premium_yuan: 200 },
+  { policy_start_year: 2025, week_number: 30, signed_premium_yuan: 300 }
+] as InsuranceRecord[];
+
+describe('hashRecords', () => {
+  it('与字段顺序无关，记录内容变化时哈希随之改变', async () => {
+    const hash = await hashRecords(RECORDS, 2);
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    const reordered = RECORDS.map(({ signed_premium_yuan, ...rest }) => ({ signed_premium_yuan, ...rest }) as InsuranceRecord);
+    expect(await hashRecords(reordered, 2)).toBe(hash);
+    expect(await hashRecords([...RECORDS.slice(0, 2), { ...RECORDS[2], signed_premium_yuan: 301 }], 2)).not.toBe(hash);
+  });
+
+  it('空记录也能计算哈希', async () => {
+    expect(await hashRecords([])).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
+
+describe('importWithVersion 机构聚合', () => {
+  function record(organization: string, week: number, premium: number): InsuranceRecord {
+    return {
+      policy_start_year: 2025,
+      week_number: week,
+      third_level_organization: organization,
+      insurance_type: '商业保险',
+      policy_count: 1,
+      signed_premium_yuan: premium,
+      matured_premium_yuan: premium,
+      reported_claim_payment_yuan: premium / 2
+    } as InsuranceRecord;
+  }
+
+  /**
+   * 全量聚合当前存储，作为增量结果的对照
+   */
+  async function fullAggregates(store: MemoryColumnarStore) {
+    return groupPartitions(await store.readPartitions(), ['third_level_organization'])
+      .sort((a, b) => String(a.dimensions.third_level_organization).localeCompare(String(b.dimensions.third_level_organization)));
+  }
+
+  it('增量计算的结果与全量聚合一致', async () => {
+    const store = new MemoryColumnarStore();
+    const archive = new MemoryVersionArchive();
+    const imports: [InsuranceRecord[], ImportMode][] = [
+      [[record('天府', 28, 100), record('高新', 28, 200), record('高新', 29, 300)], 'append'],
+      [[record('青羊', 29, 400)], 'append'],
+      [[record('天府', 28, 500)], 'replace'],
+      [[record('高新', 30, 600)], 'merge']
+    ];
+
+    for (const [records, mode] of imports) {
+      const { version } = await importWithVersion(store, archive, records, mode, SOURCE);
+      expect(version.organizationAggregates).toEqual(await fullAggregates(store));
+      expect(version.rowCounts.total).toBe((await store.getMeta()).recordCount);
+    }
+  });
+
+  it('存储中有未经版本记录的数据时改为全量聚合', async () => {
+    const store = new MemoryColumnarStore();
+    await store.append([record('天府', 28, 100)]);
+
+    const { version } = await importWithVersion(store, new MemoryVersionArchive(), [record('高新', 29, 200)], 'append', SOURCE);
+    expect(version.organizationAggregates).toEqual(await fullAggregates(store));
+  });
+});
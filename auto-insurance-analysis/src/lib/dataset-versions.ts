@@ -0,0 +1,430 @@
+/**
+ * 车险多维分析系统 - 数据集版本管理
+ * 每次导入记录一个版本（来源文件、哈希、行数、快照日期范围、操作人），
+ * 并保存导入前受影响分区的快照，按版本倒序撤销即可回滚；版本间按三级机构对比聚合结果
+ */
+
+import {
+  AggregatedValueFields,
+  AnalysisResult,
+  DatasetVersion,
+  DatasetVersionDiff,
+  ImportMode,
+  ImportPreview,
+  ImportSource,
+  InsuranceRecord,
+  OrganizationVersionDiff
+} from '@/types/insurance';
+import {
+  ColumnarPartition,
+  ColumnarStore,
+  IDB_NAME,
+  buildPartition,
+  decodePartition,
+  promisifyRequest,
+  waitForTransaction
+} from '@/lib/columnar-store';
+import { groupPartitions } from '@/lib/columnar-query';
+import { planStoreImport } from '@/lib/import-modes';
+import { ABSOLUTE_VALUE_FIELDS } from '@/lib/calculations';
+import { METRIC_FORMULAS, computeMetrics } from '@/lib/metric-formulas';
+
+/**
+ * 版本存档接口：版本元信息 + 导入前受影响分区的快照
+ */
+export interface VersionArchive {
+  /** 按版本号升序返回全部版本 */
+  listVersions(): Promise<DatasetVersion[]>;
+  saveVersion(version: DatasetVersion, snapshot: ColumnarPartition[]): Promise<void>;
+  readSnapshot(id: string): Promise<ColumnarPartition[]>;
+  /** 删除版本及其快照 */
+  removeVersions(ids: string[]): Promise<void>;
+}
+
+/**
+ * 按版本号升序排序
+ * @param versions 版本列表
+ * @returns 排序后的新数组
+ */
+export function sortVersions(versions: DatasetVersion[]): DatasetVersion[] {
+  return [...versions].sort((a, b) => a.version - b.version);
+}
+
+/**
+ * 内存版本存档
+ * 用于不支持IndexedDB的运行环境
+ */
+export class MemoryVersionArchive implements VersionArchive {
+  private versions = new Map<string, DatasetVersion>();
+  private snapshots = new Map<string, ColumnarPartition[]>();
+
+  async listVersions(): Promise<DatasetVersion[]> {
+    return sortVersions(Array.from(this.versions.values()));
+  }
+
+  async saveVersion(version: DatasetVersion, snapshot: ColumnarPartition[]): Promise<void> {
+    this.versions.set(version.id, version);
+    this.snapshots.set(version.id, snapshot);
+  }
+
+  async readSnapshot(id: string): Promise<ColumnarPartition[]> {
+    return this.snapshots.get(id) ?? [];
+  }
+
+  async removeVersions(ids: string[]): Promise<void> {
+    ids.forEach(id => {
+      this.versions.delete(id);
+      this.snapshots.delete(id);
+    });
+  }
+}
+
+const VERSION_DB_NAME = `${IDB_NAME}_versions`;
+const VERSION_DB_VERSION = 1;
+const VERSION_STORE = 'versions';
+const SNAPSHOT_STORE = 'snapshots';
+
+/**
+ * 快照仓库中的记录
+ */
+interface SnapshotEntry {
+  versionId: string;
+  key: string;
+  partition: ColumnarPartition;
+}
+
+/**
+ * IndexedDB版本存档
+ * 版本元信息与快照分区存放在独立数据库中，快照以 [版本ID, 分区键] 为主键
+ */
+export class IndexedDBVersionArchive implements VersionArchive {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  /**
+   * 打开版本数据库
+   */
+  private getDB(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(VERSION_DB_NAME, VERSION_DB_VERSION);
+        request.onupgradeneeded = () => {
+          const database = request.result;
+          if (!database.objectStoreNames.contains(VERSION_STORE)) {
+            database.createObjectStore(VERSION_STORE, { keyPath: 'id' });
+          }
+          if (!database.objectStoreNames.contains(SNAPSHOT_STORE)) {
+            database.createObjectStore(SNAPSHOT_STORE, { keyPath: ['versionId', 'key'] });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * 某版本全部快照的主键范围
+   * @param id 版本ID
+   */
+  private snapshotRange(id: string): IDBKeyRange {
+    return IDBKeyRange.bound([id, ''], [id, '\uffff']);
+  }
+
+  async listVersions(): Promise<DatasetVersion[]> {
+    const database = await this.getDB();
+    const versions = await promisifyRequest<DatasetVersion[]>(
+      database.transaction(VERSION_STORE, 'readonly').objectStore(VERSION_STORE).getAll()
+    );
+    return sortVersions(versions);
+  }
+
+  async saveVersion(version: DatasetVersion, snapshot: ColumnarPartition[]): Promise<void> {
+    const database = await this.getDB();
+    const transaction = database.transaction([VERSION_STORE, SNAPSHOT_STORE], 'readwrite');
+    transaction.objectStore(VERSION_STORE).put(version);
+    const snapshotStore = transaction.objectStore(SNAPSHOT_STORE);
+    snapshot.forEach(partition => {
+      const entry: SnapshotEntry = { versionId: version.id, key: partition.key, partition };
+      snapshotStore.put(entry);
+    });
+    await waitForTransaction(transaction);
+  }
+
+  async readSnapshot(id: string): Promise<ColumnarPartition[]> {
+    const database = await this.getDB();
+    const entries = await promisifyRequest<SnapshotEntry[]>(
+      database.transaction(SNAPSHOT_STORE, 'readonly').objectStore(SNAPSHOT_STORE).getAll(this.snapshotRange(id))
+    );
+    return entries.map(entry => entry.partition);
+  }
+
+  async removeVersions(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const database = await this.getDB();
+    const transaction = database.transaction([VERSION_STORE, SNAPSHOT_STORE], 'readwrite');
+    ids.forEach(id => {
+      transaction.objectStore(VERSION_STORE).delete(id);
+      transaction.objectStore(SNAPSHOT_STORE).delete(this.snapshotRange(id));
+    });
+    await waitForTransaction(transaction);
+  }
+}
+
+let sharedArchive: VersionArchive | null = null;
+
+/**
+ * 获取共享的版本存档实例（与 getColumnarStore 选用相同的存储介质）
+ * @returns 版本存档
+ */
+export function getVersionArchive(): VersionArchive {
+  if (!sharedArchive) {
+    sharedArchive = typeof indexedDB !== 'undefined'
+      ? new IndexedDBVersionArchive()
+      : new MemoryVersionArchive();
+  }
+  return sharedArchive;
+}
+
+/**
+ * 计算内容的SHA-256哈希
+ * @param content 文件内容或文本
+ * @returns 十六进制哈希
+ */
+export async function hashContent(content: ArrayBuffer | string): Promise<string> {
+  const buffer = typeof content === 'string' ? new TextEncoder().encode(content) : content;
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * 记录哈希的每段记录数
+ */
+export const RECORD_HASH_BATCH_SIZE = 10000;
+
+/**
+ * 计算导入记录的内容哈希（各导入途径统一使用，作为版本的 fileHash）
+ * 每条记录按字段名排序序列化为JSON、以换行连接，每 RECORD_HASH_BATCH_SIZE 条为一段计算SHA-256，
+ * 再对各段摘要依次拼接的结果计算SHA-256；相同记录无论经CSV上传还是API写入都得到相同哈希，
+ * 且无需一次性序列化全部记录（Web Crypto 不支持增量摘要）
+ * @param records 导入记录
+ * @param batchSize 每段记录数
+ * @returns 十六进制哈希
+ */
+export async function hashRecords(records: InsuranceRecord[], batchSize: number = RECORD_HASH_BATCH_SIZE): Promise<string> {
+  const batchCount = Math.max(1, Math.ceil(records.length / batchSize));
+  const digests = new Uint8Array(batchCount * 32);
+  for (let index = 0; index < batchCount; index++) {
+    const text = records
+      .slice(index * batchSize, (index + 1) * batchSize)
+      .map(record => JSON.stringify(record, Object.keys(record).sort()))
+      .join('\n');
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    digests.set(new Uint8Array(digest), index * 32);
+  }
+  return hashContent(digests.buffer);
+}
+
+/**
+ * 计算记录的快照日期范围
+ * @param records 记录
+ * @returns 范围，无快照日期时返回null
+ */
+function getSnapshotRange(records: InsuranceRecord[]): DatasetVersion['snapshotRange'] {
+  let start: string | null = null;
+  let end: string | null = null;
+  records.forEach(record => {
+    const date = record.snapshot_date;
+    if (!date) return;
+    if (start === null || date < start) start = date;
+    if (end === null || date > end) end = date;
+  });
+  return start !== null && end !== null ? { start, end } : null;
+}
+
+/**
+ * 按三级机构排序
+ */
+function sortByOrganization(results: AnalysisResult[]): AnalysisResult[] {
+  return results.sort((a, b) =>
+    String(a.dimensions.third_level_organization ?? '').localeCompare(String(b.dimensions.third_level_organization ?? ''))
+  );
+}
+
+/**
+ * 分区数据按三级机构聚合
+ * @param partitions 分区
+ * @returns 按机构名称排序的聚合结果
+ */
+function aggregateByOrganization(partitions: ColumnarPartition[]): AnalysisResult[] {
+  return sortByOrganization(groupPartitions(partitions, ['third_level_organization']));
+}
+
+/**
+ * 增量更新按机构的聚合结果：在导入前的结果上减去受影响分区原有数据、加上写入后的数据，
+ * 绝对值字段相加减后重新计算指标，记录数归零的机构被移除
+ * @param base 导入前全量数据的机构聚合结果（上一版本记录的结果）
+ * @param removed 受影响分区导入前的数据
+ * @param added 受影响分区写入后的数据
+ * @returns 导入后全量数据的机构聚合结果
+ */
+function updateOrganizationAggregates(
+  base: AnalysisResult[],
+  removed: ColumnarPartition[],
+  added: ColumnarPartition[]
+): AnalysisResult[] {
+  const fields = [...ABSOLUTE_VALUE_FIELDS, 'commercial_signed_premium_yuan'] as const;
+  const totals = new Map<string, { dimensions: AnalysisResult['dimensions']; recordCount: number; values: AggregatedValueFields }>();
+
+  const apply = (results: AnalysisResult[], sign: 1 | -1) => results.forEach(result => {
+    const key = String(result.dimensions.third_level_organization ?? '');
+    let entry = totals.get(key);
+    if (!entry) {
+      const values = {} as AggregatedValueFields;
+      fields.forEach(field => {
+        values[field] = 0;
+      });
+      entry = { dimensions: result.dimensions, recordCount: 0, values };
+      totals.set(key, entry);
+    }
+    entry.recordCount += sign * result.record_count;
+    fields.forEach(field => {
+      entry.values[field] += sign * (result[field] ?? 0);
+    });
+  });
+  apply(base, 1);
+  apply(aggregateByOrganization(removed), -1);
+  apply(aggregateByOrganization(added), 1);
+
+  return sortByOrganization(Array.from(totals.values())
+    .filter(entry => entry.recordCount > 0)
+    .map(entry => ({
+      ...entry.values,
+      ...computeMetrics(entry.values),
+      dimensions: entry.dimensions,
+      record_count: entry.recordCount
+    })));
+}
+
+/**
+ * 按导入模式写入并记录数据集版本
+ * 版本与快照先于分区写入保存
+ * @param store 列式存储
+ * @param archive 版本存档
+ * @param records 导入记录
+ * @param mode 导入模式
+ * @param source 导入来源
+ * @returns 实际变化与新版本
+ */
+export async function importWithVersion(
+  store: ColumnarStore,
+  archive: VersionArchive,
+  records: InsuranceRecord[],
+  mode: ImportMode,
+  source: ImportSource
+): Promise<{ changes: ImportPreview; version: DatasetVersion }> {
+  const versions = await archive.listVersions();
+  const latest = versions[versions.length - 1];
+  const nextVersion = (latest?.version ?? 0) + 1;
+
+  const plan = await planStoreImport(store, records, mode);
+  const snapshot = Array.from(plan.previous, ([key, previousRecords]) => buildPartition(key, previousRecords));
+  const written = Array.from(plan.partitions)
+    .filter(([, partitionRecords]) => partitionRecords.length > 0)
+    .map(([key, partitionRecords]) => buildPartition(key, partitionRecords));
+
+  // 导入后的总行数与机构聚合只计算受影响的分区，其余部分沿用上一版本记录的结果；
+  // 上一版本的行数与当前存储不一致（如存在未经版本记录的写入）时改为全量聚合
+  const previousTotal = (await store.getMeta()).recordCount;
+  const total = previousTotal
+    - snapshot.reduce((sum, partition) => sum + partition.rowCount, 0)
+    + written.reduce((sum, partition) => sum + partition.rowCount, 0);
+  const organizationAggregates = (latest?.rowCounts.total ?? 0) === previousTotal
+    ? updateOrganizationAggregates(latest?.organizationAggregates ?? [], snapshot, written)
+    : aggregateByOrganization([
+        ...(await store.readPartitions()).filter(partition => !plan.partitions.has(partition.key)),
+        ...written
+      ]);
+  const createdAt = new Date();
+  const version: DatasetVersion = {
+    ...source,
+    id: `${nextVersion}-${createdAt.getTime().toString(36)}`,
+    version: nextVersion,
+    mode,
+    createdAt: createdAt.toISOString(),
+    rowCounts: {
+      incoming: plan.preview.incomingRows,
+      inserted: plan.preview.inserted,
+      updated: plan.preview.updated,
+      dropped: plan.preview.dropped,
+      total
+    },
+    snapshotRange: getSnapshotRange(records),
+    partitionKeys: Array.from(plan.partitions.keys()),
+    createdPartitionKeys: Array.from(plan.partitions.keys()).filter(key => !plan.previous.has(key)),
+    organizationAggregates
+  };
+
+  // 先保存版本与导入前快照再写入分区，写入中途失败时仍可回滚到上一版本
+  await archive.saveVersion(version, snapshot);
+  await store.writePartitions(plan.partitions);
+  return { changes: plan.preview, version };
+}
+
+/**
+ * 将数据集回滚到指定版本导入完成时的状态
+ * 按版本号倒序恢复之后各版本导入前的分区快照，并删除这些版本
+ * @param store 列式存储
+ * @param archive 版本存档
+ * @param targetVersion 目标版本号，0表示回滚到首个版本导入之前
+ * @returns 被撤销的版本（倒序）
+ */
+export async function rollbackToVersion(
+  store: ColumnarStore,
+  archive: VersionArchive,
+  targetVersion: number
+): Promise<DatasetVersion[]> {
+  const versions = await archive.listVersions();
+  if (targetVersion !== 0 && !versions.some(version => version.version === targetVersion)) {
+    throw new Error(`版本 ${targetVersion} 不存在`);
+  }
+
+  const undone = versions.filter(version => version.version > targetVersion).reverse();
+  for (const version of undone) {
+    const groups = new Map<string, InsuranceRecord[]>(version.createdPartitionKeys.map(key => [key, []]));
+    const snapshot = await archive.readSnapshot(version.id);
+    snapshot.forEach(partition => groups.set(partition.key, decodePartition(partition)));
+    await store.writePartitions(groups);
+  }
+
+  await archive.removeVersions(undone.map(version => version.id));
+  return undone;
+}
+
+/**
+ * 对比两个版本按三级机构的聚合结果
+ * @param from 基准版本
+ * @param to 对比版本
+ * @returns 各机构的差异（to - from）
+ */
+export function diffVersions(from: DatasetVersion, to: DatasetVersion): DatasetVersionDiff {
+  const toMap = (results: AnalysisResult[]) =>
+    new Map(results.map(result => [String(result.dimensions.third_level_organization ?? ''), result]));
+  const fromResults = toMap(from.organizationAggregates);
+  const toResults = toMap(to.organizationAggregates);
+  const fields = [...ABSOLUTE_VALUE_FIELDS, ...METRIC_FORMULAS.map(formula => formula.field), 'record_count'] as const;
+
+  const organizations = Array.from(new Set([...fromResults.keys(), ...toResults.keys()]))
+    .sort((a, b) => a.localeCompare(b))
+    .map<OrganizationVersionDiff>(organization => {
+      const before = fromResults.get(organization) ?? null;
+      const after = toResults.get(organization) ?? null;
+      const deltas: OrganizationVersionDiff['deltas'] = {};
+      fields.forEach(field => {
+        deltas[field] = (after?.[field] ?? 0) - (before?.[field] ?? 0);
+      });
+      return { organization, from: before, to: after, deltas };
+    });
+
+  return { from, to, organizations };
+}
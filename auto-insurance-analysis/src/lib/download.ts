@@ -0,0 +1,26 @@
+/**
+ * 车险多维分析系统 - 文件下载
+ * 在浏览器中将生成的内容保存为本地文件
+ */
+
+/**
+ * 以隐藏链接触发浏览器下载
+ * @param content 文件内容
+ * @param filename 文件名
+ * @param mime MIME类型（含字符集），如 text/csv;charset=utf-8;
+ */
+export function downloadBlob(content: BlobPart, filename: string, mime: string): void {
+  const blob = new Blob([content], { type: mime });
+  const link = document.createElement('a');
+
+  if (link.download !== undefined) {
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', filename);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * 车险多维分析系统 - 枚举值校验
+ * 以 FIELD_OPTIONS 为取值清单校验各维度字段，统计未知取值的出现次数，
+ * 并支持将未知取值映射为标准值、保存映射供后续导入自动套用
+ */
+
+import { EnumField, ImportIssue, InsuranceRecord, UnknownEnumValue, ValueMapping } from '@/types/insurance';
+import { DISPLAY_NAMES, FIELD_OPTIONS } from '@/lib/constants';
+
+/**
+ * 枚举校验模式：字段 → 允许的取值
+ * 起保年度与周序号由范围校验负责，不在此列
+ */
+export const ENUM_SCHEMA: Record<EnumField, readonly string[]> = {
+  business_type_category: FIELD_OPTIONS.business_type_category,
+  chengdu_branch: FIELD_OPTIONS.chengdu_branch,
+  third_level_organization: FIELD_OPTIONS.third_level_organization,
+  customer_category_3: FIELD_OPTIONS.customer_category_3,
+  insurance_type: FIELD_OPTIONS.insurance_type,
+  coverage_type: FIELD_OPTIONS.coverage_type,
+  renewal_status: FIELD_OPTIONS.renewal_status,
+  vehicle_insurance_grade: FIELD_OPTIONS.vehicle_insurance_grade,
+  highway_risk_grade: FIELD_OPTIONS.highway_risk_grade,
+  large_truck_score: FIELD_OPTIONS.large_truck_score,
+  small_truck_score: FIELD_OPTIONS.small_truck_score,
+  terminal_source: FIELD_OPTIONS.terminal_source
+};
+
+/**
+ * 受枚举约束的字段
+ */
+export const ENUM_FIELDS = Object.keys(ENUM_SCHEMA) as EnumField[];
+
+/**
+ * 已保存的枚举值映射在localStorage中的键
+ */
+export const VALUE_MAPPING_STORAGE_KEY = 'insurance_value_mapping';
+
+/**
+ * 每个未知取值记录的示例行号数量
+ */
+const SAMPLE_ROW_LIMIT = 5;
+
+/**
+ * 判断取值是否在允许范围内
+ * @param field 枚举字段
+ * @param value 取值
+ * @returns 是否允许
+ */
+export function isAllowedValue(field: EnumField, value: string): boolean {
+  return ENUM_SCHEMA[field].includes(value);
+}
+
+/**
+ * 按映射替换记录中的枚举取值（原地修改）
+ * @param record 记录
+ * @param mapping 枚举值映射
+ * @returns 同一记录
+ */
+export function applyValueMapping<T extends Partial<InsuranceRecord>>(record: T, mapping: ValueMapping): T {
+  ENUM_FIELDS.forEach(field => {
+    const value = record[field];
+    const mapped = value !== undefined ? mapping[field]?.[value] : undefined;
+    if (mapped !== undefined) record[field] = mapped;
+  });
+  return record;
+}
+
+/**
+ * 未知枚举值收集器：逐行累计未知取值的出现次数与示例行号
+ */
+export class UnknownValueCollector {
+  private values = new Map<string, UnknownEnumValue>();
+
+  /**
+   * 检查单条记录
+   * @param record 记录（已套用映射）
+   * @param rowNumber CSV行号
+   */
+  add(record: Partial<InsuranceRecord>, rowNumber: number): void {
+    ENUM_FIELDS.forEach(field => {
+      const value = record[field];
+      if (value === undefined || isAllowedValue(field, value)) return;
+
+      const key = `${field}\u0001${value}`;
+      let entry = this.values.get(key);
+      if (!entry) {
+        entry = { field, value, count: 0, rows: [] };
+        this.values.set(key, entry);
+      }
+      entry.count++;
+      if (entry.rows.length < SAMPLE_ROW_LIMIT) entry.rows.push(rowNumber);
+    });
+  }
+
+  /**
+   * 未知取值列表：按字段顺序，同字段内按出现次数降序
+   */
+  toList(): UnknownEnumValue[] {
+    return Array.from(this.values.values()).sort((a, b) =>
+      ENUM_FIELDS.indexOf(a.field) - ENUM_FIELDS.indexOf(b.field) || b.count - a.count
+    );
+  }
+}
+
+/**
+ * 将未知取值转换为导入警告（每个取值一条，定位到首次出现的行）
+ * @param unknown 未知取值
+ * @returns 导入警告
+ */
+export function toUnknownValueIssue(unknown: UnknownEnumValue): ImportIssue {
+  return {
+    severity: 'warning',
+    row: unknown.rows[0] ?? 0,
+    field: unknown.field,
+    rawValue: unknown.value,
+    rule: 'enum',
+    message: `${DISPLAY_NAMES[unknown.field]}的取值"${unknown.value}"不在允许范围内，共 ${unknown.count} 行`,
+    suggestion: `允许的取值：${ENUM_SCHEMA[unknown.field].join('、')}；可在导入时映射为标准值`
+  };
+}
+
+/**
+ * 推测未知取值对应的标准值：取与其互相包含的最长标准值（如"天府支公司"→"天府"）
+ * @param field 枚举字段
+ * @param value 未知取值
+ * @returns 标准值，无法推测时返回null
+ */
+export function suggestCanonicalValue(field: EnumField, value: string): string | null {
+  const candidates = ENUM_SCHEMA[field].filter(option => value.includes(option) || option.includes(value));
+  if (candidates.length === 0) return null;
+  return candidates.reduce((best, option) => (option.length > best.length ? option : best));
+}
+
+/**
+ * 排除已被映射的未知取值
+ * @param unknownValues 未知取值
+ * @param mapping 枚举值映射
+ * @returns 仍未处理的未知取值
+ */
+export function filterUnmappedValues(unknownValues: UnknownEnumValue[], mapping: ValueMapping): UnknownEnumValue[] {
+  return unknownValues.filter(unknown => mapping[unknown.field]?.[unknown.value] === undefined);
+}
+
+/**
+ * 读取已保存的枚举值映射
+ * @returns 映射，运行环境无localStorage或内容损坏时返回空映射
+ */
+export function loadValueMapping(): ValueMapping {
+  if (typeof localStorage === 'undefined') return {};
+  try {
+    const stored = localStorage.getItem(VALUE_MAPPING_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as ValueMapping) : {};
+  } catch (error) {
+    console.error('读取枚举值映射失败:', error);
+    return {};
+  }
+}
+
+/**
+ * 合并保存枚举值映射（同一原始值以新映射为准）
+ * @param mapping 新增的映射
+ * @returns 合并后的完整映射
+ */
+export function saveValueMapping(mapping: ValueMapping): ValueMapping {
+  const merged = loadValueMapping();
+  ENUM_FIELDS.forEach(field => {
+    const entries = mapping[field];
+    if (!entries || Object.keys(entries).length === 0) return;
+    merged[field] = { ...merged[field], ...entries };
+  });
+  if (typeof localStorage !== 'undefined') {
+    localStorage.setItem(VALUE_MAPPING_STORAGE_KEY, JSON.stringify(merged));
+  }
+  return merged;
+}
@@ -0,0 +1,85 @@
+/**
+ * 车险多维分析系统 - 分面统计
+ * 一次遍历计算各维度取值的记录数与签单保费：每个维度只受其余维度的筛选条件约束，
+ * 用于级联筛选（如选择机构层级后三级机构仅列出其下属机构）
+ */
+
+import { FilterConditions, FilterDimensions, InsuranceRecord } from '@/types/insurance';
+import { DIMENSION_FIELDS } from '@/lib/constants';
+import { matchesFilterCondition } from '@/lib/data-processor';
+
+/**
+ * 维度取值的分面统计
+ */
+export interface FacetValue {
+  value: string | number | boolean;
+  count: number;                                   // 记录数
+  premium: number;                                 // 签单保费（元）
+}
+
+/**
+ * 各维度的分面统计（取值升序）
+ */
+export type FacetCounts = Partial<Record<keyof FilterDimensions, FacetValue[]>>;
+
+/**
+ * 是否为生效的筛选条件（空数组视为未筛选）
+ */
+function isActiveCondition(condition: unknown): boolean {
+  return condition !== undefined && condition !== null && !(Array.isArray(condition) && condition.length === 0);
+}
+
+/**
+ * 计算分面统计
+ * 记录满足全部筛选条件时计入所有维度；仅不满足某一维度的条件时只计入该维度，
+ * 使该维度的选项反映其余筛选条件下的可选取值
+ * @param records 记录
+ * @param filters 筛选条件
+ * @param dimensions 统计的维度
+ * @returns 各维度取值的记录数与签单保费
+ */
+export function computeFacetCounts(
+  records: InsuranceRecord[],
+  filters: FilterConditions,
+  dimensions: (keyof FilterDimensions)[] = DIMENSION_FIELDS
+): FacetCounts {
+  const activeFields = (Object.keys(filters) as (keyof FilterDimensions)[])
+    .filter(field => isActiveCondition(filters[field]));
+  const buckets = new Map(dimensions.map(dimension => [dimension, new Map<FacetValue['value'], FacetValue>()]));
+
+  const add = (dimension: keyof FilterDimensions, record: InsuranceRecord) => {
+    const value = record[dimension];
+    if (value === null || value === undefined) return;
+    const bucket = buckets.get(dimension);
+    if (!bucket) return;
+    const facet = bucket.get(value) ?? { value, count: 0, premium: 0 };
+    facet.count += 1;
+    facet.premium += Number(record.signed_premium_yuan) || 0;
+    bucket.set(value, facet);
+  };
+
+  records.forEach(record => {
+    let failedField: keyof FilterDimensions | null = null;
+    let failures = 0;
+    for (const field of activeFields) {
+      if (!matchesFilterCondition(record[field], filters[field])) {
+        failedField = field;
+        failures += 1;
+        if (failures > 1) return;
+      }
+    }
+
+    if (failedField === null) {
+      dimensions.forEach(dimension => add(dimension, record));
+    } else {
+      add(failedField, record);
+    }
+  });
+
+  return Object.fromEntries(
+    Array.from(buckets.entries()).map(([dimension, bucket]) => [
+      dimension,
+      Array.from(bucket.values()).sort((a, b) => (a.value < b.value ? -1 : a.value > b.value ? 1 : 0))
+    ])
+  );
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { DashboardSnapshot, importFilterTemplates, validateSnapshot } from '@/lib/filter-templates';
+
+const SNAPSHOT: DashboardSnapshot = {
+  filters: { third_level_organization: ['天府'], week_number: [28], is_new_energy_vehicle: [true] },
+  selectedDimensions: ['third_level_organization'],
+  selectedMetrics: ['signed_premium_yuan'],
+  chartType: 'bar'
+};
+
+describe('validateSnapshot', () => {
+  it('接受各维度类型的取值数组', () => {
+    expect(validateSnapshot(SNAPSHOT)).toEqual([]);
+  });
+
+  it('拒绝单值、对象与类型不符的筛选取值', () => {
+    ([
+      { third_level_organization: '天府' },
+      { third_level_organization: [{ value: '天府' }] },
+      { week_number: ['28'] },
+      { is_new_energy_vehicle: [1] }
+    ] as unknown as DashboardSnapshot['filters'][]).forEach(filters => {
+      expect(validateSnapshot({ ...SNAPSHOT, filters })).toHaveLength(1);
+    });
+  });
+
+  it('导入时跳过筛选取值无效的模板', () => {
+    const text = JSON.stringify([{ name: '单值', snapshot: { ...SNAPSHOT, filters: { third_level_organization: '天府' } } }]);
+    const result = importFilterTemplates(text);
+    expect(result.imported).toBe(0);
+    expect(result.errors[0]).toContain('三级机构');
+  });
+});
@@ -0,0 +1,317 @@
+/**
+ * 车险多维分析系统 - 筛选模板
+ * 将筛选条件与图表的分组维度、指标、图表类型保存为命名模板，记录最近使用的组合，
+ * 支持设置默认模板（加载时自动应用）及 JSON 导入导出；均保存在本地（localStorage）
+ */
+
+import { FilterConditions, FilterDimensions } from '@/types/insurance';
+import { BOOLEAN_DIMENSIONS, DIMENSION_FIELDS, DISPLAY_NAMES, NUMERIC_DIMENSIONS } from '@/lib/constants';
+import { formatAlertScope } from '@/lib/alert-rules';
+import { ChartMetric, MAX_CHART_METRICS, METRIC_GROUPS } from '@/lib/metric-favorites';
+import { downloadBlob } from '@/lib/download';
+
+/**
+ * 模板支持的图表类型（与图表容器一致）
+ */
+export const TEMPLATE_CHART_TYPES = ['bar', 'line', 'pie', 'scatter'] as const;
+
+export type TemplateChartType = (typeof TEMPLATE_CHART_TYPES)[number];
+
+/**
+ * 仪表盘的筛选与图表组合
+ */
+export interface DashboardSnapshot {
+  filters: FilterConditions;
+  selectedDimensions: (keyof FilterDimensions)[];
+  selectedMetrics: ChartMetric[];
+  chartType: TemplateChartType;
+}
+
+/**
+ * 命名的筛选模板
+ */
+export interface FilterTemplate {
+  id: string;
+  name: string;
+  createdAt: string;
+  snapshot: DashboardSnapshot;
+}
+
+/**
+ * 最近使用的组合
+ */
+export interface RecentSnapshot {
+  usedAt: string;
+  snapshot: DashboardSnapshot;
+}
+
+/**
+ * 模板导出文件格式
+ */
+interface FilterTemplateExport {
+  version: number;
+  exportedAt: string;
+  templates: FilterTemplate[];
+}
+
+export const FILTER_TEMPLATES_STORAGE_KEY = 'insurance_filter_templates';
+export const DEFAULT_FILTER_TEMPLATE_STORAGE_KEY = 'insurance_default_filter_template';
+export const RECENT_SNAPSHOTS_STORAGE_KEY = 'insurance_recent_filter_snapshots';
+
+/**
+ * 最近使用的组合保留条数
+ */
+const MAX_RECENT_SNAPSHOTS = 10;
+
+/**
+ * 导出文件的格式版本
+ */
+const TEMPLATE_EXPORT_VERSION = 1;
+
+const CHART_METRICS: readonly string[] = METRIC_GROUPS.flatMap(group => group.fields);
+
+/**
+ * 判断筛选取值是否为该维度类型的数组
+ */
+function isValidFilterValue(field: keyof FilterDimensions, value: unknown): boolean {
+  const type = NUMERIC_DIMENSIONS.includes(field) ? 'number' : BOOLEAN_DIMENSIONS.includes(field) ? 'boolean' : 'string';
+  return Array.isArray(value) && value.every(item => typeof item === type);
+}
+
+/**
+ * 读取localStorage中的JSON
+ */
+function readStorage<T>(key: string, fallback: T): T {
+  if (typeof localStorage === 'undefined') return fallback;
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as T) : fallback;
+  } catch (error) {
+    console.error(`读取本地数据失败 ${key}:`, error);
+    return fallback;
+  }
+}
+
+/**
+ * 写入localStorage
+ */
+function writeStorage(key: string, value: unknown): void {
+  if (typeof localStorage !== 'undefined') {
+    localStorage.setItem(key, JSON.stringify(value));
+  }
+}
+
+/**
+ * 组合的比较键（筛选值按顺序无关处理）
+ */
+function snapshotKey(snapshot: DashboardSnapshot): string {
+  const filters = Object.keys(snapshot.filters)
+    .sort()
+    .map(field => {
+      const value = snapshot.filters[field as keyof FilterConditions];
+      return [field, Array.isArray(value) ? [...value].map(String).sort() : value];
+    });
+  return JSON.stringify([filters, snapshot.selectedDimensions, snapshot.selectedMetrics, snapshot.chartType]);
+}
+
+/**
+ * 判断两个组合是否相同（筛选值顺序无关）
+ * @param a 组合
+ * @param b 组合
+ */
+export function isSameSnapshot(a: DashboardSnapshot, b: DashboardSnapshot): boolean {
+  return snapshotKey(a) === snapshotKey(b);
+}
+
+/**
+ * 校验组合结构
+ * @param value 待校验的组合
+ * @returns 问题描述，为空表示通过
+ */
+export function validateSnapshot(value: unknown): string[] {
+  const errors: string[] = [];
+  if (!value || typeof value !== 'object') return ['缺少筛选组合'];
+  const snapshot = value as Partial<DashboardSnapshot>;
+
+  if (!snapshot.filters || typeof snapshot.filters !== 'object' || Array.isArray(snapshot.filters)) {
+    errors.push('筛选条件格式错误');
+  } else {
+    const unknownFields = Object.keys(snapshot.filters).filter(
+      field => !DIMENSION_FIELDS.includes(field as keyof FilterDimensions)
+    );
+    if (unknownFields.length > 0) errors.push(`未知的筛选维度：${unknownFields.join('、')}`);
+
+    const invalidFields = (Object.entries(snapshot.filters) as [keyof FilterDimensions, unknown][])
+      .filter(([field, value]) => DIMENSION_FIELDS.includes(field) && !isValidFilterValue(field, value))
+      .map(([field]) => DISPLAY_NAMES[field]);
+    if (invalidFields.length > 0) errors.push(`筛选取值须为对应类型的数组：${invalidFields.join('、')}`);
+  }
+
+  const dimensions = snapshot.selectedDimensions;
+  if (!Array.isArray(dimensions) || dimensions.length === 0 || dimensions.length > 3
+    || dimensions.some(field => !DIMENSION_FIELDS.includes(field))) {
+    errors.push('分组维度须为1-3个有效维度');
+  }
+
+  const metrics = snapshot.selectedMetrics;
+  if (!Array.isArray(metrics) || metrics.length === 0 || metrics.length > MAX_CHART_METRICS
+    || metrics.some(field => !CHART_METRICS.includes(field))) {
+    errors.push(`图表指标须为1-${MAX_CHART_METRICS}个有效指标`);
+  }
+
+  if (!TEMPLATE_CHART_TYPES.includes(snapshot.chartType as TemplateChartType)) {
+    errors.push('图表类型无效');
+  }
+  return errors;
+}
+
+/**
+ * 组合的简要描述
+ * @param snapshot 组合
+ * @returns 如 "三级机构=天府,高新 · 按三级机构 · 签单保费（元）"
+ */
+export function describeSnapshot(snapshot: DashboardSnapshot): string {
+  return [
+    formatAlertScope(snapshot.filters),
+    `按${snapshot.selectedDimensions.map(field => DISPLAY_NAMES[field]).join(' × ')}`,
+    snapshot.selectedMetrics.map(field => DISPLAY_NAMES[field]).join('、')
+  ].join(' · ');
+}
+
+/**
+ * 读取已保存的模板
+ */
+export function loadFilterTemplates(): FilterTemplate[] {
+  return readStorage<FilterTemplate[]>(FILTER_TEMPLATES_STORAGE_KEY, []);
+}
+
+/**
+ * 按名称保存模板（同名覆盖）
+ * @param name 模板名称
+ * @param snapshot 当前组合
+ * @returns 保存后的模板列表
+ */
+export function saveFilterTemplate(name: string, snapshot: DashboardSnapshot): FilterTemplate[] {
+  const templates = loadFilterTemplates();
+  const existing = templates.find(template => template.name === name);
+  const template: FilterTemplate = {
+    id: existing?.id ?? `template_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`,
+    name,
+    createdAt: new Date().toISOString(),
+    snapshot
+  };
+  const next = existing
+    ? templates.map(item => (item.id === existing.id ? template : item))
+    : [...templates, template];
+  writeStorage(FILTER_TEMPLATES_STORAGE_KEY, next);
+  return next;
+}
+
+/**
+ * 删除模板（同时取消其默认设置）
+ * @param id 模板ID
+ * @returns 删除后的模板列表
+ */
+export function deleteFilterTemplate(id: string): FilterTemplate[] {
+  const next = loadFilterTemplates().filter(template => template.id !== id);
+  writeStorage(FILTER_TEMPLATES_STORAGE_KEY, next);
+  if (loadDefaultTemplateId() === id) setDefaultTemplateId(null);
+  return next;
+}
+
+/**
+ * 读取默认模板ID
+ */
+export function loadDefaultTemplateId(): string | null {
+  return readStorage<string | null>(DEFAULT_FILTER_TEMPLATE_STORAGE_KEY, null);
+}
+
+/**
+ * 设置默认模板
+ * @param id 模板ID，为null时取消默认
+ */
+export function setDefaultTemplateId(id: string | null): void {
+  if (id === null) {
+    if (typeof localStorage !== 'undefined') localStorage.removeItem(DEFAULT_FILTER_TEMPLATE_STORAGE_KEY);
+    return;
+  }
+  writeStorage(DEFAULT_FILTER_TEMPLATE_STORAGE_KEY, id);
+}
+
+/**
+ * 获取默认模板（模板已删除或结构无效时返回null）
+ */
+export function getDefaultFilterTemplate(): FilterTemplate | null {
+  const id = loadDefaultTemplateId();
+  const template = id ? loadFilterTemplates().find(item => item.id === id) : undefined;
+  return template && validateSnapshot(template.snapshot).length === 0 ? template : null;
+}
+
+/**
+ * 读取最近使用的组合（最新在前）
+ */
+export function loadRecentSnapshots(): RecentSnapshot[] {
+  return readStorage<RecentSnapshot[]>(RECENT_SNAPSHOTS_STORAGE_KEY, []);
+}
+
+/**
+ * 记录最近使用的组合（相同组合只保留最新一次）
+ * @param snapshot 组合
+ * @returns 记录后的列表
+ */
+export function recordRecentSnapshot(snapshot: DashboardSnapshot): RecentSnapshot[] {
+  const key = snapshotKey(snapshot);
+  const next = [
+    { usedAt: new Date().toISOString(), snapshot },
+    ...loadRecentSnapshots().filter(item => snapshotKey(item.snapshot) !== key)
+  ].slice(0, MAX_RECENT_SNAPSHOTS);
+  writeStorage(RECENT_SNAPSHOTS_STORAGE_KEY, next);
+  return next;
+}
+
+/**
+ * 导出模板为JSON文件
+ * @param templates 模板
+ */
+export function downloadFilterTemplates(templates: FilterTemplate[]): void {
+  const payload: FilterTemplateExport = {
+    version: TEMPLATE_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    templates
+  };
+  downloadBlob(JSON.stringify(payload, null, 2), `筛选模板_${payload.exportedAt.slice(0, 10)}.json`, 'application/json;charset=utf-8;');
+}
+
+/**
+ * 导入JSON中的模板并按名称合并（同名覆盖）
+ * @param text 导出文件内容（也接受模板数组）
+ * @returns 合并后的模板列表、导入数与跳过的问题
+ */
+export function importFilterTemplates(text: string): { templates: FilterTemplate[]; imported: number; errors: string[] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { templates: loadFilterTemplates(), imported: 0, errors: ['文件不是有效的JSON'] };
+  }
+
+  const items = Array.isArray(parsed) ? parsed : (parsed as Partial<FilterTemplateExport> | null)?.templates;
+  if (!Array.isArray(items)) {
+    return { templates: loadFilterTemplates(), imported: 0, errors: ['未找到模板列表'] };
+  }
+
+  const errors: string[] = [];
+  let templates = loadFilterTemplates();
+  let imported = 0;
+  items.forEach((item: Partial<FilterTemplate> | null, index) => {
+    const name = typeof item?.name === 'string' ? item.name.trim() : '';
+    const problems = name ? validateSnapshot(item?.snapshot) : ['缺少模板名称'];
+    if (problems.length > 0) {
+      errors.push(`第${index + 1}个模板${name ? `“${name}”` : ''}：${problems.join('；')}`);
+      return;
+    }
+    templates = saveFilterTemplate(name, item!.snapshot as DashboardSnapshot);
+    imported += 1;
+  });
+  return { templates, imported, errors };
+}
@@ -0,0 +1,225 @@
+/**
+ * 车险多维分析系统 - 数据导入模式
+ * 全量替换 / 增量追加 / 智能合并 三种写入方式的变化预览与执行，
+ * 变化以 (policy_start_year, week_number) 分区为单位计算，只读取导入涉及的分区
+ */
+
+import { ImportMode, ImportPreview, InsuranceRecord, PartitionImportPreview } from '@/types/insurance';
+import { DIMENSION_FIELDS } from '@/lib/constants';
+import {
+  ColumnarStore,
+  decodePartition,
+  groupRecordsByPartition,
+  parsePartitionKey
+} from '@/lib/columnar-store';
+
+/**
+ * 导入模式显示名称
+ */
+export const IMPORT_MODE_LABELS: Record<ImportMode, string> = {
+  replace: '全量替换',
+  append: '增量追加',
+  merge: '智能合并'
+};
+
+/**
+ * 导入模式说明
+ */
+export const IMPORT_MODE_DESCRIPTIONS: Record<ImportMode, string> = {
+  replace: '清空文件涉及的年度/周次后写入新数据',
+  append: '保留已有数据，直接追加全部新行',
+  merge: '按维度匹配已有行，保留快照日期最新的数据'
+};
+
+/**
+ * 全部导入模式
+ */
+export const IMPORT_MODES = Object.keys(IMPORT_MODE_LABELS) as ImportMode[];
+
+/**
+ * 智能合并的业务主键：snapshot_date 以外的16个维度，snapshot_date 用于判断新旧
+ */
+export const MERGE_KEY_FIELDS = DIMENSION_FIELDS.filter(field => field !== 'snapshot_date');
+
+/**
+ * 导入计划：变化预览 + 写入前后各分区的完整记录
+ */
+export interface ImportPlan {
+  preview: ImportPreview;
+  partitions: Map<string, InsuranceRecord[]>;          // 写入后的分区记录
+  previous: Map<string, InsuranceRecord[]>;            // 写入前已存在的受影响分区记录
+}
+
+/**
+ * 分区合并结果
+ */
+interface PartitionMergeResult {
+  records: InsuranceRecord[];
+  inserted: number;
+  updated: number;
+  dropped: number;
+}
+
+/**
+ * 生成记录的合并主键
+ * @param record 记录
+ * @returns 主键
+ */
+function getMergeKey(record: InsuranceRecord): string {
+  return MERGE_KEY_FIELDS.map(field => String(record[field] ?? '')).join('\u0001');
+}
+
+/**
+ * 判断候选记录的快照是否不早于当前记录（同一快照以后导入的为准）
+ * @param candidate 候选记录
+ * @param current 当前保留的记录
+ * @returns 是否应替换
+ */
+function isSameOrNewerSnapshot(candidate: InsuranceRecord, current: InsuranceRecord): boolean {
+  return (candidate.snapshot_date ?? '') >= (current.snapshot_date ?? '');
+}
+
+/**
+ * 按主键合并单个分区
+ * 既有行被替换计为更新；快照较旧的导入行、以及文件内被同主键较新行取代的导入行计为舍弃
+ * @param existing 分区既有记录
+ * @param incoming 导入记录
+ * @returns 合并结果
+ */
+function mergePartition(existing: InsuranceRecord[], incoming: InsuranceRecord[]): PartitionMergeResult {
+  const slots: { record: InsuranceRecord; origin: 'existing' | 'updated' | 'inserted' }[] =
+    existing.map(record => ({ record, origin: 'existing' }));
+  const slotIndex = new Map<string, number>();
+  existing.forEach((record, index) => {
+    const key = getMergeKey(record);
+    const current = slotIndex.get(key);
+    if (current === undefined || isSameOrNewerSnapshot(record, existing[current])) {
+      slotIndex.set(key, index);
+    }
+  });
+
+  let inserted = 0;
+  let updated = 0;
+  let dropped = 0;
+
+  incoming.forEach(record => {
+    const key = getMergeKey(record);
+    const index = slotIndex.get(key);
+
+    if (index === undefined) {
+      slotIndex.set(key, slots.length);
+      slots.push({ record, origin: 'inserted' });
+      inserted++;
+      return;
+    }
+
+    const slot = slots[index];
+    if (!isSameOrNewerSnapshot(record, slot.record)) {
+      dropped++;
+      return;
+    }
+
+    if (slot.origin === 'existing') {
+      slot.origin = 'updated';
+      updated++;
+    } else {
+      // 文件内同主键的较早一行被取代
+      dropped++;
+    }
+    slot.record = record;
+  });
+
+  return { records: slots.map(slot => slot.record), inserted, updated, dropped };
+}
+
+/**
+ * 计算导入计划
+ * @param existing 导入涉及分区的既有记录（分区键 → 记录）
+ * @param incoming 导入记录
+ * @param mode 导入模式
+ * @returns 导入计划
+ */
+export function planImport(
+  existing: Map<string, InsuranceRecord[]>,
+  incoming: InsuranceRecord[],
+  mode: ImportMode
+): ImportPlan {
+  const partitions = new Map<string, InsuranceRecord[]>();
+  const previous = new Map<string, InsuranceRecord[]>();
+  const partitionPreviews: PartitionImportPreview[] = [];
+
+  groupRecordsByPartition(incoming).forEach((incomingRecords, key) => {
+    const existingRecords = existing.get(key) ?? [];
+    if (existing.has(key)) previous.set(key, existingRecords);
+    let result: PartitionMergeResult;
+
+    switch (mode) {
+      case 'replace':
+        result = { records: incomingRecords, inserted: incomingRecords.length, updated: 0, dropped: existingRecords.length };
+        break;
+      case 'append':
+        result = { records: existingRecords.concat(incomingRecords), inserted: incomingRecords.length, updated: 0, dropped: 0 };
+        break;
+      case 'merge':
+        result = mergePartition(existingRecords, incomingRecords);
+        break;
+    }
+
+    const { year, week } = parsePartitionKey(key);
+    partitions.set(key, result.records);
+    partitionPreviews.push({
+      key,
+      policy_start_year: year,
+      week_number: week,
+      existingRows: existingRecords.length,
+      incomingRows: incomingRecords.length,
+      inserted: result.inserted,
+      updated: result.updated,
+      dropped: result.dropped,
+      resultRows: result.records.length
+    });
+  });
+
+  partitionPreviews.sort((a, b) => a.policy_start_year - b.policy_start_year || a.week_number - b.week_number);
+
+  return {
+    preview: {
+      mode,
+      incomingRows: incoming.length,
+      inserted: partitionPreviews.reduce((sum, partition) => sum + partition.inserted, 0),
+      updated: partitionPreviews.reduce((sum, partition) => sum + partition.updated, 0),
+      dropped: partitionPreviews.reduce((sum, partition) => sum + partition.dropped, 0),
+      partitions: partitionPreviews
+    },
+    partitions,
+    previous
+  };
+}
+
+/**
+ * 读取导入涉及的分区并计算导入计划
+ * @param store 列式存储
+ * @param records 导入记录
+ * @param mode 导入模式
+ * @returns 导入计划
+ */
+export async function planStoreImport(
+  store: ColumnarStore,
+  records: InsuranceRecord[],
+  mode: ImportMode
+): Promise<ImportPlan> {
+  const keys = new Set(groupRecordsByPartition(records).keys());
+  const existing = new Map<string, InsuranceRecord[]>();
+
+  // 追加模式同样需要既有记录以重建分区列数组
+  const parsedKeys = Array.from(keys).map(parsePartitionKey);
+  const partitions = await store.readPartitions({
+    years: Array.from(new Set(parsedKeys.map(key => key.year))),
+    weeks: Array.from(new Set(parsedKeys.map(key => key.week)))
+  });
+  partitions
+    .filter(partition => keys.has(partition.key))
+    .forEach(partition => existing.set(partition.key, decodePartition(partition)));
+
+  return planImport(existing, records, mode);
+}
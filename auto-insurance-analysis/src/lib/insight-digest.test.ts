@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { sanitizeInsightDigest } from '@/lib/insight-digest';
+import digest from '@/lib/fixtures/insight-digest.json';
+
+describe('sanitizeInsightDigest', () => {
+  it('保留合法摘要并丢弃未定义的字段', () => {
+    const result = sanitizeInsightDigest({
+      ...digest,
+      records: [{ third_level_organization: '天府', signed_premium_yuan: 1000 }],
+      metrics: [{ field: 'expired_loss_ratio_percent', label: '天府机构赔付率', unit: '%' }]
+    });
+    expect(result).not.toHaveProperty('records');
+    expect(result.metrics).toEqual([{ field: 'expired_loss_ratio_percent', label: '满期赔付率', unit: '%' }]);
+    expect(result.attributions).toEqual(digest.attributions);
+  });
+
+  it('拒绝未匿名化的维度取值与自由文本', () => {
+    expect(() => sanitizeInsightDigest({ ...digest, filters: [{ dimension: '三级机构/城市', values: ['天府'] }] }))
+      .toThrow('filters[0].values[0]');
+    expect(() => sanitizeInsightDigest({
+      ...digest,
+      flaggedUnits: [{ ...digest.flaggedUnits[0], flags: ['天府机构赔付偏高'] }]
+    })).toThrow('flaggedUnits[0].flags[0]');
+    expect(() => sanitizeInsightDigest({ ...digest, trends: undefined })).toThrow('trends');
+  });
+});
@@ -0,0 +1,380 @@
+/**
+ * 车险多维分析系统 - 洞察摘要
+ * 将趋势、异常与归因的聚合结果压缩为发送给大模型的 JSON 摘要，仅包含聚合指标，不含明细记录。
+ * 机构、渠道等维度取值以代号（如 SEG-001）替换，模型返回后在本地还原
+ */
+
+import { FilterConditions, FilterDimensions } from '@/types/insurance';
+import { DIMENSION_FIELDS, DISPLAY_NAMES } from '@/lib/constants';
+import { METRIC_FORMULA_MAP } from '@/lib/metric-formulas';
+import { detectTimeSeriesAnomalies } from '@/lib/time-series-anomaly';
+import { InsightMetric, InsightReportInput, MetricTrend, TREND_WINDOW, analyzeTrend } from '@/lib/insight-report';
+
+/**
+ * 匿名化的维度取值
+ */
+export interface DigestSegment {
+  dimension: string;                               // 维度中文名
+  alias: string;                                   // 取值代号
+}
+
+/**
+ * 发送给大模型的洞察摘要
+ */
+export interface InsightDigest {
+  period: { current: string | null; baseline: string | null };
+  filters: { dimension: string; values: string[] }[];
+  metrics: { field: InsightMetric; label: string; unit: string }[];
+  series: { period: string; values: Partial<Record<InsightMetric, number>> }[];
+  trends: (Pick<MetricTrend, 'metric' | 'changeType' | 'direction' | 'strength'> & {
+    latest: number;
+    change: number | null;
+    movingAverage: number;
+    windowChange: number;
+  })[];
+  outliers: { period: string; metric: InsightMetric; value: number; lower: number; upper: number; direction: 'high' | 'low' }[];
+  flaggedUnits: (DigestSegment & { premiumShare: number; flags: string[] })[];
+  attributions: {
+    metric: InsightMetric;
+    change: number;
+    contributors: (DigestSegment & { contribution: number; mixEffect: number; rateEffect: number })[];
+  }[];
+}
+
+/**
+ * 摘要及代号还原表
+ */
+export interface InsightDigestResult {
+  digest: InsightDigest;
+  aliases: Record<string, string>;                 // 代号 → 原始取值
+}
+
+/**
+ * 摘要中保留的阈值异常单元数
+ */
+const MAX_DIGEST_UNITS = 10;
+
+/**
+ * 摘要数值保留的小数位
+ */
+const DIGEST_DECIMALS = 4;
+
+/**
+ * 压缩数值精度
+ */
+function round(value: number): number {
+  return Number(value.toFixed(DIGEST_DECIMALS));
+}
+
+/**
+ * 维度取值代号登记表
+ */
+class AliasRegistry {
+  private readonly byValue = new Map<string, string>();
+  readonly aliases: Record<string, string> = {};
+
+  /**
+   * 获取（或分配）维度取值的代号
+   * @param dimension 维度
+   * @param value 原始取值
+   */
+  alias(dimension: keyof FilterDimensions, value: unknown): DigestSegment {
+    const key = `${dimension}=${String(value)}`;
+    let alias = this.byValue.get(key);
+    if (!alias) {
+      alias = `SEG-${String(this.byValue.size + 1).padStart(3, '0')}`;
+      this.byValue.set(key, alias);
+      this.aliases[alias] = `${DISPLAY_NAMES[dimension]}=${String(value)}`;
+    }
+    return { dimension: DISPLAY_NAMES[dimension], alias };
+  }
+}
+
+/**
+ * 取单维度切片的维度与取值
+ */
+function firstEntry(segment: Partial<FilterDimensions>): [keyof FilterDimensions, unknown] | null {
+  const entry = Object.entries(segment)[0];
+  return entry ? [entry[0] as keyof FilterDimensions, entry[1]] : null;
+}
+
+/**
+ * 格式化期间
+ */
+function formatPeriod(year: unknown, week: unknown): string {
+  return `${year}-W${String(week).padStart(2, '0')}`;
+}
+
+/**
+ * 由报告输入构建匿名化摘要
+ * @param input 报告生成的输入
+ * @returns 摘要及代号还原表
+ */
+export function buildInsightDigest(input: InsightReportInput): InsightDigestResult {
+  const registry = new AliasRegistry();
+  const recent = input.series.slice(-TREND_WINDOW);
+  const firstIndex = input.series.length - recent.length;
+
+  const filters = (Object.keys(input.filters) as (keyof FilterConditions)[])
+    .filter(field => input.filters[field] !== undefined && (!Array.isArray(input.filters[field]) || (input.filters[field] as unknown[]).length > 0))
+    .map(field => {
+      const value = input.filters[field];
+      const values = Array.isArray(value) ? value : [value];
+      return {
+        dimension: DISPLAY_NAMES[field],
+        values: values.map(item => registry.alias(field, item).alias)
+      };
+    });
+
+  const trends = input.metrics
+    .map(metric => analyzeTrend(input.series, metric))
+    .filter((trend): trend is MetricTrend => trend !== null)
+    .map(trend => ({
+      metric: trend.metric,
+      latest: round(trend.latest),
+      change: trend.change === null ? null : round(trend.change),
+      changeType: trend.changeType,
+      movingAverage: round(trend.movingAverage),
+      windowChange: round(trend.windowChange),
+      direction: trend.direction,
+      strength: trend.strength
+    }));
+
+  const outliers = detectTimeSeriesAnomalies(input.series, input.metrics)
+    .filter(anomaly => anomaly.index >= firstIndex)
+    .map(anomaly => ({
+      period: formatPeriod(anomaly.year, anomaly.week),
+      metric: anomaly.metric as InsightMetric,
+      value: round(anomaly.value),
+      lower: round(anomaly.lower),
+      upper: round(anomaly.upper),
+      direction: anomaly.direction
+    }));
+
+  const totalPremium = input.units.reduce((sum, unit) => sum + unit.signed_premium_yuan, 0);
+  const flaggedUnits = input.units
+    .filter(unit => (unit.anomaly_flags?.length ?? 0) > 0)
+    .sort((a, b) => b.signed_premium_yuan - a.signed_premium_yuan)
+    .slice(0, MAX_DIGEST_UNITS)
+    .map(unit => ({
+      ...registry.alias(input.dimension, unit.dimensions[input.dimension]),
+      premiumShare: totalPremium !== 0 ? round((unit.signed_premium_yuan / totalPremium) * 100) : 0,
+      flags: unit.anomaly_flags ?? []
+    }));
+
+  const attributions = input.attributions.map(attribution => ({
+    metric: attribution.metric,
+    change: round(attribution.change),
+    contributors: attribution.topContributors.flatMap(segment => {
+      const entry = firstEntry(segment.segment);
+      if (!entry) return [];
+      return [{
+        ...registry.alias(entry[0], entry[1]),
+        contribution: round(segment.contribution),
+        mixEffect: round(segment.mixEffect),
+        rateEffect: round(segment.rateEffect)
+      }];
+    })
+  }));
+
+  return {
+    digest: {
+      period: {
+        current: input.currentPeriod ? formatPeriod(input.currentPeriod.year, input.currentPeriod.week) : null,
+        baseline: input.baselinePeriod ? formatPeriod(input.baselinePeriod.year, input.baselinePeriod.week) : null
+      },
+      filters,
+      metrics: input.metrics.map(metric => ({
+        field: metric,
+        label: METRIC_FORMULA_MAP[metric].label,
+        unit: METRIC_FORMULA_MAP[metric].unit
+      })),
+      series: recent.map(result => ({
+        period: formatPeriod(result.dimensions.policy_start_year, result.dimensions.week_number),
+        values: Object.fromEntries(input.metrics.map(metric => [metric, round(result[metric])]))
+      })),
+      trends,
+      outliers,
+      flaggedUnits,
+      attributions
+    },
+    aliases: registry.aliases
+  };
+}
+
+/**
+ * 将模型输出中的代号还原为原始维度取值
+ * @param markdown 模型输出
+ * @param aliases 代号还原表
+ * @returns 还原后的 Markdown
+ */
+export function restoreAliases(markdown: string, aliases: Record<string, string>): string {
+  return markdown.replace(/SEG-\d{3,}/g, alias => aliases[alias] ?? alias);
+}
+
+/**
+ * 代号、期间与阈值异常描述的允许格式
+ * 阈值异常描述与 MetricCalculator.detectAnomalies 生成的文本一致
+ */
+const ALIAS_PATTERN = /^SEG-\d{3,}$/;
+const PERIOD_PATTERN = /^\d{4}-W\d{2}$/;
+const ANOMALY_FLAG_PATTERN = /^(变动成本率|满期赔付率|费用率|边际贡献率|保费时间进度达成率)异常: -?\d+(\.\d+)?%$/;
+
+const DIMENSION_LABELS = new Set<string>(DIMENSION_FIELDS.map(field => DISPLAY_NAMES[field]));
+const CHANGE_TYPES = new Set(['point', 'percent']);
+const TREND_DIRECTIONS = new Set(['up', 'down', 'flat']);
+const TREND_STRENGTHS = new Set(['strong', 'moderate', 'weak']);
+const OUTLIER_DIRECTIONS = new Set(['high', 'low']);
+
+/**
+ * 摘要字段校验失败
+ */
+class DigestFieldError extends Error {
+  constructor(path: string) {
+    super(`摘要字段无效：${path}`);
+    this.name = 'DigestFieldError';
+  }
+}
+
+/**
+ * 读取对象（非对象时报错）
+ */
+function readObject(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) throw new DigestFieldError(path);
+  return value as Record<string, unknown>;
+}
+
+/**
+ * 读取数组并逐项转换，可限制最大长度
+ */
+function readArray<T>(value: unknown, path: string, read: (item: unknown, itemPath: string) => T, maxLength = Infinity): T[] {
+  if (!Array.isArray(value) || value.length > maxLength) throw new DigestFieldError(path);
+  return value.map((item, index) => read(item, `${path}[${index}]`));
+}
+
+/**
+ * 读取有限数值
+ */
+function readNumber(value: unknown, path: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new DigestFieldError(path);
+  return value;
+}
+
+/**
+ * 读取符合格式或属于允许取值的字符串
+ */
+function readString(value: unknown, path: string, allowed: RegExp | ReadonlySet<string>): string {
+  const valid = typeof value === 'string'
+    && (allowed instanceof RegExp ? allowed.test(value) : allowed.has(value));
+  if (!valid) throw new DigestFieldError(path);
+  return value as string;
+}
+
+/**
+ * 读取指标字段
+ */
+function readMetric(value: unknown, path: string): InsightMetric {
+  if (typeof value !== 'string' || !Object.hasOwn(METRIC_FORMULA_MAP, value)) throw new DigestFieldError(path);
+  return value as InsightMetric;
+}
+
+/**
+ * 读取匿名化的维度取值
+ */
+function readSegment(value: Record<string, unknown>, path: string): DigestSegment {
+  return {
+    dimension: readString(value.dimension, `${path}.dimension`, DIMENSION_LABELS),
+    alias: readString(value.alias, `${path}.alias`, ALIAS_PATTERN)
+  };
+}
+
+/**
+ * 按白名单重建客户端提交的摘要（服务端在转发给大模型前调用）
+ * 只保留摘要定义中的字段，维度取值必须为代号，指标名称与单位取自公式注册表，其余文本仅接受固定格式，
+ * 保证发送出去的内容只有匿名化的聚合指标
+ * @param value 客户端提交的摘要
+ * @returns 重建后的摘要
+ * @throws 字段缺失或不符合格式时抛出异常，消息中包含字段路径
+ */
+export function sanitizeInsightDigest(value: unknown): InsightDigest {
+  const input = readObject(value, 'digest');
+  const period = readObject(input.period, 'period');
+  const readPeriod = (item: unknown, path: string) => (item === null ? null : readString(item, path, PERIOD_PATTERN));
+
+  return {
+    period: {
+      current: readPeriod(period.current, 'period.current'),
+      baseline: readPeriod(period.baseline, 'period.baseline')
+    },
+    filters: readArray(input.filters, 'filters', (item, path) => {
+      const filter = readObject(item, path);
+      return {
+        dimension: readString(filter.dimension, `${path}.dimension`, DIMENSION_LABELS),
+        values: readArray(filter.values, `${path}.values`, (alias, aliasPath) => readString(alias, aliasPath, ALIAS_PATTERN))
+      };
+    }),
+    metrics: readArray(input.metrics, 'metrics', (item, path) => {
+      const field = readMetric(readObject(item, path).field, `${path}.field`);
+      return { field, label: METRIC_FORMULA_MAP[field].label, unit: METRIC_FORMULA_MAP[field].unit };
+    }),
+    series: readArray(input.series, 'series', (item, path) => {
+      const point = readObject(item, path);
+      const values = readObject(point.values, `${path}.values`);
+      return {
+        period: readString(point.period, `${path}.period`, PERIOD_PATTERN),
+        values: Object.fromEntries(Object.entries(values).map(([metric, metricValue]) => [
+          readMetric(metric, `${path}.values`),
+          readNumber(metricValue, `${path}.values.${metric}`)
+        ]))
+      };
+    }, TREND_WINDOW),
+    trends: readArray(input.trends, 'trends', (item, path) => {
+      const trend = readObject(item, path);
+      return {
+        metric: readMetric(trend.metric, `${path}.metric`),
+        latest: readNumber(trend.latest, `${path}.latest`),
+        change: trend.change === null ? null : readNumber(trend.change, `${path}.change`),
+        changeType: readString(trend.changeType, `${path}.changeType`, CHANGE_TYPES) as MetricTrend['changeType'],
+        movingAverage: readNumber(trend.movingAverage, `${path}.movingAverage`),
+        windowChange: readNumber(trend.windowChange, `${path}.windowChange`),
+        direction: readString(trend.direction, `${path}.direction`, TREND_DIRECTIONS) as MetricTrend['direction'],
+        strength: readString(trend.strength, `${path}.strength`, TREND_STRENGTHS) as MetricTrend['strength']
+      };
+    }),
+    outliers: readArray(input.outliers, 'outliers', (item, path) => {
+      const outlier = readObject(item, path);
+      return {
+        period: readString(outlier.period, `${path}.period`, PERIOD_PATTERN),
+        metric: readMetric(outlier.metric, `${path}.metric`),
+        value: readNumber(outlier.value, `${path}.value`),
+        lower: readNumber(outlier.lower, `${path}.lower`),
+        upper: readNumber(outlier.upper, `${path}.upper`),
+        direction: readString(outlier.direction, `${path}.direction`, OUTLIER_DIRECTIONS) as 'high' | 'low'
+      };
+    }),
+    flaggedUnits: readArray(input.flaggedUnits, 'flaggedUnits', (item, path) => {
+      const unit = readObject(item, path);
+      return {
+        ...readSegment(unit, path),
+        premiumShare: readNumber(unit.premiumShare, `${path}.premiumShare`),
+        flags: readArray(unit.flags, `${path}.flags`, (flag, flagPath) => readString(flag, flagPath, ANOMALY_FLAG_PATTERN))
+      };
+    }, MAX_DIGEST_UNITS),
+    attributions: readArray(input.attributions, 'attributions', (item, path) => {
+      const attribution = readObject(item, path);
+      return {
+        metric: readMetric(attribution.metric, `${path}.metric`),
+        change: readNumber(attribution.change, `${path}.change`),
+        contributors: readArray(attribution.contributors, `${path}.contributors`, (contributor, contributorPath) => {
+          const segment = readObject(contributor, contributorPath);
+          return {
+            ...readSegment(segment, contributorPath),
+            contribution: readNumber(segment.contribution, `${contributorPath}.contribution`),
+            mixEffect: readNumber(segment.mixEffect, `${contributorPath}.mixEffect`),
+            rateEffect: readNumber(segment.rateEffect, `${contributorPath}.rateEffect`)
+          };
+        })
+      };
+    })
+  };
+}
@@ -0,0 +1,192 @@
+/**
+ * 车险多维分析系统 - 大模型洞察提供方
+ * 定义可插拔的洞察提供方接口与 OpenAI 兼容实现：发送匿名化摘要，返回三段式 Markdown，
+ * 并校验返回结构；校验失败时由调用方回退到规则模板报告
+ */
+
+import { InsightDigest } from '@/lib/insight-digest';
+
+/**
+ * 洞察提供方
+ */
+export interface InsightProvider {
+  id: string;
+  label: string;
+  /**
+   * 根据摘要生成 Markdown 报告
+   * @param digest 匿名化摘要
+   * @param signal 取消信号
+   */
+  generate(digest: InsightDigest, signal?: AbortSignal): Promise<string>;
+}
+
+/**
+ * 大模型接口调用失败：upstream 为接口报错、不可达或返回无效内容，timeout 为超时
+ */
+export class InsightProviderError extends Error {
+  constructor(message: string, readonly kind: 'upstream' | 'timeout') {
+    super(message);
+    this.name = 'InsightProviderError';
+  }
+}
+
+/**
+ * OpenAI 兼容接口配置
+ */
+export interface OpenAICompatibleConfig {
+  baseUrl: string;                                 // 如 http://localhost:8787/v1
+  apiKey?: string;
+  model: string;
+  temperature: number;
+  timeoutMs: number;
+}
+
+/**
+ * 报告必须包含的三段标题（按顺序）
+ */
+export const INSIGHT_SECTIONS = ['趋势分析', '异常识别', '业务洞察'] as const;
+
+/**
+ * 业务洞察段落至少包含的建议条数
+ */
+export const MIN_INSIGHT_RECOMMENDATIONS = 2;
+
+export const DEFAULT_LLM_CONFIG: Omit<OpenAICompatibleConfig, 'baseUrl'> = {
+  model: 'gpt-4o-mini',
+  temperature: 0.2,
+  timeoutMs: 30000
+};
+
+/**
+ * 系统提示词：约束输出结构与代号使用
+ */
+export const INSIGHT_SYSTEM_PROMPT = [
+  '你是车险经营分析师。用户会提供一份车险成本指标的JSON摘要，其中只有聚合指标。',
+  '请用中文输出 Markdown 报告，必须且只能包含以下三个二级标题，顺序不可改变：',
+  '## 一、趋势分析',
+  '## 二、异常识别',
+  '## 三、业务洞察',
+  `“业务洞察”中须给出 ${MIN_INSIGHT_RECOMMENDATIONS}-3 条以编号列表列出的可执行建议。`,
+  '摘要中的 SEG-xxx 为机构等维度取值的代号，引用时请原样保留代号，不要猜测真实名称。',
+  '率值指标的变化以百分点（pp）表述；不要编造摘要中没有的数据。'
+].join('\n');
+
+/**
+ * 校验报告是否符合三段式结构
+ * @param markdown 报告正文
+ * @returns 结构问题，为空表示通过
+ */
+export function validateInsightMarkdown(markdown: string): string[] {
+  const errors: string[] = [];
+  const lines = markdown.split('\n');
+  const headings = lines
+    .map((line, index) => ({ line: line.trim(), index }))
+    .filter(({ line }) => /^##\s/.test(line));
+
+  let previous = -1;
+  INSIGHT_SECTIONS.forEach((section, order) => {
+    const position = headings.findIndex(heading => heading.line.includes(section));
+    if (position < 0) {
+      errors.push(`缺少“${section}”段落`);
+      return;
+    }
+    if (position <= previous) {
+      errors.push(`“${section}”段落顺序错误`);
+    }
+    previous = position;
+
+    const start = headings[position].index + 1;
+    const end = position + 1 < headings.length ? headings[position + 1].index : lines.length;
+    const body = lines.slice(start, end).map(line => line.trim()).filter(Boolean);
+    if (body.length === 0) {
+      errors.push(`“${section}”段落为空`);
+    }
+    if (order === INSIGHT_SECTIONS.length - 1) {
+      const items = body.filter(line => /^(\d+[.、]\s*|[-*]\s+)/.test(line)).length;
+      if (items < MIN_INSIGHT_RECOMMENDATIONS) {
+        errors.push(`“${section}”段落至少需要 ${MIN_INSIGHT_RECOMMENDATIONS} 条建议`);
+      }
+    }
+  });
+  return errors;
+}
+
+/**
+ * 创建 OpenAI 兼容（/chat/completions）的洞察提供方
+ * @param config 接口配置
+ * @returns 洞察提供方
+ */
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): InsightProvider {
+  const endpoint = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    id: 'openai-compatible',
+    label: `OpenAI兼容接口（${config.model}）`,
+    async generate(digest: InsightDigest, signal?: AbortSignal): Promise<string> {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), config.timeoutMs);
+      signal?.addEventListener('abort', () => controller.abort());
+
+      try {
+        const response = await fetch(endpoint, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+          },
+          body: JSON.stringify({
+            model: config.model,
+            temperature: config.temperature,
+            messages: [
+              { role: 'system', content: INSIGHT_SYSTEM_PROMPT },
+              { role: 'user', content: JSON.stringify(digest) }
+            ]
+          }),
+          signal: controller.signal
+        });
+
+        if (!response.ok) {
+          throw new InsightProviderError(`大模型接口返回 ${response.status}`, 'upstream');
+        }
+        const body = await response.json() as { choices?: { message?: { content?: unknown } }[] };
+        const content = body.choices?.[0]?.message?.content;
+        if (typeof content !== 'string' || content.trim() === '') {
+          throw new InsightProviderError('大模型接口未返回内容', 'upstream');
+        }
+        return content.trim();
+      } catch (error) {
+        if (signal?.aborted || error instanceof InsightProviderError) throw error;
+        if (controller.signal.aborted) {
+          throw new InsightProviderError(`大模型接口超时（${config.timeoutMs}ms）`, 'timeout');
+        }
+        throw new InsightProviderError(
+          `大模型接口请求失败：${error instanceof Error ? error.message : String(error)}`,
+          'upstream'
+        );
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+  };
+}
+
+/**
+ * 从环境变量读取大模型接口配置（仅服务端使用）
+ * INSIGHT_LLM_BASE_URL 未设置时返回null，表示不启用大模型
+ * @param env 环境变量
+ * @returns 接口配置
+ */
+export function getLLMConfigFromEnv(env: Record<string, string | undefined> = process.env): OpenAICompatibleConfig | null {
+  const baseUrl = env.INSIGHT_LLM_BASE_URL;
+  if (!baseUrl) return null;
+
+  const temperature = Number(env.INSIGHT_LLM_TEMPERATURE);
+  const timeoutMs = Number(env.INSIGHT_LLM_TIMEOUT_MS);
+  return {
+    baseUrl,
+    apiKey: env.INSIGHT_LLM_API_KEY || undefined,
+    model: env.INSIGHT_LLM_MODEL || DEFAULT_LLM_CONFIG.model,
+    temperature: Number.isFinite(temperature) && env.INSIGHT_LLM_TEMPERATURE ? temperature : DEFAULT_LLM_CONFIG.temperature,
+    timeoutMs: Number.isFinite(timeoutMs) && timeoutMs > 0 ? timeoutMs : DEFAULT_LLM_CONFIG.timeoutMs
+  };
+}
@@ -0,0 +1,441 @@
+/**
+ * 车险多维分析系统 - 规则化洞察报告
+ * 对应 PRD 3.3“分析成本趋势”：基于趋势、统计异常与归因计算，按模板生成“三段式”中文报告
+ * （趋势分析 / 异常识别 / 业务洞察），输出结构化 Markdown，完全离线、结果可复现
+ */
+
+import { AnalysisResult, CalculatedFields, FilterConditions, FilterDimensions } from '@/types/insurance';
+import { DISPLAY_NAMES } from '@/lib/constants';
+import { calculateGrowthRate, calculateMovingAverage } from '@/lib/calculations';
+import { METRIC_FORMULA_MAP } from '@/lib/metric-formulas';
+import { formatAlertScope } from '@/lib/alert-rules';
+import { RECOMMENDED_ACTIONS } from '@/lib/risk-monitoring';
+import { detectTimeSeriesAnomalies } from '@/lib/time-series-anomaly';
+import { formatSlice } from '@/lib/week-reconciliation';
+import { MetricCalculationResult } from '@/services/metricCalculator';
+import { ComparisonPeriod } from '@/services/comparisonService';
+import { MetricAttributionResult } from '@/services/attributionService';
+import { downloadBlob } from '@/lib/download';
+
+/**
+ * 可分析的指标
+ */
+export type InsightMetric = keyof CalculatedFields;
+
+/**
+ * 趋势方向
+ */
+export type TrendDirection = 'up' | 'down' | 'flat';
+
+/**
+ * 报告来源：规则模板 / 大模型
+ */
+export type InsightSource = 'template' | 'llm';
+
+/**
+ * 单个指标的趋势
+ */
+export interface MetricTrend {
+  metric: InsightMetric;
+  latest: number;
+  previous: number | null;
+  change: number | null;                           // 率值指标为百分点，其余为增长率（%）
+  changeType: 'point' | 'percent';
+  movingAverage: number;                           // 近 MOVING_AVERAGE_WINDOW 周均值
+  windowChange: number;                            // 回归拟合的窗口内累计变化（率值为百分点，其余为相对均值的%）
+  direction: TrendDirection;
+  strength: 'strong' | 'moderate' | 'weak';
+  points: number;
+}
+
+/**
+ * 报告生成的输入（由 insightService 收集）
+ */
+export interface InsightReportInput {
+  filters: FilterConditions;
+  metrics: InsightMetric[];
+  dimension: keyof FilterDimensions;
+  currentPeriod: ComparisonPeriod | null;
+  baselinePeriod: ComparisonPeriod | null;
+  series: AnalysisResult[];                        // 截至当期的周度时间序列（按时间排序）
+  units: MetricCalculationResult[];                // 当期按 dimension 分组的指标结果
+  attributions: MetricAttributionResult[];         // 当期相对基期的归因
+}
+
+/**
+ * 洞察报告
+ */
+export interface InsightReport {
+  id: string;
+  createdAt: string;
+  title: string;
+  filters: FilterConditions;
+  metrics: InsightMetric[];
+  dimension: keyof FilterDimensions;
+  currentPeriod: ComparisonPeriod | null;
+  trends: MetricTrend[];
+  trendFindings: string[];
+  anomalyFindings: string[];
+  insightFindings: string[];
+  recommendations: string[];
+  markdown: string;
+  source?: InsightSource;                          // 缺省为规则模板
+  provider?: string;                               // 大模型提供方名称
+  fallbackReason?: string;                         // 请求大模型失败、回退到模板的原因
+}
+
+export const INSIGHT_REPORTS_STORAGE_KEY = 'insurance_insight_reports';
+
+/**
+ * 最多保留的历史报告数
+ */
+export const MAX_STORED_INSIGHT_REPORTS = 20;
+
+/**
+ * 默认分析的指标
+ */
+export const DEFAULT_INSIGHT_METRICS: InsightMetric[] = [
+  'variable_cost_ratio_percent',
+  'expired_loss_ratio_percent',
+  'expense_ratio_percent'
+];
+
+/**
+ * 趋势判断使用的周数
+ */
+export const TREND_WINDOW = 8;
+
+/**
+ * 移动平均窗口（周）
+ */
+export const MOVING_AVERAGE_WINDOW = 4;
+
+/**
+ * 趋势强度阈值（率值为百分点，其余为相对均值的%）
+ */
+const TREND_STRENGTH_THRESHOLDS = { strong: 5, moderate: 1.5 };
+
+/**
+ * 报告中列出的阈值异常单元数
+ */
+const MAX_LISTED_UNITS = 5;
+
+/**
+ * 报告中给出的建议数
+ */
+const MAX_RECOMMENDATIONS = 3;
+
+const TREND_LABELS: Record<TrendDirection, Record<MetricTrend['strength'], string>> = {
+  up: { strong: '明显上升', moderate: '温和上升', weak: '基本平稳' },
+  down: { strong: '明显下降', moderate: '温和下降', weak: '基本平稳' },
+  flat: { strong: '基本平稳', moderate: '基本平稳', weak: '基本平稳' }
+};
+
+/**
+ * 指标的不利方向（由建议措施表推断，双向均有建议的指标视为无固定不利方向）
+ * @param metric 指标
+ */
+function adverseDirection(metric: InsightMetric): 'high' | 'low' | null {
+  const actions = RECOMMENDED_ACTIONS[metric];
+  if (actions?.high && !actions.low) return 'high';
+  if (actions?.low && !actions.high) return 'low';
+  return null;
+}
+
+/**
+ * 按指标单位与精度格式化取值
+ * @param metric 指标
+ * @param value 取值
+ */
+export function formatMetricValue(metric: InsightMetric, value: number): string {
+  const formula = METRIC_FORMULA_MAP[metric];
+  if (formula.unit === '%') return `${value.toFixed(formula.decimals)}%`;
+  if (formula.unit === '元/件') return `${value.toFixed(formula.decimals)}元`;
+  return value.toFixed(formula.decimals);
+}
+
+/**
+ * 格式化带符号的变化量
+ * @param change 变化量
+ * @param changeType 百分点或增长率
+ */
+function formatChange(change: number, changeType: MetricTrend['changeType']): string {
+  const sign = change > 0 ? '+' : '';
+  return changeType === 'point' ? `${sign}${change.toFixed(2)}pp` : `${sign}${change.toFixed(1)}%`;
+}
+
+/**
+ * 格式化期间
+ */
+function formatPeriod(period: ComparisonPeriod): string {
+  return `${period.year}年第${period.week}周`;
+}
+
+/**
+ * 最小二乘斜率
+ * @param values 等间隔的取值
+ */
+function linearSlope(values: number[]): number {
+  const n = values.length;
+  if (n < 2) return 0;
+  const meanX = (n - 1) / 2;
+  const meanY = values.reduce((sum, value) => sum + value, 0) / n;
+  let numerator = 0;
+  let denominator = 0;
+  values.forEach((value, index) => {
+    numerator += (index - meanX) * (value - meanY);
+    denominator += (index - meanX) ** 2;
+  });
+  return numerator / denominator;
+}
+
+/**
+ * 计算单个指标的趋势（环比、移动平均、回归方向与强度）
+ * @param series 按时间排序的周度时间序列
+ * @param metric 指标
+ * @returns 趋势，序列为空时返回null
+ */
+export function analyzeTrend(series: AnalysisResult[], metric: InsightMetric): MetricTrend | null {
+  if (series.length === 0) return null;
+  const values = series.slice(-TREND_WINDOW).map(result => result[metric]);
+  const latest = values[values.length - 1];
+  const previous = values.length > 1 ? values[values.length - 2] : null;
+  const changeType = METRIC_FORMULA_MAP[metric].unit === '%' ? 'point' : 'percent';
+
+  const movingAverages = calculateMovingAverage(values, Math.min(MOVING_AVERAGE_WINDOW, values.length));
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const fitted = linearSlope(values) * (values.length - 1);
+  const windowChange = changeType === 'point' ? fitted : mean !== 0 ? (fitted / Math.abs(mean)) * 100 : 0;
+  const magnitude = Math.abs(windowChange);
+  const strength = magnitude >= TREND_STRENGTH_THRESHOLDS.strong
+    ? 'strong'
+    : magnitude >= TREND_STRENGTH_THRESHOLDS.moderate ? 'moderate' : 'weak';
+
+  return {
+    metric,
+    latest,
+    previous,
+    change: previous === null ? null : changeType === 'point' ? latest - previous : calculateGrowthRate(latest, previous),
+    changeType,
+    movingAverage: movingAverages[movingAverages.length - 1],
+    windowChange,
+    direction: strength === 'weak' ? 'flat' : windowChange > 0 ? 'up' : 'down',
+    strength,
+    points: values.length
+  };
+}
+
+/**
+ * 生成趋势分析段落
+ */
+function describeTrend(trend: MetricTrend): string {
+  const label = METRIC_FORMULA_MAP[trend.metric].label;
+  const parts = [`**${label}**：本期 ${formatMetricValue(trend.metric, trend.latest)}`];
+  if (trend.change !== null) {
+    const verb = trend.change > 0 ? '上升' : trend.change < 0 ? '下降' : '持平';
+    parts.push(`较上期${verb}（${formatChange(trend.change, trend.changeType)}）`);
+  }
+  parts.push(`近${Math.min(MOVING_AVERAGE_WINDOW, trend.points)}周均值 ${formatMetricValue(trend.metric, trend.movingAverage)}`);
+  parts.push(`近${trend.points}周整体**${TREND_LABELS[trend.direction][trend.strength]}**（拟合累计 ${formatChange(trend.windowChange, trend.changeType)}）`);
+
+  const adverse = adverseDirection(trend.metric);
+  if (adverse && trend.direction !== 'flat' && (trend.direction === 'up') === (adverse === 'high')) {
+    parts.push('走势不利，需重点关注');
+  }
+  return parts.join('，') + '。';
+}
+
+/**
+ * 生成异常识别段落：统计离群周次 + 阈值异常单元
+ */
+function describeAnomalies(input: InsightReportInput): string[] {
+  const findings: string[] = [];
+  const recent = input.series.slice(-TREND_WINDOW);
+  const firstIndex = input.series.length - recent.length;
+
+  detectTimeSeriesAnomalies(input.series, input.metrics)
+    .filter(anomaly => anomaly.index >= firstIndex)
+    .forEach(anomaly => {
+      // 检测指标即 input.metrics，均为计算字段
+      const metric = anomaly.metric as InsightMetric;
+      findings.push(
+        `统计离群：${anomaly.year}年第${anomaly.week}周 ${METRIC_FORMULA_MAP[metric].label} ${formatMetricValue(metric, anomaly.value)}，` +
+        `${anomaly.direction === 'high' ? '高于' : '低于'}正常范围 ` +
+        `${formatMetricValue(metric, anomaly.lower)} ~ ${formatMetricValue(metric, anomaly.upper)}。`
+      );
+    });
+
+  const flagged = input.units
+    .filter(unit => (unit.anomaly_flags?.length ?? 0) > 0)
+    .sort((a, b) => b.signed_premium_yuan - a.signed_premium_yuan);
+  flagged.slice(0, MAX_LISTED_UNITS).forEach(unit => {
+    findings.push(
+      `阈值异常：${formatSlice(unit.dimensions) || '全部'}（签单保费 ${(unit.signed_premium_yuan / 10000).toFixed(1)} 万元）：` +
+      `${(unit.anomaly_flags ?? []).join('；')}。`
+    );
+  });
+  if (flagged.length > MAX_LISTED_UNITS) {
+    findings.push(`另有 ${flagged.length - MAX_LISTED_UNITS} 个${DISPLAY_NAMES[input.dimension]}存在阈值异常，可在风险监控中查看。`);
+  }
+  return findings;
+}
+
+/**
+ * 生成归因洞察段落
+ */
+function describeAttribution(attribution: MetricAttributionResult): string | null {
+  const top = attribution.topContributors[0];
+  if (!top || attribution.change === 0) return null;
+
+  const unit = METRIC_FORMULA_MAP[attribution.metric].unit === '%' ? 'point' : 'percent';
+  const format = (value: number) => (unit === 'point' ? formatChange(value, 'point') : formatMetricValue(attribution.metric, value));
+  const label = METRIC_FORMULA_MAP[attribution.metric].label;
+  const driver = Math.abs(top.mixEffect) >= Math.abs(top.rateEffect)
+    ? `以结构效应为主，保费占比由 ${top.baselineShare.toFixed(1)}% 变为 ${top.currentShare.toFixed(1)}%`
+    : `以费率效应为主，自身${label}由 ${top.baselineValue === null ? '-' : formatMetricValue(attribution.metric, top.baselineValue)} ` +
+      `变为 ${top.currentValue === null ? '-' : formatMetricValue(attribution.metric, top.currentValue)}`;
+  const others = attribution.topContributors
+    .slice(1, 3)
+    .map(segment => `${segment.label}（${format(segment.contribution)}）`)
+    .join('、');
+
+  return `${label}较${formatPeriod(attribution.baselinePeriod)}变化 ${format(attribution.change)}，` +
+    `最主要的影响因子为 ${top.label}（贡献 ${format(top.contribution)}，${driver}）` +
+    (others ? `，其次为 ${others}` : '') + '。';
+}
+
+/**
+ * 生成可执行建议：优先针对走势不利的指标与归因定位的单元
+ */
+function buildRecommendations(trends: MetricTrend[], attributions: MetricAttributionResult[]): string[] {
+  const recommendations: string[] = [];
+  trends.forEach(trend => {
+    const adverse = adverseDirection(trend.metric);
+    if (!adverse || trend.direction === 'flat' || (trend.direction === 'up') !== (adverse === 'high')) return;
+
+    const action = RECOMMENDED_ACTIONS[trend.metric]?.[adverse];
+    const top = attributions.find(attribution => attribution.metric === trend.metric)?.topContributors[0];
+    if (action) recommendations.push(top ? `针对 ${top.label}：${action}` : action);
+  });
+
+  if (recommendations.length === 0) {
+    recommendations.push('各项指标走势总体平稳，保持现有经营策略，按周跟踪指标变化');
+  }
+  if (recommendations.length < 2) {
+    recommendations.push('结合风险监控与预警规则，对异常单元逐一核实并跟进整改');
+  }
+  return Array.from(new Set(recommendations)).slice(0, MAX_RECOMMENDATIONS);
+}
+
+/**
+ * 生成洞察报告
+ * @param input 趋势、异常与归因计算所需的数据
+ * @returns 洞察报告（含 Markdown 正文）
+ */
+export function generateInsightReport(input: InsightReportInput): InsightReport {
+  const trends = input.metrics
+    .map(metric => analyzeTrend(input.series, metric))
+    .filter((trend): trend is MetricTrend => trend !== null);
+
+  const trendFindings = trends.map(describeTrend);
+  const anomalyFindings = describeAnomalies(input);
+  const insightFindings = input.attributions
+    .map(describeAttribution)
+    .filter((finding): finding is string => finding !== null);
+  const recommendations = buildRecommendations(trends, input.attributions);
+
+  const createdAt = new Date().toISOString();
+  const title = `车险成本趋势分析报告${input.currentPeriod ? `（${formatPeriod(input.currentPeriod)}）` : ''}`;
+  const lines = [
+    `# ${title}`,
+    '',
+    `> 生成时间：${createdAt.replace('T', ' ').slice(0, 19)}`,
+    `> 分析期间：${input.currentPeriod ? formatPeriod(input.currentPeriod) : '无数据'}` +
+      (input.baselinePeriod ? `，对比 ${formatPeriod(input.baselinePeriod)}` : ''),
+    `> 筛选条件：${formatAlertScope(input.filters)}`,
+    `> 分析指标：${input.metrics.map(metric => METRIC_FORMULA_MAP[metric].label).join('、')}`,
+    '',
+    '## 一、趋势分析',
+    '',
+    ...(trendFindings.length > 0 ? trendFindings.map(finding => `- ${finding}`) : ['- 当前筛选条件下暂无时间序列数据。']),
+    '',
+    '## 二、异常识别',
+    '',
+    ...(anomalyFindings.length > 0 ? anomalyFindings.map(finding => `- ${finding}`) : ['- 近期未发现统计离群周次或阈值异常。']),
+    '',
+    '## 三、业务洞察',
+    '',
+    ...(insightFindings.length > 0 ? insightFindings.map(finding => `- ${finding}`) : ['- 暂无可归因的指标变化。']),
+    '',
+    '### 建议措施',
+    '',
+    ...recommendations.map((recommendation, index) => `${index + 1}. ${recommendation}`),
+    ''
+  ];
+
+  return {
+    id: `insight_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`,
+    createdAt,
+    title,
+    filters: input.filters,
+    metrics: input.metrics,
+    dimension: input.dimension,
+    currentPeriod: input.currentPeriod,
+    trends,
+    trendFindings,
+    anomalyFindings,
+    insightFindings,
+    recommendations,
+    markdown: lines.join('\n'),
+    source: 'template'
+  };
+}
+
+/**
+ * 读取历史报告
+ * @returns 历史报告，按生成时间倒序
+ */
+export function loadInsightReports(): InsightReport[] {
+  if (typeof localStorage === 'undefined') return [];
+  try {
+    const stored = localStorage.getItem(INSIGHT_REPORTS_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as InsightReport[]) : [];
+  } catch (error) {
+    console.error('读取历史洞察报告失败:', error);
+    return [];
+  }
+}
+
+/**
+ * 保存报告到历史（超出上限时丢弃最早的报告）
+ * @param report 洞察报告
+ * @returns 保存后的历史报告
+ */
+export function saveInsightReport(report: InsightReport): InsightReport[] {
+  const reports = [report, ...loadInsightReports().filter(item => item.id !== report.id)].slice(0, MAX_STORED_INSIGHT_REPORTS);
+  if (typeof localStorage !== 'undefined') {
+    localStorage.setItem(INSIGHT_REPORTS_STORAGE_KEY, JSON.stringify(reports));
+  }
+  return reports;
+}
+
+/**
+ * 删除历史报告
+ * @param id 报告id
+ * @returns 删除后的历史报告
+ */
+export function deleteInsightReport(id: string): InsightReport[] {
+  const reports = loadInsightReports().filter(report => report.id !== id);
+  if (typeof localStorage !== 'undefined') {
+    localStorage.setItem(INSIGHT_REPORTS_STORAGE_KEY, JSON.stringify(reports));
+  }
+  return reports;
+}
+
+/**
+ * 下载报告 Markdown
+ * @param report 洞察报告
+ */
+export function downloadInsightReport(report: InsightReport): void {
+  downloadBlob(report.markdown, `${report.title}_${report.createdAt.slice(0, 10)}.md`, 'text/markdown;charset=utf-8;');
+}
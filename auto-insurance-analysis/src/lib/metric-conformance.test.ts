@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { verifyMetricConformance } from '@/lib/metric-conformance';
+import { calculateAnalysisResult } from '@/lib/calculations';
+import { InsuranceRecord } from '@/types/insurance';
+import golden from '@/lib/fixtures/metric-golden.json';
+
+describe('指标口径黄金样例', () => {
+  it('各计算入口与黄金样例一致', () => {
+    const report = verifyMetricConformance();
+    expect(report.deviations).toEqual([]);
+    expect(report.passed).toBe(true);
+    expect(report.caseCount).toBe(golden.cases.length);
+  });
+
+  it('商业险自主系数不计入交强险签单保费', () => {
+    const mixed = golden.cases[1].records as InsuranceRecord[];
+    expect(calculateAnalysisResult(mixed).commercial_auto_underwriting_factor).toBeCloseTo(0.875, 6);
+  });
+});
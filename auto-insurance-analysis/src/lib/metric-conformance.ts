@@ -0,0 +1,106 @@
+/**
+ * 车险多维分析系统 - 指标口径一致性校验
+ * 使用黄金样例（fixtures/metric-golden.json）校验各计算入口与数据规范的一致性
+ */
+
+import { CalculatedFields, InsuranceRecord } from '@/types/insurance';
+import { calculateAnalysisResult } from '@/lib/calculations';
+import { METRIC_FORMULAS, METRIC_TOLERANCE } from '@/lib/metric-formulas';
+import { calculateAllMetrics } from '@/services/metricCalculator';
+import golden from '@/lib/fixtures/metric-golden.json';
+
+/**
+ * 黄金样例
+ */
+interface GoldenCase {
+  name: string;
+  records: Partial<InsuranceRecord>[];
+  expected: CalculatedFields;
+}
+
+/**
+ * 单项偏差
+ */
+export interface MetricDeviation {
+  caseName: string;
+  engine: string;
+  field: keyof CalculatedFields;
+  expected: number;
+  actual: number;
+  relativeError: number;
+}
+
+/**
+ * 校验报告
+ */
+export interface MetricConformanceReport {
+  passed: boolean;
+  tolerance: number;
+  caseCount: number;
+  checkedValues: number;
+  deviations: MetricDeviation[];
+}
+
+/**
+ * 需要保持口径一致的计算入口
+ */
+const ENGINES: { name: string; calculate: (records: InsuranceRecord[]) => CalculatedFields }[] = [
+  { name: 'calculateAnalysisResult', calculate: calculateAnalysisResult },
+  { name: 'calculateAllMetrics', calculate: calculateAllMetrics }
+];
+
+/**
+ * 计算相对误差，期望值为0时使用绝对误差
+ * @param expected 期望值
+ * @param actual 实际值
+ * @returns 误差
+ */
+function relativeError(expected: number, actual: number): number {
+  const diff = Math.abs(actual - expected);
+  return expected === 0 ? diff : diff / Math.abs(expected);
+}
+
+/**
+ * 执行指标口径一致性校验
+ * @param tolerance 允许的相对误差，默认为PRD要求的0.1%
+ * @returns 校验报告
+ */
+export function verifyMetricConformance(tolerance: number = METRIC_TOLERANCE): MetricConformanceReport {
+  const cases = golden.cases as GoldenCase[];
+  const deviations: MetricDeviation[] = [];
+  let checkedValues = 0;
+
+  cases.forEach(goldenCase => {
+    const records = goldenCase.records as InsuranceRecord[];
+
+    ENGINES.forEach(engine => {
+      const result = engine.calculate(records);
+
+      METRIC_FORMULAS.forEach(({ field }) => {
+        checkedValues++;
+        const expected = goldenCase.expected[field];
+        const actual = result[field];
+        const error = relativeError(expected, actual);
+
+        if (!(error <= tolerance)) {
+          deviations.push({
+            caseName: goldenCase.name,
+            engine: engine.name,
+            field,
+            expected,
+            actual,
+            relativeError: error
+          });
+        }
+      });
+    });
+  });
+
+  return {
+    passed: deviations.length === 0,
+    tolerance,
+    caseCount: cases.length,
+    checkedValues,
+    deviations
+  };
+}
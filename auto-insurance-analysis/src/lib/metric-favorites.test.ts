@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { getMetricUnitType } from '@/lib/metric-favorites';
+
+describe('指标单位类型', () => {
+  it('金额、件数、比率分属不同坐标轴', () => {
+    expect(getMetricUnitType('signed_premium_yuan')).toBe('amount');
+    expect(getMetricUnitType('policy_count')).toBe('count');
+    expect(getMetricUnitType('claim_case_count')).toBe('count');
+    expect(getMetricUnitType('expired_loss_ratio_percent')).toBe('ratio');
+  });
+
+  it('单均/案均金额与系数单独成组', () => {
+    expect(getMetricUnitType('average_premium_per_policy_yuan')).toBe('average');
+    expect(getMetricUnitType('commercial_auto_underwriting_factor')).toBe('factor');
+  });
+});
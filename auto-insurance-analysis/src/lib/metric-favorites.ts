@@ -0,0 +1,95 @@
+/**
+ * 车险多维分析系统 - 图表指标偏好
+ * 图表可选的19个指标（按 FIELD_GROUPS 的指标分组）、常用指标收藏与金额单位，收藏保存在本地（localStorage）
+ */
+
+import { AbsoluteValueFields, CalculatedFields } from '@/types/insurance';
+import { FIELD_GROUPS } from '@/lib/constants';
+
+/**
+ * 图表指标字段
+ */
+export type ChartMetric = keyof AbsoluteValueFields | keyof CalculatedFields;
+
+/**
+ * 金额单位
+ */
+export type AmountUnit = '元' | '万元';
+
+/**
+ * 指标分组（与 FIELD_GROUPS 的指标分组一致）
+ */
+export const METRIC_GROUPS: { key: string; label: string; fields: readonly ChartMetric[] }[] = (
+  ['premium', 'claims', 'costs', 'profitability'] as const
+).map(key => ({ key, label: FIELD_GROUPS[key].label, fields: FIELD_GROUPS[key].fields }));
+
+/**
+ * 同一图表最多绘制的指标数
+ */
+export const MAX_CHART_METRICS = 4;
+
+/**
+ * 收藏指标在localStorage中的键
+ */
+export const FAVORITE_METRICS_STORAGE_KEY = 'insurance_favorite_metrics';
+
+/**
+ * 是否为比率类指标（百分比，绘制在次坐标轴）
+ * @param field 指标字段
+ */
+export function isRatioMetric(field: string): boolean {
+  return field.endsWith('_percent');
+}
+
+/**
+ * 是否为金额类指标（受金额单位切换影响，单均/案均类始终以元显示）
+ * @param field 指标字段
+ */
+export function isAmountMetric(field: string): boolean {
+  return field.endsWith('_yuan') && !field.startsWith('average_');
+}
+
+/**
+ * 指标的单位类型（多指标图表按单位类型分配坐标轴）
+ */
+export type MetricUnitType = 'amount' | 'average' | 'count' | 'ratio' | 'factor';
+
+/**
+ * 获取指标的单位类型
+ * @param field 指标字段
+ * @returns 金额、单均/案均金额、件数、比率或系数
+ */
+export function getMetricUnitType(field: string): MetricUnitType {
+  if (isRatioMetric(field)) return 'ratio';
+  if (isAmountMetric(field)) return 'amount';
+  if (field.endsWith('_yuan')) return 'average';
+  if (field.endsWith('_count')) return 'count';
+  return 'factor';
+}
+
+/**
+ * 读取收藏的指标
+ * @returns 收藏的指标，运行环境无localStorage或内容损坏时返回空数组
+ */
+export function loadFavoriteMetrics(): ChartMetric[] {
+  if (typeof localStorage === 'undefined') return [];
+  try {
+    const stored = localStorage.getItem(FAVORITE_METRICS_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as ChartMetric[]) : [];
+  } catch (error) {
+    console.error('读取收藏指标失败:', error);
+    return [];
+  }
+}
+
+/**
+ * 保存收藏的指标
+ * @param metrics 收藏的指标
+ * @returns 保存的指标
+ */
+export function saveFavoriteMetrics(metrics: ChartMetric[]): ChartMetric[] {
+  if (typeof localStorage !== 'undefined') {
+    localStorage.setItem(FAVORITE_METRICS_STORAGE_KEY, JSON.stringify(metrics));
+  }
+  return metrics;
+}
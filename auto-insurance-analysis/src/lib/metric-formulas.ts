@@ -0,0 +1,197 @@
+/**
+ * 车险多维分析系统 - 指标公式注册表
+ * 计算字段的唯一公式来源，口径依据《上传CSV文件字段规范.md》
+ * 所有公式均基于聚合后的绝对值字段计算（先聚合绝对值，再计算比率）
+ */
+
+import { AbsoluteValueFields, AggregatedValueFields, CalculatedFields } from '@/types/insurance';
+
+/**
+ * 指标计算允许的相对误差（PRD：与验证报告差异 <0.1%）
+ */
+export const METRIC_TOLERANCE = 0.001;
+
+/**
+ * 单个计算字段的公式定义
+ */
+export interface MetricFormula {
+  field: keyof CalculatedFields;
+  label: string;
+  unit: '元/件' | '%' | '系数';
+  decimals: number;                             // 展示精度
+  denominators: (keyof AbsoluteValueFields)[];  // 分母为0时产生计算警告
+  compute: (values: AggregatedValueFields) => number;
+}
+
+/**
+ * 绝对值字段中文名称（用于计算警告）
+ */
+const DENOMINATOR_LABELS: Record<keyof AbsoluteValueFields, string> = {
+  signed_premium_yuan: '签单保费',
+  matured_premium_yuan: '满期保费',
+  commercial_premium_before_discount_yuan: '商业险折前保费',
+  policy_count: '保单件数',
+  claim_case_count: '赔案件数',
+  reported_claim_payment_yuan: '已报告赔款',
+  expense_amount_yuan: '费用金额',
+  matured_margin_contribution_yuan: '满期边际贡献额',
+  variable_cost_amount_yuan: '变动成本金额',
+  premium_time_progress_plan_yuan: '保费时间进度计划'
+};
+
+/**
+ * 安全除法，分母为0或非有限数时返回0
+ * @param numerator 分子
+ * @param denominator 分母
+ * @returns 商
+ */
+function ratio(numerator: number, denominator: number): number {
+  return denominator !== 0 && Number.isFinite(denominator) ? numerator / denominator : 0;
+}
+
+/**
+ * 满期赔付率（%）
+ */
+function lossRatio(values: AbsoluteValueFields): number {
+  return ratio(values.reported_claim_payment_yuan, values.matured_premium_yuan) * 100;
+}
+
+/**
+ * 费用率（%，基于签单保费）
+ */
+function expenseRatio(values: AbsoluteValueFields): number {
+  return ratio(values.expense_amount_yuan, values.signed_premium_yuan) * 100;
+}
+
+/**
+ * 计算字段公式注册表
+ */
+export const METRIC_FORMULAS: MetricFormula[] = [
+  {
+    field: 'average_premium_per_policy_yuan',
+    label: '单均保费',
+    unit: '元/件',
+    decimals: 0,
+    denominators: ['policy_count'],
+    compute: v => ratio(v.signed_premium_yuan, v.policy_count)
+  },
+  {
+    field: 'average_claim_payment_yuan',
+    label: '案均赔款',
+    unit: '元/件',
+    decimals: 0,
+    denominators: ['claim_case_count'],
+    compute: v => ratio(v.reported_claim_payment_yuan, v.claim_case_count)
+  },
+  {
+    // 赔案件数/保单件数 × 满期率
+    field: 'claim_frequency_percent',
+    label: '满期出险率',
+    unit: '%',
+    decimals: 1,
+    denominators: ['policy_count', 'signed_premium_yuan'],
+    compute: v => ratio(v.claim_case_count, v.policy_count) * ratio(v.matured_premium_yuan, v.signed_premium_yuan) * 100
+  },
+  {
+    field: 'expired_loss_ratio_percent',
+    label: '满期赔付率',
+    unit: '%',
+    decimals: 1,
+    denominators: ['matured_premium_yuan'],
+    compute: lossRatio
+  },
+  {
+    field: 'expense_ratio_percent',
+    label: '费用率',
+    unit: '%',
+    decimals: 1,
+    denominators: ['signed_premium_yuan'],
+    compute: expenseRatio
+  },
+  {
+    // 费用金额/签单保费 + 已报告赔款/满期保费，分母警告已由费用率与满期赔付率给出
+    field: 'variable_cost_ratio_percent',
+    label: '变动成本率',
+    unit: '%',
+    decimals: 1,
+    denominators: [],
+    compute: v => expenseRatio(v) + lossRatio(v)
+  },
+  {
+    // 满期边际贡献额 = 满期保费 × (1 - 满期赔付率 - 费用率)，除以满期保费即得贡献率
+    field: 'matured_margin_contribution_rate_percent',
+    label: '满期边际贡献率',
+    unit: '%',
+    decimals: 1,
+    denominators: ['matured_premium_yuan'],
+    compute: v => v.matured_premium_yuan !== 0 ? 100 - lossRatio(v) - expenseRatio(v) : 0
+  },
+  {
+    field: 'premium_time_progress_achievement_rate_percent',
+    label: '保费时间进度达成率',
+    unit: '%',
+    decimals: 1,
+    denominators: ['premium_time_progress_plan_yuan'],
+    compute: v => ratio(v.signed_premium_yuan, v.premium_time_progress_plan_yuan) * 100
+  },
+  {
+    field: 'commercial_auto_underwriting_factor',
+    label: '商业险自主系数',
+    unit: '系数',
+    decimals: 4,
+    denominators: ['commercial_premium_before_discount_yuan'],
+    // 仅商业险口径：交强险签单保费不计入分子
+    compute: v => ratio(v.commercial_signed_premium_yuan, v.commercial_premium_before_discount_yuan)
+  },
+  {
+    field: 'combined_ratio_percent',
+    label: '综合成本率',
+    unit: '%',
+    decimals: 1,
+    denominators: [],
+    compute: v => lossRatio(v) + expenseRatio(v)
+  },
+  {
+    field: 'profit_margin_percent',
+    label: '利润率',
+    unit: '%',
+    decimals: 1,
+    denominators: [],
+    compute: v => 100 - lossRatio(v) - expenseRatio(v)
+  }
+];
+
+/**
+ * 按字段名索引的公式注册表
+ */
+export const METRIC_FORMULA_MAP = Object.fromEntries(
+  METRIC_FORMULAS.map(formula => [formula.field, formula])
+) as Record<keyof CalculatedFields, MetricFormula>;
+
+/**
+ * 基于聚合后的绝对值字段计算全部计算字段（不做舍入，展示时按 decimals 格式化）
+ * @param values 聚合后的绝对值字段
+ * @returns 计算字段
+ */
+export function computeMetrics(values: AggregatedValueFields): CalculatedFields {
+  const result = {} as CalculatedFields;
+  METRIC_FORMULAS.forEach(formula => {
+    result[formula.field] = formula.compute(values);
+  });
+  return result;
+}
+
+/**
+ * 收集分母为0导致的计算警告
+ * @param values 聚合后的绝对值字段
+ * @returns 警告信息
+ */
+export function collectMetricWarnings(values: AbsoluteValueFields): string[] {
+  const warnings: string[] = [];
+  METRIC_FORMULAS.forEach(formula => {
+    formula.denominators
+      .filter(field => !values[field])
+      .forEach(field => warnings.push(`${formula.label}计算：${DENOMINATOR_LABELS[field]}为0`));
+  });
+  return warnings;
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { RiskUnit, toUnitFilters } from '@/lib/risk-monitoring';
+import { DEFAULT_URL_STATE, decodeDashboardState, encodeDashboardState } from '@/lib/url-state';
+
+function unit(dimensions: RiskUnit['dimensions']): RiskUnit {
+  return {
+    dimensions,
+    level: 'warning',
+    signedPremium: 1000,
+    exposureShare: 10,
+    recordCount: 1,
+    expiredLossRatio: 80,
+    variableCostRatio: 100,
+    expenseRatio: 20,
+    marginContributionRate: 0,
+    anomalyFlags: [],
+    alerts: [],
+    recommendations: []
+  };
+}
+
+describe('toUnitFilters', () => {
+  it('单元维度取值写为数组并覆盖同维度的已有条件', () => {
+    const filters = toUnitFilters(
+      unit({ third_level_organization: '天府', policy_start_year: 2025, is_new_energy_vehicle: true }),
+      { third_level_organization: ['高新'], week_number: [28] }
+    );
+    expect(filters).toEqual({
+      third_level_organization: ['天府'],
+      policy_start_year: [2025],
+      is_new_energy_vehicle: [true],
+      week_number: [28]
+    });
+  });
+
+  it('下钻筛选条件经URL往返后保持不变', () => {
+    const filters = toUnitFilters(unit({ third_level_organization: '天府', week_number: 28 }));
+    const state = { ...DEFAULT_URL_STATE, filters };
+    expect(decodeDashboardState(encodeDashboardState(state)).filters).toEqual(filters);
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * 车险多维分析系统 - 风险监控
+ * 按选定的维度组合（如 三级机构 × 业务类型）运行指标引擎，结合 MetricCalculator 的异常标识与预警规则
+ * 给出各业务单元的风险级别，按级别与保费敞口排序，并附建议措施
+ */
+
+import Papa from 'papaparse';
+import { FilterConditions, FilterDimensions, InsuranceRecord } from '@/types/insurance';
+import { formatSlice } from '@/lib/week-reconciliation';
+import {
+  ALERT_OPERATOR_LABELS,
+  ALERT_SEVERITY_LABELS,
+  ALERT_SEVERITY_RANK,
+  AlertMetric,
+  AlertRule,
+  AlertSeverity,
+  TriggeredAlert,
+  evaluateAlertRules,
+  getAlertMetricLabel
+} from '@/lib/alert-rules';
+import { MetricCalculationResult, calculateMetricsByDimensions } from '@/services/metricCalculator';
+import { downloadBlob } from '@/lib/download';
+
+/**
+ * 业务单元风险结果
+ */
+export interface RiskUnit {
+  dimensions: Partial<FilterDimensions>;
+  level: AlertSeverity;
+  signedPremium: number;
+  exposureShare: number;                           // 签单保费占全部单元的比例（%）
+  recordCount: number;
+  expiredLossRatio: number;
+  variableCostRatio: number;
+  expenseRatio: number;
+  marginContributionRate: number;
+  anomalyFlags: string[];                          // MetricCalculator 固定阈值异常
+  alerts: TriggeredAlert[];                        // 触发的预警规则
+  recommendations: string[];
+}
+
+/**
+ * 风险监控结果
+ */
+export interface RiskMonitorReport {
+  dimensions: (keyof FilterDimensions)[];
+  units: RiskUnit[];                               // 按级别、签单保费降序
+  levelCounts: Record<AlertSeverity, number>;
+  totalSignedPremium: number;
+  atRiskPremium: number;                           // 严重与警告单元的签单保费合计
+}
+
+/**
+ * 默认监控维度组合
+ */
+export const DEFAULT_RISK_DIMENSIONS: (keyof FilterDimensions)[] = ['third_level_organization', 'business_type_category'];
+
+/**
+ * 指标偏高/偏低时的建议措施
+ */
+export const RECOMMENDED_ACTIONS: Partial<Record<AlertMetric, { high?: string; low?: string }>> = {
+  expired_loss_ratio_percent: { high: '复盘大额赔案与出险集中的车型，收紧高风险业务承保条件' },
+  variable_cost_ratio_percent: { high: '压降费用投放并优化业务结构，必要时暂停边际亏损业务' },
+  expense_ratio_percent: { high: '核查手续费与费用政策执行，控制高费用渠道' },
+  matured_margin_contribution_rate_percent: { low: '调整定价与自主系数，优先发展边际贡献为正的业务' },
+  premium_time_progress_achievement_rate_percent: { low: '跟进保费计划进度，加强续保与新车业务拓展' },
+  claim_frequency_percent: { high: '加强风险筛选与防灾减损，关注出险频率上升的客户群' },
+  average_claim_payment_yuan: { high: '加强理赔管控，对大额赔案逐案核查' },
+  commercial_auto_underwriting_factor: { low: '关注价格充足性，控制自主系数下浮', high: '关注自主系数上浮对续保率的影响' },
+  combined_ratio_percent: { high: '综合成本偏高，需同步压降赔付与费用' },
+  profit_margin_percent: { low: '利润率偏低，审视该单元的业务准入与定价' }
+};
+
+/**
+ * 存在固定阈值异常但未触发预警规则时的建议
+ */
+const ANOMALY_ACTION = '指标超出系统异常范围，核实数据准确性并持续监控';
+
+/**
+ * 根据触发的预警与异常标识生成建议措施（去重）
+ * @param alerts 触发的预警
+ * @param anomalyFlags 异常标识
+ * @returns 建议措施
+ */
+export function recommendActions(alerts: TriggeredAlert[], anomalyFlags: string[]): string[] {
+  const actions = new Set<string>();
+  alerts.forEach(alert => {
+    const direction = alert.operator === 'lt' || alert.operator === 'lte' ? 'low' : 'high';
+    const action = RECOMMENDED_ACTIONS[alert.metric]?.[direction];
+    if (action) actions.add(action);
+  });
+  if (actions.size === 0 && anomalyFlags.length > 0) actions.add(ANOMALY_ACTION);
+  return Array.from(actions);
+}
+
+/**
+ * 由单个分组的指标结果生成业务单元风险
+ * 级别取触发预警规则的最高级别；仅有固定阈值异常时记为警告
+ * @param result 分组指标结果
+ * @param rules 预警规则
+ * @param totalSignedPremium 全部单元签单保费合计
+ */
+function toRiskUnit(result: MetricCalculationResult, rules: AlertRule[], totalSignedPremium: number): RiskUnit {
+  const group = evaluateAlertRules([result], rules).groups[0];
+  const anomalyFlags = result.anomaly_flags ?? [];
+  const level = group.level === 'normal' && anomalyFlags.length > 0 ? 'warning' : group.level;
+
+  return {
+    dimensions: result.dimensions,
+    level,
+    signedPremium: result.signed_premium_yuan,
+    exposureShare: totalSignedPremium !== 0 ? (result.signed_premium_yuan / totalSignedPremium) * 100 : 0,
+    recordCount: result.record_count,
+    expiredLossRatio: result.expired_loss_ratio_percent,
+    variableCostRatio: result.variable_cost_ratio_percent,
+    expenseRatio: result.expense_ratio_percent,
+    marginContributionRate: result.matured_margin_contribution_rate_percent,
+    anomalyFlags,
+    alerts: group.alerts,
+    recommendations: recommendActions(group.alerts, anomalyFlags)
+  };
+}
+
+/**
+ * 按维度组合计算各业务单元的风险
+ * 预警规则的适用范围维度须包含在监控维度中才会生效
+ * @param records 已按筛选条件过滤的记录
+ * @param dimensions 监控维度组合
+ * @param rules 预警规则
+ * @returns 风险监控结果
+ */
+export function buildRiskReport(
+  records: InsuranceRecord[],
+  dimensions: (keyof FilterDimensions)[],
+  rules: AlertRule[]
+): RiskMonitorReport {
+  const results = calculateMetricsByDimensions(records, dimensions);
+  const totalSignedPremium = results.reduce((sum, result) => sum + result.signed_premium_yuan, 0);
+
+  const units = results
+    .map(result => toRiskUnit(result, rules, totalSignedPremium))
+    .sort((a, b) => ALERT_SEVERITY_RANK[b.level] - ALERT_SEVERITY_RANK[a.level] || b.signedPremium - a.signedPremium);
+
+  const levelCounts: Record<AlertSeverity, number> = { critical: 0, warning: 0, normal: 0 };
+  units.forEach(unit => levelCounts[unit.level]++);
+
+  return {
+    dimensions,
+    units,
+    levelCounts,
+    totalSignedPremium,
+    atRiskPremium: units.filter(unit => unit.level !== 'normal').reduce((sum, unit) => sum + unit.signedPremium, 0)
+  };
+}
+
+/**
+ * 将业务单元转换为仪表盘筛选条件（取值写为单元素数组，与筛选面板一致）
+ * @param unit 业务单元
+ * @param baseFilters 当前筛选条件
+ * @returns 叠加单元维度取值后的筛选条件
+ */
+export function toUnitFilters(unit: RiskUnit, baseFilters: FilterConditions = {}): FilterConditions {
+  const filters: FilterConditions = { ...baseFilters };
+  (Object.keys(unit.dimensions) as (keyof FilterDimensions)[]).forEach(field => {
+    const value = unit.dimensions[field];
+    if (value !== undefined && value !== null) {
+      (filters as Record<string, unknown>)[field] = [value];
+    }
+  });
+  return filters;
+}
+
+/**
+ * 生成风险单元清单CSV（带BOM便于Excel识别中文）
+ * @param units 业务单元
+ * @returns CSV文本
+ */
+export function buildRiskReportCSV(units: RiskUnit[]): string {
+  const csv = Papa.unparse({
+    fields: [
+      '风险级别', '业务单元', '签单保费（元）', '保费占比（%）', '满期赔付率（%）', '变动成本率（%）',
+      '费用率（%）', '满期边际贡献率（%）', '触发规则', '异常标识', '建议措施'
+    ],
+    data: units.map(unit => [
+      ALERT_SEVERITY_LABELS[unit.level],
+      formatSlice(unit.dimensions) || '全部',
+      Math.round(unit.signedPremium),
+      unit.exposureShare.toFixed(2),
+      unit.expiredLossRatio.toFixed(1),
+      unit.variableCostRatio.toFixed(1),
+      unit.expenseRatio.toFixed(1),
+      unit.marginContributionRate.toFixed(1),
+      unit.alerts
+        .map(alert => `${alert.ruleName}(${getAlertMetricLabel(alert.metric)}${ALERT_OPERATOR_LABELS[alert.operator]}${alert.threshold})`)
+        .join('；'),
+      unit.anomalyFlags.join('；'),
+      unit.recommendations.join('；')
+    ])
+  }, {
+    escapeFormulae: true
+  });
+  return '\ufeff' + csv;
+}
+
+/**
+ * 下载风险单元清单
+ * @param units 业务单元
+ * @param filename 文件名
+ */
+export function downloadRiskReport(units: RiskUnit[], filename: string = '风险单元清单.csv'): void {
+  downloadBlob(buildRiskReportCSV(units), filename, 'text/csv;charset=utf-8;');
+}
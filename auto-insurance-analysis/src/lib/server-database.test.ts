@@ -0,0 +1,47 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { InsuranceDatabase } from '@/lib/database';
+import { FileColumnarStore, FileVersionArchive } from '@/lib/server-database';
+import { InsuranceRecord } from '@/types/insurance';
+
+let directory: string | null = null;
+
+function record(organization: string, week: number): InsuranceRecord {
+  return {
+    policy_start_year: 2025,
+    week_number: week,
+    third_level_organization: organization,
+    policy_count: 1,
+    signed_premium_yuan: 1000
+  } as InsuranceRecord;
+}
+
+afterEach(async () => {
+  if (directory) await fs.rm(directory, { recursive: true, force: true });
+  directory = null;
+});
+
+describe('服务端共享数据集', () => {
+  it('并发写入依次执行，不丢失记录与版本', async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'insurance-store-'));
+    const database = new InsuranceDatabase({
+      store: new FileColumnarStore(path.join(directory, 'store')),
+      versions: new FileVersionArchive(path.join(directory, 'versions')),
+      maxRecords: 1000,
+      cacheTimeout: 0
+    });
+
+    const results = await Promise.all([
+      database.insertBatch([record('天府', 28)], 'append'),
+      database.insertBatch([record('高新', 28)], 'append'),
+      database.insertBatch([record('青羊', 29)], 'append')
+    ]);
+
+    expect(results.every(result => result.success)).toBe(true);
+    expect((await database.findAll()).map(item => item.third_level_organization).sort()).toEqual(['天府', '青羊', '高新']);
+    expect((await database.listVersions()).map(version => version.version)).toEqual([1, 2, 3]);
+    expect((await fs.readdir(path.join(directory, 'store'))).filter(file => file.endsWith('.tmp'))).toEqual([]);
+  });
+});
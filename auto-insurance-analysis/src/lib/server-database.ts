@@ -0,0 +1,230 @@
+/**
+ * 车险多维分析系统 - 服务端数据库
+ * 为API路由提供团队共享的数据集，分区以二进制文件形式持久化到磁盘
+ * 仅可在Node.js运行时中引用
+ */
+
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import v8 from 'v8';
+import { DatasetVersion } from '@/types/insurance';
+import { BaseColumnarStore, ColumnarPartition, PartitionSummaries } from '@/lib/columnar-store';
+import { InsuranceDatabase } from '@/lib/database';
+import { VersionArchive, sortVersions } from '@/lib/dataset-versions';
+import { DATA4DASH_ROOT } from '@/lib/data-scanner';
+
+const PARTITION_FILE_EXTENSION = '.bin';
+const META_FILE_NAME = 'meta.json';
+const SUMMARIES_FILE_NAME = 'partitions.json';
+
+/**
+ * 先写入唯一命名的临时文件再重命名，避免并发写入共用同一临时文件或读取到不完整的内容
+ * @param target 目标文件
+ * @param content 文件内容
+ */
+async function writeFileAtomic(target: string, content: string | Buffer): Promise<void> {
+  const temp = `${target}.${process.pid}.${randomUUID()}.tmp`;
+  try {
+    await fs.writeFile(temp, content);
+    await fs.rename(temp, target);
+  } catch (error) {
+    await fs.rm(temp, { force: true });
+    throw error;
+  }
+}
+const VERSION_INDEX_FILE_NAME = 'versions.json';
+
+/**
+ * 文件列式存储
+ * 每个分区对应目录下的一个 {年度}-{周次}.bin 文件，使用v8序列化以保留TypedArray
+ */
+export class FileColumnarStore extends BaseColumnarStore {
+  constructor(private readonly directory: string) {
+    super();
+  }
+
+  /**
+   * 确保存储目录存在
+   */
+  private async ensureDirectory(): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+  }
+
+  /**
+   * 获取分区文件路径
+   * @param key 分区键
+   * @returns 文件绝对路径
+   */
+  private getPartitionPath(key: string): string {
+    return path.join(this.directory, `${key}${PARTITION_FILE_EXTENSION}`);
+  }
+
+  protected async getPartitionKeys(): Promise<string[]> {
+    await this.ensureDirectory();
+    const files = await fs.readdir(this.directory);
+    return files
+      .filter(file => file.endsWith(PARTITION_FILE_EXTENSION))
+      .map(file => file.slice(0, -PARTITION_FILE_EXTENSION.length));
+  }
+
+  protected async getPartition(key: string): Promise<ColumnarPartition | undefined> {
+    try {
+      const buffer = await fs.readFile(this.getPartitionPath(key));
+      return v8.deserialize(buffer) as ColumnarPartition;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  protected async putPartitions(partitions: ColumnarPartition[]): Promise<void> {
+    await this.ensureDirectory();
+    await Promise.all(partitions.map(partition =>
+      writeFileAtomic(this.getPartitionPath(partition.key), v8.serialize(partition))
+    ));
+  }
+
+  protected async removePartitions(keys: string[]): Promise<void> {
+    await Promise.all(keys.map(key => fs.rm(this.getPartitionPath(key), { force: true })));
+  }
+
+  protected async removeAll(): Promise<void> {
+    const keys = await this.getPartitionKeys();
+    await this.removePartitions(keys);
+    await fs.rm(path.join(this.directory, META_FILE_NAME), { force: true });
+    await fs.rm(path.join(this.directory, SUMMARIES_FILE_NAME), { force: true });
+  }
+
+  protected async readLastUpdated(): Promise<Date | null> {
+    try {
+      const content = await fs.readFile(path.join(this.directory, META_FILE_NAME), 'utf-8');
+      const meta: { lastUpdated?: string } = JSON.parse(content);
+      return meta.lastUpdated ? new Date(meta.lastUpdated) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  protected async writeLastUpdated(date: Date): Promise<void> {
+    await this.ensureDirectory();
+    await writeFileAtomic(
+      path.join(this.directory, META_FILE_NAME),
+      JSON.stringify({ lastUpdated: date.toISOString() }, null, 2)
+    );
+  }
+
+  protected async readPartitionSummaries(): Promise<PartitionSummaries | null> {
+    try {
+      const content = await fs.readFile(path.join(this.directory, SUMMARIES_FILE_NAME), 'utf-8');
+      return JSON.parse(content) as PartitionSummaries;
+    } catch {
+      return null;
+    }
+  }
+
+  protected async writePartitionSummaries(summaries: PartitionSummaries): Promise<void> {
+    await this.ensureDirectory();
+    await writeFileAtomic(path.join(this.directory, SUMMARIES_FILE_NAME), JSON.stringify(summaries, null, 2));
+  }
+}
+
+/**
+ * 文件版本存档
+ * 版本元信息保存在 versions.json，每个版本的快照分区保存在以版本ID命名的子目录中
+ */
+export class FileVersionArchive implements VersionArchive {
+  constructor(private readonly directory: string) {}
+
+  /**
+   * 获取版本快照目录
+   * @param id 版本ID
+   * @returns 目录绝对路径
+   */
+  private getSnapshotDirectory(id: string): string {
+    return path.join(this.directory, id);
+  }
+
+  /**
+   * 写入版本索引
+   * @param versions 全部版本
+   */
+  private async writeIndex(versions: DatasetVersion[]): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await writeFileAtomic(path.join(this.directory, VERSION_INDEX_FILE_NAME), JSON.stringify(sortVersions(versions), null, 2));
+  }
+
+  async listVersions(): Promise<DatasetVersion[]> {
+    try {
+      const content = await fs.readFile(path.join(this.directory, VERSION_INDEX_FILE_NAME), 'utf-8');
+      return sortVersions(JSON.parse(content) as DatasetVersion[]);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  async saveVersion(version: DatasetVersion, snapshot: ColumnarPartition[]): Promise<void> {
+    const snapshotDirectory = this.getSnapshotDirectory(version.id);
+    await fs.mkdir(snapshotDirectory, { recursive: true });
+    await Promise.all(snapshot.map(partition =>
+      fs.writeFile(path.join(snapshotDirectory, `${partition.key}${PARTITION_FILE_EXTENSION}`), v8.serialize(partition))
+    ));
+
+    const versions = await this.listVersions();
+    await this.writeIndex([...versions.filter(item => item.id !== version.id), version]);
+  }
+
+  async readSnapshot(id: string): Promise<ColumnarPartition[]> {
+    const snapshotDirectory = this.getSnapshotDirectory(id);
+    let files: string[];
+    try {
+      files = await fs.readdir(snapshotDirectory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    return Promise.all(files
+      .filter(file => file.endsWith(PARTITION_FILE_EXTENSION))
+      .map(async file => v8.deserialize(await fs.readFile(path.join(snapshotDirectory, file))) as ColumnarPartition));
+  }
+
+  async removeVersions(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const versions = await this.listVersions();
+    await this.writeIndex(versions.filter(version => !ids.includes(version.id)));
+    await Promise.all(ids.map(id => fs.rm(this.getSnapshotDirectory(id), { recursive: true, force: true })));
+  }
+}
+
+/**
+ * 服务端存储目录，可通过 INSURANCE_STORE_DIR 环境变量覆盖
+ */
+export const SERVER_STORE_DIR = process.env.INSURANCE_STORE_DIR
+  || path.join(DATA4DASH_ROOT, 'store');
+
+/**
+ * 服务端版本存档目录，可通过 INSURANCE_VERSION_DIR 环境变量覆盖
+ */
+export const SERVER_VERSION_DIR = process.env.INSURANCE_VERSION_DIR
+  || path.join(DATA4DASH_ROOT, 'versions');
+
+const globalForDatabase = globalThis as unknown as { serverDb?: InsuranceDatabase };
+
+/**
+ * 获取服务端共享数据库实例
+ * 挂载在globalThis上，避免开发模式热更新时重复创建
+ * @returns 服务端数据库实例
+ */
+export function getServerDatabase(): InsuranceDatabase {
+  if (!globalForDatabase.serverDb) {
+    globalForDatabase.serverDb = new InsuranceDatabase({
+      store: new FileColumnarStore(SERVER_STORE_DIR),
+      versions: new FileVersionArchive(SERVER_VERSION_DIR),
+      maxRecords: 500000,
+      cacheTimeout: 24 * 60 * 60 * 1000 // 24小时，写入后按版本号自动失效
+    });
+  }
+  return globalForDatabase.serverDb;
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { AnomalyDetectionOptions, DEFAULT_ANOMALY_OPTIONS, scoreSeries } from '@/lib/time-series-anomaly';
+
+const ROBUST_Z: AnomalyDetectionOptions = { ...DEFAULT_ANOMALY_OPTIONS, method: 'robust_z', sensitivity: 3.5 };
+const IQR: AnomalyDetectionOptions = { ...DEFAULT_ANOMALY_OPTIONS, method: 'iqr', sensitivity: 1.5 };
+
+describe('稳健Z分数', () => {
+  it('以中位数与MAD计算分数和上下限', () => {
+    const point = scoreSeries([1, 2, 3, 4, 100], { ...ROBUST_Z, window: 4, minPoints: 4 })[4];
+    // 参照 [1,2,3,4]：中位数2.5，MAD=1
+    expect(point?.score).toBeCloseTo(97.5 / 1.4826, 6);
+    expect(point?.lower).toBeCloseTo(2.5 - 3.5 * 1.4826, 6);
+    expect(point?.upper).toBeCloseTo(2.5 + 3.5 * 1.4826, 6);
+    expect(point?.isOutlier).toBe(true);
+  });
+
+  it('MAD为0时退回平均绝对偏差', () => {
+    const point = scoreSeries([10, 10, 10, 10, 20], ROBUST_Z)[4];
+    // 偏差 [0,0,0,0,10]：MAD=0，平均绝对偏差=2
+    expect(point?.score).toBeCloseTo(10 / (2 * 1.2533), 6);
+    expect(point?.isOutlier).toBe(true);
+  });
+
+  it('参照值完全相同时偏离点的分数为±Infinity', () => {
+    const options = { ...ROBUST_Z, window: 3, minPoints: 3 };
+    expect(scoreSeries([5, 5, 5, 8], options)[3]).toMatchObject({ score: Infinity, isOutlier: true });
+    expect(scoreSeries([5, 5, 5, 2], options)[3]).toMatchObject({ score: -Infinity, isOutlier: true });
+    expect(scoreSeries([5, 5, 5, 5], options)[3]).toMatchObject({ score: 0, isOutlier: false });
+  });
+});
+
+describe('四分位距', () => {
+  it('超出的IQR倍数作为分数', () => {
+    const point = scoreSeries([1, 2, 3, 4, 10], { ...IQR, window: 4, minPoints: 4 })[4];
+    // 参照 [1,2,3,4]：Q1=1.75，Q3=3.25，IQR=1.5
+    expect(point?.score).toBeCloseTo(4.5, 6);
+    expect(point?.lower).toBeCloseTo(-0.5, 6);
+    expect(point?.upper).toBeCloseTo(5.5, 6);
+    expect(point?.isOutlier).toBe(true);
+  });
+
+  it('IQR为0时偏离点的分数为±Infinity', () => {
+    const options = { ...IQR, window: 4, minPoints: 4 };
+    expect(scoreSeries([5, 5, 5, 5, 6], options)[4]).toMatchObject({ score: Infinity, isOutlier: true });
+    expect(scoreSeries([5, 5, 5, 5, 4], options)[4]).toMatchObject({ score: -Infinity, isOutlier: true });
+  });
+});
+
+describe('参照窗口', () => {
+  it('窗口只包含当前点之前的点', () => {
+    // 若窗口包含当前点，中位数与MAD会被100拉高
+    const [withWindow] = scoreSeries([1, 2, 3, 4, 100], { ...ROBUST_Z, window: 4, minPoints: 4 }).slice(4);
+    const [wholeSeries] = scoreSeries([1, 2, 3, 4, 100], { ...ROBUST_Z, window: 0, minPoints: 4 }).slice(4);
+    expect(withWindow?.lower).toBeCloseTo(2.5 - 3.5 * 1.4826, 6);
+    expect(wholeSeries?.lower).toBeCloseTo(3 - 3.5 * 1.4826, 6);
+  });
+
+  it('参照点少于 minPoints 或数值无效时不判断', () => {
+    const scores = scoreSeries([1, 2, 3, 4, NaN], { ...ROBUST_Z, window: 3, minPoints: 3 });
+    expect(scores.slice(0, 3)).toEqual([null, null, null]);
+    expect(scores[3]).not.toBeNull();
+    expect(scores[4]).toBeNull();
+  });
+});
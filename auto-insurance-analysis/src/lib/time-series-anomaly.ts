@@ -0,0 +1,249 @@
+/**
+ * 车险多维分析系统 - 时间序列统计异常检测
+ * 在固定阈值之外，对 getTimeSeriesData（或含时间维度的分组聚合）输出逐指标、逐维度切片识别离群周次，
+ * 支持稳健Z分数（中位数/MAD）与IQR两种方法，窗口与灵敏度可配置
+ */
+
+import { AbsoluteValueFields, AnalysisResult, CalculatedFields, FilterDimensions } from '@/types/insurance';
+import { formatSlice } from '@/lib/week-reconciliation';
+
+/**
+ * 检测方法：稳健Z分数 / 四分位距
+ */
+export type AnomalyMethod = 'robust_z' | 'iqr';
+
+/**
+ * 可检测的指标
+ */
+export type AnomalyMetric = keyof AbsoluteValueFields | keyof CalculatedFields;
+
+/**
+ * 检测选项
+ */
+export interface AnomalyDetectionOptions {
+  method: AnomalyMethod;
+  window: number;                                  // 参照的前序点数，0表示使用整条序列
+  sensitivity: number;                             // robust_z 为Z分数阈值，iqr 为IQR倍数
+  minPoints: number;                               // 参照点少于此数时不判断
+}
+
+/**
+ * 单点的检测结果
+ */
+export interface SeriesPointScore {
+  score: number;                                   // 偏离程度（稳健Z分数或超出的IQR倍数）
+  lower: number;
+  upper: number;
+  isOutlier: boolean;
+}
+
+/**
+ * 离群点
+ */
+export interface TimeSeriesAnomaly {
+  metric: AnomalyMetric;
+  method: AnomalyMethod;
+  sliceKey: string;
+  slice: Partial<FilterDimensions>;                // 除时间维度外的切片取值
+  index: number;                                   // 在输入结果数组中的位置
+  year?: number;
+  week?: number;
+  value: number;
+  score: number;
+  lower: number;
+  upper: number;
+  direction: 'high' | 'low';
+}
+
+export const ANOMALY_METHOD_LABELS: Record<AnomalyMethod, string> = {
+  robust_z: '稳健Z分数（中位数/MAD）',
+  iqr: '四分位距（IQR）'
+};
+
+/**
+ * 各方法的默认灵敏度
+ */
+export const DEFAULT_SENSITIVITY: Record<AnomalyMethod, number> = {
+  robust_z: 3.5,
+  iqr: 1.5
+};
+
+export const DEFAULT_ANOMALY_OPTIONS: AnomalyDetectionOptions = {
+  method: 'robust_z',
+  window: 0,
+  sensitivity: DEFAULT_SENSITIVITY.robust_z,
+  minPoints: 4
+};
+
+/**
+ * 时间维度，不参与切片
+ */
+const TIME_DIMENSIONS: (keyof FilterDimensions)[] = ['policy_start_year', 'week_number', 'snapshot_date'];
+
+/**
+ * 正态分布下MAD与标准差的换算系数
+ */
+const MAD_SCALE = 1.4826;
+
+/**
+ * 正态分布下平均绝对偏差与标准差的换算系数（MAD为0时的后备）
+ */
+const MEAN_AD_SCALE = 1.2533;
+
+/**
+ * 计算已排序数组的分位数（线性插值）
+ * @param sorted 升序数组
+ * @param q 分位点（0-1）
+ */
+export function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return NaN;
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * 计算中位数
+ * @param values 数值
+ */
+export function median(values: number[]): number {
+  return quantile([...values].sort((a, b) => a - b), 0.5);
+}
+
+/**
+ * 以稳健Z分数评估单点
+ * @param value 待评估的值
+ * @param reference 参照值
+ * @param sensitivity Z分数阈值
+ */
+function scoreRobustZ(value: number, reference: number[], sensitivity: number): SeriesPointScore {
+  const center = median(reference);
+  const deviations = reference.map(item => Math.abs(item - center));
+  const scale = median(deviations) * MAD_SCALE
+    || (deviations.reduce((sum, item) => sum + item, 0) / deviations.length) * MEAN_AD_SCALE;
+
+  // 参照值完全相同时，任何偏离都视为离群
+  const score = scale !== 0 ? (value - center) / scale : value === center ? 0 : Math.sign(value - center) * Infinity;
+  return {
+    score,
+    lower: center - sensitivity * scale,
+    upper: center + sensitivity * scale,
+    isOutlier: Math.abs(score) > sensitivity
+  };
+}
+
+/**
+ * 以IQR评估单点
+ * @param value 待评估的值
+ * @param reference 参照值
+ * @param sensitivity IQR倍数
+ */
+function scoreIQR(value: number, reference: number[], sensitivity: number): SeriesPointScore {
+  const sorted = [...reference].sort((a, b) => a - b);
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  const iqr = q3 - q1;
+  const lower = q1 - sensitivity * iqr;
+  const upper = q3 + sensitivity * iqr;
+
+  let score = 0;
+  if (value > q3) score = iqr !== 0 ? (value - q3) / iqr : Infinity;
+  if (value < q1) score = iqr !== 0 ? -(q1 - value) / iqr : -Infinity;
+  return { score, lower, upper, isOutlier: value > upper || value < lower };
+}
+
+/**
+ * 对一条数值序列逐点检测
+ * window 为0时以整条序列为参照；否则以该点之前的 window 个点为参照
+ * @param values 按时间排序的数值
+ * @param options 检测选项
+ * @returns 每个点的检测结果，参照点不足时为null
+ */
+export function scoreSeries(values: number[], options: AnomalyDetectionOptions): (SeriesPointScore | null)[] {
+  const scorer = options.method === 'iqr' ? scoreIQR : scoreRobustZ;
+  return values.map((value, index) => {
+    const reference = options.window > 0 ? values.slice(Math.max(0, index - options.window), index) : values;
+    if (reference.length < options.minPoints || !Number.isFinite(value)) return null;
+    return scorer(value, reference, options.sensitivity);
+  });
+}
+
+/**
+ * 在时间序列结果上检测离群周次
+ * 结果中除起保年度、周序号、快照日期以外的维度视为切片，各切片单独成序列
+ * @param results getTimeSeriesData 输出，或含时间维度的分组聚合结果
+ * @param metrics 检测的指标
+ * @param overrides 覆盖默认值的检测选项
+ * @returns 离群点，按切片、指标、时间排序
+ */
+export function detectTimeSeriesAnomalies(
+  results: AnalysisResult[],
+  metrics: AnomalyMetric[],
+  overrides: Partial<AnomalyDetectionOptions> = {}
+): TimeSeriesAnomaly[] {
+  const options: AnomalyDetectionOptions = { ...DEFAULT_ANOMALY_OPTIONS, ...overrides };
+
+  // 切片键 → 结果下标
+  const slices = new Map<string, number[]>();
+  results.forEach((result, index) => {
+    const sliceKey = getSliceKey(result);
+    const indexes = slices.get(sliceKey) ?? [];
+    indexes.push(index);
+    slices.set(sliceKey, indexes);
+  });
+
+  const anomalies: TimeSeriesAnomaly[] = [];
+  slices.forEach((indexes, sliceKey) => {
+    const ordered = [...indexes].sort((a, b) => compareTime(results[a], results[b]));
+    metrics.forEach(metric => {
+      const scores = scoreSeries(ordered.map(index => results[index][metric]), options);
+      scores.forEach((point, position) => {
+        if (!point?.isOutlier) return;
+        const result = results[ordered[position]];
+        anomalies.push({
+          metric,
+          method: options.method,
+          sliceKey,
+          slice: getSlice(result),
+          index: ordered[position],
+          year: result.dimensions.policy_start_year,
+          week: result.dimensions.week_number,
+          value: result[metric],
+          score: point.score,
+          lower: point.lower,
+          upper: point.upper,
+          direction: point.score >= 0 ? 'high' : 'low'
+        });
+      });
+    });
+  });
+
+  return anomalies;
+}
+
+/**
+ * 生成结果所属切片的键（即切片的显示文本，无切片时为空字符串）
+ * @param result 分组结果
+ */
+export function getSliceKey(result: AnalysisResult): string {
+  return formatSlice(getSlice(result));
+}
+
+/**
+ * 取结果中的切片维度（去除时间维度）
+ * @param result 分组结果
+ */
+function getSlice(result: AnalysisResult): Partial<FilterDimensions> {
+  const slice = { ...result.dimensions };
+  TIME_DIMENSIONS.forEach(field => delete slice[field]);
+  return slice;
+}
+
+/**
+ * 按起保年度、周序号比较先后
+ */
+function compareTime(a: AnalysisResult, b: AnalysisResult): number {
+  return (a.dimensions.policy_start_year ?? 0) - (b.dimensions.policy_start_year ?? 0)
+    || (a.dimensions.week_number ?? 0) - (b.dimensions.week_number ?? 0);
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_URL_STATE, decodeDashboardState, encodeDashboardState } from '@/lib/url-state';
+
+describe('仪表盘URL状态', () => {
+  it('默认状态编码为空', () => {
+    expect(encodeDashboardState(DEFAULT_URL_STATE)).toBe('');
+  });
+
+  it('含逗号的筛选值往返后保持不变', () => {
+    const state = {
+      ...DEFAULT_URL_STATE,
+      filters: { third_level_organization: ['天府,高新', '青羊'], week_number: [32, 33], is_new_energy_vehicle: [true] }
+    };
+    expect(decodeDashboardState(encodeDashboardState(state)).filters).toEqual(state.filters);
+  });
+
+  it('每页条数仅接受表格提供的选项', () => {
+    expect(decodeDashboardState('ps=100').pageSize).toBe(100);
+    expect(decodeDashboardState('ps=1000000').pageSize).toBe(DEFAULT_URL_STATE.pageSize);
+    expect(decodeDashboardState('ps=30').pageSize).toBe(DEFAULT_URL_STATE.pageSize);
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * 车险多维分析系统 - 仪表盘URL状态
+ * 将当前标签页、筛选条件、分组维度、图表指标与类型、金额单位及分页编码为简短的URL查询参数，
+ * 用于分享链接与浏览器前进/后退；与默认值相同的项不写入URL。
+ * 筛选维度的每个取值单独写为一个同名参数（取值可含逗号），分组维度与指标以逗号分隔
+ */
+
+import { FilterConditions, FilterDimensions } from '@/types/insurance';
+import { BOOLEAN_DIMENSIONS, DIMENSION_FIELDS, NUMERIC_DIMENSIONS, TABLE_PAGE_SIZES } from '@/lib/constants';
+import { AmountUnit, MAX_CHART_METRICS, METRIC_GROUPS } from '@/lib/metric-favorites';
+import { DashboardSnapshot, TEMPLATE_CHART_TYPES, TemplateChartType } from '@/lib/filter-templates';
+
+/**
+ * 仪表盘标签页
+ */
+export const DASHBOARD_TABS = [
+  'overview', 'charts', 'table', 'insights', 'risk', 'quality', 'alerts', 'import', 'export'
+] as const;
+
+export type DashboardTab = (typeof DASHBOARD_TABS)[number];
+
+/**
+ * 写入URL的仪表盘状态
+ */
+export interface DashboardUrlState extends DashboardSnapshot {
+  tab: DashboardTab;
+  page: number;
+  pageSize: number;
+  amountUnit: AmountUnit;
+}
+
+export const DEFAULT_URL_STATE: DashboardUrlState = {
+  tab: 'overview',
+  filters: {},
+  selectedDimensions: ['third_level_organization'],
+  selectedMetrics: ['signed_premium_yuan'],
+  chartType: 'bar',
+  page: 1,
+  pageSize: 50,
+  amountUnit: '万元'
+};
+
+/**
+ * 维度在URL中的简写（用于筛选参数名与分组维度取值）
+ */
+const DIMENSION_KEYS: Record<keyof FilterDimensions, string> = {
+  policy_start_year: 'y',
+  week_number: 'w',
+  snapshot_date: 'sd',
+  chengdu_branch: 'br',
+  third_level_organization: 'org',
+  business_type_category: 'bt',
+  customer_category_3: 'cc',
+  insurance_type: 'it',
+  coverage_type: 'cov',
+  renewal_status: 'rn',
+  terminal_source: 'ts',
+  is_new_energy_vehicle: 'nev',
+  is_transferred_vehicle: 'tv',
+  vehicle_insurance_grade: 'vg',
+  highway_risk_grade: 'hg',
+  large_truck_score: 'lt',
+  small_truck_score: 'st'
+};
+
+const DIMENSION_BY_KEY = new Map(
+  (Object.entries(DIMENSION_KEYS) as [keyof FilterDimensions, string][]).map(([field, key]) => [key, field])
+);
+
+const CHART_METRICS: readonly string[] = METRIC_GROUPS.flatMap(group => group.fields);
+
+/**
+ * 非筛选参数名
+ */
+const PARAM = {
+  tab: 'tab',
+  dimensions: 'g',
+  metrics: 'm',
+  chartType: 'c',
+  page: 'p',
+  pageSize: 'ps',
+  amountUnit: 'u'
+} as const;
+
+/**
+ * 分组维度与指标的分隔符（取值均为固定的字段简写，不含逗号）
+ */
+const VALUE_SEPARATOR = ',';
+
+/**
+ * 编码筛选值（布尔值写为1/0）
+ */
+function encodeValue(value: unknown): string {
+  if (typeof value === 'boolean') return value ? '1' : '0';
+  return String(value);
+}
+
+/**
+ * 解码筛选值，无法识别时返回undefined
+ */
+function decodeValue(field: keyof FilterDimensions, raw: string): string | number | boolean | undefined {
+  if (NUMERIC_DIMENSIONS.includes(field)) {
+    const value = Number(raw);
+    return raw !== '' && Number.isFinite(value) ? value : undefined;
+  }
+  if (BOOLEAN_DIMENSIONS.includes(field)) {
+    return raw === '1' ? true : raw === '0' ? false : undefined;
+  }
+  return raw || undefined;
+}
+
+/**
+ * 解析每页条数，仅接受数据表格提供的选项
+ */
+function parsePageSize(raw: string | null): number | undefined {
+  const value = parsePositiveInt(raw);
+  return value !== undefined && TABLE_PAGE_SIZES.includes(value) ? value : undefined;
+}
+
+/**
+ * 解析正整数参数
+ */
+function parsePositiveInt(raw: string | null): number | undefined {
+  const value = Number(raw);
+  return raw && Number.isInteger(value) && value > 0 ? value : undefined;
+}
+
+/**
+ * 将仪表盘状态编码为URL查询参数
+ * @param state 仪表盘状态
+ * @returns 查询字符串（不含"?"），与默认状态相同时为空
+ */
+export function encodeDashboardState(state: DashboardUrlState): string {
+  const params = new URLSearchParams();
+  const defaults = DEFAULT_URL_STATE;
+
+  if (state.tab !== defaults.tab) params.set(PARAM.tab, state.tab);
+
+  DIMENSION_FIELDS.forEach(field => {
+    const condition = state.filters[field];
+    if (condition === undefined || condition === null) return;
+    const values = Array.isArray(condition) ? condition : [condition];
+    values.forEach(value => params.append(DIMENSION_KEYS[field], encodeValue(value)));
+  });
+
+  const dimensions = state.selectedDimensions.map(field => DIMENSION_KEYS[field]).join(VALUE_SEPARATOR);
+  if (dimensions !== defaults.selectedDimensions.map(field => DIMENSION_KEYS[field]).join(VALUE_SEPARATOR)) {
+    params.set(PARAM.dimensions, dimensions);
+  }
+  const metrics = state.selectedMetrics.join(VALUE_SEPARATOR);
+  if (metrics !== defaults.selectedMetrics.join(VALUE_SEPARATOR)) params.set(PARAM.metrics, metrics);
+  if (state.chartType !== defaults.chartType) params.set(PARAM.chartType, state.chartType);
+  if (state.amountUnit !== defaults.amountUnit) params.set(PARAM.amountUnit, state.amountUnit);
+  if (state.page !== defaults.page) params.set(PARAM.page, String(state.page));
+  if (state.pageSize !== defaults.pageSize) params.set(PARAM.pageSize, String(state.pageSize));
+
+  return params.toString();
+}
+
+/**
+ * 从URL查询参数还原仪表盘状态
+ * 无法识别的参数与取值被忽略，缺失项使用默认值
+ * @param search 查询字符串（可带"?"）
+ * @returns 仪表盘状态
+ */
+export function decodeDashboardState(search: string): DashboardUrlState {
+  const params = new URLSearchParams(search);
+  const defaults = DEFAULT_URL_STATE;
+
+  const filters: FilterConditions = {};
+  DIMENSION_FIELDS.forEach(field => {
+    const values = params.getAll(DIMENSION_KEYS[field])
+      .map(item => decodeValue(field, item))
+      .filter(value => value !== undefined);
+    if (values.length > 0) (filters as Record<string, unknown>)[field] = values;
+  });
+
+  const tab = params.get(PARAM.tab) as DashboardTab | null;
+  const dimensions = (params.get(PARAM.dimensions)?.split(VALUE_SEPARATOR) ?? [])
+    .map(key => DIMENSION_BY_KEY.get(key))
+    .filter((field): field is keyof FilterDimensions => field !== undefined)
+    .filter((field, index, fields) => fields.indexOf(field) === index)
+    .slice(0, 3);
+  const metrics = (params.get(PARAM.metrics)?.split(VALUE_SEPARATOR) ?? [])
+    .filter(field => CHART_METRICS.includes(field))
+    .slice(0, MAX_CHART_METRICS) as DashboardSnapshot['selectedMetrics'];
+  const chartType = params.get(PARAM.chartType) as TemplateChartType | null;
+  const amountUnit = params.get(PARAM.amountUnit);
+
+  return {
+    tab: tab && DASHBOARD_TABS.includes(tab) ? tab : defaults.tab,
+    filters,
+    selectedDimensions: dimensions.length > 0 ? dimensions : defaults.selectedDimensions,
+    selectedMetrics: metrics.length > 0 ? metrics : defaults.selectedMetrics,
+    chartType: chartType && TEMPLATE_CHART_TYPES.includes(chartType) ? chartType : defaults.chartType,
+    page: parsePositiveInt(params.get(PARAM.page)) ?? defaults.page,
+    pageSize: parsePageSize(params.get(PARAM.pageSize)) ?? defaults.pageSize,
+    amountUnit: amountUnit === '元' || amountUnit === '万元' ? amountUnit : defaults.amountUnit
+  };
+}
+
+/**
+ * 复制文本到剪贴板（不支持 Clipboard API 时退回 execCommand）
+ * @param text 文本
+ */
+export async function copyToClipboard(text: string): Promise<void> {
+  if (typeof navigator !== 'undefined' && navigator.clipboard?.writeText) {
+    await navigator.clipboard.writeText(text);
+    return;
+  }
+  const textarea = document.createElement('textarea');
+  textarea.value = text;
+  textarea.style.position = 'fixed';
+  textarea.style.opacity = '0';
+  document.body.appendChild(textarea);
+  textarea.select();
+  const copied = document.execCommand('copy');
+  document.body.removeChild(textarea);
+  if (!copied) throw new Error('浏览器不支持复制到剪贴板');
+}
@@ -0,0 +1,203 @@
+/**
+ * 车险多维分析系统 - 跨周一致性核对
+ * 周度文件为按 snapshot_date 累计的快照，同一起保年度切片的满期保费、已报告赔款应随周次单调不减；
+ * 逐个维度组合比较相邻周次，标记超出容忍度的回退与跳变，并列出缺失的周次（如第32周）
+ */
+
+import { AbsoluteValueFields, AnalysisResult, FilterDimensions } from '@/types/insurance';
+import { DIMENSION_FIELDS, DISPLAY_NAMES } from '@/lib/constants';
+import { ColumnarPartition } from '@/lib/columnar-store';
+import { groupPartitions } from '@/lib/columnar-query';
+
+/**
+ * 核对问题类型：回退 / 跳变 / 切片在后一周消失
+ */
+export type ReconciliationIssueType = 'regression' | 'jump' | 'missing';
+
+/**
+ * 核对选项
+ */
+export interface ReconciliationOptions {
+  fields: (keyof AbsoluteValueFields)[];           // 应累计不减的字段
+  dimensions: (keyof FilterDimensions)[];          // 切片维度（不含周序号与快照日期）
+  regressionTolerance: number;                     // 允许的相对回退比例，如0.001表示0.1%
+  jumpTolerance: number;                           // 允许的周环比增幅，如0.5表示50%
+  minBaseValue: number;                            // 上周值低于此值时不判断跳变，避免小基数误报
+}
+
+/**
+ * 单个核对问题
+ */
+export interface ReconciliationIssue {
+  type: ReconciliationIssueType;
+  field: keyof AbsoluteValueFields;
+  fromWeek: number;
+  toWeek: number;
+  slice: Partial<FilterDimensions>;
+  previous: number;
+  current: number;
+  change: number;                                  // current - previous
+  changeRate: number | null;                       // 相对上周的变化比例，上周为0时为null
+}
+
+/**
+ * 核对报告
+ */
+export interface ReconciliationReport {
+  options: ReconciliationOptions;
+  weeks: number[];                                 // 数据中存在的周次（升序）
+  missingWeeks: number[];                          // 首末周之间缺失的周次
+  pairs: { fromWeek: number; toWeek: number; acrossGap: boolean }[];
+  sliceCount: number;
+  issueCounts: Record<ReconciliationIssueType, number>;
+  issues: ReconciliationIssue[];                   // 按变化绝对值降序，最多 ISSUE_LIMIT 条
+}
+
+/**
+ * 核对问题类型显示名称
+ */
+export const RECONCILIATION_ISSUE_LABELS: Record<ReconciliationIssueType, string> = {
+  regression: '回退',
+  jump: '跳变',
+  missing: '切片消失'
+};
+
+/**
+ * 默认核对选项
+ */
+export const DEFAULT_RECONCILIATION_OPTIONS: ReconciliationOptions = {
+  fields: ['matured_premium_yuan', 'reported_claim_payment_yuan'],
+  dimensions: DIMENSION_FIELDS.filter(field => field !== 'week_number' && field !== 'snapshot_date'),
+  regressionTolerance: 0.001,
+  jumpTolerance: 0.5,
+  minBaseValue: 10000
+};
+
+/**
+ * 报告中保留的问题条数上限
+ */
+const ISSUE_LIMIT = 500;
+
+/**
+ * 计算首末周之间缺失的周次
+ * @param weeks 已有周次（升序）
+ * @returns 缺失周次
+ */
+export function findMissingWeeks(weeks: number[]): number[] {
+  const missing: number[] = [];
+  for (let index = 1; index < weeks.length; index++) {
+    for (let week = weeks[index - 1] + 1; week < weeks[index]; week++) {
+      missing.push(week);
+    }
+  }
+  return missing;
+}
+
+/**
+ * 生成切片的显示文本（只列出有取值的维度）
+ * @param slice 切片维度取值
+ * @returns 如 "起保年度=2025 / 三级机构/城市=天府"
+ */
+export function formatSlice(slice: Partial<FilterDimensions>): string {
+  return Object.entries(slice)
+    .filter(([, value]) => value !== null && value !== undefined && value !== '')
+    .map(([field, value]) => `${DISPLAY_NAMES[field as keyof typeof DISPLAY_NAMES] ?? field}=${value}`)
+    .join(' / ');
+}
+
+/**
+ * 比较相邻两周的同一切片
+ * @param options 核对选项
+ * @param fromWeek 上一周
+ * @param toWeek 本周
+ * @param previous 上一周聚合结果
+ * @param current 本周聚合结果（切片消失时为undefined）
+ * @returns 发现的问题
+ */
+function compareSlice(
+  options: ReconciliationOptions,
+  fromWeek: number,
+  toWeek: number,
+  previous: AnalysisResult,
+  current: AnalysisResult | undefined
+): ReconciliationIssue[] {
+  const slice = { ...previous.dimensions };
+  delete slice.week_number;
+
+  return options.fields.flatMap<ReconciliationIssue>(field => {
+    const before = previous[field] ?? 0;
+    const after = current ? current[field] ?? 0 : 0;
+    const change = after - before;
+    const changeRate = before !== 0 ? change / Math.abs(before) : null;
+    const issue = { field, fromWeek, toWeek, slice, previous: before, current: after, change, changeRate };
+
+    if (!current) {
+      return before > 0 ? [{ type: 'missing', ...issue }] : [];
+    }
+    if (before > 0 && after < before * (1 - options.regressionTolerance)) {
+      return [{ type: 'regression', ...issue }];
+    }
+    if (before >= options.minBaseValue && changeRate !== null && changeRate > options.jumpTolerance) {
+      return [{ type: 'jump', ...issue }];
+    }
+    return [];
+  });
+}
+
+/**
+ * 在分区数据上执行跨周一致性核对
+ * @param partitions 全部分区
+ * @param overrides 覆盖默认值的核对选项
+ * @returns 核对报告
+ */
+export function reconcileWeeks(
+  partitions: ColumnarPartition[],
+  overrides: Partial<ReconciliationOptions> = {}
+): ReconciliationReport {
+  const options: ReconciliationOptions = { ...DEFAULT_RECONCILIATION_OPTIONS, ...overrides };
+  const results = groupPartitions(partitions, [...options.dimensions, 'week_number']);
+
+  // 周次 → (切片键 → 聚合结果)
+  const byWeek = new Map<number, Map<string, AnalysisResult>>();
+  results.forEach(result => {
+    const week = Number(result.dimensions.week_number);
+    const sliceKey = options.dimensions.map(field => String(result.dimensions[field] ?? '')).join('|');
+    let slices = byWeek.get(week);
+    if (!slices) {
+      slices = new Map();
+      byWeek.set(week, slices);
+    }
+    slices.set(sliceKey, result);
+  });
+
+  const weeks = Array.from(byWeek.keys()).sort((a, b) => a - b);
+  const pairs = weeks.slice(1).map((toWeek, index) => ({
+    fromWeek: weeks[index],
+    toWeek,
+    acrossGap: toWeek - weeks[index] > 1
+  }));
+
+  const issues: ReconciliationIssue[] = [];
+  pairs.forEach(({ fromWeek, toWeek }) => {
+    const previousSlices = byWeek.get(fromWeek) as Map<string, AnalysisResult>;
+    const currentSlices = byWeek.get(toWeek) as Map<string, AnalysisResult>;
+    previousSlices.forEach((previous, sliceKey) => {
+      issues.push(...compareSlice(options, fromWeek, toWeek, previous, currentSlices.get(sliceKey)));
+    });
+  });
+
+  const issueCounts: Record<ReconciliationIssueType, number> = { regression: 0, jump: 0, missing: 0 };
+  issues.forEach(issue => issueCounts[issue.type]++);
+
+  return {
+    options,
+    weeks,
+    missingWeeks: findMissingWeeks(weeks),
+    pairs,
+    sliceCount: new Set(Array.from(byWeek.values()).flatMap(slices => Array.from(slices.keys()))).size,
+    issueCounts,
+    issues: issues
+      .sort((a, b) => Math.abs(b.change) - Math.abs(a.change))
+      .slice(0, ISSUE_LIMIT)
+  };
+}
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import { AggregationSource, DimensionAttribution, attributeDimension, attributeMetricChange } from '@/services/attributionService';
+import { calculateAnalysisResult } from '@/lib/calculations';
+import { AnalysisResult, FilterDimensions, InsuranceRecord } from '@/types/insurance';
+
+type TestRecord = Partial<InsuranceRecord> & { business_type_category: string; customer_category_3: string };
+
+/**
+ * 按单个维度分组构造聚合结果
+ */
+function groupBy(records: TestRecord[], dimension: keyof FilterDimensions): AnalysisResult[] {
+  const groups = new Map<string, TestRecord[]>();
+  records.forEach(record => {
+    const key = String(record[dimension]);
+    groups.set(key, [...(groups.get(key) ?? []), record]);
+  });
+  return Array.from(groups.values()).map(group =>
+    calculateAnalysisResult(group as InsuranceRecord[], { [dimension]: group[0][dimension] })
+  );
+}
+
+/**
+ * 按周次筛选的分组聚合数据源
+ */
+function createSource(records: TestRecord[]): AggregationSource {
+  return {
+    aggregateByDimensions: async (dimensions, filters = {}) => {
+      const weeks = ([] as unknown[]).concat(filters.week_number ?? []);
+      const matched = records.filter(record => weeks.length === 0 || weeks.includes(record.week_number));
+      return groupBy(matched, dimensions[0] as keyof FilterDimensions);
+    }
+  };
+}
+
+/**
+ * 断言维度内贡献可加：Σ贡献 = 整体变化，且每个取值的结构效应 + 费率效应 = 贡献
+ */
+function expectAdditive(attribution: DimensionAttribution, change: number) {
+  const total = attribution.segments.reduce((sum, segment) => sum + segment.contribution, 0);
+  expect(total).toBeCloseTo(change, 9);
+  expect(attribution.mixEffect + attribution.rateEffect).toBeCloseTo(change, 9);
+  attribution.segments.forEach(segment => {
+    expect(segment.mixEffect + segment.rateEffect).toBeCloseTo(segment.contribution, 9);
+  });
+}
+
+/**
+ * 构造单条记录（满期保费与签单保费相同）
+ */
+function record(week: number, business: string, customer: string, premium: number, claim: number, expense: number): TestRecord {
+  return {
+    policy_start_year: 2025,
+    week_number: week,
+    business_type_category: business,
+    customer_category_3: customer,
+    signed_premium_yuan: premium,
+    matured_premium_yuan: premium,
+    reported_claim_payment_yuan: claim,
+    expense_amount_yuan: expense,
+    policy_count: 1
+  };
+}
+
+// 第10周为基期、第11周为当期；“摩托车”为新增业务，“货车”在当期消失
+const RECORDS: TestRecord[] = [
+  record(10, '非营业客车', '个人', 1000, 600, 150),
+  record(10, '非营业客车', '企业', 500, 200, 60),
+  record(10, '货车', '企业', 300, 330, 45),
+  record(11, '非营业客车', '个人', 1400, 700, 180),
+  record(11, '非营业客车', '企业', 300, 240, 50),
+  record(11, '摩托车', '个人', 200, 40, 30)
+];
+
+describe('指标变化归因', () => {
+  it('各维度取值贡献之和等于整体变化，且结构效应与费率效应之和等于贡献', async () => {
+    const source = createSource(RECORDS);
+    const result = await attributeMetricChange(
+      'variable_cost_ratio_percent', { year: 2025, week: 11 }, { year: 2025, week: 10 },
+      {}, ['business_type_category', 'customer_category_3'], 10, source
+    );
+
+    expect(result.change).not.toBeCloseTo(0, 3);
+    expect(result.dimensions).toHaveLength(2);
+    result.dimensions.forEach(attribution => expectAdditive(attribution, result.change));
+  });
+
+  it('新增与消失的取值：以整体基期比率为参照，指标值记为null', async () => {
+    const result = await attributeMetricChange(
+      'expired_loss_ratio_percent', { year: 2025, week: 11 }, { year: 2025, week: 10 },
+      {}, ['business_type_category'], 10, createSource(RECORDS)
+    );
+    const [attribution] = result.dimensions;
+    expectAdditive(attribution, result.change);
+
+    const added = attribution.segments.find(segment => segment.label.includes('摩托车'));
+    const vanished = attribution.segments.find(segment => segment.label.includes('货车'));
+    expect(added?.baselineValue).toBeNull();
+    expect(added?.baselineShare).toBe(0);
+    expect(added?.currentValue).toBeCloseTo(20, 9);
+    // 新增取值以整体基期比率为参照，结构效应为0，贡献全部来自费率效应
+    expect(added?.mixEffect).toBeCloseTo(0, 9);
+    // 消失取值当期占比为0，费率效应为0，贡献全部来自结构效应
+    expect(vanished?.currentValue).toBeNull();
+    expect(vanished?.currentShare).toBe(0);
+    expect(vanished?.rateEffect).toBeCloseTo(0, 9);
+  });
+
+  it('某期整体分母为0时变化全部计入费率效应，贡献之和仍等于整体变化', () => {
+    const baseline = groupBy([
+      record(10, '非营业客车', '个人', 0, 100, 0),
+      record(10, '货车', '企业', 0, 50, 0)
+    ], 'business_type_category');
+    const current = groupBy(RECORDS.filter(item => item.week_number === 11), 'business_type_category');
+    const attribution = attributeDimension('expired_loss_ratio_percent', 'business_type_category', current, baseline);
+
+    // 基期分母为0，整体比率按0计
+    const change = (980 / 1900) * 100;
+    expectAdditive(attribution, change);
+    expect(attribution.mixEffect).toBe(0);
+    attribution.segments.forEach(segment => expect(segment.baselineShare).toBe(0));
+  });
+
+  it('单个取值分母为0时不产生NaN', () => {
+    const baseline = groupBy([
+      record(10, '非营业客车', '个人', 1000, 500, 100),
+      record(10, '货车', '企业', 0, 80, 0)
+    ], 'business_type_category');
+    const current = groupBy([
+      record(11, '非营业客车', '个人', 800, 600, 100),
+      record(11, '货车', '企业', 200, 100, 20)
+    ], 'business_type_category');
+    const attribution = attributeDimension('expired_loss_ratio_percent', 'business_type_category', current, baseline);
+
+    const change = (700 / 1000) * 100 - (580 / 1000) * 100;
+    expectAdditive(attribution, change);
+    attribution.segments.forEach(segment => {
+      expect(Number.isFinite(segment.contribution)).toBe(true);
+      expect(Number.isFinite(segment.mixEffect)).toBe(true);
+    });
+  });
+});
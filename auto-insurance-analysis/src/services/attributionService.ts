@@ -0,0 +1,355 @@
+/**
+ * 车险变动成本多维分析系统 - 指标变化归因服务
+ *
+ * 功能说明：
+ * - 将率值/均值指标在两个期间之间的变化，分解到各维度取值上
+ * - 结构效应（mix）：分母占比变化带来的影响，即业务结构迁移
+ * - 费率效应（rate）：该取值自身比率变化带来的影响
+ * - 逐一遍历17个维度，按贡献绝对值定位主要影响因子（PRD 4.3 归因分析）
+ *
+ * 分解口径（单个分量 R = Σnum / Σden，w 为分母占比，r 为取值自身比率，R0 为基期整体比率）：
+ * - 结构效应 = (w1 - w0) × (r0 - R0)
+ * - 费率效应 = w1 × (r1 - r0)
+ * - 基期不存在的取值以 R0 作为 r0；同一维度下各取值贡献之和恰等于整体变化
+ */
+
+import { AggregatedValueFields, AnalysisResult, CalculatedFields, FilterConditions, FilterDimensions } from '@/types/insurance';
+import { db, InsuranceDatabase } from '@/lib/database';
+import { DIMENSION_FIELDS } from '@/lib/constants';
+import { METRIC_FORMULA_MAP } from '@/lib/metric-formulas';
+import { formatSlice } from '@/lib/week-reconciliation';
+import { ComparisonPeriod } from '@/services/comparisonService';
+
+/**
+ * 比率分量：sign × scale × Σnumerator / Σdenominator
+ */
+interface RatioComponent {
+  numerator: keyof AggregatedValueFields;
+  denominator: keyof AggregatedValueFields;
+  sign: 1 | -1;
+  scale: number;
+}
+
+/**
+ * 可归因指标的分量定义：指标 = offset + Σ分量
+ */
+interface RatioDefinition {
+  offset: number;
+  components: RatioComponent[];
+}
+
+const LOSS_RATIO: RatioComponent = {
+  numerator: 'reported_claim_payment_yuan', denominator: 'matured_premium_yuan', sign: 1, scale: 100
+};
+
+const EXPENSE_RATIO: RatioComponent = {
+  numerator: 'expense_amount_yuan', denominator: 'signed_premium_yuan', sign: 1, scale: 100
+};
+
+/**
+ * 可归因的指标（满期出险率为两个比率之积，无法线性分解，不在此列）
+ */
+export const ATTRIBUTION_RATIOS = {
+  variable_cost_ratio_percent: { offset: 0, components: [LOSS_RATIO, EXPENSE_RATIO] },
+  expired_loss_ratio_percent: { offset: 0, components: [LOSS_RATIO] },
+  expense_ratio_percent: { offset: 0, components: [EXPENSE_RATIO] },
+  combined_ratio_percent: { offset: 0, components: [LOSS_RATIO, EXPENSE_RATIO] },
+  matured_margin_contribution_rate_percent: {
+    offset: 100,
+    components: [{ ...LOSS_RATIO, sign: -1 }, { ...EXPENSE_RATIO, sign: -1 }]
+  },
+  profit_margin_percent: {
+    offset: 100,
+    components: [{ ...LOSS_RATIO, sign: -1 }, { ...EXPENSE_RATIO, sign: -1 }]
+  },
+  premium_time_progress_achievement_rate_percent: {
+    offset: 0,
+    components: [{ numerator: 'signed_premium_yuan', denominator: 'premium_time_progress_plan_yuan', sign: 1, scale: 100 }]
+  },
+  commercial_auto_underwriting_factor: {
+    offset: 0,
+    components: [{ numerator: 'commercial_signed_premium_yuan', denominator: 'commercial_premium_before_discount_yuan', sign: 1, scale: 1 }]
+  },
+  average_premium_per_policy_yuan: {
+    offset: 0,
+    components: [{ numerator: 'signed_premium_yuan', denominator: 'policy_count', sign: 1, scale: 1 }]
+  },
+  average_claim_payment_yuan: {
+    offset: 0,
+    components: [{ numerator: 'reported_claim_payment_yuan', denominator: 'claim_case_count', sign: 1, scale: 1 }]
+  }
+} satisfies Partial<Record<keyof CalculatedFields, RatioDefinition>>;
+
+/**
+ * 可归因的指标字段
+ */
+export type AttributionMetric = keyof typeof ATTRIBUTION_RATIOS;
+
+export const ATTRIBUTION_METRICS = Object.keys(ATTRIBUTION_RATIOS) as AttributionMetric[];
+
+/**
+ * 单个维度取值的贡献
+ */
+export interface SegmentContribution {
+  dimension: keyof FilterDimensions;
+  segment: Partial<FilterDimensions>;              // 维度取值（可直接叠加为筛选条件）
+  label: string;
+  baselineShare: number;                           // 基期分母占比（%，取首个分量的分母）
+  currentShare: number;
+  baselineValue: number | null;                    // 该取值的指标值，期间内不存在时为null
+  currentValue: number | null;
+  mixEffect: number;
+  rateEffect: number;
+  contribution: number;                            // 结构效应 + 费率效应
+}
+
+/**
+ * 单个维度的归因结果
+ */
+export interface DimensionAttribution {
+  dimension: keyof FilterDimensions;
+  segments: SegmentContribution[];                 // 按贡献绝对值降序
+  mixEffect: number;
+  rateEffect: number;
+  concentration: number;                           // 最大单项贡献绝对值占全部贡献绝对值之和的比例（%）
+}
+
+/**
+ * 指标变化归因结果
+ */
+export interface MetricAttributionResult {
+  metric: AttributionMetric;
+  currentPeriod: ComparisonPeriod;
+  baselinePeriod: ComparisonPeriod;
+  current: number;
+  baseline: number;
+  change: number;
+  dimensions: DimensionAttribution[];              // 按最大单项贡献绝对值降序
+  topContributors: SegmentContribution[];          // 跨维度的主要影响因子
+  skippedDimensions: (keyof FilterDimensions)[];   // 两期内取值均唯一（如周序号），不参与归因
+}
+
+/**
+ * 分组聚合数据源（InsuranceDatabase 或聚合Worker客户端）
+ */
+export type AggregationSource = Pick<InsuranceDatabase, 'aggregateByDimensions'>;
+
+/**
+ * 单维度分组查询的上限（须覆盖全部取值，否则贡献之和不等于整体变化）
+ */
+const ATTRIBUTION_QUERY_LIMIT = 100000;
+
+/**
+ * 默认列出的主要影响因子数量
+ */
+const DEFAULT_TOP_CONTRIBUTORS = 10;
+
+/**
+ * 安全除法，分母为0时返回0（与指标公式口径一致）
+ */
+function divide(numerator: number, denominator: number): number {
+  return denominator !== 0 ? numerator / denominator : 0;
+}
+
+/**
+ * 汇总分组结果的绝对值字段
+ * @param results 分组结果
+ * @param fields 需要汇总的字段
+ */
+function sumFields(results: AnalysisResult[], fields: (keyof AggregatedValueFields)[]): Partial<Record<keyof AggregatedValueFields, number>> {
+  const totals: Partial<Record<keyof AggregatedValueFields, number>> = {};
+  fields.forEach(field => {
+    totals[field] = results.reduce((sum, result) => sum + (result[field] || 0), 0);
+  });
+  return totals;
+}
+
+/**
+ * 按分量定义计算指标值
+ * @param definition 分量定义
+ * @param values 绝对值字段
+ */
+function evaluateRatio(definition: RatioDefinition, values: Partial<Record<keyof AggregatedValueFields, number>>): number {
+  return definition.components.reduce(
+    (sum, component) => sum + component.sign * component.scale * divide(values[component.numerator] ?? 0, values[component.denominator] ?? 0),
+    definition.offset
+  );
+}
+
+/**
+ * 生成分组结果在某维度上的取值键
+ */
+function segmentKey(result: AnalysisResult, dimension: keyof FilterDimensions): string {
+  return String(result.dimensions[dimension] ?? '');
+}
+
+/**
+ * 在单个维度上分解指标变化
+ * @param metric 指标
+ * @param dimension 维度
+ * @param currentResults 当期按该维度分组的结果
+ * @param baselineResults 基期按该维度分组的结果
+ * @returns 维度归因结果
+ */
+export function attributeDimension(
+  metric: AttributionMetric,
+  dimension: keyof FilterDimensions,
+  currentResults: AnalysisResult[],
+  baselineResults: AnalysisResult[]
+): DimensionAttribution {
+  const definition: RatioDefinition = ATTRIBUTION_RATIOS[metric];
+  const fields = Array.from(new Set(definition.components.flatMap(component => [component.numerator, component.denominator])));
+  const currentTotals = sumFields(currentResults, fields);
+  const baselineTotals = sumFields(baselineResults, fields);
+
+  const current = new Map(currentResults.map(result => [segmentKey(result, dimension), result]));
+  const baseline = new Map(baselineResults.map(result => [segmentKey(result, dimension), result]));
+  const keys = Array.from(new Set([...baseline.keys(), ...current.keys()]));
+
+  const segments = keys.map(key => {
+    const currentResult = current.get(key);
+    const baselineResult = baseline.get(key);
+    let mixEffect = 0;
+    let contribution = 0;
+
+    definition.components.forEach(component => {
+      const factor = component.sign * component.scale;
+      const totalDen1 = currentTotals[component.denominator] ?? 0;
+      const totalDen0 = baselineTotals[component.denominator] ?? 0;
+      const num1 = currentResult?.[component.numerator] ?? 0;
+      const den1 = currentResult?.[component.denominator] ?? 0;
+      const num0 = baselineResult?.[component.numerator] ?? 0;
+      const den0 = baselineResult?.[component.denominator] ?? 0;
+      const direct = divide(num1, totalDen1) - divide(num0, totalDen0);
+
+      // 任一期整体分母为0时分量比率按0计，不存在占比迁移，变化全部计入费率效应
+      if (totalDen1 === 0 || totalDen0 === 0) {
+        contribution += factor * direct;
+        return;
+      }
+
+      const overall0 = divide(baselineTotals[component.numerator] ?? 0, totalDen0);
+      const rate0 = den0 !== 0 ? num0 / den0 : overall0;
+      const shareChange = den1 / totalDen1 - den0 / totalDen0;
+      mixEffect += factor * shareChange * (rate0 - overall0);
+      contribution += factor * (direct - overall0 * shareChange);
+    });
+
+    const primary = definition.components[0].denominator;
+    const source = currentResult ?? baselineResult;
+    const segment: Partial<FilterDimensions> = source ? { [dimension]: source.dimensions[dimension] } : {};
+    return {
+      dimension,
+      segment,
+      label: formatSlice(segment) || '未知',
+      baselineShare: divide(baselineResult?.[primary] ?? 0, baselineTotals[primary] ?? 0) * 100,
+      currentShare: divide(currentResult?.[primary] ?? 0, currentTotals[primary] ?? 0) * 100,
+      baselineValue: baselineResult ? evaluateRatio(definition, baselineResult) : null,
+      currentValue: currentResult ? evaluateRatio(definition, currentResult) : null,
+      mixEffect,
+      rateEffect: contribution - mixEffect,
+      contribution
+    };
+  }).sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution));
+
+  const absoluteTotal = segments.reduce((sum, segment) => sum + Math.abs(segment.contribution), 0);
+  return {
+    dimension,
+    segments,
+    mixEffect: segments.reduce((sum, segment) => sum + segment.mixEffect, 0),
+    rateEffect: segments.reduce((sum, segment) => sum + segment.rateEffect, 0),
+    concentration: absoluteTotal !== 0 ? (Math.abs(segments[0].contribution) / absoluteTotal) * 100 : 0
+  };
+}
+
+/**
+ * 期间筛选条件：以期间替换当前筛选条件中的起保年度与周序号
+ */
+function periodFilters(filters: FilterConditions, period: ComparisonPeriod): FilterConditions {
+  return { ...filters, policy_start_year: period.year, week_number: period.week };
+}
+
+/**
+ * 将指标在基期与当期之间的变化归因到各维度取值
+ * 年度/周次筛选由两个期间替代，其余筛选条件同时作用于两期
+ * @param metric 指标
+ * @param currentPeriod 当期
+ * @param baselinePeriod 基期
+ * @param filters 当前筛选条件
+ * @param dimensions 参与归因的维度，默认全部17个维度
+ * @param topN 主要影响因子数量
+ * @param source 分组聚合数据源
+ * @returns 归因结果
+ */
+export async function attributeMetricChange(
+  metric: AttributionMetric,
+  currentPeriod: ComparisonPeriod,
+  baselinePeriod: ComparisonPeriod,
+  filters: FilterConditions = {},
+  dimensions: (keyof FilterDimensions)[] = DIMENSION_FIELDS,
+  topN: number = DEFAULT_TOP_CONTRIBUTORS,
+  source: AggregationSource = db
+): Promise<MetricAttributionResult> {
+  const definition: RatioDefinition = ATTRIBUTION_RATIOS[metric];
+  const fields = Array.from(new Set(definition.components.flatMap(component => [component.numerator, component.denominator])));
+
+  const attributions: DimensionAttribution[] = [];
+  const skippedDimensions: (keyof FilterDimensions)[] = [];
+  let current = 0;
+  let baseline = 0;
+
+  // 逐维度顺序查询，避免同时占用过多Worker
+  for (const [index, dimension] of dimensions.entries()) {
+    const currentResults = await source.aggregateByDimensions(
+      [dimension], periodFilters(filters, currentPeriod), ATTRIBUTION_QUERY_LIMIT
+    );
+    const baselineResults = await source.aggregateByDimensions(
+      [dimension], periodFilters(filters, baselinePeriod), ATTRIBUTION_QUERY_LIMIT
+    );
+
+    if (index === 0) {
+      current = evaluateRatio(definition, sumFields(currentResults, fields));
+      baseline = evaluateRatio(definition, sumFields(baselineResults, fields));
+    }
+
+    // 各期内取值唯一的维度（期间本身或筛选已固定的维度）无法区分影响因子
+    if (currentResults.length <= 1 && baselineResults.length <= 1) {
+      skippedDimensions.push(dimension);
+      continue;
+    }
+    attributions.push(attributeDimension(metric, dimension, currentResults, baselineResults));
+  }
+
+  const topContribution = (attribution: DimensionAttribution) => Math.abs(attribution.segments[0]?.contribution ?? 0);
+  attributions.sort((a, b) => topContribution(b) - topContribution(a));
+
+  const topContributors = attributions
+    .flatMap(attribution => attribution.segments)
+    .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution))
+    .slice(0, topN);
+
+  return {
+    metric,
+    currentPeriod,
+    baselinePeriod,
+    current,
+    baseline,
+    change: current - baseline,
+    dimensions: attributions,
+    topContributors,
+    skippedDimensions
+  };
+}
+
+/**
+ * 获取归因指标的单位与展示精度
+ * @param metric 指标
+ * @returns 变化量的单位（率值指标为百分点）与精度
+ */
+export function getAttributionUnit(metric: AttributionMetric): { unit: string; decimals: number } {
+  const formula = METRIC_FORMULA_MAP[metric];
+  return {
+    unit: formula.unit === '%' ? 'pp' : formula.unit === '系数' ? '' : formula.unit,
+    decimals: formula.unit === '%' ? 2 : formula.decimals
+  };
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { TimeSeriesSource, compareMetrics } from '@/services/comparisonService';
+import { calculateAnalysisResult } from '@/lib/calculations';
+import { InsuranceRecord } from '@/types/insurance';
+
+/**
+ * 按周次构造时间序列数据源（第32周缺失）
+ */
+function createSource(weeks: [number, number, number][]): TimeSeriesSource {
+  return {
+    getTimeSeriesData: async () => weeks.map(([year, week, premium]) =>
+      calculateAnalysisResult(
+        [{ policy_start_year: year, week_number: week, signed_premium_yuan: premium, policy_count: 1 } as InsuranceRecord],
+        { policy_start_year: year, week_number: week }
+      )
+    )
+  };
+}
+
+describe('指标对比基期', () => {
+  const source = createSource([[2024, 52, 50], [2025, 1, 80], [2025, 31, 100], [2025, 33, 150]]);
+
+  it('上周缺失时回退到最近的更早周次', async () => {
+    const result = await compareMetrics({}, 'previous_week', undefined, source);
+    expect(result.currentPeriod).toEqual({ year: 2025, week: 33 });
+    expect(result.baselinePeriod).toEqual({ year: 2025, week: 31 });
+    expect(result.metrics.signed_premium_yuan?.change).toBeCloseTo(50, 6);
+  });
+
+  it('不跨起保年度回退：第1周没有上周基期', async () => {
+    const result = await compareMetrics({ policy_start_year: [2025], week_number: [1] }, 'previous_week', undefined, source);
+    expect(result.baselinePeriod).toBeNull();
+    expect(result.metrics.signed_premium_yuan?.change).toBeNull();
+  });
+
+  it('没有更早周次时无对比数据', async () => {
+    const result = await compareMetrics({ policy_start_year: [2024] }, 'previous_week', undefined, source);
+    expect(result.baselinePeriod).toBeNull();
+    expect(result.metrics.signed_premium_yuan?.change).toBeNull();
+  });
+});
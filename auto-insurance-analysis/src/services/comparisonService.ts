@@ -0,0 +1,181 @@
+/**
+ * 车险变动成本多维分析系统 - 指标对比服务
+ *
+ * 功能说明：
+ * - 在当前筛选条件下，取最新周次与对比基期（上周/去年同期/自定义）的指标
+ * - 绝对值、均值与系数指标按增长率（%）对比
+ * - 率值指标按百分点（pp）对比
+ */
+
+import { AbsoluteValueFields, AnalysisResult, CalculatedFields, FilterConditions } from '@/types/insurance';
+import { db, InsuranceDatabase } from '@/lib/database';
+import { ABSOLUTE_VALUE_FIELDS, calculateGrowthRate } from '@/lib/calculations';
+import { METRIC_FORMULAS, METRIC_FORMULA_MAP } from '@/lib/metric-formulas';
+
+/**
+ * 对比基期模式
+ */
+export type ComparisonMode = 'previous_week' | 'same_week_last_year' | 'custom';
+
+/**
+ * 对比期间（起保年度 + 周序号）
+ */
+export interface ComparisonPeriod {
+  year: number;
+  week: number;
+}
+
+/**
+ * 可对比的指标字段
+ */
+export type ComparableField = keyof AbsoluteValueFields | keyof CalculatedFields;
+
+/**
+ * 单个指标的对比结果
+ */
+export interface MetricComparison {
+  field: ComparableField;
+  changeType: 'percent' | 'point';  // percent: 增长率(%)；point: 百分点变化(pp)
+  current: number;
+  baseline: number | null;
+  change: number | null;            // 基期无数据时为null
+}
+
+/**
+ * 指标对比结果
+ */
+export interface MetricComparisonResult {
+  mode: ComparisonMode;
+  currentPeriod: ComparisonPeriod | null;
+  baselinePeriod: ComparisonPeriod | null;
+  availablePeriods: ComparisonPeriod[];
+  metrics: Partial<Record<ComparableField, MetricComparison>>;
+}
+
+/**
+ * 时间序列数据源（InsuranceDatabase 或聚合Worker客户端）
+ */
+export type TimeSeriesSource = Pick<InsuranceDatabase, 'getTimeSeriesData'>;
+
+/**
+ * 对比模式显示名称
+ */
+export const COMPARISON_MODE_LABELS: Record<ComparisonMode, string> = {
+  previous_week: '上周',
+  same_week_last_year: '去年同期',
+  custom: '自定义基期'
+};
+
+/**
+ * 判断取值是否满足单个筛选条件
+ * @param value 取值
+ * @param condition 筛选条件（单值或数组）
+ * @returns 是否满足
+ */
+function matchesCondition(value: number, condition: number | number[] | undefined): boolean {
+  if (condition === undefined || condition === null) return true;
+  if (Array.isArray(condition)) return condition.length === 0 || condition.includes(value);
+  return condition === value;
+}
+
+/**
+ * 获取分组结果对应的期间
+ * @param result 按年度/周次分组的分析结果
+ * @returns 期间
+ */
+function toPeriod(result: AnalysisResult): ComparisonPeriod {
+  return {
+    year: Number(result.dimensions.policy_start_year),
+    week: Number(result.dimensions.week_number)
+  };
+}
+
+/**
+ * 计算对比基期
+ * @param current 当前期间
+ * @param mode 对比模式
+ * @param periods 可用期间（按时间排序）
+ * @param customBaseline 自定义基期
+ * @returns 基期，无法确定时返回null
+ */
+function resolveBaselinePeriod(
+  current: ComparisonPeriod,
+  mode: ComparisonMode,
+  periods: ComparisonPeriod[],
+  customBaseline?: ComparisonPeriod
+): ComparisonPeriod | null {
+  switch (mode) {
+    case 'previous_week': {
+      // 取同一起保年度内最近的更早可用周次（跳过缺失的周次）；
+      // 各起保年度为不同的累计口径，跨年度对比没有意义，年度内没有更早周次时无基期
+      const earlier = periods.filter(period => period.year === current.year && period.week < current.week);
+      return earlier.length > 0 ? earlier[earlier.length - 1] : null;
+    }
+    case 'same_week_last_year':
+      return { year: current.year - 1, week: current.week };
+    case 'custom':
+      return customBaseline ?? null;
+  }
+}
+
+/**
+ * 计算单个指标的变化
+ * @param field 指标字段
+ * @param current 当期值
+ * @param baseline 基期值
+ * @returns 对比结果
+ */
+function compareField(field: ComparableField, current: number, baseline: number | null): MetricComparison {
+  const changeType = METRIC_FORMULA_MAP[field as keyof CalculatedFields]?.unit === '%' ? 'point' : 'percent';
+  let change: number | null = null;
+  if (baseline !== null) {
+    change = changeType === 'point' ? current - baseline : calculateGrowthRate(current, baseline);
+  }
+  return { field, changeType, current, baseline, change };
+}
+
+/**
+ * 计算当前筛选条件下最新周次相对基期的指标变化
+ * 年度/周次筛选用于确定当前期间，基期不受其限制
+ * @param filters 当前筛选条件
+ * @param mode 对比模式
+ * @param customBaseline 自定义基期（mode为custom时使用）
+ * @param source 时间序列数据源
+ * @returns 对比结果
+ */
+export async function compareMetrics(
+  filters: FilterConditions,
+  mode: ComparisonMode,
+  customBaseline?: ComparisonPeriod,
+  source: TimeSeriesSource = db
+): Promise<MetricComparisonResult> {
+  const { policy_start_year, week_number, ...otherFilters } = filters;
+  const series = await source.getTimeSeriesData('year_week', otherFilters);
+  const availablePeriods = series.map(toPeriod);
+
+  const currentIndex = availablePeriods.reduce((latest, period, index) => {
+    return matchesCondition(period.year, policy_start_year) && matchesCondition(period.week, week_number)
+      ? index
+      : latest;
+  }, -1);
+
+  if (currentIndex < 0) {
+    return { mode, currentPeriod: null, baselinePeriod: null, availablePeriods, metrics: {} };
+  }
+
+  const currentPeriod = availablePeriods[currentIndex];
+  const baselinePeriod = resolveBaselinePeriod(currentPeriod, mode, availablePeriods, customBaseline);
+  const current = series[currentIndex];
+  const baselineIndex = baselinePeriod
+    ? availablePeriods.findIndex(period => period.year === baselinePeriod.year && period.week === baselinePeriod.week)
+    : -1;
+  const baseline = baselineIndex >= 0 ? series[baselineIndex] : null;
+
+  const fields: ComparableField[] = [...ABSOLUTE_VALUE_FIELDS, ...METRIC_FORMULAS.map(formula => formula.field)];
+  const metrics: MetricComparisonResult['metrics'] = {};
+  fields.forEach(field => {
+    metrics[field] = compareField(field, current[field], baseline ? baseline[field] : null);
+  });
+
+  return { mode, currentPeriod, baselinePeriod, availablePeriods, metrics };
+}
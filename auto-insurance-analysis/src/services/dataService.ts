@@ -1,10 +1,10 @@
-import Papa from 'papaparse';
-import { InsuranceRecord, FilterConditions, AnalysisResult, ImportResult, DataCatalog, AvailableYears, AvailableWeeks, FilterDimensions } from '@/types/insurance';
+import { InsuranceRecord, FilterConditions, AnalysisResult, ImportResult, ImportProgress, DataCatalog, AvailableYears, AvailableWeeks, FilterDimensions, ApiResponse, DataDirectoryScan } from '@/types/insurance';
+import { streamCSVFile, CSVStreamResult } from '@/lib/data-processor';
 import { MetricCalculator, MetricCalculationResult, calculateAllMetrics, calculateMetricsByDimensions } from './metricCalculator';
 
 /**
  * 数据服务类 - 浏览器版本
- * 处理CSV文件解析、数据缓存和管理
+ * 处理CSV文件解析、数据缓存和管理，数据目录扫描与文件读取由服务端API完成
  */
 export class DataService {
   private static instance: DataService;
@@ -60,65 +60,48 @@ export class DataService {
   }
 
   /**
-   * 模拟扫描数据目录 - 浏览器版本
-   * 返回预设的数据目录结构
+   * 调用服务端API并解包 ApiResponse
+   * @param url 接口地址
+   * @returns 响应数据
+   */
+  private async fetchApi<T>(url: string): Promise<T> {
+    const response = await fetch(url);
+    const body: ApiResponse<T> = await response.json();
+    if (!response.ok || !body.success) {
+      throw new Error(body.message || `请求失败: ${response.status}`);
+    }
+    return body.data;
+  }
+
+  /**
+   * 扫描数据目录
+   * 由服务端扫描 data4dash/data-{YYYY}/ 并刷新 metadata/ 下的元数据文件
    */
   async scanDataDirectory(): Promise<DataCatalog> {
     const cacheKey = this.getCacheKey('scan_directory');
     const cached = this.getCache(cacheKey);
     if (cached) return cached;
 
-    // 模拟数据目录结构
-     const catalog: DataCatalog = {
-       totalYears: 2,
-       totalFiles: 18,
-       filePaths: [
-         "data/2024保单第28周变动成本明细表.csv",
-         "data/2024保单第29周变动成本明细表.csv",
-         "data/2024保单第30周变动成本明细表.csv",
-         "data/2024保单第31周变动成本明细表.csv",
-         "data/2024保单第33周变动成本明细表.csv",
-         "data/2024保单第34周变动成本明细表.csv",
-         "data/2024保单第35周变动成本明细表.csv",
-         "data/2024保单第36周变动成本明细表.csv",
-         "data/2024保单第37周变动成本明细表.csv",
-         "data/2025保单第28周变动成本明细表.csv",
-         "data/2025保单第29周变动成本明细表.csv",
-         "data/2025保单第30周变动成本明细表.csv",
-         "data/2025保单第31周变动成本明细表.csv",
-         "data/2025保单第33周变动成本明细表.csv",
-         "data/2025保单第34周变动成本明细表.csv",
-         "data/2025保单第35周变动成本明细表.csv",
-         "data/2025保单第36周变动成本明细表.csv",
-         "data/2025保单第37周变动成本明细表.csv"
-       ],
-       missingWeeks: {
-         "2024": [32],
-         "2025": [32]
-       },
-       lastScanTime: new Date().toISOString()
-     };
+    const scan = await this.fetchApi<DataDirectoryScan>('/api/catalog');
 
-    this.setCache(cacheKey, catalog);
-    return catalog;
+    this.setCache(cacheKey, scan.catalog);
+    this.setCache(this.getCacheKey('available_years'), scan.availableYears);
+    this.setCache(this.getCacheKey('available_weeks'), scan.availableWeeks);
+    return scan.catalog;
   }
 
   /**
-    * 获取可用年份
-    */
-   async getAvailableYears(): Promise<AvailableYears> {
-     const cacheKey = this.getCacheKey('available_years');
-     const cached = this.getCache(cacheKey);
-     if (cached) return cached;
-
-     const years: AvailableYears = {
-       years: [2024, 2025],
-       lastUpdated: new Date().toISOString()
-     };
+   * 获取可用年份
+   */
+  async getAvailableYears(): Promise<AvailableYears> {
+    const cacheKey = this.getCacheKey('available_years');
+    const cached = this.getCache(cacheKey);
+    if (cached) return cached;
 
-     this.setCache(cacheKey, years);
-     return years;
-   }
+    this.cache.delete(this.getCacheKey('scan_directory'));
+    await this.scanDataDirectory();
+    return this.getCache(cacheKey);
+  }
 
   /**
    * 获取可用周次
@@ -128,150 +111,39 @@ export class DataService {
     const cached = this.getCache(cacheKey);
     if (cached) return cached;
 
-    const weeks: AvailableWeeks = {
-      "2024": [28, 29, 30, 31, 33, 34, 35, 36, 37],
-      "2025": [28, 29, 30, 31, 33, 34, 35, 36, 37]
-    };
-
-    this.setCache(cacheKey, weeks);
-    return weeks;
+    this.cache.delete(this.getCacheKey('scan_directory'));
+    await this.scanDataDirectory();
+    return this.getCache(cacheKey);
   }
 
   /**
-   * 模拟加载指定年份和周次的数据
+   * 加载指定年份和周次的数据文件
+   * @param year 起保年度
+   * @param week 周序号，缺省时加载整年数据
    */
   async loadDataByYearWeek(year: number, week?: number): Promise<InsuranceRecord[]> {
     const cacheKey = this.getCacheKey('load_data', { year, week });
     const cached = this.getCache(cacheKey);
     if (cached) return cached;
 
-    // 模拟数据加载延迟
-    await new Promise(resolve => setTimeout(resolve, 1000));
-
-    // 生成模拟数据
-    const mockData = this.generateMockData(year, week);
-    
-    this.setCache(cacheKey, mockData);
-    return mockData;
-  }
-
-  /**
-   * 生成模拟数据
-   */
-  private generateMockData(year: number, week?: number): InsuranceRecord[] {
-    const data: InsuranceRecord[] = [];
-    const weeks = week ? [week] : [28, 29, 30, 31, 33, 34, 35, 36, 37];
+    const params = new URLSearchParams({ year: String(year) });
+    if (week !== undefined) {
+      params.set('week', String(week));
+    }
+    const data = await this.fetchApi<InsuranceRecord[]>(`/api/catalog/data?${params.toString()}`);
     
-    const organizations = ['成都市分公司', '绵阳市分公司', '德阳市分公司'];
-    const businessTypes = ['车险', '非车险'];
-    const customerTypes = ['个人客户', '企业客户'];
-    const insuranceTypes = ['交强险', '商业保险'];
-
-    weeks.forEach(weekNum => {
-      organizations.forEach(org => {
-        businessTypes.forEach(business => {
-          customerTypes.forEach(customer => {
-            insuranceTypes.forEach(insurance => {
-              data.push({
-                snapshot_date: `${year}-${String(Math.floor(weekNum / 4) + 1).padStart(2, '0')}-${String((weekNum % 4) * 7 + 1).padStart(2, '0')}`,
-                week_number: weekNum,
-                policy_start_year: year,
-                chengdu_branch: '成都市分公司',
-                third_level_organization: org,
-                business_type_category: business,
-                customer_category_3: customer,
-                insurance_type: insurance,
-                coverage_type: insurance === '交强险' ? '交强险' : '综合险',
-                renewal_status: Math.random() > 0.5 ? '续保' : '新保',
-                terminal_source: Math.random() > 0.5 ? '线上' : '线下',
-                is_new_energy_vehicle: Math.random() > 0.8,
-                 is_transferred_vehicle: Math.random() > 0.9,
-                 vehicle_insurance_grade: ['A', 'B', 'C'][Math.floor(Math.random() * 3)],
-                 highway_risk_grade: ['低风险', '中风险', '高风险'][Math.floor(Math.random() * 3)],
-                 large_truck_score: ['A', 'B', 'C'][Math.floor(Math.random() * 3)],
-                 small_truck_score: ['A', 'B', 'C'][Math.floor(Math.random() * 3)],
-                signed_premium_yuan: Math.random() * 10000 + 1000,
-                matured_premium_yuan: Math.random() * 9000 + 900,
-                commercial_premium_before_discount_yuan: Math.random() * 11000 + 1100,
-                policy_count: Math.floor(Math.random() * 10) + 1,
-                claim_case_count: Math.floor(Math.random() * 3),
-                 reported_claim_payment_yuan: Math.random() * 5000,
-                 expense_amount_yuan: Math.random() * 1000 + 100,
-                 matured_margin_contribution_yuan: Math.random() * 3000 + 500,
-                 variable_cost_amount_yuan: Math.random() * 2000 + 300
-              });
-            });
-          });
-        });
-      });
-    });
-
+    this.setCache(cacheKey, data);
     return data;
   }
 
   /**
-   * 解析上传的CSV文件
+   * 流式解析上传的CSV文件：按块读取并逐行校验，错误行跳过并记录到结构化错误中
+   * @param file CSV文件
+   * @param onProgress 解析进度回调
+   * @returns 有效记录与导入结果
    */
-  async parseCSVFile(file: File): Promise<InsuranceRecord[]> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      
-      reader.onload = (e) => {
-        try {
-          const csvText = e.target?.result as string;
-          if (!csvText) {
-            reject(new Error('文件内容为空'));
-            return;
-          }
-
-          Papa.parse(csvText, {
-            header: true,
-            skipEmptyLines: true,
-            transformHeader: (header: string) => header.trim(),
-            transform: (value: string, header: string) => {
-              // 数值字段转换
-              const numericFields = [
-                'signed_premium_yuan', 'matured_premium_yuan', 'commercial_premium_before_discount_yuan',
-                'policy_count', 'claim_case_count', 'reported_claim_payment_yuan',
-                'expense_amount_yuan', 'premium_time_progress_plan_yuan', 'marginal_contribution_amount_yuan',
-                'week_number', 'policy_start_year', 'large_truck_score', 'small_truck_score'
-              ];
-              
-              if (numericFields.includes(header)) {
-                const num = parseFloat(value);
-                return isNaN(num) ? 0 : num;
-              }
-              
-              return value.trim();
-            },
-            complete: (results) => {
-              if (results.errors.length > 0) {
-                reject(new Error(`CSV解析错误: ${results.errors.map(e => e.message).join(', ')}`));
-                return;
-              }
-
-              try {
-                const records = results.data as InsuranceRecord[];
-                resolve(records);
-              } catch (error: any) {
-                reject(new Error(`数据转换错误: ${error.message}`));
-              }
-            },
-            error: (error: any) => {
-              reject(new Error(`CSV解析失败: ${error.message}`));
-            }
-          });
-        } catch (error: any) {
-          reject(new Error(`文件读取错误: ${error.message}`));
-        }
-      };
-
-      reader.onerror = () => {
-        reject(new Error('文件读取失败'));
-      };
-
-      reader.readAsText(file, 'utf-8');
-    });
+  async parseCSVFile(file: File, onProgress?: (progress: ImportProgress) => void): Promise<CSVStreamResult> {
+    return streamCSVFile(file, { onProgress });
   }
 
   /**
@@ -377,7 +249,7 @@ export class DataService {
         const recordValue = record[key as keyof InsuranceRecord];
         
         if (Array.isArray(value)) {
-          if (!value.includes(recordValue as any)) return false;
+          if (!(value as unknown[]).includes(recordValue)) return false;
         } else {
           if (recordValue !== value) return false;
         }
@@ -0,0 +1,141 @@
+/**
+ * 车险变动成本多维分析系统 - 洞察报告服务
+ *
+ * 功能说明：
+ * - 收集当前筛选条件下的周度时间序列、当期分维度指标与环比归因
+ * - 交由 insight-report 按模板生成“趋势分析 / 异常识别 / 业务洞察”三段式报告
+ * - 或将匿名化摘要交由 /api/insights 的大模型生成，失败时回退到模板报告
+ */
+
+import { ApiResponse, FilterConditions, FilterDimensions } from '@/types/insurance';
+import { db } from '@/lib/database';
+import { InsightMetric, InsightReport, InsightReportInput, generateInsightReport } from '@/lib/insight-report';
+import { InsightDigest, buildInsightDigest, restoreAliases } from '@/lib/insight-digest';
+import { validateInsightMarkdown } from '@/lib/insight-providers';
+import { compareMetrics } from '@/services/comparisonService';
+import {
+  ATTRIBUTION_METRICS,
+  AttributionMetric,
+  MetricAttributionResult,
+  attributeMetricChange
+} from '@/services/attributionService';
+
+/**
+ * 每个指标在报告中列出的主要影响因子数
+ */
+const REPORT_TOP_CONTRIBUTORS = 3;
+
+/**
+ * 收集报告所需的趋势、异常与归因数据
+ * 年度/周次筛选用于确定当期（取命中的最新周次），趋势与基期不受其限制
+ * @param filters 当前筛选条件
+ * @param metrics 分析的指标
+ * @param dimension 阈值异常与风险单元的分组维度
+ * @returns 报告生成的输入
+ */
+export async function collectInsightInput(
+  filters: FilterConditions,
+  metrics: InsightMetric[],
+  dimension: keyof FilterDimensions
+): Promise<InsightReportInput> {
+  const otherFilters: FilterConditions = { ...filters };
+  delete otherFilters.policy_start_year;
+  delete otherFilters.week_number;
+
+  const comparison = await compareMetrics(filters, 'previous_week', undefined, db);
+  const { currentPeriod, baselinePeriod } = comparison;
+
+  // 截至当期的时间序列
+  const series = (await db.getTimeSeriesData('year_week', otherFilters)).filter(result => {
+    if (!currentPeriod) return false;
+    const year = Number(result.dimensions.policy_start_year);
+    const week = Number(result.dimensions.week_number);
+    return year < currentPeriod.year || (year === currentPeriod.year && week <= currentPeriod.week);
+  });
+
+  const units = currentPeriod
+    ? await db.getMetricsByDimensions([dimension], {
+      ...otherFilters,
+      policy_start_year: currentPeriod.year,
+      week_number: currentPeriod.week
+    })
+    : [];
+
+  const attributions: MetricAttributionResult[] = [];
+  if (currentPeriod && baselinePeriod && comparison.metrics.signed_premium_yuan?.baseline !== null) {
+    const attributable = metrics.filter(
+      (metric): metric is AttributionMetric => (ATTRIBUTION_METRICS as InsightMetric[]).includes(metric)
+    );
+    for (const metric of attributable) {
+      attributions.push(await attributeMetricChange(
+        metric, currentPeriod, baselinePeriod, otherFilters, undefined, REPORT_TOP_CONTRIBUTORS
+      ));
+    }
+  }
+
+  return { filters, metrics, dimension, currentPeriod, baselinePeriod, series, units, attributions };
+}
+
+/**
+ * 生成成本趋势洞察报告（规则模板）
+ * @param filters 当前筛选条件
+ * @param metrics 分析的指标
+ * @param dimension 阈值异常与风险单元的分组维度
+ * @returns 洞察报告
+ */
+export async function generateCostTrendReport(
+  filters: FilterConditions,
+  metrics: InsightMetric[],
+  dimension: keyof FilterDimensions
+): Promise<InsightReport> {
+  return generateInsightReport(await collectInsightInput(filters, metrics, dimension));
+}
+
+/**
+ * 请求 /api/insights 由大模型生成报告
+ * @param digest 匿名化摘要
+ * @returns 模型输出及提供方名称
+ */
+async function requestLLMInsight(digest: InsightDigest): Promise<{ markdown: string; provider: string }> {
+  const response = await fetch('/api/insights', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ digest })
+  });
+  const body: ApiResponse<{ markdown: string; provider: string }> = await response.json();
+  if (!response.ok || !body.success) {
+    throw new Error(body.message || `请求失败: ${response.status}`);
+  }
+  return body.data;
+}
+
+/**
+ * 生成大模型洞察报告
+ * 仅发送由聚合结果构建的匿名化摘要；接口不可用或输出不符合三段式结构时回退到规则模板报告
+ * @param filters 当前筛选条件
+ * @param metrics 分析的指标
+ * @param dimension 阈值异常与风险单元的分组维度
+ * @returns 洞察报告（source 标明实际来源）
+ */
+export async function generateLLMInsightReport(
+  filters: FilterConditions,
+  metrics: InsightMetric[],
+  dimension: keyof FilterDimensions
+): Promise<InsightReport> {
+  const input = await collectInsightInput(filters, metrics, dimension);
+  const template = generateInsightReport(input);
+  const { digest, aliases } = buildInsightDigest(input);
+
+  try {
+    const { markdown, provider } = await requestLLMInsight(digest);
+    const restored = restoreAliases(markdown, aliases);
+    // 服务端已校验，前端再校验一次以防代理或缓存篡改
+    const errors = validateInsightMarkdown(restored);
+    if (errors.length > 0) {
+      throw new Error(`大模型输出不符合三段式结构：${errors.join('；')}`);
+    }
+    return { ...template, markdown: restored, source: 'llm', provider };
+  } catch (error) {
+    return { ...template, fallbackReason: error instanceof Error ? error.message : String(error) };
+  }
+}
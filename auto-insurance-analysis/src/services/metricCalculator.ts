@@ -11,10 +11,11 @@
 import { 
   InsuranceRecord, 
   CalculatedFields, 
-  AbsoluteValueFields, 
   FilterDimensions,
   AnalysisResult
 } from '@/types/insurance';
+import { aggregateAbsoluteFields } from '@/lib/calculations';
+import { computeMetrics, collectMetricWarnings } from '@/lib/metric-formulas';
 
 /**
  * 聚合数据接口 - 包含维度信息和聚合后的绝对值字段
@@ -33,6 +34,8 @@ export interface AggregatedData {
   expense_amount_yuan: number;
   matured_margin_contribution_yuan: number;
   variable_cost_amount_yuan: number;
+  premium_time_progress_plan_yuan: number;
+  commercial_signed_premium_yuan: number;
   
   // 记录数量
   record_count: number;
@@ -50,6 +53,7 @@ export interface MetricCalculationResult extends AggregatedData {
   expense_ratio_percent: number;
   variable_cost_ratio_percent: number;
   matured_margin_contribution_rate_percent: number;
+  premium_time_progress_achievement_rate_percent: number;
   commercial_auto_underwriting_factor: number;
   combined_ratio_percent: number;
   profit_margin_percent: number;
@@ -71,7 +75,9 @@ export const ANOMALY_THRESHOLDS = {
   // 费用率异常范围
   expense_ratio: { min: 0, max: 50 },
   // 边际贡献率异常范围
-  margin_contribution_ratio: { min: -50, max: 100 }
+  margin_contribution_ratio: { min: -50, max: 100 },
+  // 保费时间进度达成率预警下限（无计划数据时不检测）
+  premium_time_progress_achievement_rate: { min: 80 }
 };
 
 /**
@@ -140,36 +146,12 @@ export class MetricCalculator {
     groupData: InsuranceRecord[], 
     dimensionValues: Partial<FilterDimensions>
   ): AggregatedData {
-    
     // 聚合绝对值字段
-    const aggregated: AggregatedData = {
+    return {
       dimensions: dimensionValues,
       record_count: groupData.length,
-      signed_premium_yuan: this.safeSum(groupData, 'signed_premium_yuan'),
-      matured_premium_yuan: this.safeSum(groupData, 'matured_premium_yuan'),
-      commercial_premium_before_discount_yuan: this.safeSum(groupData, 'commercial_premium_before_discount_yuan'),
-      policy_count: this.safeSum(groupData, 'policy_count'),
-      claim_case_count: this.safeSum(groupData, 'claim_case_count'),
-      reported_claim_payment_yuan: this.safeSum(groupData, 'reported_claim_payment_yuan'),
-      expense_amount_yuan: this.safeSum(groupData, 'expense_amount_yuan'),
-      matured_margin_contribution_yuan: this.safeSum(groupData, 'matured_margin_contribution_yuan'),
-      variable_cost_amount_yuan: this.safeSum(groupData, 'variable_cost_amount_yuan')
+      ...aggregateAbsoluteFields(groupData)
     };
-
-    return aggregated;
-  }
-
-  /**
-   * 安全求和函数 - 处理null/undefined值
-   * @param data 数据数组
-   * @param field 字段名
-   * @returns 求和结果
-   */
-  private static safeSum(data: InsuranceRecord[], field: keyof AbsoluteValueFields): number {
-    return data.reduce((sum, record) => {
-      const value = record[field] as number;
-      return sum + (typeof value === 'number' && !isNaN(value) ? value : 0);
-    }, 0);
   }
 
   /**
@@ -178,89 +160,13 @@ export class MetricCalculator {
    * @returns 完整的指标计算结果
    */
   public static calculateMetrics(aggregatedData: AggregatedData): MetricCalculationResult {
-    const warnings: string[] = [];
     const anomalyFlags: string[] = [];
 
-    // 计算均值字段
-    const average_premium_per_policy_yuan = this.safeDivide(
-      aggregatedData.signed_premium_yuan, 
-      aggregatedData.policy_count, 
-      '单均保费计算：保单件数为0', 
-      warnings
-    );
-
-    const average_claim_payment_yuan = this.safeDivide(
-      aggregatedData.reported_claim_payment_yuan, 
-      aggregatedData.claim_case_count, 
-      '案均赔款计算：赔案件数为0', 
-      warnings
-    );
-
-    // 计算率值字段
-    const expense_ratio_percent = this.safeDivide(
-      aggregatedData.expense_amount_yuan, 
-      aggregatedData.signed_premium_yuan, 
-      '费用率计算：签单保费为0', 
-      warnings
-    ) * 100;
-
-    const expired_loss_ratio_percent = this.safeDivide(
-      aggregatedData.reported_claim_payment_yuan, 
-      aggregatedData.matured_premium_yuan, 
-      '满期赔付率计算：满期保费为0', 
-      warnings
-    ) * 100;
-
-    const claim_frequency_percent = this.safeDivide(
-      aggregatedData.claim_case_count, 
-      aggregatedData.policy_count, 
-      '满期出险率计算：保单件数为0', 
-      warnings
-    ) * this.safeDivide(
-      aggregatedData.matured_premium_yuan, 
-      aggregatedData.signed_premium_yuan, 
-      '满期出险率计算：签单保费为0', 
-      warnings
-    ) * 100;
-
-    const variable_cost_ratio_percent = (
-      this.safeDivide(aggregatedData.expense_amount_yuan, aggregatedData.signed_premium_yuan, '', warnings) +
-      this.safeDivide(aggregatedData.reported_claim_payment_yuan, aggregatedData.matured_premium_yuan, '', warnings)
-    ) * 100;
-
-    const matured_margin_contribution_rate_percent = this.safeDivide(
-      aggregatedData.matured_margin_contribution_yuan, 
-      aggregatedData.matured_premium_yuan, 
-      '边际贡献率计算：满期保费为0', 
-      warnings
-    ) * 100;
-
-    // 计算系数字段
-    const commercial_auto_underwriting_factor = this.safeDivide(
-      aggregatedData.signed_premium_yuan, 
-      aggregatedData.commercial_premium_before_discount_yuan, 
-      '商业险自主系数计算：商业险折前保费为0', 
-      warnings
-    );
-
-    // 计算其他字段
-    const combined_ratio_percent = expense_ratio_percent + expired_loss_ratio_percent;
-    const profit_margin_percent = 100 - combined_ratio_percent;
-
-    // 合并所有计算结果
+    // 公式统一由 metric-formulas 注册表提供，结果不做舍入，展示时按公式精度格式化
     const result: MetricCalculationResult = {
       ...aggregatedData,
-      average_premium_per_policy_yuan: Math.round(average_premium_per_policy_yuan),
-      average_claim_payment_yuan: Math.round(average_claim_payment_yuan),
-      claim_frequency_percent: this.roundToDecimal(claim_frequency_percent, 1),
-      expired_loss_ratio_percent: this.roundToDecimal(expired_loss_ratio_percent, 1),
-      expense_ratio_percent: this.roundToDecimal(expense_ratio_percent, 1),
-      variable_cost_ratio_percent: this.roundToDecimal(variable_cost_ratio_percent, 1),
-      matured_margin_contribution_rate_percent: this.roundToDecimal(matured_margin_contribution_rate_percent, 1),
-      commercial_auto_underwriting_factor: this.roundToDecimal(commercial_auto_underwriting_factor, 4),
-      combined_ratio_percent: this.roundToDecimal(combined_ratio_percent, 1),
-      profit_margin_percent: this.roundToDecimal(profit_margin_percent, 1),
-      calculation_warnings: warnings,
+      ...computeMetrics(aggregatedData),
+      calculation_warnings: collectMetricWarnings(aggregatedData),
       anomaly_flags: anomalyFlags
     };
 
@@ -273,40 +179,6 @@ export class MetricCalculator {
     return result;
   }
 
-  /**
-   * 安全除法 - 处理除零情况
-   * @param numerator 分子
-   * @param denominator 分母
-   * @param warningMessage 警告信息
-   * @param warnings 警告数组
-   * @returns 计算结果
-   */
-  private static safeDivide(
-    numerator: number, 
-    denominator: number, 
-    warningMessage: string, 
-    warnings: string[]
-  ): number {
-    if (denominator === 0 || denominator === null || denominator === undefined) {
-      if (warningMessage) {
-        warnings.push(warningMessage);
-      }
-      return 0;
-    }
-    return numerator / denominator;
-  }
-
-  /**
-   * 数值四舍五入到指定小数位
-   * @param value 数值
-   * @param decimals 小数位数
-   * @returns 四舍五入后的数值
-   */
-  private static roundToDecimal(value: number, decimals: number): number {
-    const factor = Math.pow(10, decimals);
-    return Math.round(value * factor) / factor;
-  }
-
   /**
    * 异常检测
    * @param result 计算结果
@@ -316,25 +188,31 @@ export class MetricCalculator {
     // 检测变动成本率异常
     if (result.variable_cost_ratio_percent < ANOMALY_THRESHOLDS.variable_cost_ratio.min || 
         result.variable_cost_ratio_percent > ANOMALY_THRESHOLDS.variable_cost_ratio.max) {
-      anomalyFlags.push(`变动成本率异常: ${result.variable_cost_ratio_percent}%`);
+      anomalyFlags.push(`变动成本率异常: ${result.variable_cost_ratio_percent.toFixed(1)}%`);
     }
 
     // 检测满期赔付率异常
     if (result.expired_loss_ratio_percent < ANOMALY_THRESHOLDS.expired_loss_ratio.min || 
         result.expired_loss_ratio_percent > ANOMALY_THRESHOLDS.expired_loss_ratio.max) {
-      anomalyFlags.push(`满期赔付率异常: ${result.expired_loss_ratio_percent}%`);
+      anomalyFlags.push(`满期赔付率异常: ${result.expired_loss_ratio_percent.toFixed(1)}%`);
     }
 
     // 检测费用率异常
     if (result.expense_ratio_percent < ANOMALY_THRESHOLDS.expense_ratio.min || 
         result.expense_ratio_percent > ANOMALY_THRESHOLDS.expense_ratio.max) {
-      anomalyFlags.push(`费用率异常: ${result.expense_ratio_percent}%`);
+      anomalyFlags.push(`费用率异常: ${result.expense_ratio_percent.toFixed(1)}%`);
     }
 
     // 检测边际贡献率异常
     if (result.matured_margin_contribution_rate_percent < ANOMALY_THRESHOLDS.margin_contribution_ratio.min || 
         result.matured_margin_contribution_rate_percent > ANOMALY_THRESHOLDS.margin_contribution_ratio.max) {
-      anomalyFlags.push(`边际贡献率异常: ${result.matured_margin_contribution_rate_percent}%`);
+      anomalyFlags.push(`边际贡献率异常: ${result.matured_margin_contribution_rate_percent.toFixed(1)}%`);
+    }
+
+    // 检测保费时间进度达成率异常
+    if (result.premium_time_progress_plan_yuan > 0 &&
+        result.premium_time_progress_achievement_rate_percent < ANOMALY_THRESHOLDS.premium_time_progress_achievement_rate.min) {
+      anomalyFlags.push(`保费时间进度达成率异常: ${result.premium_time_progress_achievement_rate_percent.toFixed(1)}%`);
     }
   }
 
@@ -23,6 +23,13 @@ export interface AvailableWeeks {
   [year: string]: number[];
 }
 
+// 数据目录扫描结果（对应 metadata/ 下的三个元数据文件）
+export interface DataDirectoryScan {
+  catalog: DataCatalog;
+  availableYears: AvailableYears;
+  availableWeeks: AvailableWeeks;
+}
+
 // 筛选维度字段类型定义
 export interface FilterDimensions {
   // 时间维度
@@ -71,6 +78,14 @@ export interface AbsoluteValueFields {
   expense_amount_yuan: number;                    // 费用金额
   matured_margin_contribution_yuan: number;       // 满期边际贡献额
   variable_cost_amount_yuan: number;              // 变动成本金额
+
+  // 计划类（单位：元）
+  premium_time_progress_plan_yuan: number;        // 保费时间进度计划
+}
+
+// 聚合后的绝对值字段（另含按险种拆分的保费，仅在聚合时计算）
+export interface AggregatedValueFields extends AbsoluteValueFields {
+  commercial_signed_premium_yuan: number;         // 商业险签单保费（险种类型为商业保险）
 }
 
 // 计算字段类型定义（实时计算，不存储）
@@ -85,6 +100,7 @@ export interface CalculatedFields {
   expense_ratio_percent: number;                  // 费用率
   variable_cost_ratio_percent: number;            // 变动成本率
   matured_margin_contribution_rate_percent: number; // 满期边际贡献率
+  premium_time_progress_achievement_rate_percent: number; // 保费时间进度达成率
 
   // 系数类
   commercial_auto_underwriting_factor: number;    // 商业险自主定价系数
@@ -100,16 +116,16 @@ export interface InsuranceRecord extends FilterDimensions, AbsoluteValueFields {
 }
 
 // 聚合后的分析结果类型
-export interface AnalysisResult extends AbsoluteValueFields, CalculatedFields {
+export interface AnalysisResult extends AggregatedValueFields, CalculatedFields {
   // 聚合维度信息
   dimensions: Partial<FilterDimensions>;
   record_count: number;                           // 聚合记录数
 }
 
 // 筛选条件类型
-export interface FilterConditions {
+export type FilterConditions = {
   [K in keyof FilterDimensions]?: FilterDimensions[K] | FilterDimensions[K][];
-}
+};
 
 // 字段选项类型定义
 export interface FieldOptions {
@@ -160,14 +176,128 @@ export interface ApiResponse<T> {
   pageSize?: number;
 }
 
+// 导入校验规则类型
+export type ImportRule = 'parse' | 'required' | 'type' | 'range' | 'enum' | 'business';
+
+// 校验问题级别：错误行在导入时跳过，警告与提示仅报告
+export type IssueSeverity = 'error' | 'warning' | 'info';
+
+// 记录级校验问题
+export interface RecordIssue {
+  severity: IssueSeverity;
+  field: keyof InsuranceRecord | null;            // 行级问题（如列数不符）为null
+  rule: ImportRule;
+  ruleId?: string;                                // 业务规则ID（rule为business时）
+  message: string;                                // 问题说明
+  suggestion: string;                             // 修复建议
+}
+
+// 导入问题（带CSV行号与原始值）
+export interface ImportIssue extends RecordIssue {
+  row: number;                                    // CSV行号（表头为第1行）
+  rawValue: string;                               // 单元格原始值
+}
+
+// 数据导入模式：全量替换（清空涉及的年度/周次分区）/ 增量追加 / 智能合并（按维度主键保留最新快照）
+export type ImportMode = 'replace' | 'append' | 'merge';
+
+// 单个年度/周次分区的导入变化
+export interface PartitionImportPreview {
+  key: string;
+  policy_start_year: number;
+  week_number: number;
+  existingRows: number;                           // 导入前行数
+  incomingRows: number;                           // 本次导入行数
+  inserted: number;                               // 新增行数
+  updated: number;                                // 被更新的既有行数
+  dropped: number;                                // 不再保留的行数（替换清除的既有行；合并舍弃的旧快照/重复行）
+  resultRows: number;                             // 导入后行数
+}
+
+// 导入变化预览（写入前计算，写入后作为实际变化返回）
+export interface ImportPreview {
+  mode: ImportMode;
+  incomingRows: number;
+  inserted: number;
+  updated: number;
+  dropped: number;
+  partitions: PartitionImportPreview[];
+}
+
 // 数据导入结果类型
 export interface ImportResult {
   success: boolean;
   totalRows: number;
   validRows: number;
   errorRows: number;
-  errors: string[];
-  warnings: string[];
+  errors: ImportIssue[];
+  warnings: ImportIssue[];                        // 警告与提示级问题（不跳过该行）
+  unknownValues?: UnknownEnumValue[];             // 不在允许取值范围内的维度值（按出现次数降序）
+  changes?: ImportPreview;                        // 写入存储后的实际变化
+  version?: DatasetVersion;                       // 本次导入生成的数据集版本
+}
+
+// 有枚举取值约束的维度字段
+export type EnumField = Exclude<keyof FieldOptions, 'policy_start_year' | 'week_number'>;
+
+// 枚举值映射：字段 → (原始值 → 标准值)
+export type ValueMapping = Partial<Record<EnumField, Record<string, string>>>;
+
+// 未知枚举值统计
+export interface UnknownEnumValue {
+  field: EnumField;
+  value: string;
+  count: number;                                  // 出现行数
+  rows: number[];                                 // 前几处出现的CSV行号
+}
+
+// 导入来源信息（用于记录数据集版本）
+export interface ImportSource {
+  fileName: string;
+  fileHash: string;                               // 导入记录的内容哈希（见 dataset-versions 的 hashRecords）
+  operator: string;                               // 操作人
+}
+
+// 数据集版本（每次导入生成一个版本）
+export interface DatasetVersion extends ImportSource {
+  id: string;
+  version: number;                                // 从1开始递增
+  mode: ImportMode;
+  createdAt: string;                              // ISO时间
+  rowCounts: {
+    incoming: number;                             // 本次导入行数
+    inserted: number;
+    updated: number;
+    dropped: number;
+    total: number;                                // 导入后数据集总行数
+  };
+  snapshotRange: { start: string; end: string } | null;  // 导入数据的快照日期范围
+  partitionKeys: string[];                        // 本次导入涉及的年度/周次分区
+  createdPartitionKeys: string[];                 // 导入前不存在的分区（回滚时删除）
+  organizationAggregates: AnalysisResult[];       // 导入后全量数据按三级机构的聚合
+}
+
+// 两个版本间单个机构的聚合差异
+export interface OrganizationVersionDiff {
+  organization: string;
+  from: AnalysisResult | null;                    // 该机构在基准版本中不存在时为null
+  to: AnalysisResult | null;
+  deltas: Partial<Record<keyof AbsoluteValueFields | keyof CalculatedFields | 'record_count', number>>;  // to - from
+}
+
+// 版本差异
+export interface DatasetVersionDiff {
+  from: DatasetVersion;
+  to: DatasetVersion;
+  organizations: OrganizationVersionDiff[];
+}
+
+// 数据导入进度
+export interface ImportProgress {
+  processedBytes: number;
+  totalBytes: number;
+  processedRows: number;
+  percent: number;                                // 0-100
 }
 
 // 性能监控类型
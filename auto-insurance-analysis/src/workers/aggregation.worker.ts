@@ -0,0 +1,51 @@
+/**
+ * 车险多维分析系统 - 聚合Web Worker
+ * 在后台线程直接读取IndexedDB分区列数组，完成筛选、排序与分组聚合
+ * 消息协议见 lib/aggregation-client.ts
+ */
+
+import { getColumnarStore, toPartitionFilter } from '@/lib/columnar-store';
+import {
+  aggregatePartitions,
+  findInPartitions,
+  summarizePartitions,
+  timeSeriesFromPartitions
+} from '@/lib/columnar-query';
+import type { AggregationWorkerMessage, AggregationWorkerResponse } from '@/lib/aggregation-client';
+
+/**
+ * 执行单个请求
+ * @param message 请求消息
+ * @returns 计算结果
+ */
+async function handleRequest(message: AggregationWorkerMessage): Promise<unknown> {
+  const partitions = await getColumnarStore().readPartitions(toPartitionFilter(message.filters));
+
+  switch (message.method) {
+    case 'findByConditions':
+      return findInPartitions(
+        partitions, message.filters, message.sortField, message.sortOrder, message.page, message.pageSize
+      );
+    case 'aggregateByDimensions':
+      return aggregatePartitions(partitions, message.dimensions, message.filters, message.limit);
+    case 'getSummaryStats':
+      return summarizePartitions(partitions, message.filters);
+    case 'getTimeSeriesData':
+      return timeSeriesFromPartitions(partitions, message.groupBy, message.filters);
+  }
+}
+
+self.addEventListener('message', async (event: MessageEvent<AggregationWorkerMessage>) => {
+  const message = event.data;
+  let response: AggregationWorkerResponse;
+  try {
+    response = { id: message.id, success: true, result: await handleRequest(message) };
+  } catch (error) {
+    response = {
+      id: message.id,
+      success: false,
+      message: error instanceof Error ? error.message : '聚合计算失败'
+    };
+  }
+  self.postMessage(response);
+});